@@ -0,0 +1,392 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * Minimal Aerodrome-compatible WETH / Pool / Router for local integration tests.
+ *
+ * Function signatures match Aerodrome's Router and Pool so the agent's calldata
+ * builders and pool reads work unchanged. Volatile (x*y=k) pools only, fixed
+ * 0.30% fee, no oracle, no fee accounting, no gauges. NOT FOR DEPLOYMENT.
+ */
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+
+contract MockWETH is ERC20 {
+    constructor() ERC20("Wrapped Ether", "WETH") {}
+
+    receive() external payable {
+        deposit();
+    }
+
+    function deposit() public payable {
+        _mint(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 amount) external {
+        _burn(msg.sender, amount);
+        (bool ok, ) = msg.sender.call{value: amount}("");
+        require(ok, "WETH: ETH transfer failed");
+    }
+}
+
+contract MockAerodromePool is ERC20 {
+    uint256 public constant FEE_BPS = 30;
+    uint256 public constant MINIMUM_LIQUIDITY = 1e3;
+
+    address public immutable token0;
+    address public immutable token1;
+    bool public immutable stable;
+
+    uint256 public reserve0;
+    uint256 public reserve1;
+    uint256 public blockTimestampLast;
+
+    constructor(address _token0, address _token1) ERC20("Mock Aerodrome LP", "vAMM-MOCK") {
+        token0 = _token0;
+        token1 = _token1;
+        stable = false;
+    }
+
+    function getReserves() external view returns (uint256 _reserve0, uint256 _reserve1, uint256 _blockTimestampLast) {
+        return (reserve0, reserve1, blockTimestampLast);
+    }
+
+    function getAmountOut(uint256 amountIn, address tokenIn) public view returns (uint256) {
+        require(tokenIn == token0 || tokenIn == token1, "Pool: bad token");
+        (uint256 reserveIn, uint256 reserveOut) = tokenIn == token0 ? (reserve0, reserve1) : (reserve1, reserve0);
+        if (amountIn == 0 || reserveIn == 0) return 0;
+        uint256 inAfterFee = amountIn * (10_000 - FEE_BPS);
+        return (inAfterFee * reserveOut) / (reserveIn * 10_000 + inAfterFee);
+    }
+
+    // Tokens are transferred in first (by the router); mints LP for the surplus over reserves.
+    function mint(address to) external returns (uint256 liquidity) {
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0 = balance0 - reserve0;
+        uint256 amount1 = balance1 - reserve1;
+
+        uint256 supply = totalSupply();
+        if (supply == 0) {
+            liquidity = Math.sqrt(amount0 * amount1) - MINIMUM_LIQUIDITY;
+            _mint(address(1), MINIMUM_LIQUIDITY);
+        } else {
+            liquidity = Math.min((amount0 * supply) / reserve0, (amount1 * supply) / reserve1);
+        }
+        require(liquidity > 0, "Pool: insufficient liquidity minted");
+        _mint(to, liquidity);
+        _update(balance0, balance1);
+    }
+
+    // LP tokens are transferred in first (by the router); pays out the pro-rata share.
+    function burn(address to) external returns (uint256 amount0, uint256 amount1) {
+        uint256 liquidity = balanceOf(address(this));
+        uint256 supply = totalSupply();
+        amount0 = (liquidity * IERC20(token0).balanceOf(address(this))) / supply;
+        amount1 = (liquidity * IERC20(token1).balanceOf(address(this))) / supply;
+        require(amount0 > 0 && amount1 > 0, "Pool: insufficient liquidity burned");
+
+        _burn(address(this), liquidity);
+        require(IERC20(token0).transfer(to, amount0), "Pool: transfer failed");
+        require(IERC20(token1).transfer(to, amount1), "Pool: transfer failed");
+        _update(IERC20(token0).balanceOf(address(this)), IERC20(token1).balanceOf(address(this)));
+    }
+
+    // Input is transferred in first (by the router); checks the fee-adjusted invariant.
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata) external {
+        require(amount0Out > 0 || amount1Out > 0, "Pool: insufficient output");
+        require(amount0Out < reserve0 && amount1Out < reserve1, "Pool: insufficient liquidity");
+
+        if (amount0Out > 0) require(IERC20(token0).transfer(to, amount0Out), "Pool: transfer failed");
+        if (amount1Out > 0) require(IERC20(token1).transfer(to, amount1Out), "Pool: transfer failed");
+
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0In = balance0 > reserve0 - amount0Out ? balance0 - (reserve0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > reserve1 - amount1Out ? balance1 - (reserve1 - amount1Out) : 0;
+        require(amount0In > 0 || amount1In > 0, "Pool: insufficient input");
+
+        uint256 adjusted0 = balance0 * 10_000 - amount0In * FEE_BPS;
+        uint256 adjusted1 = balance1 * 10_000 - amount1In * FEE_BPS;
+        require(adjusted0 * adjusted1 >= reserve0 * reserve1 * 10_000 ** 2, "Pool: K");
+
+        _update(balance0, balance1);
+    }
+
+    function _update(uint256 balance0, uint256 balance1) private {
+        reserve0 = balance0;
+        reserve1 = balance1;
+        blockTimestampLast = block.timestamp;
+    }
+}
+
+contract MockAerodromeRouter {
+    struct Route {
+        address from;
+        address to;
+        bool stable;
+        address factory;
+    }
+
+    MockWETH public immutable weth;
+
+    mapping(address => mapping(address => address)) private pools;
+
+    constructor(address payable _weth) {
+        weth = MockWETH(_weth);
+    }
+
+    receive() external payable {
+        require(msg.sender == address(weth), "Router: only WETH");
+    }
+
+    modifier ensure(uint256 deadline) {
+        require(deadline >= block.timestamp, "Router: expired");
+        _;
+    }
+
+    // The router doubles as the pool factory.
+    function defaultFactory() external view returns (address) {
+        return address(this);
+    }
+
+    function createPool(address tokenA, address tokenB, bool stable) external returns (address pool) {
+        require(!stable, "Router: stable pools not supported");
+        require(tokenA != tokenB, "Router: identical tokens");
+        (address token0, address token1) = sortTokens(tokenA, tokenB);
+        require(pools[token0][token1] == address(0), "Router: pool exists");
+        pool = address(new MockAerodromePool(token0, token1));
+        pools[token0][token1] = pool;
+    }
+
+    function sortTokens(address tokenA, address tokenB) public pure returns (address token0, address token1) {
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+    }
+
+    function poolFor(address tokenA, address tokenB, bool stable, address) public view returns (address pool) {
+        (address token0, address token1) = sortTokens(tokenA, tokenB);
+        pool = stable ? address(0) : pools[token0][token1];
+    }
+
+    function getAmountsOut(uint256 amountIn, Route[] memory routes) public view returns (uint256[] memory amounts) {
+        require(routes.length >= 1, "Router: invalid path");
+        amounts = new uint256[](routes.length + 1);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < routes.length; i++) {
+            address pool = _requirePool(routes[i]);
+            amounts[i + 1] = MockAerodromePool(pool).getAmountOut(amounts[i], routes[i].from);
+        }
+    }
+
+    // ========================================================================
+    // Swaps
+    // ========================================================================
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256[] memory amounts) {
+        amounts = getAmountsOut(amountIn, routes);
+        require(amounts[amounts.length - 1] >= amountOutMin, "Router: insufficient output amount");
+        _safeTransferFrom(routes[0].from, msg.sender, _requirePool(routes[0]), amountIn);
+        _swap(amounts, routes, to);
+    }
+
+    function swapExactETHForTokens(
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external payable ensure(deadline) returns (uint256[] memory amounts) {
+        require(routes[0].from == address(weth), "Router: invalid path");
+        amounts = getAmountsOut(msg.value, routes);
+        require(amounts[amounts.length - 1] >= amountOutMin, "Router: insufficient output amount");
+        weth.deposit{value: msg.value}();
+        require(weth.transfer(_requirePool(routes[0]), msg.value), "Router: WETH transfer failed");
+        _swap(amounts, routes, to);
+    }
+
+    function swapExactTokensForETH(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256[] memory amounts) {
+        require(routes[routes.length - 1].to == address(weth), "Router: invalid path");
+        amounts = getAmountsOut(amountIn, routes);
+        uint256 amountOut = amounts[amounts.length - 1];
+        require(amountOut >= amountOutMin, "Router: insufficient output amount");
+        _safeTransferFrom(routes[0].from, msg.sender, _requirePool(routes[0]), amountIn);
+        _swap(amounts, routes, address(this));
+        weth.withdraw(amountOut);
+        _safeTransferETH(to, amountOut);
+    }
+
+    // ========================================================================
+    // Liquidity
+    // ========================================================================
+
+    function quoteLiquidity(uint256 amountA, uint256 reserveA, uint256 reserveB) public pure returns (uint256) {
+        require(amountA > 0, "Router: insufficient amount");
+        require(reserveA > 0 && reserveB > 0, "Router: insufficient liquidity");
+        return (amountA * reserveB) / reserveA;
+    }
+
+    function addLiquidity(
+        address tokenA,
+        address tokenB,
+        bool stable,
+        uint256 amountADesired,
+        uint256 amountBDesired,
+        uint256 amountAMin,
+        uint256 amountBMin,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountA, uint256 amountB, uint256 liquidity) {
+        (amountA, amountB) = _addLiquidity(tokenA, tokenB, stable, amountADesired, amountBDesired, amountAMin, amountBMin);
+        address pool = poolFor(tokenA, tokenB, stable, address(this));
+        _safeTransferFrom(tokenA, msg.sender, pool, amountA);
+        _safeTransferFrom(tokenB, msg.sender, pool, amountB);
+        liquidity = MockAerodromePool(pool).mint(to);
+    }
+
+    function addLiquidityETH(
+        address token,
+        bool stable,
+        uint256 amountTokenDesired,
+        uint256 amountTokenMin,
+        uint256 amountETHMin,
+        address to,
+        uint256 deadline
+    ) external payable ensure(deadline) returns (uint256 amountToken, uint256 amountETH, uint256 liquidity) {
+        (amountToken, amountETH) = _addLiquidity(
+            token,
+            address(weth),
+            stable,
+            amountTokenDesired,
+            msg.value,
+            amountTokenMin,
+            amountETHMin
+        );
+        address pool = poolFor(token, address(weth), stable, address(this));
+        _safeTransferFrom(token, msg.sender, pool, amountToken);
+        weth.deposit{value: amountETH}();
+        require(weth.transfer(pool, amountETH), "Router: WETH transfer failed");
+        liquidity = MockAerodromePool(pool).mint(to);
+        if (msg.value > amountETH) _safeTransferETH(msg.sender, msg.value - amountETH);
+    }
+
+    function removeLiquidity(
+        address tokenA,
+        address tokenB,
+        bool stable,
+        uint256 liquidity,
+        uint256 amountAMin,
+        uint256 amountBMin,
+        address to,
+        uint256 deadline
+    ) public ensure(deadline) returns (uint256 amountA, uint256 amountB) {
+        address pool = poolFor(tokenA, tokenB, stable, address(this));
+        require(pool != address(0), "Router: pool does not exist");
+        _safeTransferFrom(pool, msg.sender, pool, liquidity);
+        (uint256 amount0, uint256 amount1) = MockAerodromePool(pool).burn(to);
+        (address token0, ) = sortTokens(tokenA, tokenB);
+        (amountA, amountB) = tokenA == token0 ? (amount0, amount1) : (amount1, amount0);
+        require(amountA >= amountAMin, "Router: insufficient A amount");
+        require(amountB >= amountBMin, "Router: insufficient B amount");
+    }
+
+    function removeLiquidityETH(
+        address token,
+        bool stable,
+        uint256 liquidity,
+        uint256 amountTokenMin,
+        uint256 amountETHMin,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountToken, uint256 amountETH) {
+        (amountToken, amountETH) = removeLiquidity(
+            token,
+            address(weth),
+            stable,
+            liquidity,
+            amountTokenMin,
+            amountETHMin,
+            address(this),
+            deadline
+        );
+        _safeTransfer(token, to, amountToken);
+        weth.withdraw(amountETH);
+        _safeTransferETH(to, amountETH);
+    }
+
+    // ========================================================================
+    // Internals
+    // ========================================================================
+
+    function _addLiquidity(
+        address tokenA,
+        address tokenB,
+        bool stable,
+        uint256 amountADesired,
+        uint256 amountBDesired,
+        uint256 amountAMin,
+        uint256 amountBMin
+    ) private view returns (uint256 amountA, uint256 amountB) {
+        address pool = poolFor(tokenA, tokenB, stable, address(this));
+        require(pool != address(0), "Router: pool does not exist");
+
+        (uint256 reserve0, uint256 reserve1, ) = MockAerodromePool(pool).getReserves();
+        (address token0, ) = sortTokens(tokenA, tokenB);
+        (uint256 reserveA, uint256 reserveB) = tokenA == token0 ? (reserve0, reserve1) : (reserve1, reserve0);
+
+        if (reserveA == 0 && reserveB == 0) {
+            return (amountADesired, amountBDesired);
+        }
+        uint256 amountBOptimal = quoteLiquidity(amountADesired, reserveA, reserveB);
+        if (amountBOptimal <= amountBDesired) {
+            require(amountBOptimal >= amountBMin, "Router: insufficient B amount");
+            return (amountADesired, amountBOptimal);
+        }
+        uint256 amountAOptimal = quoteLiquidity(amountBDesired, reserveB, reserveA);
+        require(amountAOptimal <= amountADesired && amountAOptimal >= amountAMin, "Router: insufficient A amount");
+        return (amountAOptimal, amountBDesired);
+    }
+
+    function _swap(uint256[] memory amounts, Route[] memory routes, address to) private {
+        for (uint256 i = 0; i < routes.length; i++) {
+            address pool = _requirePool(routes[i]);
+            (address token0, ) = sortTokens(routes[i].from, routes[i].to);
+            uint256 amountOut = amounts[i + 1];
+            (uint256 amount0Out, uint256 amount1Out) = routes[i].from == token0
+                ? (uint256(0), amountOut)
+                : (amountOut, uint256(0));
+            address recipient = i < routes.length - 1 ? _requirePool(routes[i + 1]) : to;
+            MockAerodromePool(pool).swap(amount0Out, amount1Out, recipient, new bytes(0));
+        }
+    }
+
+    function _requirePool(Route memory route) private view returns (address pool) {
+        pool = poolFor(route.from, route.to, route.stable, route.factory);
+        require(pool != address(0), "Router: pool does not exist");
+    }
+
+    function _safeTransfer(address token, address to, uint256 value) private {
+        require(IERC20(token).transfer(to, value), "Router: transfer failed");
+    }
+
+    function _safeTransferFrom(address token, address from, address to, uint256 value) private {
+        require(IERC20(token).transferFrom(from, to, value), "Router: transferFrom failed");
+    }
+
+    function _safeTransferETH(address to, uint256 value) private {
+        (bool ok, ) = to.call{value: value}("");
+        require(ok, "Router: ETH transfer failed");
+    }
+}
@@ -49,6 +49,11 @@ const config = {
     },
     defaultNetwork: "hardhat",
     networks: {
+        // HARDHAT_CHAIN_ID lets `npm run test:integration` run a local node that
+        // answers as Base Sepolia, so viem clients built for CHAIN=base-sepolia sign for it.
+        hardhat: {
+            chainId: parseInt(process.env.HARDHAT_CHAIN_ID || "31337", 10)
+        },
         baseSepolia: {
             chainId: 84532,
             url: process.env.BASE_SEPOLIA_RPC_URL || "",
@@ -1,8 +1,10 @@
 type Args = {
-  cmd: "health" | "status" | "tick";
+  cmd: "health" | "status" | "tick" | "orders";
   url: string;
   token?: string;
   reason?: string;
+  add?: string; // orders: JSON body for a new order
+  cancel?: string; // orders: id of the order to cancel
 };
 
 function usageAndExit(code: number): never {
@@ -12,15 +14,18 @@ function usageAndExit(code: number): never {
     [
       "Usage:",
       "  tsx scripts/control-client.ts <health|status|tick> [--url <baseUrl>] [--token <token>] [--reason <text>]",
+      "  tsx scripts/control-client.ts orders [--add <json> | --cancel <id>] [--url <baseUrl>] [--token <token>]",
       "",
       "Defaults:",
       "  --url    $CONTROL_URL or http://basedintern.railway.internal:8080",
-      "  --token  $CONTROL_TOKEN (required for status/tick)",
+      "  --token  $CONTROL_TOKEN (required for status/tick/orders)",
       "",
       "Examples:",
       "  tsx scripts/control-client.ts health",
       "  tsx scripts/control-client.ts status --token $CONTROL_TOKEN",
-      "  tsx scripts/control-client.ts tick --reason openclaw --token $CONTROL_TOKEN"
+      "  tsx scripts/control-client.ts tick --reason openclaw --token $CONTROL_TOKEN",
+      `  tsx scripts/control-client.ts orders --add '{"kind":"limit_sell","triggerPriceEth":"1","sellFractionBps":50}'`,
+      "  tsx scripts/control-client.ts orders --cancel 3"
     ].join("\n")
   );
   process.exit(code);
@@ -31,7 +36,7 @@ function parseArgs(argv: string[]): Args {
   if (first === "-h" || first === "--help" || !first) usageAndExit(0);
 
   const cmd = first as Args["cmd"];
-  if (cmd !== "health" && cmd !== "status" && cmd !== "tick") usageAndExit(2);
+  if (cmd !== "health" && cmd !== "status" && cmd !== "tick" && cmd !== "orders") usageAndExit(2);
 
   const url = process.env.CONTROL_URL?.trim() || "http://basedintern.railway.internal:8080";
   const out: Args = { cmd, url };
@@ -56,6 +61,18 @@ function parseArgs(argv: string[]): Args {
       out.reason = v;
       continue;
     }
+    if (a === "--add" && cmd === "orders") {
+      const v = argv[++i];
+      if (!v) usageAndExit(2);
+      out.add = v;
+      continue;
+    }
+    if (a === "--cancel" && cmd === "orders") {
+      const v = argv[++i];
+      if (!v) usageAndExit(2);
+      out.cancel = v;
+      continue;
+    }
     if (a === "-h" || a === "--help") usageAndExit(0);
     usageAndExit(2);
   }
@@ -114,6 +131,24 @@ async function main() {
     return;
   }
 
+  if (args.cmd === "orders") {
+    let data: unknown;
+    if (args.add) {
+      data = await requestJson(`${base}/orders`, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: args.add
+      });
+    } else if (args.cancel) {
+      data = await requestJson(`${base}/orders/${encodeURIComponent(args.cancel)}`, { method: "DELETE", headers });
+    } else {
+      data = await requestJson(`${base}/orders`, { method: "GET", headers });
+    }
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(data, null, 2));
+    return;
+  }
+
   const reason = encodeURIComponent(args.reason ?? "manual");
   const data = await requestJson(`${base}/tick?reason=${reason}`, { method: "POST", headers });
   // eslint-disable-next-line no-console
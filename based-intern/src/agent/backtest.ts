@@ -0,0 +1,331 @@
+import { parseEther, zeroAddress } from "viem";
+import type { AppConfig } from "../config.js";
+import { formatEthPrice, type PoolReserves } from "../chain/price.js";
+import { computeTwap, type PriceObservation } from "../chain/twap.js";
+import { enforceGuardrails, type Decision } from "./decision.js";
+import { recordTradeNotional, type NotionalBudgetState } from "./budget.js";
+import {
+  computePnl,
+  drawdownBps,
+  portfolioEquityWei,
+  recordFill,
+  updateDrawdownBreaker,
+  type PnlState
+} from "./pnl.js";
+import type { Strategy, StrategyContext } from "./strategy.js";
+
+/**
+ * Backtesting harness.
+ *
+ * Replays a recorded series of pool prices/reserves through a strategy and
+ * enforceGuardrails with a simulated wallet and a fake clock (each sample's
+ * timestamp is "now"). Executed trades fill against the sample's x*y=k
+ * reserves (or its spot price) minus the pool fee; gas is ignored. The
+ * recorded series is the market, so our own fills never move later prices.
+ * Strategies run with OPENAI_API_KEY cleared, so "llm" is the brain's
+ * deterministic fallback deciding from each sample's balances and price.
+ */
+
+export type BacktestSample = {
+  atMs: number;
+  priceWei: bigint; // wei per whole token
+  pool: PoolReserves | null;
+};
+
+export type BacktestOptions = {
+  strategy: Strategy;
+  startEthWei: bigint;
+  startTokenAmount: bigint;
+  swapFeeBps?: number; // pool fee taken from every fill (default 30)
+};
+
+export type BacktestTrade = {
+  atMs: number;
+  side: "BUY" | "SELL";
+  ethWei: bigint; // spent (BUY) or received (SELL)
+  tokenAmount: bigint;
+  priceWei: bigint;
+  rationale: string;
+};
+
+export type BacktestHold = {
+  atMs: number;
+  proposed: string; // the strategy's action before guardrails
+  rationale: string;
+  blockedReason: string | null; // null => the strategy itself chose HOLD
+};
+
+export type BacktestResult = {
+  ticks: number;
+  trades: BacktestTrade[];
+  holds: BacktestHold[];
+  startEquityWei: bigint;
+  finalEquityWei: bigint;
+  pnlWei: bigint;
+  pnlBps: number;
+  holdOnlyEquityWei: bigint; // doing nothing, valued at the last price
+  maxDrawdownBps: number;
+  realizedPnlWei: bigint;
+  finalEthWei: bigint;
+  finalTokenAmount: bigint;
+};
+
+// What the guardrails read from AgentState, simulated.
+type SimState = NotionalBudgetState &
+  PnlState & {
+    tradesExecutedToday: number;
+    lastExecutedTradeAtMs: number | null;
+    tradeDayUtc: string | null;
+  };
+
+// ============================================================================
+// Data loading
+// ============================================================================
+
+/**
+ * Parse recorded samples from JSON (an array of objects) or CSV (header row).
+ * Fields: `atMs` or `timestamp` (ISO), plus `priceWei`, `price` (ETH per
+ * token) or both `wethReserve` and `tokenReserve` (raw units). Reserves, when
+ * present, also drive fills and the depth guardrails.
+ */
+export function parseBacktestData(text: string, tokenDecimals = 18): BacktestSample[] {
+  const trimmed = text.trim();
+  const rows: Record<string, unknown>[] = trimmed.startsWith("[") ? JSON.parse(trimmed) : parseCsv(trimmed);
+
+  const samples = rows.map((row, i) => {
+    try {
+      return parseSample(row, tokenDecimals);
+    } catch (err) {
+      throw new Error(`backtest row ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  return samples.sort((a, b) => a.atMs - b.atMs);
+}
+
+function parseSample(row: Record<string, unknown>, tokenDecimals: number): BacktestSample {
+  const str = (k: string) => (row[k] === undefined || row[k] === null || row[k] === "" ? null : String(row[k]).trim());
+
+  const atMs = str("atMs") !== null ? Number(str("atMs")) : Date.parse(str("timestamp") ?? "");
+  if (!Number.isFinite(atMs)) throw new Error("missing atMs/timestamp");
+
+  const weth = str("wethReserve");
+  const token = str("tokenReserve");
+  const pool: PoolReserves | null =
+    weth !== null && token !== null
+      ? { source: "backtest", wethReserve: BigInt(weth), tokenReserve: BigInt(token) }
+      : null;
+
+  let priceWei: bigint;
+  if (str("priceWei") !== null) priceWei = BigInt(str("priceWei")!);
+  else if (str("price") !== null) priceWei = parseEther(str("price")!);
+  else if (pool && pool.tokenReserve > 0n) {
+    priceWei = (pool.wethReserve * 10n ** BigInt(tokenDecimals)) / pool.tokenReserve;
+  } else throw new Error("needs priceWei, price or wethReserve+tokenReserve");
+  if (priceWei <= 0n) throw new Error("price must be > 0");
+
+  return { atMs, priceWei, pool };
+}
+
+function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...lines] = text.split(/\r?\n/).filter((l) => l.trim() && !l.startsWith("#"));
+  if (header === undefined) throw new Error("backtest data is empty (expected a JSON array or a CSV header row)");
+  const cols = header.split(",").map((c) => c.trim());
+  return lines.map((line) => {
+    const cells = line.split(",");
+    return Object.fromEntries(cols.map((c, i) => [c, (cells[i] ?? "").trim()]));
+  });
+}
+
+/**
+ * Config for a backtest run: trading on, simulation-only switches off, and fee
+ * ceilings disabled (there is no gas market to replay).
+ */
+export function backtestConfig(cfg: AppConfig): AppConfig {
+  return {
+    ...cfg,
+    TRADING_ENABLED: true,
+    KILL_SWITCH: false,
+    DRY_RUN: false,
+    ROUTER_TYPE: !cfg.ROUTER_TYPE || cfg.ROUTER_TYPE === "unknown" ? "aerodrome" : cfg.ROUTER_TYPE,
+    ROUTER_ADDRESS: cfg.ROUTER_ADDRESS || zeroAddress,
+    MAX_FEE_PER_GAS_GWEI: "0",
+    MAX_L1_FEE_ETH: "0",
+    MAX_GAS_COST_BPS: 0
+  };
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+export async function runBacktest(
+  cfg: AppConfig,
+  samples: BacktestSample[],
+  opts: BacktestOptions
+): Promise<BacktestResult> {
+  if (samples.length === 0) throw new Error("backtest needs at least one sample");
+  // Offline: no LLM calls either, so the llm strategy takes the brain's deterministic fallback.
+  cfg = { ...cfg, OPENAI_API_KEY: undefined };
+  const decimals = cfg.TOKEN_DECIMALS ?? 18;
+  const feeBps = BigInt(opts.swapFeeBps ?? 30);
+
+  let ethWei = opts.startEthWei;
+  let tokenAmount = opts.startTokenAmount;
+  let state: SimState = { tradesExecutedToday: 0, lastExecutedTradeAtMs: null, tradeDayUtc: null };
+  const history: PriceObservation[] = [];
+  const trades: BacktestTrade[] = [];
+  const holds: BacktestHold[] = [];
+  let peakEquity = 0n;
+  let maxDrawdownBps = 0;
+
+  for (const sample of samples) {
+    const now = new Date(sample.atMs);
+    const day = now.toISOString().slice(0, 10);
+    if (state.tradeDayUtc !== day) state = { ...state, tradeDayUtc: day, tradesExecutedToday: 0 };
+
+    history.push({ atMs: sample.atMs, source: "backtest", priceWei: sample.priceWei.toString(), blockNumber: null });
+    const twap = computeTwap(history, sample.atMs, cfg.TWAP_WINDOW_MINUTES * 60_000, cfg.TWAP_MIN_OBSERVATIONS);
+
+    const equity = portfolioEquityWei(ethWei, tokenAmount, sample.priceWei, decimals);
+    state = updateDrawdownBreaker(cfg, state, equity, now);
+
+    const ctx: StrategyContext = {
+      cfg,
+      state,
+      now,
+      wallet: zeroAddress,
+      ethWei,
+      internAmount: tokenAmount,
+      spotPriceWei: sample.priceWei,
+      twapPriceWei: twap?.twapPriceWei ?? null,
+      pool: sample.pool,
+      fees: null,
+      priceHistory: history,
+      brain: {
+        wallet: zeroAddress,
+        ethWei,
+        internAmount: tokenAmount,
+        internDecimals: decimals,
+        priceText: formatEthPrice(sample.priceWei)
+      }
+    };
+
+    let decision: Decision;
+    let proposed: string;
+    try {
+      const proposal = await opts.strategy.propose(cfg, ctx);
+      proposed = proposal.action;
+      decision = enforceGuardrails(proposal, ctx);
+    } catch (err) {
+      proposed = "ERROR";
+      decision = enforceGuardrails(
+        { action: "HOLD", rationale: `strategy failed: ${err instanceof Error ? err.message : String(err)}` },
+        ctx
+      );
+    }
+
+    if (decision.shouldExecute && decision.action === "BUY" && decision.buySpendWei !== null) {
+      const out = fillOut("BUY", decision.buySpendWei, sample, decimals, feeBps);
+      ethWei -= decision.buySpendWei;
+      tokenAmount += out;
+      trades.push(trade(sample, "BUY", decision.buySpendWei, out, decision.rationale));
+      state = recordFill(state, { side: "BUY", tokenAmount: out, ethWei: decision.buySpendWei }, now, decimals);
+      state = recordTradeNotional(state, "BUY", decision.buySpendWei, now);
+      state = { ...state, tradesExecutedToday: state.tradesExecutedToday + 1, lastExecutedTradeAtMs: sample.atMs };
+    } else if (decision.shouldExecute && decision.action === "SELL" && decision.sellAmount !== null) {
+      const out = fillOut("SELL", decision.sellAmount, sample, decimals, feeBps);
+      tokenAmount -= decision.sellAmount;
+      ethWei += out;
+      trades.push(trade(sample, "SELL", out, decision.sellAmount, decision.rationale));
+      state = recordFill(state, { side: "SELL", tokenAmount: decision.sellAmount, ethWei: out }, now, decimals);
+      state = recordTradeNotional(state, "SELL", out, now);
+      state = { ...state, tradesExecutedToday: state.tradesExecutedToday + 1, lastExecutedTradeAtMs: sample.atMs };
+    } else {
+      const blockedReason =
+        decision.action === "ROTATE" ? "ROTATE is not simulated in backtests" : decision.blockedReason;
+      holds.push({ atMs: sample.atMs, proposed, rationale: decision.rationale, blockedReason });
+    }
+
+    // Mark to market after this sample's fill.
+    const mark = portfolioEquityWei(ethWei, tokenAmount, sample.priceWei, decimals);
+    if (mark > peakEquity) peakEquity = mark;
+    maxDrawdownBps = Math.max(maxDrawdownBps, drawdownBps(peakEquity, mark));
+  }
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const startEquityWei = portfolioEquityWei(opts.startEthWei, opts.startTokenAmount, first.priceWei, decimals);
+  const finalEquityWei = portfolioEquityWei(ethWei, tokenAmount, last.priceWei, decimals);
+  const pnlWei = finalEquityWei - startEquityWei;
+
+  return {
+    ticks: samples.length,
+    trades,
+    holds,
+    startEquityWei,
+    finalEquityWei,
+    pnlWei,
+    pnlBps: startEquityWei > 0n ? Number((pnlWei * 10_000n) / startEquityWei) : 0,
+    holdOnlyEquityWei: portfolioEquityWei(opts.startEthWei, opts.startTokenAmount, last.priceWei, decimals),
+    maxDrawdownBps,
+    realizedPnlWei: computePnl(state, last.priceWei, decimals).realizedPnlWei,
+    finalEthWei: ethWei,
+    finalTokenAmount: tokenAmount
+  };
+}
+
+// x*y=k output net of the pool fee; falls back to the spot price without reserves.
+function fillOut(
+  side: "BUY" | "SELL",
+  amountIn: bigint,
+  sample: BacktestSample,
+  decimals: number,
+  feeBps: bigint
+): bigint {
+  const inAfterFee = (amountIn * (10_000n - feeBps)) / 10_000n;
+  const unit = 10n ** BigInt(decimals);
+  if (sample.pool) {
+    const [reserveIn, reserveOut] =
+      side === "BUY"
+        ? [sample.pool.wethReserve, sample.pool.tokenReserve]
+        : [sample.pool.tokenReserve, sample.pool.wethReserve];
+    return (reserveOut * inAfterFee) / (reserveIn + inAfterFee);
+  }
+  return side === "BUY" ? (inAfterFee * unit) / sample.priceWei : (inAfterFee * sample.priceWei) / unit;
+}
+
+function trade(
+  sample: BacktestSample,
+  side: "BUY" | "SELL",
+  ethWei: bigint,
+  tokenAmount: bigint,
+  rationale: string
+): BacktestTrade {
+  return { atMs: sample.atMs, side, ethWei, tokenAmount, priceWei: sample.priceWei, rationale };
+}
+
+/**
+ * JSON-safe summary for logs (bigints as strings).
+ */
+export function backtestResultToJson(r: BacktestResult): Record<string, unknown> {
+  const holdReasons: Record<string, number> = {};
+  for (const h of r.holds) {
+    const key = h.blockedReason ?? "strategy chose HOLD";
+    holdReasons[key] = (holdReasons[key] ?? 0) + 1;
+  }
+  return {
+    ticks: r.ticks,
+    trades: r.trades.length,
+    holds: r.holds.length,
+    holdReasons,
+    startEquityWei: r.startEquityWei.toString(),
+    finalEquityWei: r.finalEquityWei.toString(),
+    pnlWei: r.pnlWei.toString(),
+    pnlBps: r.pnlBps,
+    holdOnlyEquityWei: r.holdOnlyEquityWei.toString(),
+    maxDrawdownBps: r.maxDrawdownBps,
+    realizedPnlWei: r.realizedPnlWei.toString(),
+    finalEthWei: r.finalEthWei.toString(),
+    finalTokenAmount: r.finalTokenAmount.toString()
+  };
+}
@@ -0,0 +1,113 @@
+import { formatEther } from "viem";
+import type { AppConfig } from "../config.js";
+import { safeParseEther } from "../utils.js";
+
+/**
+ * Rolling ETH notional budgets. DAILY_TRADE_CAP only counts trades and
+ * MAX_SPEND_ETH_PER_TRADE only sizes one trade, so raising either silently
+ * multiplies exposure; these budgets cap total ETH moved over 24h and 7d.
+ */
+
+export type TradeNotional = {
+  atMs: number;
+  side: "BUY" | "SELL";
+  ethWei: string; // BUY: ETH spent, SELL: ETH received (stringified bigint for JSON state)
+};
+
+// AgentState fields used by the budget (persisted with the rest of state).
+export type NotionalBudgetState = {
+  tradeNotionals?: TradeNotional[];
+};
+
+export type NotionalTotals = {
+  boughtWei: bigint;
+  soldWei: bigint;
+  netWei: bigint; // bought - sold (positive => net ETH into INTERN)
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Append an executed trade's ETH notional. Entries older than 7d are dropped,
+ * so state stays bounded by the trade rate.
+ */
+export function recordTradeNotional<S extends NotionalBudgetState>(
+  state: S,
+  side: "BUY" | "SELL",
+  ethWei: bigint,
+  at: Date
+): S {
+  const cutoff = at.getTime() - WEEK_MS;
+  const kept = (state.tradeNotionals ?? []).filter((t) => t.atMs > cutoff);
+  return {
+    ...state,
+    tradeNotionals: [...kept, { atMs: at.getTime(), side, ethWei: ethWei.toString() }]
+  };
+}
+
+export function notionalTotals(state: NotionalBudgetState, nowMs: number, windowMs: number): NotionalTotals {
+  const cutoff = nowMs - windowMs;
+  let boughtWei = 0n;
+  let soldWei = 0n;
+  for (const t of state.tradeNotionals ?? []) {
+    if (t.atMs <= cutoff || t.atMs > nowMs) continue;
+    if (t.side === "BUY") boughtWei += BigInt(t.ethWei);
+    else soldWei += BigInt(t.ethWei);
+  }
+  return { boughtWei, soldWei, netWei: boughtWei - soldWei };
+}
+
+type WindowLimits = { label: string; windowMs: number; buy: string; sell: string; net: string };
+
+function windowLimits(cfg: AppConfig): WindowLimits[] {
+  return [
+    { label: "24h", windowMs: DAY_MS, buy: cfg.MAX_BUY_ETH_24H, sell: cfg.MAX_SELL_ETH_24H, net: cfg.MAX_NET_ETH_24H },
+    { label: "7d", windowMs: WEEK_MS, buy: cfg.MAX_BUY_ETH_7D, sell: cfg.MAX_SELL_ETH_7D, net: cfg.MAX_NET_ETH_7D }
+  ];
+}
+
+/**
+ * True when any rolling budget is configured; a SELL then needs an ETH
+ * valuation before it can be checked.
+ */
+export function notionalBudgetsEnabled(cfg: AppConfig): boolean {
+  return windowLimits(cfg).some((w) => [w.buy, w.sell, w.net].some((v) => safeParseEther(v) > 0n));
+}
+
+/**
+ * Check a proposed trade against the rolling budgets. `ethWei` is the ETH
+ * the trade would spend (BUY) or receive (SELL). Returns a blockedReason,
+ * or null when the trade fits. Limits of "0" are disabled.
+ */
+export function checkNotionalBudget(
+  cfg: AppConfig,
+  state: NotionalBudgetState,
+  side: "BUY" | "SELL",
+  ethWei: bigint,
+  now: Date
+): string | null {
+  for (const w of windowLimits(cfg)) {
+    const totals = notionalTotals(state, now.getTime(), w.windowMs);
+    const bought = totals.boughtWei + (side === "BUY" ? ethWei : 0n);
+    const sold = totals.soldWei + (side === "SELL" ? ethWei : 0n);
+    const net = bought - sold;
+
+    const buyCap = safeParseEther(w.buy);
+    if (side === "BUY" && buyCap > 0n && bought > buyCap) {
+      return `${w.label} buy budget exceeded (${formatEther(bought)} ETH > ${w.buy} ETH)`;
+    }
+    const sellCap = safeParseEther(w.sell);
+    if (side === "SELL" && sellCap > 0n && sold > sellCap) {
+      return `${w.label} sell budget exceeded (${formatEther(sold)} ETH > ${w.sell} ETH)`;
+    }
+    // Net is checked in both directions, but only a trade that grows |net| can breach it.
+    const netCap = safeParseEther(w.net);
+    const absNet = net < 0n ? -net : net;
+    const growsNet = side === "BUY" ? net > 0n : net < 0n;
+    if (netCap > 0n && growsNet && absNet > netCap) {
+      return `${w.label} net budget exceeded (${formatEther(net)} ETH, max ±${w.net} ETH)`;
+    }
+  }
+  return null;
+}
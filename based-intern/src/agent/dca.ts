@@ -0,0 +1,198 @@
+import { formatUnits, parseUnits, type Address } from "viem";
+import type { AppConfig, DcaAsset } from "../config.js";
+import type { ChainClients } from "../chain/client.js";
+import { quoteBuyImpactBps } from "../chain/dex/aggregator.js";
+import { nextCronTime, parseCron, previousCronTime, safeParseEther } from "../utils.js";
+import type { Decision, DecisionContext, ProposedAction } from "./decision.js";
+
+/**
+ * DCA scheduler (DCA_ENABLED=true).
+ *
+ * Buys a fixed DCA_AMOUNT of INTERN with ETH or USDC on a cron schedule
+ * (DCA_SCHEDULE, UTC). Each slot runs at most once: slots missed while the agent
+ * was down collapse into the latest one instead of being replayed, and a slot
+ * that is skipped (price impact too high, lifetime cap reached, guardrails)
+ * is recorded and not retried. Installments are ordinary proposals (BUY with a
+ * requested size, or a USDC -> INTERN ROTATE) that go through
+ * enforceGuardrails like everything else.
+ */
+
+export type DcaInstallment = {
+  slotMs: number;
+  number: number | null; // 1-based count of executed installments; null when skipped
+  status: "executed" | "skipped";
+  asset: DcaAsset;
+  amount: string; // human units of `asset`
+  amountRaw: string;
+  txHash: string | null;
+  reason: string | null; // why it was skipped
+  atMs: number;
+};
+
+export type DcaState = {
+  dcaLastSlotMs?: number | null;
+  dcaInstallments?: DcaInstallment[];
+  dcaSpentRaw?: string; // lifetime spend in DCA_ASSET base units
+  dcaExecutedCount?: number;
+};
+
+export type DcaPlan = {
+  slotMs: number;
+  asset: DcaAsset;
+  amountRaw: bigint;
+  proposal: ProposedAction | null; // null => skipped
+  skipReason: string | null;
+};
+
+const MAX_INSTALLMENT_HISTORY = 20;
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * The slot to run now, or null when the latest scheduled time has already
+ * been handled.
+ */
+export function dueDcaSlot(cfg: AppConfig, state: DcaState, now: Date): Date | null {
+  if (!cfg.DCA_ENABLED) return null;
+  const slot = previousCronTime(parseCron(cfg.DCA_SCHEDULE), now);
+  if (!slot) return null;
+  if (state.dcaLastSlotMs != null && slot.getTime() <= state.dcaLastSlotMs) return null;
+  return slot;
+}
+
+export function nextDcaTime(cfg: AppConfig, now: Date): Date | null {
+  if (!cfg.DCA_ENABLED) return null;
+  return nextCronTime(parseCron(cfg.DCA_SCHEDULE), now);
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Installment for the due slot (null when nothing is due). Applies the
+ * lifetime DCA_MAX_TOTAL (clamping the last installment to what is left) and
+ * skips when the INTERN leg would move the pool more than
+ * DCA_MAX_PRICE_IMPACT_BPS. The impact is quoted on-chain for the installment
+ * itself on its best route (quoteBuyImpactBps: curve included, pool fee left
+ * out, so stable and V3 pools are priced correctly).
+ */
+export async function planDcaInstallment(
+  cfg: AppConfig,
+  state: DcaState,
+  ctx: DecisionContext,
+  clients: ChainClients
+): Promise<DcaPlan | null> {
+  const slot = dueDcaSlot(cfg, state, ctx.now);
+  if (!slot) return null;
+
+  const asset = cfg.DCA_ASSET;
+  const decimals = dcaAssetDecimals(cfg);
+  const base = { slotMs: slot.getTime(), asset };
+  const skip = (amountRaw: bigint, reason: string): DcaPlan => ({
+    ...base,
+    amountRaw,
+    proposal: null,
+    skipReason: reason
+  });
+
+  let amountRaw = parseUnits(cfg.DCA_AMOUNT, decimals);
+  const maxTotalRaw = parseUnits(cfg.DCA_MAX_TOTAL, decimals);
+  if (maxTotalRaw > 0n) {
+    const remaining = maxTotalRaw - BigInt(state.dcaSpentRaw ?? "0");
+    if (remaining <= 0n) return skip(0n, `DCA_MAX_TOTAL reached (${cfg.DCA_MAX_TOTAL} ${asset})`);
+    if (amountRaw > remaining) amountRaw = remaining;
+  }
+
+  let notionalWei = amountRaw;
+  if (asset === "USDC") {
+    const usdc = ctx.portfolio?.holdings.find((h) => h.symbol === "USDC");
+    if (!usdc?.priceWei) return skip(amountRaw, "USDC price unknown");
+    notionalWei = (amountRaw * usdc.priceWei) / 10n ** BigInt(decimals);
+  }
+
+  if (cfg.DCA_MAX_PRICE_IMPACT_BPS > 0) {
+    // The guardrails clamp the buy to MAX_SPEND_ETH_PER_TRADE, so larger installments are quoted at the cap.
+    const capWei = safeParseEther(cfg.MAX_SPEND_ETH_PER_TRADE);
+    const spendWei = capWei > 0n && notionalWei > capWei ? capWei : notionalWei;
+    const impactBps = cfg.TOKEN_ADDRESS
+      ? await quoteBuyImpactBps(cfg, clients, cfg.TOKEN_ADDRESS as Address, spendWei)
+      : null;
+    if (impactBps === null) return skip(amountRaw, "price impact unknown (no quote)");
+    if (impactBps > cfg.DCA_MAX_PRICE_IMPACT_BPS) {
+      return skip(amountRaw, `price impact ${impactBps}bps > ${cfg.DCA_MAX_PRICE_IMPACT_BPS}bps`);
+    }
+  }
+
+  const rationale = `dca: ${formatUnits(amountRaw, decimals)} ${asset} installment for ${isoMinute(slot)}`;
+  const proposal: ProposedAction =
+    asset === "ETH"
+      ? { action: "BUY", rationale, buySpendWei: amountRaw }
+      : {
+          action: "ROTATE",
+          rationale,
+          rotate: { from: "USDC", to: (cfg.TOKEN_SYMBOL ?? "INTERN").toUpperCase(), fractionBps: 10_000, amountRaw }
+        };
+  return { ...base, amountRaw, proposal, skipReason: null };
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Mark the plan's slot as handled. The installment counts as executed only
+ * when the guardrails let it through and a tx was sent; the amount recorded
+ * is what the decision actually spent (caps may have shrunk it).
+ */
+export function recordDcaInstallment<S extends DcaState>(
+  state: S,
+  cfg: AppConfig,
+  plan: DcaPlan,
+  decision: Decision | null,
+  txHash: string | null,
+  now: Date
+): { state: S; installment: DcaInstallment } {
+  const executed = plan.proposal !== null && decision?.shouldExecute === true && txHash !== null;
+  const spentRaw = executed ? decision?.buySpendWei ?? decision?.rotation?.amountIn ?? plan.amountRaw : plan.amountRaw;
+  const count = (state.dcaExecutedCount ?? 0) + (executed ? 1 : 0);
+
+  const installment: DcaInstallment = {
+    slotMs: plan.slotMs,
+    number: executed ? count : null,
+    status: executed ? "executed" : "skipped",
+    asset: plan.asset,
+    amount: formatUnits(spentRaw, dcaAssetDecimals(cfg)),
+    amountRaw: spentRaw.toString(),
+    txHash: executed ? txHash : null,
+    reason: executed ? null : plan.skipReason ?? decision?.blockedReason ?? "not executed",
+    atMs: now.getTime()
+  };
+
+  return {
+    state: {
+      ...state,
+      dcaLastSlotMs: plan.slotMs,
+      dcaInstallments: [...(state.dcaInstallments ?? []), installment].slice(-MAX_INSTALLMENT_HISTORY),
+      dcaSpentRaw: (BigInt(state.dcaSpentRaw ?? "0") + (executed ? spentRaw : 0n)).toString(),
+      dcaExecutedCount: count
+    },
+    installment
+  };
+}
+
+export function describeDcaInstallment(i: DcaInstallment): string {
+  if (i.status === "executed") return `#${i.number} ${i.amount} ${i.asset} (slot ${isoMinute(new Date(i.slotMs))})`;
+  return `skipped ${i.amount} ${i.asset} (slot ${isoMinute(new Date(i.slotMs))}): ${i.reason}`;
+}
+
+function dcaAssetDecimals(cfg: AppConfig): number {
+  if (cfg.DCA_ASSET === "ETH") return 18;
+  return cfg.PORTFOLIO_TOKENS.find((t) => t.symbol === "USDC")?.decimals ?? 6;
+}
+
+function isoMinute(d: Date): string {
+  return d.toISOString().slice(0, 16) + "Z";
+}
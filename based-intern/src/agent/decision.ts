@@ -1,18 +1,34 @@
-import { parseEther, type Address } from "viem";
-import type { AppConfig } from "../config.js";
+import { formatEther, type Address } from "viem";
+import type { AppConfig, PortfolioTokenConfig } from "../config.js";
 import type { AgentState } from "./state.js";
+import { twapDeviationBps } from "../chain/twap.js";
+import { estimatePriceImpactBps, poolTvlWei, type PoolReserves } from "../chain/price.js";
+import { checkNotionalBudget, notionalBudgetsEnabled } from "./budget.js";
+import { isDrawdownBreakerTripped } from "./pnl.js";
+import type { SimulationResult } from "../chain/simulate.js";
+import { checkFeeCeilings, feeCeilingsEnabled, type FeeQuote } from "../chain/fees.js";
+import { DEFAULT_SWAP_GAS } from "../chain/dex/aggregator.js";
+import { planRotation, type Portfolio, type RotationPlan, type RotationProposal } from "./portfolio.js";
+import { safeParseEther } from "../utils.js";
 
 export type ProposedAction = {
-  action: "BUY" | "SELL" | "HOLD";
+  action: "BUY" | "SELL" | "HOLD" | "ROTATE";
   rationale: string;
+  rotate?: RotationProposal; // required for ROTATE
+  // Requested sizes (e.g. from the rebalancer); still clamped by the caps below
+  buySpendWei?: bigint;
+  sellAmount?: bigint;
+  // Stop-loss style exit: a SELL that skips the spot-vs-TWAP check, since the fast drop it reacts to is the deviation
+  protective?: boolean;
 };
 
 export type Decision = {
-  action: "BUY" | "SELL" | "HOLD";
+  action: "BUY" | "SELL" | "HOLD" | "ROTATE";
   rationale: string;
   blockedReason: string | null;
   buySpendWei: bigint | null;
   sellAmount: bigint | null;
+  rotation: RotationPlan | null;
   shouldExecute: boolean;
 };
 
@@ -23,6 +39,15 @@ export type DecisionContext = {
   wallet: Address;
   ethWei: bigint;
   internAmount: bigint;
+  // Spot and TWAP for the trading venue (wei per whole token); null/undefined => unknown
+  spotPriceWei?: bigint | null;
+  twapPriceWei?: bigint | null;
+  // Reserves of the pool the trade executes against; null/undefined => unknown
+  pool?: PoolReserves | null;
+  // Current fees from quoteFees(); null/undefined => unknown
+  fees?: FeeQuote | null;
+  // Multi-token portfolio from readPortfolio(); required for ROTATE
+  portfolio?: Portfolio | null;
 };
 
 export function enforceGuardrails(proposal: ProposedAction, ctx: DecisionContext): Decision {
@@ -38,6 +63,13 @@ export function enforceGuardrails(proposal: ProposedAction, ctx: DecisionContext
   if (cfg.DRY_RUN) {
     return hold("DRY_RUN=true", proposal.rationale);
   }
+  // Latched by updateDrawdownBreaker; only an operator reset clears it.
+  if (isDrawdownBreakerTripped(state)) {
+    return hold(
+      `drawdown breaker tripped (${state.drawdownBreakerReason ?? "unknown"}); operator reset required`,
+      proposal.rationale
+    );
+  }
 
   // Router config required for any execution.
   if (!cfg.ROUTER_ADDRESS || !cfg.ROUTER_TYPE || cfg.ROUTER_TYPE === "unknown") {
@@ -67,42 +99,196 @@ export function enforceGuardrails(proposal: ProposedAction, ctx: DecisionContext
       blockedReason: null,
       buySpendWei: null,
       sellAmount: null,
+      rotation: null,
       shouldExecute: false
     };
   }
 
+  // Spot vs TWAP: refuse to trade into a price that was just pushed away from its average.
+  if (cfg.TWAP_MAX_DEVIATION_BPS > 0 && !(proposal.action === "SELL" && proposal.protective)) {
+    const { spotPriceWei, twapPriceWei } = ctx;
+    if (spotPriceWei == null || twapPriceWei == null || twapPriceWei <= 0n) {
+      return hold("TWAP unavailable (not enough price observations)", proposal.rationale);
+    }
+    const deviationBps = twapDeviationBps(spotPriceWei, twapPriceWei);
+    if (deviationBps > cfg.TWAP_MAX_DEVIATION_BPS) {
+      return hold(
+        `spot deviates from TWAP by ${deviationBps}bps (max ${cfg.TWAP_MAX_DEVIATION_BPS}bps)`,
+        proposal.rationale
+      );
+    }
+  }
+
+  if (proposal.action === "ROTATE") {
+    if (!proposal.rotate) return hold("ROTATE without rotation details", proposal.rationale);
+    if (!ctx.portfolio) return hold("portfolio unavailable (set PORTFOLIO_TOKENS)", proposal.rationale);
+
+    const plan = planRotation(cfg, ctx.portfolio, proposal.rotate);
+    if (typeof plan === "string") return hold(plan, proposal.rationale);
+
+    // Depth is only known for the INTERN/WETH pool, and the budgets track INTERN flows, so both
+    // apply only to rotations into or out of INTERN.
+    const side = rotationSide(cfg, plan);
+    if (side) {
+      const amountIn = side === "SELL" ? plan.amountIn : plan.notionalWei;
+      const depthBlock = checkMarketDepth(cfg, side, amountIn, ctx.pool);
+      if (depthBlock) return hold(depthBlock, proposal.rationale);
+
+      const budgetBlock = checkNotionalBudget(cfg, state, side, plan.notionalWei, now);
+      if (budgetBlock) return hold(budgetBlock, proposal.rationale);
+    }
+
+    const feeBlock = checkFees(cfg, ctx.fees, plan.notionalWei);
+    if (feeBlock) return hold(feeBlock, proposal.rationale);
+
+    return {
+      action: "ROTATE",
+      rationale: proposal.rationale,
+      blockedReason: null,
+      buySpendWei: null,
+      sellAmount: null,
+      rotation: plan,
+      shouldExecute: true
+    };
+  }
+
   if (proposal.action === "BUY") {
     const capWei = safeParseEther(cfg.MAX_SPEND_ETH_PER_TRADE);
     if (capWei <= 0n) return hold("MAX_SPEND_ETH_PER_TRADE not positive", proposal.rationale);
 
-    // Never attempt to spend more than current balance.
-    const spendWei = ethWei < capWei ? ethWei : capWei;
+    // Never attempt to spend more than current balance (or than requested).
+    let spendWei = ethWei < capWei ? ethWei : capWei;
+    if (proposal.buySpendWei !== undefined && proposal.buySpendWei < spendWei) spendWei = proposal.buySpendWei;
     if (spendWei <= 0n) return hold("insufficient ETH", proposal.rationale);
 
+    const depthBlock = checkMarketDepth(cfg, "BUY", spendWei, ctx.pool);
+    if (depthBlock) return hold(depthBlock, proposal.rationale);
+
+    const budgetBlock = checkNotionalBudget(cfg, state, "BUY", spendWei, now);
+    if (budgetBlock) return hold(budgetBlock, proposal.rationale);
+
+    const feeBlock = checkFees(cfg, ctx.fees, spendWei);
+    if (feeBlock) return hold(feeBlock, proposal.rationale);
+
     return {
       action: "BUY",
       rationale: proposal.rationale,
       blockedReason: null,
       buySpendWei: spendWei,
       sellAmount: null,
+      rotation: null,
       shouldExecute: true
     };
   }
 
-  // SELL
-  const sell = (internAmount * BigInt(cfg.SELL_FRACTION_BPS)) / 10_000n;
+  // SELL: SELL_FRACTION_BPS of the bag, or less when a smaller size is requested.
+  let sell = (internAmount * BigInt(cfg.SELL_FRACTION_BPS)) / 10_000n;
+  if (proposal.sellAmount !== undefined && proposal.sellAmount < sell) sell = proposal.sellAmount;
   if (sell <= 0n) return hold("no INTERN to sell (or fraction too small)", proposal.rationale);
 
+  const depthBlock = checkMarketDepth(cfg, "SELL", sell, ctx.pool);
+  if (depthBlock) return hold(depthBlock, proposal.rationale);
+
+  const proceedsWei = expectedSellProceedsWei(cfg, sell, ctx);
+  if (notionalBudgetsEnabled(cfg) || (feeCeilingsEnabled(cfg) && cfg.MAX_GAS_COST_BPS > 0)) {
+    if (proceedsWei === null) return hold("sell notional unknown (no pool or spot price)", proposal.rationale);
+  }
+
+  const budgetBlock = checkNotionalBudget(cfg, state, "SELL", proceedsWei ?? 0n, now);
+  if (budgetBlock) return hold(budgetBlock, proposal.rationale);
+
+  const feeBlock = checkFees(cfg, ctx.fees, proceedsWei ?? 0n);
+  if (feeBlock) return hold(feeBlock, proposal.rationale);
+
   return {
     action: "SELL",
     rationale: proposal.rationale,
     blockedReason: null,
     buySpendWei: null,
     sellAmount: sell,
+    rotation: null,
     shouldExecute: true
   };
 }
 
+/**
+ * Apply a preflight simulation to an executable decision: a revert turns the
+ * trade into a HOLD so no gas is spent on a transaction known to fail.
+ */
+export function holdOnSimulationRevert(decision: Decision, simulation: SimulationResult): Decision {
+  if (!decision.shouldExecute || simulation.ok) return decision;
+  return hold(`simulation reverted: ${simulation.reason}`, decision.rationale);
+}
+
+/**
+ * Re-run the liquidity floor and price-impact cap against the pool of the
+ * chosen route: the guardrails checked ctx.pool, which is read before the
+ * route is known and may belong to another venue.
+ */
+export function holdOnRouteDepth(cfg: AppConfig, decision: Decision, pool: PoolReserves | null): Decision {
+  if (!decision.shouldExecute) return decision;
+  const amountIn = decision.action === "BUY" ? decision.buySpendWei : decision.sellAmount;
+  if ((decision.action !== "BUY" && decision.action !== "SELL") || amountIn === null) return decision;
+  const depthBlock = checkMarketDepth(cfg, decision.action, amountIn, pool);
+  return depthBlock ? hold(`chosen route: ${depthBlock}`, decision.rationale) : decision;
+}
+
+// Liquidity floor and price-impact cap for the sized trade; returns a blockedReason or null.
+function checkMarketDepth(
+  cfg: AppConfig,
+  side: "BUY" | "SELL",
+  amountIn: bigint,
+  pool: PoolReserves | null | undefined
+): string | null {
+  const minTvlWei = safeParseEther(cfg.MIN_POOL_TVL_ETH);
+  if (cfg.MAX_PRICE_IMPACT_BPS <= 0 && minTvlWei <= 0n) return null;
+  if (!pool) return "pool state unavailable (cannot check liquidity/price impact)";
+
+  if (minTvlWei > 0n) {
+    const tvlWei = poolTvlWei(pool);
+    if (tvlWei < minTvlWei) {
+      return `pool TVL too low (${formatEther(tvlWei)} ETH < ${cfg.MIN_POOL_TVL_ETH} ETH)`;
+    }
+  }
+
+  if (cfg.MAX_PRICE_IMPACT_BPS > 0) {
+    const impactBps = estimatePriceImpactBps(side, amountIn, pool);
+    if (impactBps > cfg.MAX_PRICE_IMPACT_BPS) {
+      return `price impact too high (${impactBps}bps > ${cfg.MAX_PRICE_IMPACT_BPS}bps)`;
+    }
+  }
+  return null;
+}
+
+// Fee ceilings for the sized trade; a spike defers the trade to a later tick.
+function checkFees(cfg: AppConfig, fees: FeeQuote | null | undefined, tradeSizeWei: bigint): string | null {
+  if (!feeCeilingsEnabled(cfg)) return null;
+  if (!fees) return "fee data unavailable";
+  const reason = checkFeeCeilings(cfg, fees, DEFAULT_SWAP_GAS, tradeSizeWei);
+  return reason ? `deferred: ${reason}` : null;
+}
+
+// ETH a SELL is expected to receive: x*y=k output when reserves are known, else spot value.
+function expectedSellProceedsWei(cfg: AppConfig, sellAmount: bigint, ctx: DecisionContext): bigint | null {
+  if (ctx.pool && ctx.pool.tokenReserve > 0n) {
+    return (ctx.pool.wethReserve * sellAmount) / (ctx.pool.tokenReserve + sellAmount);
+  }
+  if (ctx.spotPriceWei != null && ctx.spotPriceWei > 0n) {
+    return (sellAmount * ctx.spotPriceWei) / 10n ** BigInt(cfg.TOKEN_DECIMALS ?? 18);
+  }
+  return null;
+}
+
+function touchesToken(cfg: AppConfig, token: PortfolioTokenConfig): boolean {
+  return !!cfg.TOKEN_ADDRESS && token.address.toLowerCase() === cfg.TOKEN_ADDRESS.toLowerCase();
+}
+
+// Rotations out of INTERN count as sells and into INTERN as buys; null when INTERN is on neither side.
+export function rotationSide(cfg: AppConfig, plan: RotationPlan): "BUY" | "SELL" | null {
+  if (touchesToken(cfg, plan.from)) return "SELL";
+  return touchesToken(cfg, plan.to) ? "BUY" : null;
+}
+
 function hold(blockedReason: string, rationale: string): Decision {
   return {
     action: "HOLD",
@@ -110,15 +296,7 @@ function hold(blockedReason: string, rationale: string): Decision {
     blockedReason,
     buySpendWei: null,
     sellAmount: null,
+    rotation: null,
     shouldExecute: false
   };
 }
-
-function safeParseEther(v: string): bigint {
-  try {
-    return parseEther(v);
-  } catch {
-    return 0n;
-  }
-}
-
@@ -0,0 +1,276 @@
+import { formatEther, formatUnits, parseAbi, type Address } from "viem";
+import type { AppConfig } from "../config.js";
+import type { ChainClients } from "../chain/client.js";
+import { checkFeeCeilings, estimateTxCostWei, type FeeQuote } from "../chain/fees.js";
+import { readEarnedRewards } from "../chain/gauge.js";
+import type { ProposedAction } from "./decision.js";
+import { isDrawdownBreakerTripped, type PnlState } from "./pnl.js";
+import { describeLpAction, lpPoolsFromConfig, type LpActionRecord, type LpPool, type LpPoolKey } from "./lpManager.js";
+import { trimDecimals } from "../utils.js";
+
+/**
+ * Gauge reward harvester (HARVEST_ENABLED=true).
+ *
+ * At most once per HARVEST_INTERVAL_MINUTES, reads the AERO each configured
+ * gauge has accrued to the wallet, values it in ETH through the AERO/WETH pool
+ * (AERO_POOL_ADDRESS) and claims from the gauges where it is worth at least
+ * HARVEST_MIN_GAS_MULTIPLE times the claim's gas. With HARVEST_COMPOUND the
+ * claimed AERO is then sold for WETH as an ordinary AERO -> WETH ROTATE and
+ * unwrapped, half of the ETH buys INTERN as an ordinary BUY (both through
+ * enforceGuardrails), and the pair is re-added to the INTERN/WETH pool
+ * through the LP manager. KILL_SWITCH stops harvesting;
+ * DRY_RUN records what would have been claimed. Each harvest is one record
+ * (and one receipt); lifetime totals are kept for LP campaign posts.
+ */
+
+export type GaugeRewards = {
+  pool: LpPoolKey;
+  label: string; // e.g. "INTERN/WETH"
+  gauge: Address;
+  earned: bigint; // raw AERO
+  valueWei: bigint | null; // AERO sold into AERO_POOL_ADDRESS; null => unknown
+};
+
+export type HarvestClaimPlan = {
+  claims: GaugeRewards[];
+  skipped: string[]; // "<label>: <reason>" per gauge not claimed
+};
+
+export type HarvestClaim = {
+  pool: LpPoolKey;
+  aero: string; // raw AERO
+  valueWei: string;
+  txHash: string | null; // null when simulated
+};
+
+export type HarvestCompound = {
+  aeroIn: string; // raw AERO sold (or offered, when the sale was held)
+  ethOutWei: string | null; // WETH the sale returned (balance delta); null when nothing was sold
+  buySpendWei: string | null; // ETH the guardrails let through for the INTERN buy
+  tokenBought: string | null; // raw INTERN received
+  lp: LpActionRecord | null; // re-add of the bought INTERN and the rest of the ETH
+  blockedReason: string | null; // why compounding stopped short
+};
+
+export type HarvestRecord = {
+  status: "executed" | "simulated" | "failed";
+  claims: HarvestClaim[];
+  compound: HarvestCompound | null;
+  txHashes: string[];
+  error: string | null;
+  atMs: number;
+};
+
+export type HarvestState = {
+  harvestLastMs?: number | null;
+  harvests?: HarvestRecord[];
+  harvestClaimedAeroRaw?: string; // lifetime AERO claimed on-chain
+  harvestCompoundedWei?: string; // lifetime ETH from sold AERO
+};
+
+// Typical gas for Gauge.getReward (reward accounting + AERO transfer).
+export const HARVEST_CLAIM_GAS = 150_000n;
+
+// AERO approve + swap, INTERN buy, INTERN approve + addLiquidityETH.
+export const HARVEST_COMPOUND_GAS = 800_000n;
+
+const MAX_HARVEST_HISTORY = 50;
+
+const AERO_POOL_ABI = parseAbi(["function getAmountOut(uint256 amountIn, address tokenIn) view returns (uint256)"]);
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+/** LP pools with a gauge to harvest from. */
+export function harvestPools(cfg: AppConfig): LpPool[] {
+  return lpPoolsFromConfig(cfg).filter((p) => p.gauge !== null);
+}
+
+/** ETH out for selling `amount` AERO into AERO_POOL_ADDRESS, or null when the pool can't be read. */
+export async function quoteAeroInWei(cfg: AppConfig, clients: ChainClients, amount: bigint): Promise<bigint | null> {
+  if (amount <= 0n) return 0n;
+  if (!cfg.AERO_POOL_ADDRESS || !cfg.AERO_ADDRESS) return null;
+  try {
+    return await clients.publicClient.readContract({
+      address: cfg.AERO_POOL_ADDRESS as Address,
+      abi: AERO_POOL_ABI,
+      functionName: "getAmountOut",
+      args: [amount, cfg.AERO_ADDRESS as Address]
+    });
+  } catch {
+    return null;
+  }
+}
+
+export async function readGaugeRewards(
+  cfg: AppConfig,
+  clients: ChainClients,
+  pools: LpPool[],
+  wallet: Address
+): Promise<GaugeRewards[]> {
+  return Promise.all(
+    pools
+      .filter((p) => p.gauge !== null)
+      .map(async (p) => {
+        const gauge = p.gauge as Address;
+        const earned = await readEarnedRewards(clients, gauge, wallet);
+        const valueWei = await quoteAeroInWei(cfg, clients, earned);
+        return { pool: p.key, label: p.label, gauge, earned, valueWei };
+      })
+  );
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+// A tripped drawdown breaker means HOLD only: no claims, sales or LP adds until the operator resets it.
+export function harvestDue(cfg: AppConfig, state: HarvestState & PnlState, now: Date): boolean {
+  if (!cfg.HARVEST_ENABLED || cfg.KILL_SWITCH || isDrawdownBreakerTripped(state)) return false;
+  const last = state.harvestLastMs;
+  if (last == null) return true;
+  return now.getTime() - last >= (cfg.HARVEST_INTERVAL_MINUTES ?? 0) * 60_000;
+}
+
+/**
+ * Gauges worth claiming now: the rewards' ETH value must cover
+ * HARVEST_MIN_GAS_MULTIPLE x the claim's expected fee, and the fee ceilings
+ * apply as for trades (with the rewards' value as the notional).
+ */
+export function planHarvestClaims(cfg: AppConfig, rewards: GaugeRewards[], fees: FeeQuote | null): HarvestClaimPlan {
+  const plan: HarvestClaimPlan = { claims: [], skipped: [] };
+  const multiple = BigInt(cfg.HARVEST_MIN_GAS_MULTIPLE ?? 1);
+
+  for (const r of rewards) {
+    const skip = (reason: string) => plan.skipped.push(`${r.label}: ${reason}`);
+    if (r.earned <= 0n) {
+      skip("nothing earned");
+      continue;
+    }
+    if (r.valueWei === null) {
+      skip("AERO value unknown");
+      continue;
+    }
+    if (!fees) {
+      skip("fee quote unavailable");
+      continue;
+    }
+
+    const thresholdWei = estimateTxCostWei(fees, HARVEST_CLAIM_GAS) * multiple;
+    if (r.valueWei < thresholdWei) {
+      skip(`rewards ${formatEther(r.valueWei)} ETH < ${multiple}x claim gas (${formatEther(thresholdWei)} ETH)`);
+      continue;
+    }
+    const deferral = checkFeeCeilings(cfg, fees, HARVEST_CLAIM_GAS, r.valueWei);
+    if (deferral) {
+      skip(deferral);
+      continue;
+    }
+    plan.claims.push(r);
+  }
+  return plan;
+}
+
+/**
+ * Why the claimed AERO should not be compounded now (null => go ahead). The
+ * swap, buy and re-add together must pass the same gas multiple and ceilings.
+ */
+export function compoundSkipReason(cfg: AppConfig, ethOutWei: bigint | null, fees: FeeQuote | null): string | null {
+  if (!cfg.HARVEST_COMPOUND) return "HARVEST_COMPOUND=false";
+  if (ethOutWei === null) return "AERO value unknown";
+  if (ethOutWei <= 0n) return "no AERO to sell";
+  if (!fees) return "fee quote unavailable";
+
+  const multiple = BigInt(cfg.HARVEST_MIN_GAS_MULTIPLE ?? 1);
+  const thresholdWei = estimateTxCostWei(fees, HARVEST_COMPOUND_GAS) * multiple;
+  if (ethOutWei < thresholdWei) {
+    return `AERO worth ${formatEther(ethOutWei)} ETH < ${multiple}x compound gas (${formatEther(thresholdWei)} ETH)`;
+  }
+  return checkFeeCeilings(cfg, fees, HARVEST_COMPOUND_GAS, ethOutWei);
+}
+
+/**
+ * The AERO sale as a ROTATE into WETH, so it gets the trading switches, caps,
+ * budgets and fee checks of any other swap. AERO and WETH must be in
+ * PORTFOLIO_TOKENS.
+ */
+export function compoundSaleProposal(aero: bigint): ProposedAction {
+  return {
+    action: "ROTATE",
+    rationale: `harvest: sell ${trimDecimals(formatEther(aero))} claimed AERO to compound into INTERN/WETH LP`,
+    rotate: { from: "AERO", to: "WETH", fractionBps: 10_000, amountRaw: aero }
+  };
+}
+
+/** The INTERN leg of compounding, sized at half the swap proceeds; still clamped by the guardrails. */
+export function compoundBuyProposal(ethOutWei: bigint): ProposedAction {
+  return {
+    action: "BUY",
+    rationale: `harvest: compound ${formatEther(ethOutWei)} ETH of AERO rewards into INTERN/WETH LP`,
+    buySpendWei: ethOutWei / 2n
+  };
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record a harvest. The interval restarts once anything was claimed (or
+ * simulated); a harvest whose claims all failed is retried next tick.
+ */
+export function recordHarvest<S extends HarvestState>(state: S, record: HarvestRecord): S {
+  const claimed = record.claims.filter((c) => c.txHash !== null).reduce((sum, c) => sum + BigInt(c.aero), 0n);
+  const compounded =
+    record.status !== "simulated" && record.compound?.ethOutWei ? BigInt(record.compound.ethOutWei) : 0n;
+  const startsInterval = record.status === "simulated" || record.claims.some((c) => c.txHash !== null);
+
+  return {
+    ...state,
+    harvestLastMs: startsInterval ? record.atMs : state.harvestLastMs,
+    harvests: [...(state.harvests ?? []), record].slice(-MAX_HARVEST_HISTORY),
+    harvestClaimedAeroRaw: (BigInt(state.harvestClaimedAeroRaw ?? "0") + claimed).toString(),
+    harvestCompoundedWei: (BigInt(state.harvestCompoundedWei ?? "0") + compounded).toString()
+  };
+}
+
+/** Lifetime totals in display units, for LP campaign posts. */
+export function harvestTotals(state: HarvestState): {
+  harvests: number;
+  claimedAero: string;
+  compoundedEth: string;
+  lastHarvestAt: string | null;
+} {
+  return {
+    harvests: (state.harvests ?? []).filter((h) => h.status === "executed").length,
+    claimedAero: trimDecimals(formatEther(BigInt(state.harvestClaimedAeroRaw ?? "0"))),
+    compoundedEth: trimDecimals(formatEther(BigInt(state.harvestCompoundedWei ?? "0"))),
+    lastHarvestAt: state.harvestLastMs != null ? new Date(state.harvestLastMs).toISOString() : null
+  };
+}
+
+export function describeHarvest(r: HarvestRecord, decimals: number, symbol = "INTERN"): string {
+  const aero = r.claims.reduce((sum, c) => sum + BigInt(c.aero), 0n);
+  const value = r.claims.reduce((sum, c) => sum + BigInt(c.valueWei), 0n);
+  const pools = r.claims.map((c) => `${symbol}/${c.pool}`).join(", ");
+  const gauges = r.claims.length > 1 ? "gauges" : "gauge";
+  const claimed = `${trimDecimals(formatEther(aero))} AERO (~${trimDecimals(formatEther(value))} ETH)`;
+  const parts = [`claim ${claimed} from ${pools} ${gauges}`];
+
+  const c = r.compound;
+  if (c) {
+    const steps: string[] = [];
+    if (c.ethOutWei) steps.push(`sell for ${trimDecimals(formatEther(BigInt(c.ethOutWei)))} ETH`);
+    if (c.buySpendWei && c.tokenBought) {
+      const bought = trimDecimals(formatUnits(BigInt(c.tokenBought), decimals));
+      steps.push(`buy ${bought} ${symbol} for ${trimDecimals(formatEther(BigInt(c.buySpendWei)))} ETH`);
+    }
+    if (c.lp) steps.push(describeLpAction(c.lp, decimals, symbol));
+    if (c.blockedReason) steps.push(`stopped: ${c.blockedReason}`);
+    parts.push(`compound: ${steps.join(", ")}`);
+  }
+
+  const status = r.status === "failed" ? `failed: ${r.error ?? "unknown"}` : r.status;
+  return `${parts.join("; ")} (${status})`;
+}
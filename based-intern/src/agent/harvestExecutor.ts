@@ -0,0 +1,296 @@
+import { encodeFunctionData, erc20Abi, parseAbi, type Address } from "viem";
+import type { AppConfig } from "../config.js";
+import { logger } from "../logger.js";
+import type { ChainClients } from "../chain/client.js";
+import { buildBestSwapCalldata } from "../chain/dex/aggregator.js";
+import { quoteFees, type FeeQuote } from "../chain/fees.js";
+import { buildGaugeClaimCalldata } from "../chain/gauge.js";
+import type { NonceManagerState } from "../chain/nonce.js";
+import { recordTradeNotional, type NotionalBudgetState } from "./budget.js";
+import {
+  enforceGuardrails,
+  holdOnRouteDepth,
+  holdOnSimulationRevert,
+  rotationSide,
+  type DecisionContext
+} from "./decision.js";
+import {
+  compoundBuyProposal,
+  compoundSaleProposal,
+  compoundSkipReason,
+  harvestDue,
+  harvestPools,
+  planHarvestClaims,
+  quoteAeroInWei,
+  readGaugeRewards,
+  recordHarvest,
+  type GaugeRewards,
+  type HarvestClaim,
+  type HarvestCompound,
+  type HarvestRecord,
+  type HarvestState
+} from "./harvest.js";
+import { executeLpAction, sendTxSteps, type LpTxStep } from "./lpExecutor.js";
+import { lpPoolsFromConfig, readLpPosition, type LpAction, type LpState } from "./lpManager.js";
+import { recordFill, type PnlState } from "./pnl.js";
+import { executeRotation, readPortfolio } from "./portfolio.js";
+
+/**
+ * Executes a harvest: one getReward per gauge worth claiming, then (with
+ * HARVEST_COMPOUND) a guarded AERO -> WETH rotation, a WETH unwrap, a guarded
+ * INTERN buy with half the proceeds and an LP add of the pair. Every
+ * transaction is sent through the nonce manager like the LP manager's steps.
+ */
+
+export type HarvesterState = HarvestState &
+  LpState &
+  NonceManagerState &
+  PnlState &
+  NotionalBudgetState & { tradesExecutedToday: number; lastExecutedTradeAtMs: number | null };
+
+// What the tick already knows about the market; the harvester adds its own state, time, fees and balances.
+export type HarvestMarket = Omit<DecisionContext, "cfg" | "state" | "now" | "fees" | "ethWei" | "portfolio">;
+
+const WETH_ABI = parseAbi(["function withdraw(uint256 wad)"]);
+
+/**
+ * One harvester pass; null when nothing is due or worth claiming. The tick
+ * calls this after the LP manager and sends a receipt for the record.
+ */
+export async function runHarvester<S extends HarvesterState>(
+  cfg: AppConfig,
+  clients: ChainClients,
+  state: S,
+  market: HarvestMarket,
+  now: Date = new Date()
+): Promise<{ state: S; record: HarvestRecord | null }> {
+  if (!harvestDue(cfg, state, now)) return { state, record: null };
+
+  const wallet = clients.walletAddress;
+  const rewards = await readGaugeRewards(cfg, clients, harvestPools(cfg), wallet);
+  const fees = await quoteFees(cfg, clients);
+  const plan = planHarvestClaims(cfg, rewards, fees);
+  for (const reason of plan.skipped) logger.info("harvest.skip", { reason });
+  if (plan.claims.length === 0 || !fees) return { state, record: null };
+
+  let current = state;
+  const claims: HarvestClaim[] = [];
+  const txHashes: string[] = [];
+  let compound: HarvestCompound | null = null;
+  let error: string | null = null;
+
+  if (cfg.DRY_RUN) {
+    claims.push(...plan.claims.map((c) => claimOf(c, null)));
+    if (cfg.HARVEST_COMPOUND) {
+      const aero = plan.claims.reduce((sum, c) => sum + c.earned, 0n);
+      compound = emptyCompound(aero, "DRY_RUN=true");
+    }
+  } else {
+    for (const c of plan.claims) {
+      const step = { label: "gauge_claim", req: buildGaugeClaimCalldata(c.gauge, wallet) };
+      const sent = await sendTxSteps(clients, current, [step], fees, now);
+      current = sent.state;
+      txHashes.push(...sent.txHashes);
+      if (sent.error) {
+        error = sent.error;
+        break;
+      }
+      claims.push(claimOf(c, sent.txHashes[0]));
+    }
+
+    if (!error && cfg.HARVEST_COMPOUND) {
+      const out = await compoundRewards(cfg, clients, current, market, fees, now);
+      current = out.state;
+      compound = out.compound;
+      txHashes.push(...out.txHashes);
+      error = out.error;
+    }
+  }
+
+  const record: HarvestRecord = {
+    status: cfg.DRY_RUN ? "simulated" : error ? "failed" : "executed",
+    claims,
+    compound,
+    txHashes,
+    error,
+    atMs: now.getTime()
+  };
+  const log = error ? logger.warn : logger.info;
+  log("harvest.run", {
+    status: record.status,
+    claims: claims.map((c) => ({ pool: c.pool, aero: c.aero, valueWei: c.valueWei })),
+    compound,
+    txHashes,
+    error
+  });
+  return { state: recordHarvest(current, record), record };
+}
+
+/**
+ * Sell the wallet's AERO for WETH (a guarded ROTATE) and unwrap it, buy INTERN
+ * with half the proceeds (a guarded BUY through the aggregator) and add the
+ * INTERN with matching ETH to the INTERN/WETH pool. Proceeds and balances are
+ * read from the chain after each step. A guardrail hold, skip or simulation
+ * revert ends compounding early with the ETH left in the wallet; a failed
+ * transaction is returned as the error.
+ */
+async function compoundRewards<S extends HarvesterState>(
+  cfg: AppConfig,
+  clients: ChainClients,
+  state: S,
+  market: HarvestMarket,
+  fees: FeeQuote,
+  now: Date
+): Promise<{ state: S; compound: HarvestCompound; txHashes: string[]; error: string | null }> {
+  const wallet = clients.walletAddress;
+  const weth = cfg.WETH_ADDRESS as Address;
+  const token = cfg.TOKEN_ADDRESS as Address;
+  const txHashes: string[] = [];
+  let current = state;
+
+  const aero = await readBalance(clients, cfg.AERO_ADDRESS as Address, wallet);
+  const quote = await quoteAeroInWei(cfg, clients, aero);
+  const skip = compoundSkipReason(cfg, quote, fees);
+  if (skip || quote === null) return { state, compound: emptyCompound(aero, skip), txHashes, error: null };
+
+  // 1. AERO -> WETH, through the guardrails like any other rotation
+  const ethBefore = await clients.publicClient.getBalance({ address: wallet });
+  const sale = enforceGuardrails(compoundSaleProposal(aero), {
+    ...market,
+    cfg,
+    state: current,
+    now,
+    fees,
+    ethWei: ethBefore,
+    portfolio: await readPortfolio(cfg, clients, ethBefore)
+  });
+  if (!sale.shouldExecute || sale.rotation === null) {
+    return { state, compound: emptyCompound(aero, sale.blockedReason ?? "sale not executed"), txHashes, error: null };
+  }
+  const plan = sale.rotation;
+  const compound = emptyCompound(plan.amountIn, null);
+
+  const wethBefore = await readBalance(clients, weth, wallet);
+  try {
+    const rotated = await executeRotation(cfg, clients, current, plan, fees);
+    current = rotated.state;
+    if (rotated.txHash === null) {
+      compound.blockedReason = holdOnSimulationRevert(sale, rotated.simulation).blockedReason;
+      return { state: current, compound, txHashes, error: null };
+    }
+    txHashes.push(rotated.txHash);
+    const receipt = await clients.publicClient.waitForTransactionReceipt({ hash: rotated.txHash });
+    if (receipt.status !== "success") throw new Error("harvest_swap reverted on-chain");
+  } catch (err) {
+    return { state: current, compound, txHashes, error: err instanceof Error ? err.message : String(err) };
+  }
+  const wethOut = (await readBalance(clients, weth, wallet)) - wethBefore;
+  compound.ethOutWei = wethOut.toString();
+  const side = rotationSide(cfg, plan);
+  if (side) current = recordTradeNotional(current, side, plan.notionalWei, now);
+  if (wethOut <= 0n) {
+    compound.blockedReason = "sale returned no WETH";
+    return { state: current, compound, txHashes, error: null };
+  }
+
+  const unwrap = await sendTxSteps(clients, current, [unwrapStep(weth, wethOut)], fees, now);
+  current = unwrap.state;
+  txHashes.push(...unwrap.txHashes);
+  if (unwrap.error) return { state: current, compound, txHashes, error: unwrap.error };
+
+  // 2. ETH -> INTERN, through the guardrails like any other BUY
+  const ethWei = await clients.publicClient.getBalance({ address: wallet });
+  const decision = enforceGuardrails(compoundBuyProposal(wethOut), {
+    ...market,
+    cfg,
+    state: current,
+    now,
+    fees,
+    ethWei
+  });
+  if (!decision.shouldExecute || decision.action !== "BUY" || decision.buySpendWei === null) {
+    compound.blockedReason = decision.blockedReason ?? "buy not executed";
+    return { state: current, compound, txHashes, error: null };
+  }
+  const spend = decision.buySpendWei;
+  const { swap: buy, pool: routePool } = await buildBestSwapCalldata(cfg, clients, token, wallet, "BUY", spend);
+  if (!buy) {
+    compound.blockedReason = "buy calldata unavailable";
+    return { state: current, compound, txHashes, error: null };
+  }
+  const routed = holdOnRouteDepth(cfg, decision, routePool);
+  if (!routed.shouldExecute) {
+    compound.blockedReason = routed.blockedReason;
+    return { state: current, compound, txHashes, error: null };
+  }
+
+  const before = await readBalance(clients, token, wallet);
+  const bought = await sendTxSteps(
+    clients,
+    current,
+    [{ label: "harvest_buy", req: { to: buy.to, data: buy.calldata, value: buy.value } }],
+    fees,
+    now
+  );
+  current = bought.state;
+  txHashes.push(...bought.txHashes);
+  if (bought.error) return { state: current, compound, txHashes, error: bought.error };
+
+  const tokenAmount = (await readBalance(clients, token, wallet)) - before;
+  compound.buySpendWei = spend.toString();
+  compound.tokenBought = tokenAmount.toString();
+  current = recordFill(
+    current,
+    { side: "BUY", tokenAmount, ethWei: spend, txHash: bought.txHashes[0] },
+    now,
+    cfg.TOKEN_DECIMALS ?? 18
+  );
+  current = recordTradeNotional(current, "BUY", spend, now);
+  current = { ...current, tradesExecutedToday: current.tradesExecutedToday + 1, lastExecutedTradeAtMs: now.getTime() };
+
+  // 3. Re-add the INTERN with the rest of the ETH at the pool price
+  const pool = lpPoolsFromConfig(cfg).find((p) => p.key === "WETH");
+  if (!pool) {
+    compound.blockedReason = "no INTERN/WETH pool configured";
+    return { state: current, compound, txHashes, error: null };
+  }
+  const position = await readLpPosition(clients, pool, token, wallet);
+  if (position.tokenReserve <= 0n || position.pairedReserve <= 0n) {
+    compound.blockedReason = "INTERN/WETH pool is empty";
+    return { state: current, compound, txHashes, error: null };
+  }
+  const rest = wethOut - spend;
+  const matched = (tokenAmount * position.pairedReserve) / position.tokenReserve;
+  const ethForLp = matched < rest ? matched : rest;
+  const add: LpAction = {
+    kind: "add",
+    pool: "WETH",
+    tokenAmount: (ethForLp * position.tokenReserve) / position.pairedReserve,
+    ethWei: ethForLp,
+    reason: "compound harvested AERO"
+  };
+  const lp = await executeLpAction(cfg, clients, current, add, pool, now);
+  current = lp.state;
+  compound.lp = lp.record;
+  txHashes.push(...lp.record.txHashes);
+  return { state: current, compound, txHashes, error: lp.record.error };
+}
+
+function claimOf(r: GaugeRewards, txHash: string | null): HarvestClaim {
+  return { pool: r.pool, aero: r.earned.toString(), valueWei: (r.valueWei ?? 0n).toString(), txHash };
+}
+
+function emptyCompound(aero: bigint, blockedReason: string | null): HarvestCompound {
+  return { aeroIn: aero.toString(), ethOutWei: null, buySpendWei: null, tokenBought: null, lp: null, blockedReason };
+}
+
+function unwrapStep(weth: Address, amount: bigint): LpTxStep {
+  return {
+    label: "weth_unwrap",
+    req: { to: weth, data: encodeFunctionData({ abi: WETH_ABI, functionName: "withdraw", args: [amount] }) }
+  };
+}
+
+async function readBalance(clients: ChainClients, erc20: Address, owner: Address): Promise<bigint> {
+  return clients.publicClient.readContract({ address: erc20, abi: erc20Abi, functionName: "balanceOf", args: [owner] });
+}
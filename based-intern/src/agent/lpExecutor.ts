@@ -0,0 +1,227 @@
+import { encodeFunctionData, erc20Abi, type Address } from "viem";
+import type { AppConfig } from "../config.js";
+import { logger } from "../logger.js";
+import type { ChainClients } from "../chain/client.js";
+import { applySlippage, buildAddLiquidityETHCalldata, buildRemoveLiquidityETHCalldata } from "../chain/aerodrome.js";
+import { checkFeeCeilings, feeCeilingsEnabled, quoteFees, type FeeQuote } from "../chain/fees.js";
+import { buildGaugeDepositCalldata, buildGaugeWithdrawCalldata } from "../chain/gauge.js";
+import { sendManagedTransaction, type NonceManagerState, type TxRequest } from "../chain/nonce.js";
+import { simulateTransaction } from "../chain/simulate.js";
+import {
+  lpPoolsFromConfig,
+  planLpActions,
+  readLpPosition,
+  recordLpAction,
+  recordLpPositions,
+  type LpAction,
+  type LpActionRecord,
+  type LpBalances,
+  type LpPool,
+  type LpState
+} from "./lpManager.js";
+import { isDrawdownBreakerTripped, type PnlState } from "./pnl.js";
+
+/**
+ * Executes LP manager actions as sequential transactions (approve, then the
+ * router or gauge call), each simulated from the wallet, sent through the
+ * nonce manager and awaited before the next. The fee ceilings apply as for
+ * trades. A revert, failed send or fee deferral stops the action and is
+ * recorded as failed.
+ */
+
+export type LpTxStep = { label: string; req: TxRequest };
+
+// Approve + router call + gauge deposit, for the fee ceilings.
+export const LP_ACTION_GAS = 600_000n;
+
+export function approveStep(erc20: Address, spender: Address, amount: bigint): LpTxStep {
+  return {
+    label: "approve",
+    req: {
+      to: erc20,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [spender, amount] })
+    }
+  };
+}
+
+/**
+ * Transactions for one action. Adds send exactly `ethWei` and let the router
+ * take up to LP_SLIPPAGE_BPS more or less INTERN; removes accept
+ * LP_SLIPPAGE_BPS less than the expected amounts.
+ */
+export function lpActionSteps(
+  cfg: AppConfig,
+  action: LpAction,
+  pool: LpPool,
+  token: Address,
+  wallet: Address
+): LpTxStep[] {
+  const router = cfg.ROUTER_ADDRESS as Address;
+  const slippageBps = cfg.LP_SLIPPAGE_BPS ?? 300;
+
+  switch (action.kind) {
+    case "add": {
+      if (pool.key !== "WETH") throw new Error(`LP adds are only supported on the WETH pool, got ${pool.label}`);
+      const amountTokenDesired = action.tokenAmount + (action.tokenAmount * BigInt(slippageBps)) / 10_000n;
+      const add = buildAddLiquidityETHCalldata({
+        token,
+        stable: pool.stable,
+        amountTokenDesired,
+        amountTokenMin: applySlippage(action.tokenAmount, slippageBps),
+        amountETHMin: action.ethWei,
+        to: wallet
+      });
+      return [
+        approveStep(token, router, amountTokenDesired),
+        { label: "lp_add", req: { to: router, data: add.calldata, value: add.value } }
+      ];
+    }
+
+    case "remove": {
+      if (pool.key !== "WETH") throw new Error(`LP removes are only supported on the WETH pool, got ${pool.label}`);
+      const steps: LpTxStep[] = [];
+      if (action.unstake > 0n) {
+        if (!pool.gauge) throw new Error(`${pool.label} has staked LP but no gauge configured`);
+        steps.push({ label: "gauge_withdraw", req: buildGaugeWithdrawCalldata(pool.gauge, action.unstake) });
+      }
+      const remove = buildRemoveLiquidityETHCalldata({
+        token,
+        stable: pool.stable,
+        liquidity: action.liquidity,
+        amountTokenMin: applySlippage(action.tokenAmount, slippageBps),
+        amountETHMin: applySlippage(action.ethWei, slippageBps),
+        to: wallet
+      });
+      steps.push(approveStep(pool.pool, router, action.liquidity));
+      steps.push({ label: "lp_remove", req: { to: router, data: remove.calldata } });
+      return steps;
+    }
+
+    case "stake": {
+      if (!pool.gauge) throw new Error(`${pool.label} has no gauge configured`);
+      return [
+        approveStep(pool.pool, pool.gauge, action.liquidity),
+        { label: "gauge_deposit", req: buildGaugeDepositCalldata(pool.gauge, action.liquidity) }
+      ];
+    }
+  }
+}
+
+/**
+ * Simulate, send and await each step in order. Stops at the first revert or
+ * failed send; the nonce state and hashes sent so far are returned either way.
+ */
+export async function sendTxSteps<S extends NonceManagerState>(
+  clients: ChainClients,
+  state: S,
+  steps: LpTxStep[],
+  fees: FeeQuote,
+  now: Date
+): Promise<{ state: S; txHashes: string[]; error: string | null }> {
+  const txHashes: string[] = [];
+  let current = state;
+  try {
+    for (const step of steps) {
+      const sim = await simulateTransaction(clients, step.req, step.label);
+      if (!sim.ok) throw new Error(`${step.label} simulation reverted: ${sim.reason}`);
+
+      const sent = await sendManagedTransaction(clients, current, step.req, fees, step.label, now);
+      current = sent.state;
+      txHashes.push(sent.hash);
+
+      const receipt = await clients.publicClient.waitForTransactionReceipt({ hash: sent.hash });
+      if (receipt.status !== "success") throw new Error(`${step.label} reverted on-chain`);
+    }
+  } catch (err) {
+    return { state: current, txHashes, error: err instanceof Error ? err.message : String(err) };
+  }
+  return { state: current, txHashes, error: null };
+}
+
+/**
+ * Run one action. DRY_RUN records it as simulated without sending anything;
+ * with TRADING_ENABLED=false or a tripped drawdown breaker nothing is sent and
+ * the action is recorded as failed.
+ */
+export async function executeLpAction<S extends LpState & NonceManagerState & PnlState>(
+  cfg: AppConfig,
+  clients: ChainClients,
+  state: S,
+  action: LpAction,
+  pool: LpPool,
+  now: Date = new Date()
+): Promise<{ state: S; record: LpActionRecord }> {
+  const token = cfg.TOKEN_ADDRESS as Address;
+  let txHashes: string[] = [];
+  let current = state;
+  let error: string | null = null;
+
+  if (!cfg.TRADING_ENABLED) {
+    error = "TRADING_ENABLED=false";
+  } else if (isDrawdownBreakerTripped(state)) {
+    error = "drawdown breaker tripped";
+  } else if (!cfg.DRY_RUN) {
+    try {
+      const steps = lpActionSteps(cfg, action, pool, token, clients.walletAddress);
+      const fees = await quoteFees(cfg, clients);
+      if (!fees) throw new Error("fee quote unavailable");
+      if (feeCeilingsEnabled(cfg)) {
+        // Only WETH-pool adds/removes have an ETH notional; the rest skip the gas-vs-size ceiling.
+        const notionalWei = action.kind !== "stake" && pool.key === "WETH" ? action.ethWei : 0n;
+        const deferral = checkFeeCeilings(cfg, fees, LP_ACTION_GAS, notionalWei);
+        if (deferral) throw new Error(`deferred: ${deferral}`);
+      }
+
+      const sent = await sendTxSteps(clients, current, steps, fees, now);
+      current = sent.state;
+      txHashes = sent.txHashes;
+      error = sent.error;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const status = error ? "failed" : cfg.DRY_RUN ? "simulated" : "executed";
+  const out = recordLpAction(current, action, { status, txHashes, error }, now);
+  const log = error ? logger.warn : logger.info;
+  log("lp.action", {
+    kind: action.kind,
+    pool: pool.label,
+    status,
+    liquidity: out.record.liquidity,
+    tokenAmount: out.record.tokenAmount,
+    ethWei: out.record.ethWei,
+    txHashes,
+    reason: action.reason,
+    error
+  });
+  return out;
+}
+
+/**
+ * One LP manager pass: read positions, record them, plan and execute. The
+ * tick calls this after trading; each returned record gets its own receipt.
+ */
+export async function runLpManager<S extends LpState & NonceManagerState & PnlState>(
+  cfg: AppConfig,
+  clients: ChainClients,
+  state: S,
+  balances: LpBalances,
+  now: Date = new Date()
+): Promise<{ state: S; records: LpActionRecord[] }> {
+  const pools = lpPoolsFromConfig(cfg);
+  if (!cfg.LP_ENABLED || !cfg.TOKEN_ADDRESS || pools.length === 0) return { state, records: [] };
+
+  const token = cfg.TOKEN_ADDRESS as Address;
+  const positions = await Promise.all(pools.map((p) => readLpPosition(clients, p, token, clients.walletAddress)));
+  let current = recordLpPositions(state, positions, now);
+
+  const records: LpActionRecord[] = [];
+  for (const action of planLpActions(cfg, current, positions, balances, now)) {
+    const pool = pools.find((p) => p.key === action.pool)!;
+    const out = await executeLpAction(cfg, clients, current, action, pool, now);
+    current = out.state;
+    records.push(out.record);
+  }
+  return { state: current, records };
+}
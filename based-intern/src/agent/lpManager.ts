@@ -0,0 +1,360 @@
+import { formatEther, formatUnits, parseAbi, parseEther, type Address } from "viem";
+import type { AppConfig } from "../config.js";
+import type { ChainClients } from "../chain/client.js";
+import { readStakedBalance } from "../chain/gauge.js";
+import { isDrawdownBreakerTripped, type PnlState } from "./pnl.js";
+import { safeParseEther, trimDecimals } from "../utils.js";
+
+/**
+ * LP position manager (LP_ENABLED=true).
+ *
+ * Tracks the agent's LP tokens per Aerodrome pool (in the wallet and staked in
+ * the pool's gauge) and decides, each tick:
+ *  - add: when the INTERN held as LP is below LP_MAX_TOKEN_FRACTION_BPS of all
+ *    INTERN held, pair idle INTERN with up to LP_MAX_ETH_PER_ADD ETH;
+ *  - remove: when price moves push it more than 10% over that cap, withdraw
+ *    the excess (unstaking first if needed);
+ *  - stake: deposit unstaked LP into the gauge (LP_AUTO_STAKE).
+ * Adds and removes go through the router's ETH path, so they only touch the
+ * INTERN/WETH pool, and the cap applies to that position alone; an
+ * INTERN/USDC position is tracked, counted in the INTERN total and staked.
+ * At most one add or remove per pool per LP_MIN_INTERVAL_MINUTES.
+ * TRADING_ENABLED=false, KILL_SWITCH and a tripped drawdown breaker stop all
+ * LP actions; DRY_RUN records them as simulated.
+ */
+
+export type LpPoolKey = "WETH" | "USDC";
+
+export type LpPool = {
+  key: LpPoolKey;
+  label: string; // e.g. "INTERN/WETH"
+  pool: Address;
+  stable: boolean;
+  gauge: Address | null;
+};
+
+export type LpPosition = LpPool & {
+  tokenReserve: bigint; // INTERN in the pool
+  pairedReserve: bigint; // WETH or USDC in the pool
+  lpTotalSupply: bigint;
+  lpBalance: bigint; // unstaked, in the wallet
+  stakedBalance: bigint; // in the gauge
+};
+
+export type LpAction =
+  | { kind: "add"; pool: LpPoolKey; tokenAmount: bigint; ethWei: bigint; reason: string }
+  | {
+      kind: "remove";
+      pool: LpPoolKey;
+      liquidity: bigint;
+      unstake: bigint; // part of `liquidity` withdrawn from the gauge first
+      tokenAmount: bigint; // expected at current reserves
+      ethWei: bigint;
+      reason: string;
+    }
+  | { kind: "stake"; pool: LpPoolKey; liquidity: bigint; reason: string };
+
+export type LpActionRecord = {
+  kind: LpAction["kind"];
+  pool: LpPoolKey;
+  status: "executed" | "simulated" | "failed";
+  liquidity: string | null; // LP tokens removed/staked; null for adds (minted amount is read next tick)
+  tokenAmount: string | null; // raw INTERN
+  ethWei: string | null;
+  txHashes: string[];
+  reason: string;
+  error: string | null;
+  atMs: number;
+};
+
+export type LpPositionSnapshot = {
+  lpBalance: string;
+  stakedBalance: string;
+  tokenAmount: string; // INTERN share of the pool's reserves
+  atMs: number;
+};
+
+export type LpState = {
+  lpPositions?: Partial<Record<LpPoolKey, LpPositionSnapshot>>;
+  lpLastActionMs?: Partial<Record<LpPoolKey, number>>; // last add/remove per pool
+  lpActions?: LpActionRecord[];
+};
+
+export type LpBalances = {
+  ethWei: bigint;
+  internAmount: bigint; // in the wallet, excluding LP
+};
+
+// ETH kept back from adds for gas.
+export const LP_GAS_RESERVE_WEI = parseEther("0.001");
+
+// Removes start once the LP share is this far over the cap (relative), so a
+// position sitting at the cap is not churned by small price moves.
+const REMOVE_HYSTERESIS_BPS = 1_000n;
+
+// Adds smaller than LP_MAX_ETH_PER_ADD / this are not worth the gas.
+const MIN_ADD_DIVISOR = 10n;
+
+const MAX_ACTION_HISTORY = 50;
+
+const POOL_ABI = parseAbi([
+  "function token0() view returns (address)",
+  "function getReserves() view returns (uint256, uint256, uint256)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address) view returns (uint256)"
+]);
+
+// ============================================================================
+// Pools & Positions
+// ============================================================================
+
+/**
+ * Pools to manage: INTERN/WETH (POOL_ADDRESS, GAUGE_ADDRESS_WETH) and, when
+ * configured, INTERN/USDC (POOL_ADDRESS_USDC, GAUGE_ADDRESS_USDC).
+ */
+export function lpPoolsFromConfig(cfg: AppConfig): LpPool[] {
+  const symbol = cfg.TOKEN_SYMBOL ?? "INTERN";
+  const pools: LpPool[] = [];
+  if (cfg.POOL_ADDRESS) {
+    pools.push({
+      key: "WETH",
+      label: `${symbol}/WETH`,
+      pool: cfg.POOL_ADDRESS as Address,
+      stable: cfg.AERODROME_STABLE,
+      gauge: (cfg.GAUGE_ADDRESS_WETH as Address | undefined) ?? null
+    });
+  }
+  if (cfg.POOL_ADDRESS_USDC) {
+    pools.push({
+      key: "USDC",
+      label: `${symbol}/USDC`,
+      pool: cfg.POOL_ADDRESS_USDC as Address,
+      stable: cfg.POOL_ADDRESS_USDC_STABLE ?? false,
+      gauge: (cfg.GAUGE_ADDRESS_USDC as Address | undefined) ?? null
+    });
+  }
+  return pools;
+}
+
+export async function readLpPosition(
+  clients: ChainClients,
+  pool: LpPool,
+  token: Address,
+  wallet: Address
+): Promise<LpPosition> {
+  const address = pool.pool;
+  const pc = clients.publicClient;
+  const [token0, [reserve0, reserve1], lpTotalSupply, lpBalance, stakedBalance] = await Promise.all([
+    pc.readContract({ address, abi: POOL_ABI, functionName: "token0" }),
+    pc.readContract({ address, abi: POOL_ABI, functionName: "getReserves" }),
+    pc.readContract({ address, abi: POOL_ABI, functionName: "totalSupply" }),
+    pc.readContract({ address, abi: POOL_ABI, functionName: "balanceOf", args: [wallet] }),
+    pool.gauge ? readStakedBalance(clients, pool.gauge, wallet) : Promise.resolve(0n)
+  ]);
+
+  const tokenIs0 = token0.toLowerCase() === token.toLowerCase();
+  return {
+    ...pool,
+    tokenReserve: tokenIs0 ? reserve0 : reserve1,
+    pairedReserve: tokenIs0 ? reserve1 : reserve0,
+    lpTotalSupply,
+    lpBalance,
+    stakedBalance
+  };
+}
+
+/** INTERN backing the agent's LP tokens (wallet + staked) at current reserves. */
+export function positionTokenAmount(p: LpPosition): bigint {
+  if (p.lpTotalSupply <= 0n) return 0n;
+  return ((p.lpBalance + p.stakedBalance) * p.tokenReserve) / p.lpTotalSupply;
+}
+
+export function recordLpPositions<S extends LpState>(state: S, positions: LpPosition[], now: Date): S {
+  const lpPositions = { ...(state.lpPositions ?? {}) };
+  for (const p of positions) {
+    lpPositions[p.key] = {
+      lpBalance: p.lpBalance.toString(),
+      stakedBalance: p.stakedBalance.toString(),
+      tokenAmount: positionTokenAmount(p).toString(),
+      atMs: now.getTime()
+    };
+  }
+  return { ...state, lpPositions };
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * LP actions for this tick, in execution order (stakes first). Empty when LP
+ * or trading is disabled, KILL_SWITCH is on or the drawdown breaker is tripped.
+ */
+export function planLpActions(
+  cfg: AppConfig,
+  state: LpState & PnlState,
+  positions: LpPosition[],
+  balances: LpBalances,
+  now: Date
+): LpAction[] {
+  if (!cfg.LP_ENABLED || !cfg.TRADING_ENABLED || cfg.KILL_SWITCH || isDrawdownBreakerTripped(state)) return [];
+
+  const lpToken = positions.reduce((sum, p) => sum + positionTokenAmount(p), 0n);
+  const capToken = ((balances.internAmount + lpToken) * BigInt(cfg.LP_MAX_TOKEN_FRACTION_BPS ?? 0)) / 10_000n;
+  const capBps = cfg.LP_MAX_TOKEN_FRACTION_BPS ?? 0;
+
+  const actions: LpAction[] = [];
+  const weth = positions.find((p) => p.key === "WETH");
+
+  // Only the WETH position can be added to or trimmed, so it is capped on its own:
+  // a USDC position over the cap must not drain it.
+  if (weth && intervalElapsed(cfg, state, "WETH", now)) {
+    const wethToken = positionTokenAmount(weth);
+    if (wethToken * 10_000n > capToken * (10_000n + REMOVE_HYSTERESIS_BPS)) {
+      const remove = planRemove(weth, wethToken - capToken, `LP holds more than ${capBps}bps of INTERN`);
+      if (remove) actions.push(remove);
+    } else if (wethToken < capToken) {
+      const add = planAdd(cfg, weth, balances, capToken - wethToken);
+      if (add) actions.push(add);
+    }
+  }
+
+  if (cfg.LP_AUTO_STAKE) {
+    for (const p of positions) {
+      const removedFromWallet = actions.reduce(
+        (sum, a) => (a.kind === "remove" && a.pool === p.key ? sum + (a.liquidity - a.unstake) : sum),
+        0n
+      );
+      const idle = p.lpBalance - removedFromWallet;
+      if (p.gauge && idle > 0n) {
+        actions.push({ kind: "stake", pool: p.key, liquidity: idle, reason: "stake idle LP in gauge" });
+      }
+    }
+  }
+
+  // stakes first: they are independent of the add/remove and should not wait on them
+  return [...actions.filter((a) => a.kind === "stake"), ...actions.filter((a) => a.kind !== "stake")];
+}
+
+function intervalElapsed(cfg: AppConfig, state: LpState, key: LpPoolKey, now: Date): boolean {
+  const last = state.lpLastActionMs?.[key];
+  if (last == null) return true;
+  return now.getTime() - last >= (cfg.LP_MIN_INTERVAL_MINUTES ?? 0) * 60_000;
+}
+
+function planAdd(cfg: AppConfig, p: LpPosition, balances: LpBalances, room: bigint): LpAction | null {
+  if (p.tokenReserve <= 0n || p.pairedReserve <= 0n) return null; // empty pool: the first add sets the price
+
+  const maxEth = safeParseEther(cfg.LP_MAX_ETH_PER_ADD ?? "0");
+  const spendable = balances.ethWei > LP_GAS_RESERVE_WEI ? balances.ethWei - LP_GAS_RESERVE_WEI : 0n;
+  const ethBudget = maxEth < spendable ? maxEth : spendable;
+
+  let tokenAmount = (ethBudget * p.tokenReserve) / p.pairedReserve;
+  if (tokenAmount > room) tokenAmount = room;
+  if (tokenAmount > balances.internAmount) tokenAmount = balances.internAmount;
+  const ethWei = (tokenAmount * p.pairedReserve) / p.tokenReserve;
+
+  if (ethWei <= 0n || ethWei < maxEth / MIN_ADD_DIVISOR) return null;
+  return { kind: "add", pool: p.key, tokenAmount, ethWei, reason: "LP below LP_MAX_TOKEN_FRACTION_BPS" };
+}
+
+function planRemove(p: LpPosition, excessToken: bigint, reason: string): LpAction | null {
+  const held = positionTokenAmount(p);
+  if (held <= 0n) return null;
+
+  const owned = p.lpBalance + p.stakedBalance;
+  const liquidity = excessToken >= held ? owned : (owned * excessToken) / held;
+  if (liquidity <= 0n) return null;
+
+  return {
+    kind: "remove",
+    pool: p.key,
+    liquidity,
+    unstake: liquidity > p.lpBalance ? liquidity - p.lpBalance : 0n,
+    tokenAmount: (liquidity * p.tokenReserve) / p.lpTotalSupply,
+    ethWei: (liquidity * p.pairedReserve) / p.lpTotalSupply,
+    reason
+  };
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record an LP action's outcome. Executed and simulated adds/removes start the
+ * pool's LP_MIN_INTERVAL_MINUTES; a failed one may be retried next tick.
+ */
+/**
+ * ETH value of the recorded LP positions (wallet + staked): twice the INTERN
+ * share at `priceWei`, since a volatile pool holds equal value on both sides
+ * at its own price. The drawdown breaker adds this to wallet equity.
+ */
+export function lpPositionsValueWei(state: LpState, priceWei: bigint, tokenDecimals = 18): bigint {
+  let tokenAmount = 0n;
+  for (const snapshot of Object.values(state.lpPositions ?? {})) tokenAmount += BigInt(snapshot.tokenAmount);
+  return (2n * tokenAmount * priceWei) / 10n ** BigInt(tokenDecimals);
+}
+
+export function recordLpAction<S extends LpState>(
+  state: S,
+  action: LpAction,
+  result: { status: LpActionRecord["status"]; txHashes: string[]; error?: string | null },
+  now: Date
+): { state: S; record: LpActionRecord } {
+  const record: LpActionRecord = {
+    kind: action.kind,
+    pool: action.pool,
+    status: result.status,
+    liquidity: action.kind === "add" ? null : action.liquidity.toString(),
+    tokenAmount: action.kind === "stake" ? null : action.tokenAmount.toString(),
+    ethWei: action.kind === "stake" ? null : action.ethWei.toString(),
+    txHashes: result.txHashes,
+    reason: action.reason,
+    error: result.error ?? null,
+    atMs: now.getTime()
+  };
+
+  const startsInterval = action.kind !== "stake" && result.status !== "failed";
+  return {
+    state: {
+      ...state,
+      lpPositions: result.status === "executed" ? movedPosition(state.lpPositions, action, now) : state.lpPositions,
+      lpLastActionMs: startsInterval
+        ? { ...(state.lpLastActionMs ?? {}), [action.pool]: now.getTime() }
+        : state.lpLastActionMs,
+      lpActions: [...(state.lpActions ?? []), record].slice(-MAX_ACTION_HISTORY)
+    },
+    record
+  };
+}
+
+// Move an executed add/remove's INTERN into or out of the recorded position
+// until the next read, so equity does not dip between the two.
+function movedPosition(
+  positions: LpState["lpPositions"],
+  action: LpAction,
+  now: Date
+): LpState["lpPositions"] {
+  const snapshot = positions?.[action.pool];
+  if (action.kind === "stake" || !snapshot) return positions;
+  const held = BigInt(snapshot.tokenAmount);
+  const moved = action.kind === "add" ? held + action.tokenAmount : held - action.tokenAmount;
+  const tokenAmount = (moved > 0n ? moved : 0n).toString();
+  return { ...positions, [action.pool]: { ...snapshot, tokenAmount, atMs: now.getTime() } };
+}
+
+export function describeLpAction(r: LpActionRecord, decimals: number, symbol = "INTERN"): string {
+  const pool = `${symbol}/${r.pool}`;
+  const token = r.tokenAmount ? `${trimDecimals(formatUnits(BigInt(r.tokenAmount), decimals))} ${symbol}` : null;
+  const eth = r.ethWei && r.pool === "WETH" ? `${trimDecimals(formatEther(BigInt(r.ethWei)))} ETH` : null;
+  const lp = r.liquidity ? `${trimDecimals(formatEther(BigInt(r.liquidity)))} LP` : null;
+
+  let what: string;
+  if (r.kind === "add") what = `add ${[token, eth].filter(Boolean).join(" + ")} to ${pool}`;
+  else if (r.kind === "remove") what = `remove ${lp} from ${pool} (~${[token, eth].filter(Boolean).join(" + ")})`;
+  else what = `stake ${lp} in ${pool} gauge`;
+
+  const status = r.status === "failed" ? `failed: ${r.error ?? "unknown"}` : r.status;
+  return `${what} (${status})`;
+}
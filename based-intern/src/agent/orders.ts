@@ -0,0 +1,379 @@
+import { formatEther, parseEther } from "viem";
+import type { AppConfig } from "../config.js";
+import type { PriceResult } from "../chain/price.js";
+import type { Decision, DecisionContext, ProposedAction } from "./decision.js";
+import { safeParseEther } from "../utils.js";
+
+/**
+ * Conditional order book (ORDERS_ENABLED=true).
+ *
+ * Operators park orders in state ("sell 10% if INTERN doubles", "buy 0.001 ETH
+ * worth if price halves") through the control server. Each tick the open
+ * orders are checked against the price provider's mid price; one triggered
+ * order (protective sells first, then the oldest) becomes an ordinary BUY/SELL
+ * proposal, so it goes through enforceGuardrails and the normal swap builders.
+ * An order blocked by the guardrails stays open and is retried on the next
+ * tick, and the tick moves on to the next triggered order; one the guardrails
+ * shrank (MAX_SPEND_ETH_PER_TRADE, SELL_FRACTION_BPS) stays open for the
+ * remainder, which trades on later ticks while the trigger still holds.
+ * Stop-loss and trailing-stop sells are marked protective and skip the
+ * spot-vs-TWAP check, which would otherwise hold on the very drop they
+ * exist to catch; every other guardrail still applies.
+ */
+
+export type OrderKind = "limit_buy" | "limit_sell" | "take_profit" | "stop_loss" | "trailing_stop";
+export type OrderStatus = "open" | "filled" | "cancelled" | "expired";
+
+export type ConditionalOrder = {
+  id: number;
+  kind: OrderKind;
+  status: OrderStatus;
+  // Trigger price in wei per whole INTERN; trailing stops derive it from the peak
+  triggerPriceWei: string | null;
+  trailBps: number | null; // trailing_stop only
+  peakPriceWei: string | null; // trailing_stop only: highest price seen while open
+  spendWei: string | null; // limit_buy only
+  sellFractionBps: number | null; // sell kinds: share of the INTERN balance
+  createdAtMs: number;
+  expiresAtMs: number | null;
+  closedAtMs: number | null;
+  txHash: string | null; // latest fill
+  lastBlockedReason: string | null;
+  note: string | null;
+  // After a partial fill: ETH (limit_buy) or raw INTERN (sell kinds) still to trade
+  remainingRaw?: string | null;
+  partialFills?: number;
+};
+
+export type OrderBookState = {
+  orders?: ConditionalOrder[];
+  nextOrderId?: number;
+};
+
+/**
+ * Operator input. Triggers are given either as an absolute price in ETH
+ * (`triggerPriceEth`) or relative to the price when the order is placed
+ * (`triggerChangeBps`: 10000 = doubles, -5000 = halves).
+ */
+export type NewOrderInput = {
+  kind: OrderKind;
+  triggerPriceEth?: string;
+  triggerChangeBps?: number;
+  trailBps?: number;
+  spendEth?: string;
+  sellFractionBps?: number;
+  expiresInMinutes?: number;
+  note?: string;
+};
+
+export const ORDER_KINDS: OrderKind[] = ["limit_buy", "limit_sell", "take_profit", "stop_loss", "trailing_stop"];
+
+const MAX_CLOSED_ORDERS = 50;
+
+// ============================================================================
+// Book management
+// ============================================================================
+
+export function openOrders(state: OrderBookState): ConditionalOrder[] {
+  return (state.orders ?? []).filter((o) => o.status === "open");
+}
+
+/**
+ * Validate a control-server request body. Throws with a message suitable for
+ * a 400 response.
+ */
+export function parseOrderInput(body: unknown): NewOrderInput {
+  if (!body || typeof body !== "object") throw new Error("order body must be a JSON object");
+  const b = body as Record<string, unknown>;
+
+  const kind = b.kind as OrderKind;
+  if (!ORDER_KINDS.includes(kind)) throw new Error(`kind must be one of ${ORDER_KINDS.join(", ")}`);
+
+  const input: NewOrderInput = { kind };
+  if (b.triggerPriceEth !== undefined) input.triggerPriceEth = String(b.triggerPriceEth);
+  if (b.triggerChangeBps !== undefined) input.triggerChangeBps = Number(b.triggerChangeBps);
+  if (b.trailBps !== undefined) input.trailBps = Number(b.trailBps);
+  if (b.spendEth !== undefined) input.spendEth = String(b.spendEth);
+  if (b.sellFractionBps !== undefined) input.sellFractionBps = Number(b.sellFractionBps);
+  if (b.expiresInMinutes !== undefined) input.expiresInMinutes = Number(b.expiresInMinutes);
+  if (b.note !== undefined) input.note = String(b.note).slice(0, 200);
+
+  if (kind === "trailing_stop") {
+    if (!isBps(input.trailBps, 1, 9_999)) throw new Error("trailing_stop requires trailBps between 1 and 9999");
+  } else {
+    const hasPrice = input.triggerPriceEth !== undefined;
+    const hasChange = input.triggerChangeBps !== undefined;
+    if (hasPrice === hasChange) throw new Error(`${kind} requires exactly one of triggerPriceEth, triggerChangeBps`);
+    if (hasChange && !(Number.isInteger(input.triggerChangeBps) && input.triggerChangeBps! > -10_000)) {
+      throw new Error("triggerChangeBps must be an integer > -10000");
+    }
+  }
+
+  if (kind === "limit_buy") {
+    if (!input.spendEth || safeParseEther(input.spendEth) <= 0n) throw new Error("limit_buy requires spendEth > 0");
+  } else if (!isBps(input.sellFractionBps, 1, 10_000)) {
+    throw new Error(`${kind} requires sellFractionBps between 1 and 10000`);
+  }
+
+  if (input.expiresInMinutes !== undefined && !(input.expiresInMinutes > 0)) {
+    throw new Error("expiresInMinutes must be > 0");
+  }
+  return input;
+}
+
+/**
+ * Add an order to the book. Relative triggers and trailing-stop peaks are
+ * anchored to `priceWei`, so placing those needs a known price.
+ */
+export function addOrder<S extends OrderBookState>(
+  cfg: AppConfig,
+  state: S,
+  input: NewOrderInput,
+  priceWei: bigint | null,
+  now: Date
+): { state: S; order: ConditionalOrder } {
+  if (openOrders(state).length >= cfg.ORDERS_MAX_OPEN) {
+    throw new Error(`order book full (ORDERS_MAX_OPEN=${cfg.ORDERS_MAX_OPEN})`);
+  }
+  const needsPrice = input.kind === "trailing_stop" || input.triggerChangeBps !== undefined;
+  if (needsPrice && (priceWei === null || priceWei <= 0n)) {
+    throw new Error("current price unknown; use triggerPriceEth or retry later");
+  }
+
+  let triggerPriceWei: bigint | null = null;
+  if (input.kind === "trailing_stop") {
+    triggerPriceWei = trailingTrigger(priceWei!, input.trailBps!);
+  } else if (input.triggerChangeBps !== undefined) {
+    triggerPriceWei = (priceWei! * BigInt(10_000 + input.triggerChangeBps)) / 10_000n;
+  } else {
+    triggerPriceWei = safeParseEther(input.triggerPriceEth ?? "0");
+  }
+  if (triggerPriceWei <= 0n) throw new Error("trigger price must be > 0");
+
+  const id = state.nextOrderId ?? 1;
+  const order: ConditionalOrder = {
+    id,
+    kind: input.kind,
+    status: "open",
+    triggerPriceWei: triggerPriceWei.toString(),
+    trailBps: input.kind === "trailing_stop" ? input.trailBps! : null,
+    peakPriceWei: input.kind === "trailing_stop" ? priceWei!.toString() : null,
+    spendWei: input.kind === "limit_buy" ? parseEther(input.spendEth!).toString() : null,
+    sellFractionBps: input.kind === "limit_buy" ? null : input.sellFractionBps!,
+    createdAtMs: now.getTime(),
+    expiresAtMs: input.expiresInMinutes ? now.getTime() + input.expiresInMinutes * 60_000 : null,
+    closedAtMs: null,
+    txHash: null,
+    lastBlockedReason: null,
+    note: input.note ?? null
+  };
+
+  return { state: { ...state, orders: [...(state.orders ?? []), order], nextOrderId: id + 1 }, order };
+}
+
+/** Cancel an open order. Returns null when no open order has that id. */
+export function cancelOrder<S extends OrderBookState>(state: S, id: number, now: Date): S | null {
+  const order = openOrders(state).find((o) => o.id === id);
+  if (!order) return null;
+  return updateOrder(state, id, { status: "cancelled", closedAtMs: now.getTime() });
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Check the open orders against the current mid price. Expires stale orders,
+ * ratchets trailing-stop peaks, and returns one triggered order to trade (one
+ * trade per tick): the oldest triggered stop-loss or trailing stop, else the
+ * oldest other triggered order. Orders in `blockedThisTick` are passed over,
+ * so when the guardrails block the returned order the tick can call again and
+ * the next one gets its turn instead of starving behind it. Stale or unknown
+ * prices never trigger anything.
+ */
+export function evaluateOrders<S extends OrderBookState>(
+  state: S,
+  price: PriceResult | null,
+  now: Date,
+  blockedThisTick: ReadonlySet<number> = new Set()
+): { state: S; triggered: ConditionalOrder | null } {
+  let next = state;
+  for (const o of openOrders(state)) {
+    if (o.expiresAtMs !== null && now.getTime() >= o.expiresAtMs) {
+      next = updateOrder(next, o.id, { status: "expired", closedAtMs: now.getTime() });
+    }
+  }
+
+  const priceWei = price && !price.stale && price.midPriceWei !== undefined ? price.midPriceWei : null;
+  if (priceWei === null || priceWei <= 0n) return { state: next, triggered: null };
+
+  let protective: ConditionalOrder | null = null;
+  let other: ConditionalOrder | null = null;
+  for (const o of openOrders(next)) {
+    let order = o;
+    if (o.kind === "trailing_stop" && priceWei > BigInt(o.peakPriceWei ?? "0")) {
+      const patch = {
+        peakPriceWei: priceWei.toString(),
+        triggerPriceWei: trailingTrigger(priceWei, o.trailBps!).toString()
+      };
+      next = updateOrder(next, o.id, patch);
+      order = { ...o, ...patch };
+    }
+    if (blockedThisTick.has(order.id) || !isTriggered(order, priceWei)) continue;
+    if (isProtective(order)) protective ??= order;
+    else other ??= order;
+  }
+  return { state: next, triggered: protective ?? other };
+}
+
+export function isTriggered(order: ConditionalOrder, priceWei: bigint): boolean {
+  if (order.triggerPriceWei === null) return false;
+  const trigger = BigInt(order.triggerPriceWei);
+  switch (order.kind) {
+    case "limit_buy":
+    case "stop_loss":
+    case "trailing_stop":
+      return priceWei <= trigger;
+    case "limit_sell":
+    case "take_profit":
+      return priceWei >= trigger;
+  }
+}
+
+/** The triggered order as a proposal for enforceGuardrails. */
+export function orderProposal(order: ConditionalOrder, ctx: DecisionContext): ProposedAction {
+  const rationale = `order #${order.id} ${order.kind} triggered at ${describeTrigger(order)}`;
+  const remaining = order.remainingRaw != null ? BigInt(order.remainingRaw) : null;
+  if (order.kind === "limit_buy") {
+    return { action: "BUY", rationale, buySpendWei: remaining ?? BigInt(order.spendWei ?? "0") };
+  }
+  let sellAmount = remaining ?? (ctx.internAmount * BigInt(order.sellFractionBps ?? 0)) / 10_000n;
+  if (sellAmount > ctx.internAmount) sellAmount = ctx.internAmount;
+  return { action: "SELL", rationale, sellAmount, protective: isProtective(order) };
+}
+
+function isProtective(order: ConditionalOrder): boolean {
+  return order.kind === "stop_loss" || order.kind === "trailing_stop";
+}
+
+/**
+ * Close the order once its full size was sent. When the guardrails clamped
+ * the trade below `proposal`'s size, the rest stays open as `remainingRaw`;
+ * a blocked trade keeps the order open with the guardrail's reason so the
+ * next tick retries.
+ */
+export function recordOrderResult<S extends OrderBookState>(
+  state: S,
+  order: ConditionalOrder,
+  proposal: ProposedAction,
+  decision: Decision,
+  txHash: string | null,
+  now: Date
+): S {
+  if (!decision.shouldExecute || txHash === null) {
+    return updateOrder(state, order.id, { lastBlockedReason: decision.blockedReason ?? "not executed" });
+  }
+
+  const requested = (proposal.action === "BUY" ? proposal.buySpendWei : proposal.sellAmount) ?? 0n;
+  const filled = (decision.action === "BUY" ? decision.buySpendWei : decision.sellAmount) ?? 0n;
+  if (filled < requested) {
+    const unit = order.kind === "limit_buy" ? "wei" : "raw INTERN";
+    return updateOrder(state, order.id, {
+      txHash,
+      remainingRaw: (requested - filled).toString(),
+      partialFills: (order.partialFills ?? 0) + 1,
+      lastBlockedReason: `partially filled (${filled} of ${requested} ${unit}); remainder stays open`
+    });
+  }
+  return updateOrder(state, order.id, {
+    status: "filled",
+    closedAtMs: now.getTime(),
+    txHash,
+    remainingRaw: null,
+    lastBlockedReason: null
+  });
+}
+
+// ============================================================================
+// Control server
+// ============================================================================
+
+export type OrderRequest = { method: string; path: string; body?: unknown };
+export type OrderResponse<S> = { status: number; body: unknown; state: S | null }; // state null => unchanged
+
+/**
+ * Routes for the control server (behind its bearer token):
+ *   GET    /orders       list open orders and recently closed ones
+ *   POST   /orders       add an order (NewOrderInput JSON body)
+ *   DELETE /orders/:id   cancel an open order
+ * Returns null for paths outside /orders so the server can fall through.
+ */
+export function handleOrderRequest<S extends OrderBookState>(
+  cfg: AppConfig,
+  state: S,
+  req: OrderRequest,
+  priceWei: bigint | null,
+  now: Date
+): OrderResponse<S> | null {
+  const path = req.path.replace(/\/+$/, "");
+  if (path !== "/orders" && !path.startsWith("/orders/")) return null;
+  if (!cfg.ORDERS_ENABLED) return { status: 409, body: { error: "ORDERS_ENABLED=false" }, state: null };
+
+  if (path === "/orders" && req.method === "GET") {
+    return { status: 200, body: ordersToJson(state), state: null };
+  }
+
+  if (path === "/orders" && req.method === "POST") {
+    try {
+      const { state: next, order } = addOrder(cfg, state, parseOrderInput(req.body), priceWei, now);
+      return { status: 201, body: { order }, state: next };
+    } catch (err) {
+      return { status: 400, body: { error: err instanceof Error ? err.message : String(err) }, state: null };
+    }
+  }
+
+  const id = Number(path.slice("/orders/".length));
+  if (req.method === "DELETE" && Number.isInteger(id)) {
+    const next = cancelOrder(state, id, now);
+    if (!next) return { status: 404, body: { error: `no open order #${id}` }, state: null };
+    return { status: 200, body: { cancelled: id }, state: next };
+  }
+
+  return { status: 405, body: { error: `${req.method} ${path} not supported` }, state: null };
+}
+
+export function ordersToJson(state: OrderBookState): { open: ConditionalOrder[]; closed: ConditionalOrder[] } {
+  const all = state.orders ?? [];
+  return { open: all.filter((o) => o.status === "open"), closed: all.filter((o) => o.status !== "open") };
+}
+
+export function describeOrder(order: ConditionalOrder): string {
+  const size =
+    order.kind === "limit_buy"
+      ? `${formatEther(BigInt(order.spendWei ?? "0"))} ETH`
+      : `${((order.sellFractionBps ?? 0) / 100).toFixed(2).replace(/\.?0+$/, "")}% of INTERN`;
+  const partial = order.partialFills ? `, ${order.partialFills} partial fill${order.partialFills > 1 ? "s" : ""}` : "";
+  return `#${order.id} ${order.kind} ${size} at ${describeTrigger(order)} (${order.status}${partial})`;
+}
+
+function describeTrigger(order: ConditionalOrder): string {
+  const trigger = order.triggerPriceWei === null ? "?" : formatEther(BigInt(order.triggerPriceWei));
+  const op = order.kind === "limit_sell" || order.kind === "take_profit" ? ">=" : "<=";
+  const trail = order.kind === "trailing_stop" ? ` (${order.trailBps}bps trail)` : "";
+  return `${op} ${trigger} ETH${trail}`;
+}
+
+function updateOrder<S extends OrderBookState>(state: S, id: number, patch: Partial<ConditionalOrder>): S {
+  const orders = (state.orders ?? []).map((o) => (o.id === id ? { ...o, ...patch } : o));
+  const closed = orders.filter((o) => o.status !== "open");
+  const drop = new Set(closed.slice(0, Math.max(0, closed.length - MAX_CLOSED_ORDERS)).map((o) => o.id));
+  return { ...state, orders: orders.filter((o) => !drop.has(o.id)) };
+}
+
+function trailingTrigger(peakWei: bigint, trailBps: number): bigint {
+  return (peakWei * BigInt(10_000 - trailBps)) / 10_000n;
+}
+
+function isBps(v: number | undefined, min: number, max: number): boolean {
+  return v !== undefined && Number.isInteger(v) && v >= min && v <= max;
+}
@@ -0,0 +1,209 @@
+import type { AppConfig } from "../config.js";
+import { logger } from "../logger.js";
+
+/**
+ * Cost-basis and P&L tracking for the INTERN position (in ETH terms), plus a
+ * drawdown circuit breaker. Cost basis uses the average-cost method: a SELL
+ * removes cost pro rata and realizes the difference against proceeds.
+ *
+ * The breaker latches: once equity falls MAX_DRAWDOWN_PCT below its
+ * high-water mark, trading is HOLD-only until an operator resets it
+ * (`npm run breaker:reset`).
+ */
+
+export type TradeFill = {
+  atMs: number;
+  side: "BUY" | "SELL";
+  tokenAmount: string; // raw token units bought/sold
+  ethWei: string; // ETH spent (BUY) or received (SELL)
+  priceWei: string; // wei per whole token for this fill
+  txHash?: string;
+};
+
+export type PnlPosition = {
+  tokenAmount: string;
+  costBasisWei: string; // ETH cost of the tokens still held
+  realizedPnlWei: string; // signed
+};
+
+// AgentState fields used by the tracker (persisted with the rest of state).
+export type PnlState = {
+  tradeFills?: TradeFill[];
+  pnlPosition?: PnlPosition | null;
+  equityHighWaterMarkWei?: string | null;
+  drawdownBreakerTrippedAtMs?: number | null;
+  drawdownBreakerReason?: string | null;
+};
+
+export type PnlSnapshot = {
+  tokenAmount: bigint;
+  costBasisWei: bigint;
+  avgCostWei: bigint; // wei per whole token, 0 when flat
+  realizedPnlWei: bigint;
+  unrealizedPnlWei: bigint | null; // null => no price
+  totalPnlWei: bigint | null;
+};
+
+// Fills are an audit trail for receipts/operators; the position carries the math.
+const MAX_FILLS = 200;
+
+// ============================================================================
+// Cost Basis
+// ============================================================================
+
+function position(state: PnlState): { tokenAmount: bigint; costBasisWei: bigint; realizedPnlWei: bigint } {
+  const p = state.pnlPosition;
+  return {
+    tokenAmount: BigInt(p?.tokenAmount ?? "0"),
+    costBasisWei: BigInt(p?.costBasisWei ?? "0"),
+    realizedPnlWei: BigInt(p?.realizedPnlWei ?? "0")
+  };
+}
+
+/**
+ * Record an executed trade and update the average-cost position.
+ * Selling more than the tracked position (tokens acquired outside the agent)
+ * realizes only against the tracked amount; the excess has no known cost.
+ */
+export function recordFill<S extends PnlState>(
+  state: S,
+  fill: { side: "BUY" | "SELL"; tokenAmount: bigint; ethWei: bigint; txHash?: string },
+  at: Date,
+  tokenDecimals: number = 18
+): S {
+  const pos = position(state);
+  const unit = 10n ** BigInt(tokenDecimals);
+
+  if (fill.side === "BUY") {
+    pos.tokenAmount += fill.tokenAmount;
+    pos.costBasisWei += fill.ethWei;
+  } else if (pos.tokenAmount > 0n) {
+    const sold = fill.tokenAmount < pos.tokenAmount ? fill.tokenAmount : pos.tokenAmount;
+    const costRemoved = (pos.costBasisWei * sold) / pos.tokenAmount;
+    const proceedsForTracked = (fill.ethWei * sold) / fill.tokenAmount;
+    pos.realizedPnlWei += proceedsForTracked - costRemoved;
+    pos.costBasisWei -= costRemoved;
+    pos.tokenAmount -= sold;
+  }
+
+  const priceWei = fill.tokenAmount > 0n ? (fill.ethWei * unit) / fill.tokenAmount : 0n;
+  const entry: TradeFill = {
+    atMs: at.getTime(),
+    side: fill.side,
+    tokenAmount: fill.tokenAmount.toString(),
+    ethWei: fill.ethWei.toString(),
+    priceWei: priceWei.toString(),
+    ...(fill.txHash ? { txHash: fill.txHash } : {})
+  };
+
+  return {
+    ...state,
+    tradeFills: [...(state.tradeFills ?? []), entry].slice(-MAX_FILLS),
+    pnlPosition: {
+      tokenAmount: pos.tokenAmount.toString(),
+      costBasisWei: pos.costBasisWei.toString(),
+      realizedPnlWei: pos.realizedPnlWei.toString()
+    }
+  };
+}
+
+/**
+ * Realized and unrealized P&L at `priceWei` (wei per whole token).
+ */
+export function computePnl(state: PnlState, priceWei: bigint | null, tokenDecimals: number = 18): PnlSnapshot {
+  const pos = position(state);
+  const unit = 10n ** BigInt(tokenDecimals);
+  const avgCostWei = pos.tokenAmount > 0n ? (pos.costBasisWei * unit) / pos.tokenAmount : 0n;
+
+  const unrealizedPnlWei = priceWei === null ? null : (pos.tokenAmount * priceWei) / unit - pos.costBasisWei;
+  return {
+    ...pos,
+    avgCostWei,
+    unrealizedPnlWei,
+    totalPnlWei: unrealizedPnlWei === null ? null : pos.realizedPnlWei + unrealizedPnlWei
+  };
+}
+
+/**
+ * JSON-safe view for logs, receipts and tool output (bigints as strings).
+ */
+export function pnlToJson(snapshot: PnlSnapshot): Record<string, string | null> {
+  return {
+    tokenAmount: snapshot.tokenAmount.toString(),
+    costBasisWei: snapshot.costBasisWei.toString(),
+    avgCostWei: snapshot.avgCostWei.toString(),
+    realizedPnlWei: snapshot.realizedPnlWei.toString(),
+    unrealizedPnlWei: snapshot.unrealizedPnlWei?.toString() ?? null,
+    totalPnlWei: snapshot.totalPnlWei?.toString() ?? null
+  };
+}
+
+// ============================================================================
+// Drawdown Circuit Breaker
+// ============================================================================
+
+/**
+ * Wallet equity in wei: ETH balance plus INTERN valued at `priceWei`, plus
+ * the LP and gauge positions (`lpValueWei`, see lpPositionsValueWei) so that
+ * moving ETH and INTERN into a pool does not read as a drawdown.
+ */
+export function portfolioEquityWei(
+  ethWei: bigint,
+  tokenAmount: bigint,
+  priceWei: bigint,
+  tokenDecimals = 18,
+  lpValueWei = 0n
+): bigint {
+  return ethWei + (tokenAmount * priceWei) / 10n ** BigInt(tokenDecimals) + lpValueWei;
+}
+
+/**
+ * Drawdown of `equityWei` below the high-water mark, in bps (0 at or above it).
+ */
+export function drawdownBps(highWaterMarkWei: bigint, equityWei: bigint): number {
+  if (highWaterMarkWei <= 0n || equityWei >= highWaterMarkWei) return 0;
+  return Number(((highWaterMarkWei - equityWei) * 10_000n) / highWaterMarkWei);
+}
+
+export function isDrawdownBreakerTripped(state: PnlState): boolean {
+  return state.drawdownBreakerTrippedAtMs != null;
+}
+
+/**
+ * Feed the current equity into the breaker once per tick. Raises the
+ * high-water mark and trips the breaker when drawdown exceeds
+ * MAX_DRAWDOWN_PCT (0 disables). A tripped breaker stays tripped.
+ */
+export function updateDrawdownBreaker<S extends PnlState>(cfg: AppConfig, state: S, equityWei: bigint, now: Date): S {
+  if (isDrawdownBreakerTripped(state)) return state;
+
+  const prevHwm = state.equityHighWaterMarkWei ? BigInt(state.equityHighWaterMarkWei) : 0n;
+  const hwm = equityWei > prevHwm ? equityWei : prevHwm;
+  const next: S = { ...state, equityHighWaterMarkWei: hwm.toString() };
+
+  if (cfg.MAX_DRAWDOWN_PCT <= 0) return next;
+
+  const ddBps = drawdownBps(hwm, equityWei);
+  if (ddBps <= cfg.MAX_DRAWDOWN_PCT * 100) return next;
+
+  const reason = `drawdown ${(ddBps / 100).toFixed(2)}% > ${cfg.MAX_DRAWDOWN_PCT}%`;
+  logger.warn("pnl.drawdown_breaker_tripped", {
+    reason,
+    highWaterMarkWei: hwm.toString(),
+    equityWei: equityWei.toString()
+  });
+  return { ...next, drawdownBreakerTrippedAtMs: now.getTime(), drawdownBreakerReason: reason };
+}
+
+/**
+ * Operator reset: clears the breaker and the high-water mark, so the next
+ * tick re-seeds it from current equity instead of re-tripping immediately.
+ */
+export function resetDrawdownBreaker<S extends PnlState>(state: S): S {
+  return {
+    ...state,
+    equityHighWaterMarkWei: null,
+    drawdownBreakerTrippedAtMs: null,
+    drawdownBreakerReason: null
+  };
+}
@@ -0,0 +1,403 @@
+import { encodeFunctionData, erc20Abi, formatEther, formatUnits, type Address, type Hex } from "viem";
+import type { AppConfig, PortfolioTokenConfig } from "../config.js";
+import type { ChainClients } from "../chain/client.js";
+import type { SwapCalldata } from "../chain/dex/index.js";
+import type { FeeQuote } from "../chain/fees.js";
+import { sendManagedTransaction, type NonceManagerState } from "../chain/nonce.js";
+import { simulateTransaction, type SimulationResult } from "../chain/simulate.js";
+import { logger } from "../logger.js";
+import { safeParseEther } from "../utils.js";
+
+/**
+ * Multi-token portfolio.
+ *
+ * PORTFOLIO_TOKENS lists the basket (INTERN, WETH, USDC, ...). Each token is
+ * valued in ETH through its Aerodrome pool against WETH, so the agent can see
+ * weights across the whole basket and propose rotations ("rotate 10% of USDC
+ * into INTERN") that are routed token -> WETH -> token on the Aerodrome router.
+ * Per-token caps bound a rotation's ETH notional and the target's share of
+ * the portfolio.
+ */
+
+export type Holding = {
+  symbol: string;
+  address: Address;
+  decimals: number;
+  balanceRaw: bigint | null; // null => unknown (RPC read failed)
+  priceWei: bigint | null; // wei per whole token; null => no pool or quote failed
+  valueWei: bigint | null;
+  weightBps: number | null; // share of totalValueWei
+};
+
+export type Portfolio = {
+  ethWei: bigint;
+  holdings: Holding[];
+  totalValueWei: bigint; // ETH + every holding with a known value
+  unknown: string[]; // symbols whose balance or price could not be read
+};
+
+export type RotationProposal = {
+  from: string; // symbol
+  to: string; // symbol
+  fractionBps: number; // of the `from` balance
+  amountRaw?: bigint; // exact amount (e.g. a DCA installment), still capped by fractionBps
+};
+
+export type RotationRoute = {
+  from: Address;
+  to: Address;
+  stable: boolean;
+  factory: Address;
+};
+
+export type RotationPlan = {
+  from: PortfolioTokenConfig;
+  to: PortfolioTokenConfig;
+  amountIn: bigint;
+  notionalWei: bigint; // ETH value of amountIn at spot
+  routes: RotationRoute[];
+};
+
+const AERODROME_POOL_QUOTE_ABI = [
+  {
+    type: "function",
+    name: "getAmountOut",
+    stateMutability: "view",
+    inputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "tokenIn", type: "address" }
+    ],
+    outputs: [{ name: "", type: "uint256" }]
+  }
+] as const;
+
+const ROUTE_COMPONENTS = [
+  { name: "from", type: "address" },
+  { name: "to", type: "address" },
+  { name: "stable", type: "bool" },
+  { name: "factory", type: "address" }
+] as const;
+
+const AERODROME_ROUTER_ABI = [
+  {
+    type: "function",
+    name: "getAmountsOut",
+    stateMutability: "view",
+    inputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "routes", type: "tuple[]", components: ROUTE_COMPONENTS }
+    ],
+    outputs: [{ name: "amounts", type: "uint256[]" }]
+  },
+  {
+    type: "function",
+    name: "swapExactTokensForTokens",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "amountOutMin", type: "uint256" },
+      { name: "routes", type: "tuple[]", components: ROUTE_COMPONENTS },
+      { name: "to", type: "address" },
+      { name: "deadline", type: "uint256" }
+    ],
+    outputs: [{ name: "amounts", type: "uint256[]" }]
+  }
+] as const;
+
+// Spot price probe: 1/1000 of a whole token keeps pool impact negligible.
+const PRICE_PROBE_DIVISOR = 1_000n;
+const ROTATION_DEADLINE_SECONDS = 600n;
+
+export function portfolioEnabled(cfg: AppConfig): boolean {
+  return (cfg.PORTFOLIO_TOKENS ?? []).length > 0;
+}
+
+export function findPortfolioToken(cfg: AppConfig, symbol: string): PortfolioTokenConfig | null {
+  return (cfg.PORTFOLIO_TOKENS ?? []).find((t) => t.symbol === symbol.toUpperCase()) ?? null;
+}
+
+function isWeth(cfg: AppConfig, token: PortfolioTokenConfig): boolean {
+  return !!cfg.WETH_ADDRESS && token.address.toLowerCase() === cfg.WETH_ADDRESS.toLowerCase();
+}
+
+// ============================================================================
+// Valuation
+// ============================================================================
+
+/**
+ * Read balances and ETH prices for every portfolio token. Failed reads are
+ * reported in `unknown` and left out of the total rather than counted as 0.
+ */
+export async function readPortfolio(cfg: AppConfig, clients: ChainClients, ethWei: bigint): Promise<Portfolio> {
+  const unknown: string[] = [];
+  const holdings: Holding[] = [];
+
+  for (const token of cfg.PORTFOLIO_TOKENS ?? []) {
+    let balanceRaw: bigint | null = null;
+    try {
+      balanceRaw = await clients.publicClient.readContract({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [clients.walletAddress]
+      });
+    } catch (err) {
+      logger.warn("portfolio.balance_failed", {
+        symbol: token.symbol,
+        error: err instanceof Error ? err.message : String(err)
+      });
+    }
+
+    const priceWei = await readTokenPriceWei(cfg, clients, token);
+    const valueWei =
+      balanceRaw !== null && priceWei !== null ? (balanceRaw * priceWei) / 10n ** BigInt(token.decimals) : null;
+    if (balanceRaw === null || priceWei === null) unknown.push(token.symbol);
+
+    const { symbol, address, decimals } = token;
+    holdings.push({ symbol, address, decimals, balanceRaw, priceWei, valueWei, weightBps: null });
+  }
+
+  const totalValueWei = holdings.reduce((sum, h) => sum + (h.valueWei ?? 0n), ethWei);
+  for (const h of holdings) {
+    h.weightBps = h.valueWei !== null && totalValueWei > 0n ? Number((h.valueWei * 10_000n) / totalValueWei) : null;
+  }
+
+  return { ethWei, holdings, totalValueWei, unknown };
+}
+
+/**
+ * Wei per whole token: 1e18 for WETH, else an Aerodrome getAmountOut quote
+ * (fee-inclusive, correct curve for stable pools) for a small probe.
+ */
+async function readTokenPriceWei(
+  cfg: AppConfig,
+  clients: ChainClients,
+  token: PortfolioTokenConfig
+): Promise<bigint | null> {
+  if (isWeth(cfg, token)) return 10n ** 18n;
+  if (!token.pool) return null;
+
+  const probe = 10n ** BigInt(token.decimals) / PRICE_PROBE_DIVISOR || 1n;
+  try {
+    const out = await clients.publicClient.readContract({
+      address: token.pool,
+      abi: AERODROME_POOL_QUOTE_ABI,
+      functionName: "getAmountOut",
+      args: [probe, token.address]
+    });
+    return (out * 10n ** BigInt(token.decimals)) / probe;
+  } catch (err) {
+    logger.warn("portfolio.price_failed", {
+      symbol: token.symbol,
+      error: err instanceof Error ? err.message : String(err)
+    });
+    return null;
+  }
+}
+
+/**
+ * Portfolio view for the brain's get_context tool.
+ */
+export function portfolioToJson(p: Portfolio) {
+  return {
+    eth: formatEther(p.ethWei),
+    totalValueEth: formatEther(p.totalValueWei),
+    holdings: p.holdings.map((h) => ({
+      symbol: h.symbol,
+      balance: h.balanceRaw === null ? "unknown" : formatUnits(h.balanceRaw, h.decimals),
+      valueEth: h.valueWei === null ? "unknown" : formatEther(h.valueWei),
+      weightPct: h.weightBps === null ? null : h.weightBps / 100
+    })),
+    unknown: p.unknown
+  };
+}
+
+// ============================================================================
+// Rotation
+// ============================================================================
+
+/**
+ * Size a rotation and check per-token caps. Returns the plan, or a
+ * blockedReason string.
+ *
+ * The amount is `fractionBps` of the `from` balance (or `amountRaw` when
+ * smaller), clamped to MAX_SPEND_ETH_PER_TRADE and to the tighter of the two
+ * tokens' MAX_ETH_PER_TRADE when set. The rotation is blocked when the target
+ * would exceed its MAX_WEIGHT_BPS afterwards.
+ */
+export function planRotation(cfg: AppConfig, portfolio: Portfolio, proposal: RotationProposal): RotationPlan | string {
+  const from = findPortfolioToken(cfg, proposal.from);
+  const to = findPortfolioToken(cfg, proposal.to);
+  if (!from) return `unknown portfolio token ${proposal.from}`;
+  if (!to) return `unknown portfolio token ${proposal.to}`;
+  if (from.symbol === to.symbol) return "rotation from and to the same token";
+  if (!Number.isInteger(proposal.fractionBps) || proposal.fractionBps <= 0 || proposal.fractionBps > 10_000) {
+    return `rotation fraction must be 1-10000 bps (got ${proposal.fractionBps})`;
+  }
+
+  const holding = portfolio.holdings.find((h) => h.symbol === from.symbol);
+  const target = portfolio.holdings.find((h) => h.symbol === to.symbol);
+  if (!holding || holding.balanceRaw === null || holding.priceWei === null || holding.priceWei <= 0n) {
+    return `${from.symbol} balance or price unknown`;
+  }
+
+  let amountIn = (holding.balanceRaw * BigInt(proposal.fractionBps)) / 10_000n;
+  if (proposal.amountRaw !== undefined && proposal.amountRaw < amountIn) amountIn = proposal.amountRaw;
+  const unit = 10n ** BigInt(from.decimals);
+  const capWei = rotationCapWei(cfg, from, to);
+  if (capWei <= 0n) return "MAX_SPEND_ETH_PER_TRADE not positive";
+  if ((amountIn * holding.priceWei) / unit > capWei) {
+    amountIn = (capWei * unit) / holding.priceWei;
+  }
+  if (amountIn <= 0n) return `no ${from.symbol} to rotate (or fraction too small)`;
+  const notionalWei = (amountIn * holding.priceWei) / unit;
+
+  if (to.maxWeightBps > 0) {
+    if (!target || target.valueWei === null || portfolio.totalValueWei <= 0n) {
+      return `${to.symbol} value unknown (cannot check MAX_WEIGHT_BPS)`;
+    }
+    const afterBps = Number(((target.valueWei + notionalWei) * 10_000n) / portfolio.totalValueWei);
+    if (afterBps > to.maxWeightBps) {
+      return `${to.symbol} weight would be ${afterBps}bps (max ${to.maxWeightBps}bps)`;
+    }
+  }
+
+  const routes = rotationRoutes(cfg, from, to);
+  if (typeof routes === "string") return routes;
+  return { from, to, amountIn, notionalWei, routes };
+}
+
+// MAX_SPEND_ETH_PER_TRADE, tightened by either token's own cap ("0" => no per-token cap).
+function rotationCapWei(cfg: AppConfig, a: PortfolioTokenConfig, b: PortfolioTokenConfig): bigint {
+  const perToken = [a.maxEthPerTrade, b.maxEthPerTrade].map(safeParseEther).filter((c) => c > 0n);
+  return perToken.reduce((min, c) => (c < min ? c : min), safeParseEther(cfg.MAX_SPEND_ETH_PER_TRADE));
+}
+
+/**
+ * One hop when either side is WETH, else two hops through WETH.
+ */
+function rotationRoutes(
+  cfg: AppConfig,
+  from: PortfolioTokenConfig,
+  to: PortfolioTokenConfig
+): RotationRoute[] | string {
+  // Routes are Aerodrome Route structs; any other ROUTER_ADDRESS would approve and then revert.
+  if (cfg.ROUTER_TYPE !== "aerodrome") return `rotations need ROUTER_TYPE=aerodrome (got ${cfg.ROUTER_TYPE})`;
+  if (!cfg.WETH_ADDRESS) return "WETH_ADDRESS not configured";
+  const weth = cfg.WETH_ADDRESS as Address;
+  const factory = cfg.AERODROME_FACTORY_ADDRESS as Address;
+
+  const hops: RotationRoute[] = [];
+  if (!isWeth(cfg, from)) {
+    if (!from.pool) return `no pool configured for ${from.symbol} (set PORTFOLIO_${from.symbol}_POOL)`;
+    hops.push({ from: from.address, to: weth, stable: from.poolStable, factory });
+  }
+  if (!isWeth(cfg, to)) {
+    if (!to.pool) return `no pool configured for ${to.symbol} (set PORTFOLIO_${to.symbol}_POOL)`;
+    hops.push({ from: weth, to: to.address, stable: to.poolStable, factory });
+  }
+  return hops;
+}
+
+/**
+ * Router quote for the full route; null when the router call fails.
+ */
+export async function quoteRotation(cfg: AppConfig, clients: ChainClients, plan: RotationPlan): Promise<bigint | null> {
+  if (!cfg.ROUTER_ADDRESS) return null;
+  try {
+    const amounts = await clients.publicClient.readContract({
+      address: cfg.ROUTER_ADDRESS as Address,
+      abi: AERODROME_ROUTER_ABI,
+      functionName: "getAmountsOut",
+      args: [plan.amountIn, plan.routes]
+    });
+    return amounts[amounts.length - 1] ?? null;
+  } catch (err) {
+    logger.warn("portfolio.quote_failed", { error: err instanceof Error ? err.message : String(err) });
+    return null;
+  }
+}
+
+export function buildRotationCalldata(
+  cfg: AppConfig,
+  plan: RotationPlan,
+  recipient: Address,
+  quotedOut: bigint,
+  nowMs: number = Date.now()
+): SwapCalldata {
+  const amountOutMin = (quotedOut * BigInt(10_000 - cfg.SLIPPAGE_BPS)) / 10_000n;
+  const deadline = BigInt(Math.floor(nowMs / 1000)) + ROTATION_DEADLINE_SECONDS;
+  return {
+    to: cfg.ROUTER_ADDRESS as Address,
+    calldata: encodeFunctionData({
+      abi: AERODROME_ROUTER_ABI,
+      functionName: "swapExactTokensForTokens",
+      args: [plan.amountIn, amountOutMin, plan.routes, recipient, deadline]
+    }),
+    deadline
+  };
+}
+
+/**
+ * Execute a planned rotation: approve the router if the allowance is short
+ * (waiting APPROVE_CONFIRMATIONS), then swap. Each transaction is simulated
+ * before it goes through the nonce manager; on a revert nothing more is sent,
+ * txHash is null and the caller holds with the simulation's reason
+ * (holdOnSimulationRevert).
+ */
+export async function executeRotation<S extends NonceManagerState>(
+  cfg: AppConfig,
+  clients: ChainClients,
+  state: S,
+  plan: RotationPlan,
+  fees: FeeQuote
+): Promise<{ state: S; txHash: Hex | null; simulation: SimulationResult }> {
+  const router = cfg.ROUTER_ADDRESS as Address;
+  const quotedOut = await quoteRotation(cfg, clients, plan);
+  if (quotedOut === null || quotedOut <= 0n) throw new Error(`no quote for ${plan.from.symbol} -> ${plan.to.symbol}`);
+
+  let next = state;
+  const allowance = await clients.publicClient.readContract({
+    address: plan.from.address,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [clients.walletAddress, router]
+  });
+  if (allowance < plan.amountIn) {
+    const approveAmount = cfg.APPROVE_MAX ? 2n ** 256n - 1n : plan.amountIn;
+    const req = {
+      to: plan.from.address,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [router, approveAmount] })
+    };
+    const simulation = await simulateTransaction(clients, req, "approve");
+    if (!simulation.ok) return { state: next, txHash: null, simulation };
+
+    const approve = await sendManagedTransaction(clients, next, req, fees, "approve");
+    next = approve.state;
+    // The swap's simulation and gas estimate revert until the approval is mined.
+    await clients.publicClient.waitForTransactionReceipt({
+      hash: approve.hash,
+      confirmations: cfg.APPROVE_CONFIRMATIONS
+    });
+  }
+
+  const swap = buildRotationCalldata(cfg, plan, clients.walletAddress, quotedOut);
+  const req = { to: swap.to, data: swap.calldata };
+  const simulation = await simulateTransaction(clients, req, "rotate");
+  if (!simulation.ok) return { state: next, txHash: null, simulation };
+
+  const sent = await sendManagedTransaction(clients, next, req, fees, "rotate");
+  logger.info("portfolio.rotate", {
+    from: plan.from.symbol,
+    to: plan.to.symbol,
+    amountIn: plan.amountIn.toString(),
+    quotedOut: quotedOut.toString(),
+    hash: sent.hash
+  });
+  return { state: sent.state, txHash: sent.hash, simulation };
+}
+
+export function describeRotation(plan: RotationPlan): string {
+  const amount = formatUnits(plan.amountIn, plan.from.decimals);
+  return `${amount} ${plan.from.symbol} -> ${plan.to.symbol} (~${formatEther(plan.notionalWei)} ETH)`;
+}
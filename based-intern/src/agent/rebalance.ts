@@ -0,0 +1,160 @@
+import { formatEther } from "viem";
+import type { AppConfig, RebalanceTargetConfig } from "../config.js";
+import type { DecisionContext, ProposedAction } from "./decision.js";
+import { safeParseEther } from "../utils.js";
+
+/**
+ * Deterministic target-allocation rebalancing (STRATEGY_MODE=rebalance).
+ *
+ * Operators declare target weights over ETH, INTERN and (with PORTFOLIO_TOKENS)
+ * other portfolio tokens, each with a drift band. When an asset drifts outside
+ * its band, the most overweight asset is traded into the most underweight one,
+ * sized to bring the pair back to target. The result is an ordinary
+ * ProposedAction (BUY / SELL / ROTATE with a requested size), so it goes through
+ * enforceGuardrails exactly like an LLM proposal.
+ */
+
+export type AssetDrift = {
+  asset: string;
+  valueWei: bigint;
+  actualBps: number;
+  targetBps: number;
+  bandBps: number;
+  driftBps: number; // actual - target
+};
+
+// ============================================================================
+// Valuation
+// ============================================================================
+
+/**
+ * ETH value of each targeted asset. Assets without a known value (no price,
+ * failed read) are listed in `unknown`; the rebalancer then holds rather than
+ * trading on a guess.
+ */
+export function targetAssetValues(
+  cfg: AppConfig,
+  ctx: DecisionContext
+): { values: Map<string, bigint>; unknown: string[] } {
+  const internSymbol = (cfg.TOKEN_SYMBOL ?? "INTERN").toUpperCase();
+  const values = new Map<string, bigint>();
+  const unknown: string[] = [];
+
+  for (const t of cfg.REBALANCE_TARGETS) {
+    if (t.asset === "ETH") {
+      values.set("ETH", ctx.ethWei);
+      continue;
+    }
+    const holding = ctx.portfolio?.holdings.find((h) => h.symbol === t.asset);
+    if (holding) {
+      if (holding.valueWei === null) unknown.push(t.asset);
+      else values.set(t.asset, holding.valueWei);
+      continue;
+    }
+    if (t.asset === internSymbol && ctx.spotPriceWei != null) {
+      values.set(t.asset, (ctx.internAmount * ctx.spotPriceWei) / 10n ** BigInt(cfg.TOKEN_DECIMALS ?? 18));
+      continue;
+    }
+    unknown.push(t.asset);
+  }
+  return { values, unknown };
+}
+
+export function computeDrift(targets: RebalanceTargetConfig[], values: Map<string, bigint>): AssetDrift[] {
+  const total = targets.reduce((sum, t) => sum + (values.get(t.asset) ?? 0n), 0n);
+  return targets.map((t) => {
+    const valueWei = values.get(t.asset) ?? 0n;
+    const actualBps = total > 0n ? Number((valueWei * 10_000n) / total) : 0;
+    return {
+      asset: t.asset,
+      valueWei,
+      actualBps,
+      targetBps: t.targetBps,
+      bandBps: t.bandBps,
+      driftBps: actualBps - t.targetBps
+    };
+  });
+}
+
+// ============================================================================
+// Proposal
+// ============================================================================
+
+/**
+ * Trade needed to return to target, or HOLD with the reason. Feed the result
+ * to enforceGuardrails in place of the brain's proposal.
+ */
+export function proposeRebalance(cfg: AppConfig, ctx: DecisionContext): ProposedAction {
+  if (cfg.REBALANCE_TARGETS.length < 2) return holdProposal("rebalance: no targets configured");
+
+  const { values, unknown } = targetAssetValues(cfg, ctx);
+  if (unknown.length > 0) return holdProposal(`rebalance: value unknown for ${unknown.join(", ")}`);
+
+  const drifts = computeDrift(cfg.REBALANCE_TARGETS, values);
+  const total = drifts.reduce((sum, d) => sum + d.valueWei, 0n);
+  if (total <= 0n) return holdProposal("rebalance: nothing to rebalance (zero value)");
+
+  if (!drifts.some((d) => Math.abs(d.driftBps) > d.bandBps)) {
+    return holdProposal(`rebalance: within bands (${describeWeights(drifts)})`);
+  }
+
+  const over = drifts.reduce((a, b) => (b.driftBps > a.driftBps ? b : a));
+  const under = drifts.reduce((a, b) => (b.driftBps < a.driftBps ? b : a));
+  const excessWei = (BigInt(over.driftBps) * total) / 10_000n;
+  const shortfallWei = (BigInt(-under.driftBps) * total) / 10_000n;
+  const tradeWei = excessWei < shortfallWei ? excessWei : shortfallWei;
+
+  if (tradeWei < safeParseEther(cfg.REBALANCE_MIN_TRADE_ETH)) {
+    return holdProposal(`rebalance: correction ${formatEther(tradeWei)} ETH below REBALANCE_MIN_TRADE_ETH`);
+  }
+
+  const rationale =
+    `rebalance: ${over.asset} ${pct(over.actualBps)} vs ${pct(over.targetBps)}, ` +
+    `${under.asset} ${pct(under.actualBps)} vs ${pct(under.targetBps)} -> move ~${formatEther(tradeWei)} ETH`;
+  const internSymbol = (cfg.TOKEN_SYMBOL ?? "INTERN").toUpperCase();
+
+  if (over.asset === "ETH" && under.asset === internSymbol) {
+    return { action: "BUY", rationale, buySpendWei: tradeWei };
+  }
+
+  if (over.asset === internSymbol && under.asset === "ETH") {
+    const priceWei = internPriceWei(cfg, ctx);
+    if (priceWei === null) return holdProposal("rebalance: INTERN price unknown");
+    return {
+      action: "SELL",
+      rationale,
+      sellAmount: (tradeWei * 10n ** BigInt(cfg.TOKEN_DECIMALS ?? 18)) / priceWei
+    };
+  }
+
+  if (over.asset === "ETH" || under.asset === "ETH") {
+    const other = over.asset === "ETH" ? under.asset : over.asset;
+    return holdProposal(`rebalance: no ETH route for ${other} (hold it as WETH in the portfolio instead)`);
+  }
+
+  const fractionBps = Number((tradeWei * 10_000n) / over.valueWei);
+  return {
+    action: "ROTATE",
+    rationale,
+    rotate: { from: over.asset, to: under.asset, fractionBps: Math.max(1, fractionBps) }
+  };
+}
+
+function internPriceWei(cfg: AppConfig, ctx: DecisionContext): bigint | null {
+  const internSymbol = (cfg.TOKEN_SYMBOL ?? "INTERN").toUpperCase();
+  const holding = ctx.portfolio?.holdings.find((h) => h.symbol === internSymbol);
+  const price = holding?.priceWei ?? ctx.spotPriceWei ?? null;
+  return price !== null && price > 0n ? price : null;
+}
+
+function describeWeights(drifts: AssetDrift[]): string {
+  return drifts.map((d) => `${d.asset} ${pct(d.actualBps)}`).join(", ");
+}
+
+function pct(bps: number): string {
+  return `${(bps / 100).toFixed(1)}%`;
+}
+
+function holdProposal(rationale: string): ProposedAction {
+  return { action: "HOLD", rationale };
+}
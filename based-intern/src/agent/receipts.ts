@@ -1,14 +1,33 @@
 import { formatEther, formatUnits, type Address } from "viem";
+import { renderPrice, type PriceResult } from "../chain/price.js";
+import type { ReplacementReport } from "../chain/nonce.js";
+import { describeRoute, type RouteSelection } from "../chain/dex/aggregator.js";
+import { describeTransfer, type TokenTransfer } from "./watch.js";
+import { describeRotation, type RotationPlan } from "./portfolio.js";
+import { describeDcaInstallment, type DcaInstallment } from "./dca.js";
+import { describeOrder, type ConditionalOrder } from "./orders.js";
+import { describeLpAction, type LpActionRecord } from "./lpManager.js";
+import { describeHarvest, type HarvestRecord } from "./harvest.js";
 
 export type ReceiptInput = {
-  action: "HOLD" | "BUY" | "SELL";
+  action: "HOLD" | "BUY" | "SELL" | "ROTATE" | "LP" | "HARVEST";
   agentRef?: string | null; // e.g. eip155:8453:0x...#123
   wallet: Address;
   ethWei: bigint;
   internAmount: bigint;
   internDecimals: number;
-  priceText: string | null; // null => unknown
+  price?: PriceResult | null; // structured price; preferred over priceText when present
+  priceText?: string | null; // legacy preformatted price; null => unknown
   txHash: `0x${string}` | null; // null => "-"
+  blockedReason?: string | null; // why an intended trade became a HOLD (e.g. "simulation reverted: ...")
+  replacements?: ReplacementReport[]; // stuck txs replaced this tick
+  transfers?: TokenTransfer[]; // INTERN moved to/from the wallet since the last tick
+  rotation?: RotationPlan | null; // portfolio rotation executed this tick
+  dca?: DcaInstallment | null; // DCA installment handled this tick (executed or skipped)
+  order?: ConditionalOrder | null; // conditional order that triggered this tick
+  lp?: LpActionRecord | null; // LP manager action (action: "LP"; one receipt per action)
+  harvest?: HarvestRecord | null; // gauge reward harvest (action: "HARVEST")
+  route?: RouteSelection | null; // venue the swap was routed through and the quotes it beat
   dryRun: boolean;
 };
 
@@ -28,7 +47,7 @@ const MOOD_LINES = [
 export function buildReceiptMessage(input: ReceiptInput): string {
   const mode = input.dryRun ? "SIMULATED" : "LIVE";
   const tx = input.dryRun ? "-" : input.txHash ?? "-";
-  const price = input.priceText ?? "unknown";
+  const price = input.price ? renderPrice(input.price) : input.priceText ?? "unknown";
 
   const eth = formatTrim(formatEther(input.ethWei), 6);
   const intern = formatTrim(formatUnits(input.internAmount, input.internDecimals), 2);
@@ -46,12 +65,28 @@ export function buildReceiptMessage(input: ReceiptInput): string {
     `eth: ${eth}`,
     `intern: ${intern}`,
     `price: ${price}`,
+    input.rotation ? `rotate: ${describeRotation(input.rotation)}` : null,
+    input.dca ? `dca: ${describeDcaInstallment(input.dca)}` : null,
+    input.order ? `order: ${describeOrder(input.order)}` : null,
+    input.lp ? `lp: ${describeLpAction(input.lp, input.internDecimals)}` : null,
+    input.harvest ? `harvest: ${describeHarvest(input.harvest, input.internDecimals)}` : null,
+    input.route ? `route: ${describeRoute(input.route, input.internDecimals)}` : null,
     `tx: ${tx}`,
+    input.blockedReason ? `blocked: ${input.blockedReason}` : null,
+    ...(input.replacements ?? []).map(
+      (r) => `replaced: ${r.label} nonce ${r.nonce} ${shortHash(r.oldHash)} -> ${shortHash(r.newHash)} (${r.mode})`
+    ),
+    ...(input.transfers ?? []).map((t) => `transfer: ${describeTransfer(t, input.internDecimals)}`),
     `mode: ${mode}`,
     `note: ${note}`
   ].filter((l): l is string => Boolean(l)).join("\n");
 }
 
+// Full hashes stay in the logs; two of them would eat most of an X post.
+function shortHash(hash: string): string {
+  return hash.length > 14 ? `${hash.slice(0, 8)}…${hash.slice(-4)}` : hash;
+}
+
 function pickMoodLine(action: ReceiptInput["action"]): string {
   // Deterministic but changes over time; doesn’t require RNG.
   const seed = `${new Date().toISOString().slice(0, 10)}:${action}`;
@@ -0,0 +1,166 @@
+import type { AppConfig } from "../config.js";
+import { logger } from "../logger.js";
+import type { PriceObservation } from "../chain/twap.js";
+import type { NewsItem } from "../news/types.js";
+import type { BrainContext } from "./brain.js";
+import { enforceGuardrails, type Decision, type DecisionContext, type ProposedAction } from "./decision.js";
+import { proposeRebalance } from "./rebalance.js";
+import type { WhaleEvent } from "./whales.js";
+
+/**
+ * Strategy plugins.
+ *
+ * A strategy turns the tick's full context into a ProposedAction (with a
+ * requested size where it has an opinion); enforceGuardrails still decides
+ * what actually executes. STRATEGY_MODE picks the live strategy from the
+ * registry, and every name in STRATEGY_SHADOW runs alongside it in shadow
+ * mode: its proposal is put through the guardrails and logged, never executed.
+ *
+ * "llm", "rebalance" and "hold" are built in; "llm" imports the brain (and its
+ * OpenAI client) on first use. Plugins must be registered before loadConfig(),
+ * which rejects strategy names missing from the registry.
+ */
+
+export type StrategyContext = DecisionContext & {
+  brain?: BrainContext; // what the LLM sees; derived from the balances when absent
+  priceHistory?: PriceObservation[]; // TWAP observations, oldest first
+  news?: NewsItem[];
+  whaleEvents?: WhaleEvent[];
+};
+
+export type Strategy = {
+  name: string;
+  description: string;
+  propose: (cfg: AppConfig, ctx: StrategyContext) => Promise<ProposedAction>;
+};
+
+export type ShadowResult = {
+  strategy: string;
+  proposal: ProposedAction | null; // null => the strategy threw
+  decision: Decision | null;
+  error: string | null;
+};
+
+export type StrategyRun = {
+  strategy: string;
+  proposal: ProposedAction;
+  shadows: ShadowResult[];
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const strategies = new Map<string, Strategy>();
+
+export function registerStrategy(s: Strategy): void {
+  strategies.set(s.name, s);
+}
+
+export function getStrategy(name: string): Strategy | null {
+  return strategies.get(name) ?? null;
+}
+
+export function getStrategies(): Strategy[] {
+  return [...strategies.values()];
+}
+
+registerStrategy({
+  name: "rebalance",
+  description: "target-allocation rebalancing over REBALANCE_TARGETS",
+  propose: async (cfg, ctx) => proposeRebalance(cfg, ctx)
+});
+
+registerStrategy({
+  name: "hold",
+  description: "never trades (useful as the live strategy while others run in shadow)",
+  propose: async () => ({ action: "HOLD", rationale: "hold strategy" })
+});
+
+registerStrategy(
+  llmStrategy(async (cfg, ctx) => {
+    const { proposeAction } = await import("./brain.js");
+    return proposeAction(cfg, ctx);
+  })
+);
+
+/**
+ * Wrap the brain's proposeAction as the "llm" strategy. Uses `ctx.brain` when
+ * the tick built one (tools, news, price text), else a balances-only context.
+ */
+export function llmStrategy(
+  proposeAction: (cfg: AppConfig, ctx: BrainContext) => Promise<ProposedAction>
+): Strategy {
+  return {
+    name: "llm",
+    description: "LLM brain (deterministic fallback without OPENAI_API_KEY)",
+    propose: async (cfg, ctx) =>
+      await proposeAction(
+        cfg,
+        ctx.brain ?? {
+          wallet: ctx.wallet,
+          ethWei: ctx.ethWei,
+          internAmount: ctx.internAmount,
+          internDecimals: cfg.TOKEN_DECIMALS ?? 18,
+          priceText: null
+        }
+      )
+  };
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/**
+ * Run the live strategy and its shadows. Unknown names throw (a config
+ * mistake should stop the agent, not silently hold). A live strategy that
+ * throws becomes a HOLD; a shadow that throws is logged and ignored.
+ */
+export async function runStrategies(cfg: AppConfig, ctx: StrategyContext): Promise<StrategyRun> {
+  const live = requireStrategy(cfg.STRATEGY_MODE);
+  const shadowStrategies = cfg.STRATEGY_SHADOW.filter((n) => n !== live.name).map(requireStrategy);
+
+  let proposal: ProposedAction;
+  try {
+    proposal = await live.propose(cfg, ctx);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    logger.warn("strategy.failed", { strategy: live.name, error });
+    proposal = { action: "HOLD", rationale: `strategy ${live.name} failed: ${error}` };
+  }
+
+  const shadows: ShadowResult[] = [];
+  for (const s of shadowStrategies) {
+    shadows.push(await runShadow(cfg, ctx, s));
+  }
+  return { strategy: live.name, proposal, shadows };
+}
+
+async function runShadow(cfg: AppConfig, ctx: StrategyContext, s: Strategy): Promise<ShadowResult> {
+  try {
+    const proposal = await s.propose(cfg, ctx);
+    const decision = enforceGuardrails(proposal, ctx);
+    logger.info("strategy.shadow", {
+      strategy: s.name,
+      proposed: proposal.action,
+      action: decision.action,
+      wouldExecute: decision.shouldExecute,
+      blockedReason: decision.blockedReason,
+      buySpendWei: decision.buySpendWei?.toString() ?? null,
+      sellAmount: decision.sellAmount?.toString() ?? null,
+      rationale: proposal.rationale
+    });
+    return { strategy: s.name, proposal, decision, error: null };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    logger.warn("strategy.shadow_failed", { strategy: s.name, error });
+    return { strategy: s.name, proposal: null, decision: null, error };
+  }
+}
+
+function requireStrategy(name: string): Strategy {
+  const s = strategies.get(name);
+  if (!s) throw new Error(`unknown strategy "${name}" (registered: ${[...strategies.keys()].join(", ")})`);
+  return s;
+}
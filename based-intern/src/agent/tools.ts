@@ -3,14 +3,29 @@ import { z } from "zod";
 import type { AppConfig } from "../config.js";
 import type { BrainContext } from "./brain.js";
 import type { NewsItem } from "../news/types.js";
+import { priceToJson, type PriceResult } from "../chain/price.js";
+import { whaleEventsToJson, type WhaleEvent } from "./whales.js";
+import { portfolioToJson, type Portfolio } from "./portfolio.js";
 
 /**
  * LangChain tools used by the agent brain.
  *
  * Minimal on purpose: we expose a single `get_context` tool so the model can
  * “prove” it is reasoning from the current balances/settings.
+ *
+ * When the structured price is passed in, get_context exposes the raw wei
+ * price, USD value, block number and staleness instead of a display string.
+ * Recent whale-watcher events (large INTERN moves by others) are included as
+ * `whaleActivity` when passed, and the multi-token portfolio (balances, ETH
+ * values, weights and per-token caps) as `portfolio`.
  */
-export function buildTools(cfg: AppConfig, ctx: BrainContext) {
+export function buildTools(
+  cfg: AppConfig,
+  ctx: BrainContext,
+  price?: PriceResult | null,
+  whaleEvents?: WhaleEvent[] | null,
+  portfolio?: Portfolio | null
+) {
   const getContext = new DynamicStructuredTool({
     name: "get_context",
     description:
@@ -23,7 +38,22 @@ export function buildTools(cfg: AppConfig, ctx: BrainContext) {
           ethWei: ctx.ethWei.toString(),
           internAmount: ctx.internAmount.toString(),
           internDecimals: ctx.internDecimals,
-          price: ctx.priceText ?? "unknown",
+          price: price ? priceToJson(price) : ctx.priceText ?? "unknown",
+          ...(whaleEvents
+            ? { whaleActivity: whaleEventsToJson(whaleEvents, ctx.internDecimals, cfg.TOKEN_SYMBOL ?? "INTERN") }
+            : {}),
+          ...(portfolio
+            ? {
+                portfolio: {
+                  ...portfolioToJson(portfolio),
+                  caps: cfg.PORTFOLIO_TOKENS.map((t) => ({
+                    symbol: t.symbol,
+                    maxEthPerTrade: t.maxEthPerTrade,
+                    maxWeightBps: t.maxWeightBps
+                  }))
+                }
+              }
+            : {}),
           settings: {
             tradingEnabled: cfg.TRADING_ENABLED,
             killSwitch: cfg.KILL_SWITCH,
@@ -1,5 +1,5 @@
-import { parseEther, erc20Abi } from "viem";
-import type { Address, PublicClient } from "viem";
+import { parseEther, erc20Abi, formatUnits, parseAbiItem } from "viem";
+import type { Address, Hex, PublicClient } from "viem";
 import { logger } from "../logger.js";
 
 /**
@@ -13,14 +13,39 @@ export type ActivityWatchContext = {
   decimals: number;
   minEthDeltaWei: bigint;
   minTokenDeltaRaw: bigint;
+  logChunkBlocks?: number; // eth_getLogs block range per request (default 2000)
+  maxLogScanBlocks?: number; // max lookback after downtime (default 20000)
 };
 
+/**
+ * INTERN Transfer to/from the agent wallet, found by log scanning
+ */
+export type TokenTransfer = {
+  direction: "in" | "out";
+  counterparty: Address;
+  amountRaw: string;
+  txHash: Hex;
+  blockNumber: number;
+  logIndex: number;
+};
+
+/**
+ * Reads the watcher makes each tick; listed in `unknown` when the RPC call failed
+ */
+export type WatchRead = "nonce" | "eth_balance" | "token_balance" | "block_number" | "transfer_logs";
+
 /**
  * Result of activity detection
  */
 export type ActivityDetectionResult = {
   changed: boolean;
   reasons: string[];
+  balances: {
+    ethWei: string | null; // null => unknown (RPC read failed), not zero
+    tokenRaw: string | null; // null => unknown; "0" when no token is configured
+  };
+  unknown: WatchRead[];
+  transfers: TokenTransfer[]; // oldest first
   deltas: {
     nonceChanged: boolean;
     ethChanged: boolean;
@@ -50,6 +75,12 @@ export async function watchForActivity(
   const result: ActivityDetectionResult = {
     changed: false,
     reasons: [],
+    balances: {
+      ethWei: null,
+      tokenRaw: null
+    },
+    unknown: [],
+    transfers: [],
     deltas: {
       nonceChanged: false,
       ethChanged: false,
@@ -71,6 +102,7 @@ export async function watchForActivity(
         address: ctx.walletAddress
       });
     } catch (err) {
+      result.unknown.push("nonce");
       logger.warn("failed to read nonce", { error: err instanceof Error ? err.message : String(err) });
     }
 
@@ -84,20 +116,25 @@ export async function watchForActivity(
       }
     }
 
-    // Read current ETH balance
-    let currentEthWei = 0n;
+    // Read current ETH balance. On RPC failure the balance is unknown, not 0:
+    // leave it out of the patch (like the nonce) so a hiccup never registers
+    // as a withdrawal.
+    let currentEthWei: bigint | null = null;
     try {
       currentEthWei = await ctx.publicClient.getBalance({
         address: ctx.walletAddress
       });
     } catch (err) {
+      result.unknown.push("eth_balance");
       logger.warn("failed to read ETH balance in watcher", { error: err instanceof Error ? err.message : String(err) });
     }
 
-    const currentEthWeiStr = currentEthWei.toString();
-    result.newStatePatch.lastSeenEthWei = currentEthWeiStr;
+    if (currentEthWei !== null) {
+      result.balances.ethWei = currentEthWei.toString();
+      result.newStatePatch.lastSeenEthWei = currentEthWei.toString();
+    }
 
-    if (lastSeenEthWei !== null) {
+    if (currentEthWei !== null && lastSeenEthWei !== null) {
       const lastEthWei = BigInt(lastSeenEthWei);
       const delta = currentEthWei - lastEthWei;
       const absDelta = delta < 0n ? -delta : delta;
@@ -109,8 +146,8 @@ export async function watchForActivity(
       }
     }
 
-    // Read current token balance
-    let currentTokenRaw = 0n;
+    // Read current token balance (same unknown-vs-zero handling)
+    let currentTokenRaw: bigint | null = ctx.tokenAddress ? null : 0n;
     if (ctx.tokenAddress) {
       try {
         currentTokenRaw = await ctx.publicClient.readContract({
@@ -120,14 +157,17 @@ export async function watchForActivity(
           args: [ctx.walletAddress]
         });
       } catch (err) {
+        result.unknown.push("token_balance");
         logger.warn("failed to read token balance in watcher", { error: err instanceof Error ? err.message : String(err) });
       }
     }
 
-    const currentTokenRawStr = currentTokenRaw.toString();
-    result.newStatePatch.lastSeenTokenRaw = currentTokenRawStr;
+    if (currentTokenRaw !== null) {
+      result.balances.tokenRaw = currentTokenRaw.toString();
+      result.newStatePatch.lastSeenTokenRaw = currentTokenRaw.toString();
+    }
 
-    if (ctx.tokenAddress && lastSeenTokenRaw !== null) {
+    if (ctx.tokenAddress && currentTokenRaw !== null && lastSeenTokenRaw !== null) {
       const lastTokenRaw = BigInt(lastSeenTokenRaw);
       const delta = currentTokenRaw - lastTokenRaw;
       const absDelta = delta < 0n ? -delta : delta;
@@ -139,16 +179,32 @@ export async function watchForActivity(
       }
     }
 
-    // TODO: Optional log scanning for Transfer events since lastSeenBlockNumber
-    // For now, skip this as it's optional and complex.
-
     // Update block number for future reference
+    let currentBlock: number | null = null;
     try {
-      const blockNumber = await ctx.publicClient.getBlockNumber();
-      result.newStatePatch.lastSeenBlockNumber = Number(blockNumber);
+      currentBlock = Number(await ctx.publicClient.getBlockNumber());
+      result.newStatePatch.lastSeenBlockNumber = currentBlock;
     } catch (err) {
+      result.unknown.push("block_number");
       logger.warn("failed to read block number in watcher", { error: err instanceof Error ? err.message : String(err) });
     }
+
+    // Scan INTERN Transfer logs since the last tick. On a failed chunk, only
+    // advance lastSeenBlockNumber to what was scanned so the next tick resumes.
+    const scanFrom = lastSeenBlockNumber === null ? null : lastSeenBlockNumber + 1;
+    if (ctx.tokenAddress && currentBlock !== null && scanFrom !== null && scanFrom <= currentBlock) {
+      const scan = await scanTransfers(ctx, ctx.tokenAddress, scanFrom, currentBlock);
+      result.transfers = scan.transfers;
+      if (scan.scannedThrough !== currentBlock) {
+        result.unknown.push("transfer_logs");
+        result.newStatePatch.lastSeenBlockNumber = scan.scannedThrough;
+      }
+      for (const t of scan.transfers) {
+        if (BigInt(t.amountRaw) < ctx.minTokenDeltaRaw) continue;
+        result.changed = true;
+        result.reasons.push(describeTransfer(t, ctx.decimals));
+      }
+    }
   } catch (err) {
     logger.warn("watchForActivity caught error", { error: err instanceof Error ? err.message : String(err) });
   }
@@ -156,6 +212,92 @@ export async function watchForActivity(
   return result;
 }
 
+// ============================================================================
+// Transfer Log Scanning
+// ============================================================================
+
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+const DEFAULT_LOG_CHUNK_BLOCKS = 2_000;
+const DEFAULT_MAX_LOG_SCAN_BLOCKS = 20_000;
+
+/**
+ * Fetch Transfer logs to/from the wallet over [fromBlock, toBlock] in chunks
+ * (RPC providers cap eth_getLogs ranges). Stops at the first failed chunk;
+ * `scannedThrough` is the last block fully covered.
+ */
+async function scanTransfers(
+  ctx: ActivityWatchContext,
+  token: Address,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ transfers: TokenTransfer[]; scannedThrough: number }> {
+  const chunk = Math.max(1, ctx.logChunkBlocks ?? DEFAULT_LOG_CHUNK_BLOCKS);
+  const maxScan = ctx.maxLogScanBlocks ?? DEFAULT_MAX_LOG_SCAN_BLOCKS;
+  if (toBlock - fromBlock + 1 > maxScan) {
+    logger.warn("watch.transfer_scan_truncated", { fromBlock, toBlock, maxLogScanBlocks: maxScan });
+    fromBlock = toBlock - maxScan + 1;
+  }
+
+  const transfers: TokenTransfer[] = [];
+  let scannedThrough = fromBlock - 1;
+  for (let start = fromBlock; start <= toBlock; start += chunk) {
+    const end = Math.min(start + chunk - 1, toBlock);
+    try {
+      const range = { address: token, event: TRANSFER_EVENT, fromBlock: BigInt(start), toBlock: BigInt(end) };
+      const [outgoing, incoming] = await Promise.all([
+        ctx.publicClient.getLogs({ ...range, args: { from: ctx.walletAddress } }),
+        ctx.publicClient.getLogs({ ...range, args: { to: ctx.walletAddress } })
+      ]);
+      const seen = new Set<string>();
+      for (const log of [...outgoing, ...incoming]) {
+        const { from, to, value } = log.args;
+        if (!from || !to || value === undefined || !log.transactionHash) continue;
+        // Self-transfers show up in both queries; keep the first (as "out").
+        const key = `${log.transactionHash}:${log.logIndex}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const direction = from.toLowerCase() === ctx.walletAddress.toLowerCase() ? "out" : "in";
+        transfers.push({
+          direction,
+          counterparty: direction === "out" ? to : from,
+          amountRaw: value.toString(),
+          txHash: log.transactionHash,
+          blockNumber: Number(log.blockNumber),
+          logIndex: log.logIndex ?? 0
+        });
+      }
+    } catch (err) {
+      logger.warn("failed to scan transfer logs in watcher", {
+        fromBlock: start,
+        toBlock: end,
+        error: err instanceof Error ? err.message : String(err)
+      });
+      break;
+    }
+    scannedThrough = end;
+  }
+
+  transfers.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  return { transfers, scannedThrough };
+}
+
+/**
+ * One-line summary, e.g. "received 1M INTERN from 0xabcd…1234"
+ */
+export function describeTransfer(t: TokenTransfer, decimals: number, symbol = "INTERN"): string {
+  const amount = formatCompactAmount(BigInt(t.amountRaw), decimals);
+  const who = `${t.counterparty.slice(0, 6)}…${t.counterparty.slice(-4)}`;
+  return t.direction === "in" ? `received ${amount} ${symbol} from ${who}` : `sent ${amount} ${symbol} to ${who}`;
+}
+
+/**
+ * Compact token amount, e.g. 1500000 -> "1.5M"
+ */
+export function formatCompactAmount(raw: bigint, decimals: number): string {
+  const value = Number(formatUnits(raw, decimals));
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 2 }).format(value);
+}
+
 /**
  * Helper: parse MIN_ETH_DELTA from config (in ETH, convert to wei)
  */
@@ -0,0 +1,350 @@
+import { parseAbi, parseAbiItem, parseUnits } from "viem";
+import type { Address, Hex, PublicClient } from "viem";
+import type { AppConfig } from "../config.js";
+import { viemChain } from "../chain/chains.js";
+import { logger } from "../logger.js";
+import { formatCompactAmount } from "./watch.js";
+
+/**
+ * Whale watcher: large INTERN moves across the whole token, not just ours.
+ *
+ * Each tick scans every INTERN Transfer plus Swap events on the configured
+ * pool since the last scanned block, and keeps the ones that are at least
+ * WHALE_MIN_TOKENS or touch an address on WHALE_WATCHLIST. Flagged events go
+ * into the brain's get_context and, with WHALE_POST_ENABLED, a "whale" post.
+ *
+ * Transfers in or out of the pool are the legs of swaps (or LP changes) and
+ * are reported through the Swap event instead, as a buy or sell.
+ */
+
+export type WhaleEventKind = "transfer" | "buy" | "sell";
+export type WhaleFlag = "size" | "watchlist";
+
+export type WhaleEvent = {
+  kind: WhaleEventKind;
+  from: Address; // swaps: the pool caller (usually a router)
+  to: Address; // swaps: the recipient
+  amountRaw: string; // INTERN moved (raw units)
+  txHash: Hex;
+  blockNumber: number;
+  logIndex: number;
+  flags: WhaleFlag[];
+};
+
+export type WhalePool = {
+  address: Address;
+  type: "aerodrome" | "uniswap_v3";
+};
+
+export type WhaleWatchContext = {
+  publicClient: PublicClient;
+  tokenAddress: Address;
+  pool: WhalePool | null;
+  minAmountRaw: bigint;
+  watchlist: Address[];
+  ignore?: Address[]; // e.g. the agent wallet; our own moves are in the activity watcher
+  logChunkBlocks?: number; // eth_getLogs block range per request (default 2000)
+  maxScanBlocks?: number; // max lookback after downtime (default 20000)
+};
+
+export type WhaleWatchResult = {
+  events: WhaleEvent[]; // flagged only, oldest first
+  scannedThrough: number | null; // null => block number unknown, nothing scanned
+  complete: boolean; // false when a chunk failed; resume from scannedThrough + 1
+};
+
+// AgentState fields used by the whale watcher (persisted with the rest of state).
+export type WhaleWatchState = {
+  whaleLastScannedBlock?: number | null;
+  whaleRecentEvents?: WhaleEvent[]; // newest last, capped at MAX_RECENT_EVENTS
+};
+
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+const AERODROME_SWAP_EVENT = parseAbiItem(
+  "event Swap(address indexed sender, address indexed to, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out)"
+);
+const UNISWAP_V3_SWAP_EVENT = parseAbiItem(
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)"
+);
+const POOL_ABI = parseAbi(["function token0() view returns (address)"]);
+
+const DEFAULT_LOG_CHUNK_BLOCKS = 2_000;
+const DEFAULT_MAX_SCAN_BLOCKS = 20_000;
+const MAX_RECENT_EVENTS = 20;
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/**
+ * Build the watcher context from config. Null when the watcher is disabled
+ * or no token is configured.
+ */
+export function whaleWatchContextFromConfig(
+  cfg: AppConfig,
+  publicClient: PublicClient,
+  walletAddress: Address
+): WhaleWatchContext | null {
+  if (!cfg.WHALE_WATCH_ENABLED || !cfg.TOKEN_ADDRESS) return null;
+
+  const poolAddress =
+    cfg.ROUTER_TYPE === "uniswap_v3" ? cfg.UNISWAP_V3_POOL_ADDRESS || cfg.POOL_ADDRESS : cfg.POOL_ADDRESS;
+  return {
+    publicClient,
+    tokenAddress: cfg.TOKEN_ADDRESS as Address,
+    pool: poolAddress
+      ? { address: poolAddress as Address, type: cfg.ROUTER_TYPE === "uniswap_v3" ? "uniswap_v3" : "aerodrome" }
+      : null,
+    minAmountRaw: parseUnits(cfg.WHALE_MIN_TOKENS, cfg.TOKEN_DECIMALS ?? 18),
+    watchlist: parseWatchlist(cfg.WHALE_WATCHLIST),
+    ignore: [walletAddress]
+  };
+}
+
+export function parseWatchlist(raw: string): Address[] {
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0) as Address[];
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * Scan (lastScannedBlock, head] for flagged whale events. With no previous
+ * block, starts at the head so a fresh deploy does not replay history.
+ */
+export async function watchWhales(ctx: WhaleWatchContext, lastScannedBlock: number | null): Promise<WhaleWatchResult> {
+  let head: number;
+  try {
+    head = Number(await ctx.publicClient.getBlockNumber());
+  } catch (err) {
+    logger.warn("whales.block_number_failed", { error: err instanceof Error ? err.message : String(err) });
+    return { events: [], scannedThrough: lastScannedBlock, complete: false };
+  }
+
+  if (lastScannedBlock === null || lastScannedBlock >= head) {
+    return { events: [], scannedThrough: head, complete: true };
+  }
+
+  const chunk = Math.max(1, ctx.logChunkBlocks ?? DEFAULT_LOG_CHUNK_BLOCKS);
+  const maxScan = ctx.maxScanBlocks ?? DEFAULT_MAX_SCAN_BLOCKS;
+  let fromBlock = lastScannedBlock + 1;
+  if (head - fromBlock + 1 > maxScan) {
+    logger.warn("whales.scan_truncated", { fromBlock, toBlock: head, maxScanBlocks: maxScan });
+    fromBlock = head - maxScan + 1;
+  }
+
+  let internIsToken0: boolean | null = null;
+  if (ctx.pool) {
+    try {
+      const token0 = await ctx.publicClient.readContract({
+        address: ctx.pool.address,
+        abi: POOL_ABI,
+        functionName: "token0"
+      });
+      internIsToken0 = token0.toLowerCase() === ctx.tokenAddress.toLowerCase();
+    } catch (err) {
+      logger.warn("whales.pool_token0_failed", { error: err instanceof Error ? err.message : String(err) });
+      return { events: [], scannedThrough: lastScannedBlock, complete: false };
+    }
+  }
+
+  const events: WhaleEvent[] = [];
+  let scannedThrough = fromBlock - 1;
+  for (let start = fromBlock; start <= head; start += chunk) {
+    const end = Math.min(start + chunk - 1, head);
+    try {
+      const [transfers, swaps] = await Promise.all([
+        scanTransferChunk(ctx, start, end),
+        ctx.pool && internIsToken0 !== null ? scanSwapChunk(ctx, ctx.pool, internIsToken0, start, end) : []
+      ]);
+      events.push(...transfers, ...swaps);
+    } catch (err) {
+      logger.warn("whales.scan_failed", {
+        fromBlock: start,
+        toBlock: end,
+        error: err instanceof Error ? err.message : String(err)
+      });
+      break;
+    }
+    scannedThrough = end;
+  }
+
+  const flagged = events
+    .map((e) => ({ ...e, flags: flagsFor(ctx, e) }))
+    .filter((e) => e.flags.length > 0 && !isIgnored(ctx, e))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  if (flagged.length > 0) {
+    logger.info("whales.flagged", {
+      count: flagged.length,
+      fromBlock,
+      toBlock: scannedThrough,
+      largestRaw: flagged.reduce((max, e) => (BigInt(e.amountRaw) > max ? BigInt(e.amountRaw) : max), 0n).toString()
+    });
+  }
+
+  return { events: flagged, scannedThrough, complete: scannedThrough === head };
+}
+
+async function scanTransferChunk(ctx: WhaleWatchContext, fromBlock: number, toBlock: number): Promise<WhaleEvent[]> {
+  const logs = await ctx.publicClient.getLogs({
+    address: ctx.tokenAddress,
+    event: TRANSFER_EVENT,
+    fromBlock: BigInt(fromBlock),
+    toBlock: BigInt(toBlock)
+  });
+
+  const pool = ctx.pool?.address.toLowerCase();
+  const out: WhaleEvent[] = [];
+  for (const log of logs) {
+    const { from, to, value } = log.args;
+    if (!from || !to || value === undefined || !log.transactionHash) continue;
+    if (pool && (from.toLowerCase() === pool || to.toLowerCase() === pool)) continue;
+    out.push(event("transfer", from, to, value, log));
+  }
+  return out;
+}
+
+async function scanSwapChunk(
+  ctx: WhaleWatchContext,
+  pool: WhalePool,
+  internIsToken0: boolean,
+  fromBlock: number,
+  toBlock: number
+): Promise<WhaleEvent[]> {
+  const range = { address: pool.address, fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+  const out: WhaleEvent[] = [];
+
+  if (pool.type === "aerodrome") {
+    const logs = await ctx.publicClient.getLogs({ ...range, event: AERODROME_SWAP_EVENT });
+    for (const log of logs) {
+      const { sender, to, amount0In, amount1In, amount0Out, amount1Out } = log.args;
+      if (!sender || !to || !log.transactionHash) continue;
+      const internOut = (internIsToken0 ? amount0Out : amount1Out) ?? 0n;
+      const internIn = (internIsToken0 ? amount0In : amount1In) ?? 0n;
+      if (internOut > 0n) out.push(event("buy", sender, to, internOut, log));
+      else if (internIn > 0n) out.push(event("sell", sender, to, internIn, log));
+    }
+    return out;
+  }
+
+  // Uniswap V3 amounts are pool deltas: negative = paid out by the pool.
+  const logs = await ctx.publicClient.getLogs({ ...range, event: UNISWAP_V3_SWAP_EVENT });
+  for (const log of logs) {
+    const { sender, recipient, amount0, amount1 } = log.args;
+    if (!sender || !recipient || !log.transactionHash) continue;
+    const delta = (internIsToken0 ? amount0 : amount1) ?? 0n;
+    if (delta < 0n) out.push(event("buy", sender, recipient, -delta, log));
+    else if (delta > 0n) out.push(event("sell", sender, recipient, delta, log));
+  }
+  return out;
+}
+
+function event(
+  kind: WhaleEventKind,
+  from: Address,
+  to: Address,
+  amount: bigint,
+  log: { transactionHash: Hex | null; blockNumber: bigint | null; logIndex: number | null }
+): WhaleEvent {
+  return {
+    kind,
+    from,
+    to,
+    amountRaw: amount.toString(),
+    txHash: log.transactionHash as Hex,
+    blockNumber: Number(log.blockNumber),
+    logIndex: log.logIndex ?? 0,
+    flags: []
+  };
+}
+
+function flagsFor(ctx: WhaleWatchContext, e: WhaleEvent): WhaleFlag[] {
+  const flags: WhaleFlag[] = [];
+  if (BigInt(e.amountRaw) >= ctx.minAmountRaw) flags.push("size");
+  if (includesAddress(ctx.watchlist, e.from) || includesAddress(ctx.watchlist, e.to)) flags.push("watchlist");
+  return flags;
+}
+
+function isIgnored(ctx: WhaleWatchContext, e: WhaleEvent): boolean {
+  const ignore = ctx.ignore ?? [];
+  return includesAddress(ignore, e.from) || includesAddress(ignore, e.to);
+}
+
+function includesAddress(list: Address[], address: Address): boolean {
+  const a = address.toLowerCase();
+  return list.some((x) => x.toLowerCase() === a);
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Record a scan in state: advance the cursor and keep the most recent events
+ * for the brain context.
+ */
+export function recordWhaleScan<S extends WhaleWatchState>(state: S, result: WhaleWatchResult): S {
+  return {
+    ...state,
+    whaleLastScannedBlock: result.scannedThrough,
+    whaleRecentEvents: [...(state.whaleRecentEvents ?? []), ...result.events].slice(-MAX_RECENT_EVENTS)
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * One-line summary, e.g. "bought 5M INTERN (to 0xabcd…1234)"
+ */
+export function describeWhaleEvent(e: WhaleEvent, decimals: number, symbol = "INTERN"): string {
+  const short = (a: Address) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+  const amount = `${formatCompactAmount(BigInt(e.amountRaw), decimals)} ${symbol}`;
+  const watch = e.flags.includes("watchlist") ? " [watchlist]" : "";
+
+  if (e.kind === "buy") return `bought ${amount} (to ${short(e.to)})${watch}`;
+  if (e.kind === "sell") return `sold ${amount} (via ${short(e.from)})${watch}`;
+  return `moved ${amount} ${short(e.from)} → ${short(e.to)}${watch}`;
+}
+
+/**
+ * JSON-safe events for the brain's get_context tool.
+ */
+export function whaleEventsToJson(events: WhaleEvent[], decimals: number, symbol = "INTERN") {
+  return events.map((e) => ({
+    kind: e.kind,
+    summary: describeWhaleEvent(e, decimals, symbol),
+    from: e.from,
+    to: e.to,
+    amountRaw: e.amountRaw,
+    flags: e.flags,
+    txHash: e.txHash,
+    blockNumber: e.blockNumber
+  }));
+}
+
+/**
+ * Social post text for flagged events (SocialPostKind "whale"). Lists the
+ * largest few; null when there is nothing to post.
+ */
+export function buildWhalePost(cfg: AppConfig, events: WhaleEvent[], maxItems = 3): string | null {
+  if (events.length === 0) return null;
+
+  const decimals = cfg.TOKEN_DECIMALS ?? 18;
+  const symbol = cfg.TOKEN_SYMBOL ?? "INTERN";
+  const explorer = viemChain(cfg.CHAIN).blockExplorers?.default.url;
+  const top = [...events].sort((a, b) => (BigInt(b.amountRaw) > BigInt(a.amountRaw) ? 1 : -1)).slice(0, maxItems);
+
+  const lines = [`whale watch: ${events.length} big ${symbol} move${events.length === 1 ? "" : "s"} spotted.`];
+  for (const e of top) {
+    lines.push(`- ${describeWhaleEvent(e, decimals, symbol)}${explorer ? ` ${explorer}/tx/${e.txHash}` : ""}`);
+  }
+  lines.push("noted for the record. not financial advice, just an intern with a block explorer.");
+  return lines.join("\n");
+}
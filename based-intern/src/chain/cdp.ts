@@ -0,0 +1,233 @@
+import { createHash, createPrivateKey, randomBytes, sign, type KeyObject } from "node:crypto";
+import {
+  isAddressEqual,
+  parseTransaction,
+  serializeTransaction,
+  type Address,
+  type Hex,
+  type SignableMessage,
+  type TransactionSerializable,
+  type TypedDataDefinition
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { logger } from "../logger.js";
+import { assertSignedBy, type Signer } from "./signer.js";
+
+/**
+ * Coinbase Developer Platform (CDP) server-wallet signer.
+ *
+ * The key never leaves CDP: transactions are prepared locally (nonce, gas,
+ * fees), serialized unsigned, and sent to CDP's sign endpoint; the signed tx
+ * is broadcast through our own RPC. Requests carry two JWTs: a Bearer token
+ * signed with the API key, and an X-Wallet-Auth token signed with the wallet
+ * secret and bound to the request body.
+ *
+ * `CdpApi` is the transport seam: `createCdpHttpApi` talks to CDP, and
+ * `createLocalCdpApi` is a stand-in that signs with an in-memory key so the
+ * CDP code path can run in tests without credentials or network.
+ */
+
+export type CdpApi = {
+  getOrCreateAccount(name: string): Promise<Address>;
+  signTransaction(address: Address, unsignedTx: Hex): Promise<Hex>;
+  signMessage(address: Address, message: string): Promise<Hex>;
+  signTypedData(address: Address, typedData: TypedDataDefinition): Promise<Hex>;
+};
+
+export type CdpCredentials = {
+  apiKeyName: string;
+  apiKeyPrivateKey: string; // PEM EC key (ES256) or base64 Ed25519 key
+  walletSecret: string; // base64 DER (PKCS#8) EC key
+};
+
+export const CDP_API_HOST = "api.cdp.coinbase.com";
+const CDP_API_BASE_PATH = "/platform/v2/evm";
+const JWT_TTL_SECONDS = 120;
+
+// PKCS#8 DER prefix for a raw 32-byte Ed25519 seed.
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+// ============================================================================
+// Signer
+// ============================================================================
+
+/**
+ * Signer for a CDP-managed EVM account. Signed transactions are checked to
+ * recover to `address` before they are handed to the wallet client.
+ */
+export function createCdpSigner(api: CdpApi, address: Address): Signer {
+  return {
+    kind: "cdp",
+    address,
+    async signTransaction(tx: TransactionSerializable): Promise<Hex> {
+      return assertSignedBy(await api.signTransaction(address, serializeTransaction(tx)), address, "CDP");
+    },
+    signMessage: (message: SignableMessage) => api.signMessage(address, messageToString(message)),
+    signTypedData: (typedData: TypedDataDefinition) => api.signTypedData(address, typedData)
+  };
+}
+
+function messageToString(message: SignableMessage): string {
+  if (typeof message === "string") return message;
+  return typeof message.raw === "string" ? message.raw : (`0x${Buffer.from(message.raw).toString("hex")}` as Hex);
+}
+
+// ============================================================================
+// HTTP API
+// ============================================================================
+
+export function createCdpHttpApi(
+  creds: CdpCredentials,
+  fetchImpl: typeof fetch = fetch
+): CdpApi {
+  const apiKey = parseApiKey(creds.apiKeyPrivateKey);
+  const walletKey = createPrivateKey({ key: Buffer.from(creds.walletSecret, "base64"), format: "der", type: "pkcs8" });
+
+  async function request<T>(method: "GET" | "POST", path: string, body?: object): Promise<T> {
+    const fullPath = `${CDP_API_BASE_PATH}${path}`;
+    const uri = `${method} ${CDP_API_HOST}${fullPath}`;
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${apiKeyJwt(creds.apiKeyName, apiKey, uri)}`,
+      "Content-Type": "application/json"
+    };
+    if (method === "POST") headers["X-Wallet-Auth"] = walletAuthJwt(walletKey, uri, body);
+
+    const res = await fetchImpl(`https://${CDP_API_HOST}${fullPath}`, {
+      method,
+      headers,
+      body: body ? stringifyJson(body) : undefined
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`CDP ${method} ${path} failed: ${res.status} ${text.slice(0, 200)}`);
+    }
+    return (await res.json()) as T;
+  }
+
+  return {
+    async getOrCreateAccount(name: string): Promise<Address> {
+      try {
+        const existing = await request<{ address: Address }>("GET", `/accounts/by-name/${encodeURIComponent(name)}`);
+        return existing.address;
+      } catch (err) {
+        if (!(err instanceof Error && / 404 /.test(err.message))) throw err;
+      }
+      const created = await request<{ address: Address }>("POST", "/accounts", { name });
+      logger.info("cdp.account_created", { name, address: created.address });
+      return created.address;
+    },
+    async signTransaction(address, unsignedTx) {
+      const res = await request<{ signedTransaction: Hex }>("POST", `/accounts/${address}/sign/transaction`, {
+        transaction: unsignedTx
+      });
+      return res.signedTransaction;
+    },
+    async signMessage(address, message) {
+      const res = await request<{ signature: Hex }>("POST", `/accounts/${address}/sign/message`, { message });
+      return res.signature;
+    },
+    async signTypedData(address, typedData) {
+      const res = await request<{ signature: Hex }>("POST", `/accounts/${address}/sign/typed-data`, typedData);
+      return res.signature;
+    }
+  };
+}
+
+// ============================================================================
+// Local Stand-in
+// ============================================================================
+
+/**
+ * CdpApi backed by in-memory keys, one per account name. Behaves like the
+ * HTTP API (including unknown-account errors) without credentials or network.
+ */
+export function createLocalCdpApi(privateKey: Hex = generatePrivateKey()): CdpApi {
+  const accounts = new Map<string, ReturnType<typeof privateKeyToAccount>>();
+  const byAddress = (address: Address) => {
+    for (const account of accounts.values()) {
+      if (isAddressEqual(account.address, address)) return account;
+    }
+    throw new Error(`CDP account not found: ${address}`);
+  };
+
+  return {
+    async getOrCreateAccount(name) {
+      if (!accounts.has(name)) {
+        accounts.set(name, privateKeyToAccount(accounts.size === 0 ? privateKey : generatePrivateKey()));
+      }
+      return accounts.get(name)!.address;
+    },
+    async signTransaction(address, unsignedTx) {
+      return byAddress(address).signTransaction(parseTransaction(unsignedTx));
+    },
+    async signMessage(address, message) {
+      const raw = message.startsWith("0x") ? { raw: message as Hex } : message;
+      return byAddress(address).signMessage({ message: raw });
+    },
+    async signTypedData(address, typedData) {
+      return byAddress(address).signTypedData(typedData);
+    }
+  };
+}
+
+// ============================================================================
+// Auth (JWT)
+// ============================================================================
+
+type ApiKey = { alg: "ES256" | "EdDSA"; key: KeyObject };
+
+function parseApiKey(secret: string): ApiKey {
+  const pem = secret.replace(/\\n/g, "\n");
+  if (pem.includes("BEGIN")) return { alg: "ES256", key: createPrivateKey(pem) };
+
+  // Ed25519 keys are base64 seed (32 bytes) + public key (32 bytes).
+  const raw = Buffer.from(secret, "base64");
+  if (raw.length !== 64) throw new Error("CDP_API_KEY_PRIVATE_KEY must be a PEM EC key or a base64 Ed25519 key");
+  const der = Buffer.concat([ED25519_PKCS8_PREFIX, raw.subarray(0, 32)]);
+  return { alg: "EdDSA", key: createPrivateKey({ key: der, format: "der", type: "pkcs8" }) };
+}
+
+function apiKeyJwt(keyName: string, apiKey: ApiKey, uri: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    apiKey,
+    { alg: apiKey.alg, kid: keyName, typ: "JWT", nonce: randomBytes(16).toString("hex") },
+    { sub: keyName, iss: "cdp", aud: ["cdp_service"], nbf: now, exp: now + JWT_TTL_SECONDS, uris: [uri] }
+  );
+}
+
+function walletAuthJwt(walletKey: KeyObject, uri: string, body?: object): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: Record<string, unknown> = { iat: now, nbf: now, jti: randomBytes(16).toString("hex"), uris: [uri] };
+  if (body && Object.keys(body).length > 0) {
+    claims.reqHash = createHash("sha256").update(stringifyJson(sortKeys(body))).digest("hex");
+  }
+  return signJwt({ alg: "ES256", key: walletKey }, { alg: "ES256", typ: "JWT" }, claims);
+}
+
+function signJwt(apiKey: ApiKey, header: object, claims: object): string {
+  const encode = (v: object) => Buffer.from(JSON.stringify(v)).toString("base64url");
+  const input = `${encode(header)}.${encode(claims)}`;
+  const signature =
+    apiKey.alg === "ES256"
+      ? sign("sha256", Buffer.from(input), { key: apiKey.key, dsaEncoding: "ieee-p1363" })
+      : sign(null, Buffer.from(input), apiKey.key);
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((k) => [k, sortKeys((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+// Typed data messages may carry bigints (uint256 fields).
+function stringifyJson(value: unknown): string {
+  return JSON.stringify(value, (_k, v) => (typeof v === "bigint" ? v.toString() : v));
+}
@@ -1,39 +1,85 @@
-import { createPublicClient, createWalletClient, http, type Address } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
+import { createPublicClient, createWalletClient, zeroAddress, type Address } from "viem";
 import type { AppConfig } from "../config.js";
-import { rpcUrlForChain } from "../config.js";
-import { viemChain } from "./chains.js";
+import { rpcUrlsForChain } from "../config.js";
 import { logger } from "../logger.js";
+import { viemChain } from "./chains.js";
+import { createCdpHttpApi, createCdpSigner } from "./cdp.js";
+import { createKeystoreSigner } from "./keystore.js";
+import { createRemoteSigner } from "./remoteSigner.js";
+import { createRpcHealthTracker, createRpcTransport, type RpcHealthTracker } from "./rpc.js";
+import { createPrivateKeySigner, signerToAccount, type Signer } from "./signer.js";
 
 export type ChainClients = {
   publicClient: ReturnType<typeof createPublicClient>;
   walletClient: ReturnType<typeof createWalletClient> | null;
   walletAddress: Address;
+  rpcHealth?: RpcHealthTracker; // per-endpoint stats for the configured RPC URLs
 };
 
-export function createChainClients(cfg: AppConfig): ChainClients {
-  const url = rpcUrlForChain(cfg);
-  if (!url) throw new Error("RPC URL missing. Set RPC_URL or BASE_SEPOLIA_RPC_URL/BASE_RPC_URL.");
+/**
+ * Public + wallet clients for the configured chain. The wallet client signs
+ * through `signer` when given (tests pass a local stand-in), otherwise through
+ * the signer selected by WALLET_MODE. WALLET_MODE=cdp without
+ * CDP_ACCOUNT_ADDRESS runs read-only (no wallet client) so the account can be
+ * created with `npm run cdp:account` first.
+ */
+export function createChainClients(cfg: AppConfig, signer?: Signer): ChainClients {
+  const urls = rpcUrlsForChain(cfg);
+  if (urls.length === 0) throw new Error("RPC URL missing. Set RPC_URL or BASE_SEPOLIA_RPC_URL/BASE_RPC_URL.");
 
   const chain = viemChain(cfg.CHAIN);
-  const transport = http(url);
+  const rpcHealth = createRpcHealthTracker(urls);
+  const transport = createRpcTransport(urls, {
+    rank: cfg.RPC_FALLBACK_RANK,
+    rankIntervalMs: cfg.RPC_RANK_INTERVAL_MS,
+    tracker: rpcHealth
+  });
 
   const publicClient = createPublicClient({ chain, transport });
 
-  if (cfg.WALLET_MODE === "cdp") {
-    // Optional/experimental: do not block running.
-    logger.warn("WALLET_MODE=cdp is experimental; running read-only unless implemented.", {
-      walletMode: "cdp"
-    });
-    const walletAddress = "0x0000000000000000000000000000000000000000" as Address;
-    return { publicClient, walletClient: null, walletAddress };
+  if (!signer && cfg.WALLET_MODE === "cdp" && !cfg.CDP_ACCOUNT_ADDRESS) {
+    logger.warn("WALLET_MODE=cdp without CDP_ACCOUNT_ADDRESS; running read-only.", { walletMode: "cdp" });
+    return { publicClient, walletClient: null, walletAddress: zeroAddress, rpcHealth };
   }
 
-  const pk = cfg.PRIVATE_KEY as `0x${string}` | string;
-  const key = pk.startsWith("0x") ? (pk as `0x${string}`) : (`0x${pk}` as `0x${string}`);
-  const account = privateKeyToAccount(key);
-
+  const account = signerToAccount(signer ?? signerFromConfig(cfg));
   const walletClient = createWalletClient({ chain, transport, account });
-  return { publicClient, walletClient, walletAddress: account.address };
+  return { publicClient, walletClient, walletAddress: account.address, rpcHealth };
 }
 
+/**
+ * Signer for WALLET_MODE: private_key (raw hex in env), keystore (V3 JSON file
+ * + password), remote (JSON-RPC signer) or cdp (CDP server wallet).
+ */
+export function signerFromConfig(cfg: AppConfig): Signer {
+  switch (cfg.WALLET_MODE) {
+    case "keystore":
+      return createKeystoreSigner({
+        path: cfg.KEYSTORE_PATH ?? "",
+        password: cfg.KEYSTORE_PASSWORD,
+        passwordFile: cfg.KEYSTORE_PASSWORD_FILE
+      });
+
+    case "remote":
+      return createRemoteSigner({
+        url: cfg.REMOTE_SIGNER_URL ?? "",
+        address: cfg.REMOTE_SIGNER_ADDRESS as Address,
+        token: cfg.REMOTE_SIGNER_TOKEN
+      });
+
+    case "cdp": {
+      if (!cfg.CDP_ACCOUNT_ADDRESS) {
+        throw new Error("CDP_ACCOUNT_ADDRESS missing. Run `npm run cdp:account` and set the printed address.");
+      }
+      const api = createCdpHttpApi({
+        apiKeyName: cfg.CDP_API_KEY_NAME ?? "",
+        apiKeyPrivateKey: cfg.CDP_API_KEY_PRIVATE_KEY ?? "",
+        walletSecret: cfg.CDP_WALLET_SECRET ?? ""
+      });
+      return createCdpSigner(api, cfg.CDP_ACCOUNT_ADDRESS as Address);
+    }
+
+    default:
+      return createPrivateKeySigner(cfg.PRIVATE_KEY ?? "");
+  }
+}
@@ -1,50 +1,172 @@
-import type { Address } from "viem";
+import { type Address } from "viem";
 import type { AppConfig } from "../../config.js";
 import type { ChainClients } from "../client.js";
-import { registerDexProvider } from "./index.js";
-import { readAerodromePool, calculateAerodromeOutput, applySlippage, buildAerodromeSwapCalldata } from "../aerodrome.js";
+import { registerDexProvider, type SwapSide } from "./index.js";
+import { readAerodromePool, applySlippage, buildAerodromeSwapCalldata } from "../aerodrome.js";
+import { priceWeiFromQuote, priceImpactBps, formatEthPrice } from "../price.js";
+import { readObservedTwap } from "../twap.js";
+import { safeParseEther } from "../../utils.js";
+
+// Typical gas for a single-hop Aerodrome router swap.
+const AERODROME_SWAP_GAS = 180_000n;
+
+// Mid price is quoted with a probe of 1/10_000 of the WETH reserve, small enough
+// that curve impact is negligible but large enough to keep integer precision.
+const MID_PRICE_PROBE_DIVISOR = 10_000n;
+
+// Pool.getAmountOut applies the pool fee and the correct curve (x*y=k or the
+// stable x3y+y3x invariant), so quotes match what the router will execute.
+const AERODROME_POOL_QUOTE_ABI = [
+  {
+    type: "function",
+    name: "getAmountOut",
+    stateMutability: "view",
+    inputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "tokenIn", type: "address" }
+    ],
+    outputs: [{ name: "", type: "uint256" }]
+  }
+] as const;
+
+type ResolvedPool = {
+  poolAddress: Address;
+  tokenReserve: bigint;
+  wethReserve: bigint;
+};
 
-// Adapter implementing the minimal DexProvider.getPrice contract using Aerodrome helpers.
+// Same rule as the Uniswap V3 adapter: dedicated AERODROME_* settings win under
+// any ROUTER_TYPE; the generic POOL_ADDRESS/ROUTER_ADDRESS only when Aerodrome
+// is the primary router.
+function poolAddressFor(cfg: AppConfig): Address | null {
+  const addr = cfg.AERODROME_POOL_ADDRESS ?? (cfg.ROUTER_TYPE === "aerodrome" ? cfg.POOL_ADDRESS : undefined);
+  return addr ? (addr as Address) : null;
+}
+
+function routerAddressFor(cfg: AppConfig): Address | null {
+  const addr = cfg.AERODROME_ROUTER_ADDRESS ?? (cfg.ROUTER_TYPE === "aerodrome" ? cfg.ROUTER_ADDRESS : undefined);
+  return addr ? (addr as Address) : null;
+}
+
+async function resolvePool(
+  cfg: AppConfig,
+  clients: ChainClients,
+  poolAddress: Address,
+  token: Address,
+  weth: Address
+): Promise<ResolvedPool | "unavailable" | "mismatch"> {
+  const pool = await readAerodromePool(clients, poolAddress, cfg.AERODROME_STABLE);
+  if (!pool) return "unavailable";
+
+  const token0 = pool.token0.toLowerCase();
+  if (token0 === token.toLowerCase()) {
+    return { poolAddress, tokenReserve: pool.reserve0, wethReserve: pool.reserve1 };
+  }
+  if (token0 === weth.toLowerCase()) {
+    return { poolAddress, tokenReserve: pool.reserve1, wethReserve: pool.reserve0 };
+  }
+  return "mismatch";
+}
+
+async function quoteAmountOut(
+  clients: ChainClients,
+  poolAddress: Address,
+  tokenIn: Address,
+  amountIn: bigint
+): Promise<bigint> {
+  return clients.publicClient.readContract({
+    address: poolAddress,
+    abi: AERODROME_POOL_QUOTE_ABI,
+    functionName: "getAmountOut",
+    args: [amountIn, tokenIn]
+  });
+}
+
+// Adapter implementing DexProvider for the configured Aerodrome INTERN/WETH pool.
 export const AerodromeAdapter = {
   name: "aerodrome",
   getPrice: async (cfg: AppConfig, clients: ChainClients, token: Address, weth: Address) => {
-    if (cfg.ROUTER_TYPE !== "aerodrome" || !cfg.POOL_ADDRESS || !cfg.WETH_ADDRESS) return null;
+    const poolAddress = poolAddressFor(cfg);
+    if (!poolAddress || !cfg.WETH_ADDRESS) return null;
 
     try {
-      const poolAddress = cfg.POOL_ADDRESS as Address;
-      const pool = await readAerodromePool(clients, poolAddress, cfg.AERODROME_STABLE);
-      if (!pool) return { text: null, source: "aerodrome_unavailable" };
-
-      const token0 = pool.token0.toLowerCase();
-      const tokenLower = token.toLowerCase();
-      const wethLower = weth.toLowerCase();
-
-      let tokenReserve: bigint;
-      let wethReserve: bigint;
-
-      if (token0 === tokenLower) {
-        tokenReserve = pool.reserve0;
-        wethReserve = pool.reserve1;
-      } else if (token0 === wethLower) {
-        tokenReserve = pool.reserve1;
-        wethReserve = pool.reserve0;
-      } else {
-        return { text: null, source: "aerodrome_mismatch" };
-      }
+      const pool = await resolvePool(cfg, clients, poolAddress, token, weth);
+      if (pool === "unavailable") return { text: null, source: "aerodrome_unavailable" };
+      if (pool === "mismatch") return { text: null, source: "aerodrome_mismatch" };
 
-      if (tokenReserve <= 0n || wethReserve <= 0n) {
+      if (pool.tokenReserve <= 0n || pool.wethReserve <= 0n) {
         return { text: null, source: "aerodrome_empty" };
       }
 
-      const price = (wethReserve * BigInt(10 ** 18)) / tokenReserve;
-      const priceEth = Number(price) / 10 ** 18;
+      const decimals = cfg.TOKEN_DECIMALS ?? 18;
+      const probeIn = pool.wethReserve / MID_PRICE_PROBE_DIVISOR;
+      if (probeIn <= 0n) return { text: null, source: "aerodrome_empty" };
+
+      const probeOut = await quoteAmountOut(clients, pool.poolAddress, weth, probeIn);
+      const midPriceWei = priceWeiFromQuote(probeIn, probeOut, true, decimals);
+      if (midPriceWei <= 0n) return { text: null, source: "aerodrome_empty" };
+
+      // Execution price for a BUY at the configured per-trade size.
+      let executionPriceWei: bigint | undefined;
+      let impactBps: number | undefined;
+      const spendWei = safeParseEther(cfg.MAX_SPEND_ETH_PER_TRADE);
+      if (spendWei > 0n) {
+        const out = await quoteAmountOut(clients, pool.poolAddress, weth, spendWei);
+        executionPriceWei = priceWeiFromQuote(spendWei, out, true, decimals);
+        impactBps = priceImpactBps(midPriceWei, executionPriceWei);
+      }
 
-      return { text: `${priceEth.toFixed(6)} ETH`, source: "aerodrome" };
-    } catch (err) {
+      return {
+        text: formatEthPrice(midPriceWei),
+        source: "aerodrome",
+        midPriceWei,
+        executionPriceWei,
+        priceImpactBps: impactBps
+      };
+    } catch {
       return { text: null, source: "aerodrome_error" };
     }
   },
 
+  // TWAP over the spot prices this provider reported (sampled each tick).
+  getTwap: async (cfg: AppConfig, _clients: ChainClients, _token: Address, _weth: Address, nowMs?: number) =>
+    readObservedTwap(cfg, "aerodrome", nowMs),
+
+  getPoolReserves: async (cfg: AppConfig, clients: ChainClients, token: Address, weth: Address) => {
+    const poolAddress = poolAddressFor(cfg);
+    if (!poolAddress || !cfg.WETH_ADDRESS) return null;
+    try {
+      const pool = await resolvePool(cfg, clients, poolAddress, token, weth);
+      if (typeof pool === "string") return null;
+      return { source: "aerodrome", tokenReserve: pool.tokenReserve, wethReserve: pool.wethReserve };
+    } catch {
+      return null;
+    }
+  },
+
+  quoteExactInput: async (
+    cfg: AppConfig,
+    clients: ChainClients,
+    token: Address,
+    weth: Address,
+    side: SwapSide,
+    amountIn: bigint
+  ) => {
+    const poolAddress = poolAddressFor(cfg);
+    const router = routerAddressFor(cfg);
+    if (!poolAddress || !router || !cfg.WETH_ADDRESS) return null;
+    try {
+      const pool = await resolvePool(cfg, clients, poolAddress, token, weth);
+      if (typeof pool === "string") return null;
+
+      const tokenIn = side === "BUY" ? weth : token;
+      const amountOut = await quoteAmountOut(clients, pool.poolAddress, tokenIn, amountIn);
+      return { amountOut, gasEstimate: AERODROME_SWAP_GAS };
+    } catch {
+      return null;
+    }
+  },
+
   buildBuyCalldata: async (
     cfg: AppConfig,
     clients: ChainClients,
@@ -53,37 +175,21 @@ export const AerodromeAdapter = {
     wallet: Address,
     spendEth: bigint
   ) => {
-    if (!cfg.POOL_ADDRESS || !cfg.WETH_ADDRESS || !cfg.ROUTER_ADDRESS) return null;
+    const poolAddress = poolAddressFor(cfg);
+    const router = routerAddressFor(cfg);
+    if (!poolAddress || !router || !cfg.WETH_ADDRESS) return null;
     try {
-      const poolAddress = cfg.POOL_ADDRESS as Address;
-      const pool = await readAerodromePool(clients, poolAddress, cfg.AERODROME_STABLE);
-      if (!pool) return null;
-
-      const token0 = pool.token0.toLowerCase();
-      const tokenLower = token.toLowerCase();
-      const wethLower = weth.toLowerCase();
-
-      let tokenReserve: bigint;
-      let wethReserve: bigint;
-
-      if (token0 === tokenLower) {
-        tokenReserve = pool.reserve0;
-        wethReserve = pool.reserve1;
-      } else if (token0 === wethLower) {
-        tokenReserve = pool.reserve1;
-        wethReserve = pool.reserve0;
-      } else {
-        return null;
-      }
+      const pool = await resolvePool(cfg, clients, poolAddress, token, weth);
+      if (typeof pool === "string") return null;
 
-      const expectedOutput = calculateAerodromeOutput(spendEth, wethReserve, tokenReserve, cfg.AERODROME_STABLE);
+      const expectedOutput = await quoteAmountOut(clients, pool.poolAddress, weth, spendEth);
       const minOutput = applySlippage(expectedOutput, cfg.SLIPPAGE_BPS);
 
       const { calldata, deadline } = buildAerodromeSwapCalldata(
         spendEth,
         minOutput,
         {
-          poolAddress,
+          poolAddress: pool.poolAddress,
           stable: cfg.AERODROME_STABLE,
           tokenInAddress: weth,
           tokenOutAddress: token,
@@ -94,7 +200,7 @@ export const AerodromeAdapter = {
         600
       );
 
-      return { to: cfg.ROUTER_ADDRESS as Address, calldata, value: spendEth, deadline };
+      return { to: router, calldata, value: spendEth, deadline };
     } catch {
       return null;
     }
@@ -108,37 +214,21 @@ export const AerodromeAdapter = {
     wallet: Address,
     sellAmount: bigint
   ) => {
-    if (!cfg.POOL_ADDRESS || !cfg.WETH_ADDRESS || !cfg.ROUTER_ADDRESS) return null;
+    const poolAddress = poolAddressFor(cfg);
+    const router = routerAddressFor(cfg);
+    if (!poolAddress || !router || !cfg.WETH_ADDRESS) return null;
     try {
-      const poolAddress = cfg.POOL_ADDRESS as Address;
-      const pool = await readAerodromePool(clients, poolAddress, cfg.AERODROME_STABLE);
-      if (!pool) return null;
-
-      const token0 = pool.token0.toLowerCase();
-      const tokenLower = token.toLowerCase();
-      const wethLower = weth.toLowerCase();
-
-      let tokenReserve: bigint;
-      let wethReserve: bigint;
-
-      if (token0 === tokenLower) {
-        tokenReserve = pool.reserve0;
-        wethReserve = pool.reserve1;
-      } else if (token0 === wethLower) {
-        tokenReserve = pool.reserve1;
-        wethReserve = pool.reserve0;
-      } else {
-        return null;
-      }
+      const pool = await resolvePool(cfg, clients, poolAddress, token, weth);
+      if (typeof pool === "string") return null;
 
-      const expectedOutput = calculateAerodromeOutput(sellAmount, tokenReserve, wethReserve, cfg.AERODROME_STABLE);
+      const expectedOutput = await quoteAmountOut(clients, pool.poolAddress, token, sellAmount);
       const minOutput = applySlippage(expectedOutput, cfg.SLIPPAGE_BPS);
 
       const { calldata, deadline } = buildAerodromeSwapCalldata(
         sellAmount,
         minOutput,
         {
-          poolAddress,
+          poolAddress: pool.poolAddress,
           stable: cfg.AERODROME_STABLE,
           tokenInAddress: token,
           tokenOutAddress: weth,
@@ -149,7 +239,7 @@ export const AerodromeAdapter = {
         600
       );
 
-      return { to: cfg.ROUTER_ADDRESS as Address, calldata, value: undefined, deadline };
+      return { to: router, calldata, value: undefined, deadline };
     } catch {
       return null;
     }
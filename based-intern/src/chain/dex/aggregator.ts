@@ -0,0 +1,216 @@
+import { formatEther, formatUnits, type Address } from "viem";
+import type { AppConfig } from "../../config.js";
+import type { ChainClients } from "../client.js";
+import { getDexProviders, type DexProvider, type SwapCalldata, type SwapSide } from "./index.js";
+import { priceImpactBps, priceWeiFromQuote, readPoolReserves, type PoolReserves } from "../price.js";
+import { logger } from "../../logger.js";
+import { trimDecimals } from "../../utils.js";
+
+/**
+ * Best-execution routing across registered DEX providers.
+ *
+ * Every provider that can both quote and build calldata for the requested side
+ * is asked for an expected output at the same size. Quotes are compared net of
+ * estimated gas, the winner builds the swap, and the losing quotes are
+ * returned with it (for the decision log and the receipt) so the venue choice
+ * can be audited later. The winner's pool reserves come back too, so the
+ * depth checks run against the pool the swap actually trades in.
+ */
+
+export type RouteQuote = {
+  provider: string;
+  amountOut: bigint;
+  gasEstimate: bigint;
+  gasCostWei: bigint;
+  // BUY: INTERN received after paying gas out of the spend. SELL: ETH received minus gas.
+  netAmountOut: bigint;
+};
+
+export type RouteSelection = {
+  side: SwapSide;
+  amountIn: bigint;
+  best: RouteQuote | null;
+  rejected: RouteQuote[];
+  // Providers that were asked but could not quote
+  failed: string[];
+};
+
+// Used when a provider does not report its own gas estimate.
+export const DEFAULT_SWAP_GAS = 200_000n;
+
+// The impact probe is this fraction of the trade, small enough to sit at the margin.
+const IMPACT_PROBE_DIVISOR = 1_000n;
+
+/**
+ * Output value net of gas. Gas is always paid in ETH, so for a BUY it is
+ * charged against the ETH spend at the quote's own execution rate.
+ */
+export function netOfGas(side: SwapSide, amountIn: bigint, amountOut: bigint, gasCostWei: bigint): bigint {
+  if (side === "SELL") {
+    const net = amountOut - gasCostWei;
+    return net > 0n ? net : 0n;
+  }
+  if (amountIn <= 0n || gasCostWei >= amountIn) return 0n;
+  return (amountOut * (amountIn - gasCostWei)) / amountIn;
+}
+
+/**
+ * Pick the highest net-of-gas quote. Ties go to the earlier quote, i.e. the
+ * provider registered first.
+ */
+export function selectBestRoute(side: SwapSide, amountIn: bigint, quotes: RouteQuote[], failed: string[] = []): RouteSelection {
+  let best: RouteQuote | null = null;
+  for (const q of quotes) {
+    if (q.netAmountOut <= 0n) continue;
+    if (!best || q.netAmountOut > best.netAmountOut) best = q;
+  }
+  const rejected = quotes.filter((q) => q !== best);
+  return { side, amountIn, best, rejected, failed };
+}
+
+function canRoute(p: DexProvider, side: SwapSide): boolean {
+  if (!p.quoteExactInput) return false;
+  return side === "BUY" ? Boolean(p.buildBuyCalldata) : Boolean(p.buildSellCalldata);
+}
+
+/**
+ * Ask every routable provider for a quote of the same size and select the best.
+ */
+export async function quoteAllRoutes(
+  cfg: AppConfig,
+  clients: ChainClients,
+  token: Address,
+  side: SwapSide,
+  amountIn: bigint
+): Promise<RouteSelection> {
+  const weth = (cfg.WETH_ADDRESS ?? "") as Address;
+  const providers = getDexProviders().filter((p) => canRoute(p, side));
+
+  let gasPrice = 0n;
+  try {
+    gasPrice = await clients.publicClient.getGasPrice();
+  } catch (err) {
+    logger.warn("dex.gas_price_unavailable", { error: err instanceof Error ? err.message : String(err) });
+  }
+
+  const quotes: RouteQuote[] = [];
+  const failed: string[] = [];
+  for (const p of providers) {
+    try {
+      const q = await p.quoteExactInput!(cfg, clients, token, weth, side, amountIn);
+      if (!q || q.amountOut <= 0n) {
+        failed.push(p.name);
+        continue;
+      }
+      const gasEstimate = q.gasEstimate ?? DEFAULT_SWAP_GAS;
+      const gasCostWei = gasEstimate * gasPrice;
+      quotes.push({
+        provider: p.name,
+        amountOut: q.amountOut,
+        gasEstimate,
+        gasCostWei,
+        netAmountOut: netOfGas(side, amountIn, q.amountOut, gasCostWei)
+      });
+    } catch {
+      failed.push(p.name);
+    }
+  }
+
+  const selection = selectBestRoute(side, amountIn, quotes, failed);
+  logger.info("dex.route_selected", routeLogMeta(selection));
+  return selection;
+}
+
+/**
+ * Quote all venues and build swap calldata through the winner, with the
+ * reserves of the winner's pool (null when it cannot report them).
+ * Returns swap=null when no provider can quote or the winner fails to build.
+ */
+export async function buildBestSwapCalldata(
+  cfg: AppConfig,
+  clients: ChainClients,
+  token: Address,
+  wallet: Address,
+  side: SwapSide,
+  amountIn: bigint
+): Promise<{ selection: RouteSelection; swap: SwapCalldata | null; pool: PoolReserves | null }> {
+  const selection = await quoteAllRoutes(cfg, clients, token, side, amountIn);
+  if (!selection.best) return { selection, swap: null, pool: null };
+
+  const provider = getDexProviders().find((p) => p.name === selection.best!.provider);
+  const weth = (cfg.WETH_ADDRESS ?? "") as Address;
+  const swap =
+    side === "BUY"
+      ? (await provider?.buildBuyCalldata?.(cfg, clients, token, weth, wallet, amountIn)) ?? null
+      : (await provider?.buildSellCalldata?.(cfg, clients, token, weth, wallet, amountIn)) ?? null;
+  const pool = await readPoolReserves(cfg, clients, token, selection.best.provider);
+
+  return { selection, swap, pool };
+}
+
+/**
+ * Price impact of buying with `spendWei` on its best route, in bps: the
+ * execution price of the trade against a probe a thousandth its size on the
+ * same venue. Both quotes pay the venue's fee, so the fee cancels out and
+ * only the curve's impact at this size remains. null when either quote fails.
+ */
+export async function quoteBuyImpactBps(
+  cfg: AppConfig,
+  clients: ChainClients,
+  token: Address,
+  spendWei: bigint
+): Promise<number | null> {
+  const probeIn = spendWei / IMPACT_PROBE_DIVISOR;
+  if (probeIn <= 0n) return null;
+
+  const selection = await quoteAllRoutes(cfg, clients, token, "BUY", spendWei);
+  const provider = getDexProviders().find((p) => p.name === selection.best?.provider);
+  if (!selection.best || !provider?.quoteExactInput) return null;
+
+  try {
+    const weth = (cfg.WETH_ADDRESS ?? "") as Address;
+    const probe = await provider.quoteExactInput(cfg, clients, token, weth, "BUY", probeIn);
+    if (!probe || probe.amountOut <= 0n) return null;
+    const decimals = cfg.TOKEN_DECIMALS ?? 18;
+    const marginalWei = priceWeiFromQuote(probeIn, probe.amountOut, true, decimals);
+    return priceImpactBps(marginalWei, priceWeiFromQuote(spendWei, selection.best.amountOut, true, decimals));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Flatten a selection into JSON-safe log fields (bigints as strings).
+ */
+export function routeLogMeta(selection: RouteSelection): Record<string, unknown> {
+  const fmt = (q: RouteQuote) => ({
+    provider: q.provider,
+    amountOut: q.amountOut.toString(),
+    gasCostWei: q.gasCostWei.toString(),
+    netAmountOut: q.netAmountOut.toString()
+  });
+  return {
+    side: selection.side,
+    amountIn: selection.amountIn.toString(),
+    chosen: selection.best ? fmt(selection.best) : null,
+    rejected: selection.rejected.map(fmt),
+    failed: selection.failed
+  };
+}
+
+/**
+ * One-line summary for receipts, net of gas, e.g.
+ * "aerodrome 1250 INTERN (vs uniswap_v3 1200, venue_c no quote)".
+ */
+export function describeRoute(selection: RouteSelection, tokenDecimals: number, symbol = "INTERN"): string {
+  const buy = selection.side === "BUY";
+  const amount = (v: bigint) => trimDecimals(buy ? formatUnits(v, tokenDecimals) : formatEther(v));
+  const head = selection.best
+    ? `${selection.best.provider} ${amount(selection.best.netAmountOut)} ${buy ? symbol : "ETH"}`
+    : "no route";
+  const others = [
+    ...selection.rejected.map((q) => `${q.provider} ${amount(q.netAmountOut)}`),
+    ...selection.failed.map((name) => `${name} no quote`)
+  ];
+  return others.length > 0 ? `${head} (vs ${others.join(", ")})` : head;
+}
@@ -2,9 +2,38 @@ import type { Address } from "viem";
 import type { AppConfig } from "../../config.js";
 import type { ChainClients } from "../client.js";
 
+export type PriceQuoteAsset = "ETH";
+
 export type PriceResult = {
-  text: string | null; // null => unknown
+  text: string | null; // null => unknown; display only, render structured fields via renderPrice()
+  source: string;
+  // Wei per whole token at the margin (tiny probe trade); fee-inclusive where quoted on-chain
+  midPriceWei?: bigint;
+  // Wei per whole token when buying MAX_SPEND_ETH_PER_TRADE
+  executionPriceWei?: bigint;
+  // Execution vs mid price, in bps
+  priceImpactBps?: number;
+
+  // Filled in by readBestEffortPrice (providers may leave these unset)
+  quoteAsset?: PriceQuoteAsset;
+  usdPrice?: number | null; // USD per whole token, null => no USDC pool configured/readable
+  blockNumber?: bigint | null; // block the read was anchored to, null => unknown
+  stale?: boolean;
+};
+
+export type TwapResult = {
   source: string;
+  twapPriceWei: bigint; // wei per whole token, time-weighted over windowMs
+  windowMs: number;
+  coveredMs: number; // portion of the window backed by observations
+  observations: number; // samples inside the window
+};
+
+export type PoolReserves = {
+  source: string;
+  // Raw units; for concentrated liquidity these are the in-range virtual reserves
+  tokenReserve: bigint;
+  wethReserve: bigint;
 };
 
 export type SwapCalldata = {
@@ -14,10 +43,38 @@ export type SwapCalldata = {
   deadline?: bigint;
 };
 
+export type SwapSide = "BUY" | "SELL";
+
+export type SwapQuote = {
+  // BUY: INTERN out for ETH in. SELL: ETH out for INTERN in.
+  amountOut: bigint;
+  // Venue-specific gas estimate for the swap; the aggregator uses a default when absent.
+  gasEstimate?: bigint;
+};
+
 export type DexProvider = {
   name: string;
   // Return a PriceResult or null if provider cannot quote
   getPrice: (cfg: AppConfig, clients: ChainClients, token: Address, weth: Address) => Promise<PriceResult | null>;
+  // Optional: time-weighted average price over TWAP_WINDOW_MINUTES, null if not enough history
+  getTwap?: (
+    cfg: AppConfig,
+    clients: ChainClients,
+    token: Address,
+    weth: Address,
+    nowMs?: number
+  ) => Promise<TwapResult | null>;
+  // Optional: reserves of the pool trades execute against (depth / TVL guardrails)
+  getPoolReserves?: (cfg: AppConfig, clients: ChainClients, token: Address, weth: Address) => Promise<PoolReserves | null>;
+  // Optional: expected output for an exact-input swap of the given size
+  quoteExactInput?: (
+    cfg: AppConfig,
+    clients: ChainClients,
+    token: Address,
+    weth: Address,
+    side: SwapSide,
+    amountIn: bigint
+  ) => Promise<SwapQuote | null>;
   // Optional: build calldata for a buy (spend ETH -> token) or sell (token -> ETH)
   buildBuyCalldata?: (
     cfg: AppConfig,
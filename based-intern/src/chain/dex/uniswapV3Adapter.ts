@@ -0,0 +1,223 @@
+import type { Address } from "viem";
+import type { AppConfig } from "../../config.js";
+import type { ChainClients } from "../client.js";
+import { logger } from "../../logger.js";
+import { registerDexProvider, type SwapSide } from "./index.js";
+import { applySlippage } from "../aerodrome.js";
+import { formatEthPrice } from "../price.js";
+import { readObservedTwap } from "../twap.js";
+import {
+  readUniswapV3Pool,
+  priceWeiFromSqrtPriceX96,
+  estimateUniswapV3Output,
+  quoteUniswapV3ExactInputSingle,
+  buildUniswapV3SwapCalldata,
+  virtualReservesFromLiquidity,
+  type UniswapV3PoolInfo,
+  type UniswapV3Quote
+} from "../uniswapV3.js";
+
+// Dedicated UNISWAP_V3_* settings win; otherwise fall back to the generic
+// POOL_ADDRESS/ROUTER_ADDRESS when Uniswap is the primary router.
+function poolAddressFor(cfg: AppConfig): Address | null {
+  const addr = cfg.UNISWAP_V3_POOL_ADDRESS ?? (cfg.ROUTER_TYPE === "uniswap_v3" ? cfg.POOL_ADDRESS : undefined);
+  return addr ? (addr as Address) : null;
+}
+
+function routerAddressFor(cfg: AppConfig): Address | null {
+  const addr = cfg.UNISWAP_V3_ROUTER_ADDRESS ?? (cfg.ROUTER_TYPE === "uniswap_v3" ? cfg.ROUTER_ADDRESS : undefined);
+  return addr ? (addr as Address) : null;
+}
+
+// The configured fee tier must match the pool, otherwise the router would
+// route the swap through a different (possibly empty) pool. Logged on every
+// read so a wrong UNISWAP_V3_FEE is not mistaken for a missing pool.
+function poolFeeMatches(cfg: AppConfig, pool: UniswapV3PoolInfo): boolean {
+  if (pool.fee === cfg.UNISWAP_V3_FEE) return true;
+  logger.warn("uniswap_v3.fee_mismatch", {
+    pool: pool.poolAddress,
+    poolFee: pool.fee,
+    configuredFee: cfg.UNISWAP_V3_FEE
+  });
+  return false;
+}
+
+// null => the pool is not the INTERN/WETH pair.
+function tokenIsToken0(pool: UniswapV3PoolInfo, token: Address, weth: Address): boolean | null {
+  const token0 = pool.token0.toLowerCase();
+  const token1 = pool.token1.toLowerCase();
+  if (token0 === token.toLowerCase() && token1 === weth.toLowerCase()) return true;
+  if (token0 === weth.toLowerCase() && token1 === token.toLowerCase()) return false;
+  return null;
+}
+
+// Fallback gas for a single-hop SwapRouter02 swap when no quoter estimate is available.
+const UNISWAP_V3_SWAP_GAS = 160_000n;
+// QuoterV2 only estimates the pool swap; the router multicall/unwrap costs extra.
+const ROUTER_OVERHEAD_GAS = 40_000n;
+
+async function expectedOutput(
+  cfg: AppConfig,
+  clients: ChainClients,
+  pool: UniswapV3PoolInfo,
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint
+): Promise<UniswapV3Quote> {
+  if (cfg.UNISWAP_V3_QUOTER_ADDRESS) {
+    const quoted = await quoteUniswapV3ExactInputSingle(
+      clients,
+      cfg.UNISWAP_V3_QUOTER_ADDRESS as Address,
+      tokenIn,
+      tokenOut,
+      pool.fee,
+      amountIn
+    );
+    if (quoted !== null) return { amountOut: quoted.amountOut, gasEstimate: quoted.gasEstimate + ROUTER_OVERHEAD_GAS };
+  }
+  const zeroForOne = pool.token0.toLowerCase() === tokenIn.toLowerCase();
+  return {
+    amountOut: estimateUniswapV3Output(amountIn, pool.sqrtPriceX96, zeroForOne, pool.fee),
+    gasEstimate: UNISWAP_V3_SWAP_GAS
+  };
+}
+
+// Adapter implementing DexProvider for a single Uniswap V3 INTERN/WETH pool (SwapRouter02).
+export const UniswapV3Adapter = {
+  name: "uniswap_v3",
+  getPrice: async (cfg: AppConfig, clients: ChainClients, token: Address, weth: Address) => {
+    const poolAddress = poolAddressFor(cfg);
+    if (!poolAddress || !cfg.WETH_ADDRESS) return null;
+
+    try {
+      const pool = await readUniswapV3Pool(clients, poolAddress);
+      if (!pool) return { text: null, source: "uniswap_v3_unavailable" };
+      if (!poolFeeMatches(cfg, pool)) return { text: null, source: "uniswap_v3_fee_mismatch" };
+
+      const isToken0 = tokenIsToken0(pool, token, weth);
+      if (isToken0 === null) return { text: null, source: "uniswap_v3_mismatch" };
+
+      if (pool.sqrtPriceX96 <= 0n || pool.liquidity <= 0n) {
+        return { text: null, source: "uniswap_v3_empty" };
+      }
+
+      const price = priceWeiFromSqrtPriceX96(pool.sqrtPriceX96, isToken0, cfg.TOKEN_DECIMALS ?? 18);
+
+      return { text: formatEthPrice(price), source: "uniswap_v3", midPriceWei: price };
+    } catch {
+      return { text: null, source: "uniswap_v3_error" };
+    }
+  },
+
+  // TWAP over the spot prices this provider reported (sampled each tick).
+  getTwap: async (cfg: AppConfig, _clients: ChainClients, _token: Address, _weth: Address, nowMs?: number) =>
+    readObservedTwap(cfg, "uniswap_v3", nowMs),
+
+  getPoolReserves: async (cfg: AppConfig, clients: ChainClients, token: Address, weth: Address) => {
+    const poolAddress = poolAddressFor(cfg);
+    if (!poolAddress || !cfg.WETH_ADDRESS) return null;
+    try {
+      const pool = await readUniswapV3Pool(clients, poolAddress);
+      if (!pool || !poolFeeMatches(cfg, pool)) return null;
+      const isToken0 = tokenIsToken0(pool, token, weth);
+      if (isToken0 === null) return null;
+
+      const { reserve0, reserve1 } = virtualReservesFromLiquidity(pool.liquidity, pool.sqrtPriceX96);
+      return isToken0
+        ? { source: "uniswap_v3", tokenReserve: reserve0, wethReserve: reserve1 }
+        : { source: "uniswap_v3", tokenReserve: reserve1, wethReserve: reserve0 };
+    } catch {
+      return null;
+    }
+  },
+
+  quoteExactInput: async (
+    cfg: AppConfig,
+    clients: ChainClients,
+    token: Address,
+    weth: Address,
+    side: SwapSide,
+    amountIn: bigint
+  ) => {
+    const poolAddress = poolAddressFor(cfg);
+    if (!poolAddress || !routerAddressFor(cfg) || !cfg.WETH_ADDRESS) return null;
+    try {
+      const pool = await readUniswapV3Pool(clients, poolAddress);
+      if (!pool || !poolFeeMatches(cfg, pool) || tokenIsToken0(pool, token, weth) === null) return null;
+
+      return side === "BUY"
+        ? await expectedOutput(cfg, clients, pool, weth, token, amountIn)
+        : await expectedOutput(cfg, clients, pool, token, weth, amountIn);
+    } catch {
+      return null;
+    }
+  },
+
+  buildBuyCalldata: async (
+    cfg: AppConfig,
+    clients: ChainClients,
+    token: Address,
+    weth: Address,
+    wallet: Address,
+    spendEth: bigint
+  ) => {
+    const poolAddress = poolAddressFor(cfg);
+    const routerAddress = routerAddressFor(cfg);
+    if (!poolAddress || !routerAddress || !cfg.WETH_ADDRESS) return null;
+    try {
+      const pool = await readUniswapV3Pool(clients, poolAddress);
+      if (!pool || !poolFeeMatches(cfg, pool) || tokenIsToken0(pool, token, weth) === null) return null;
+
+      const { amountOut } = await expectedOutput(cfg, clients, pool, weth, token, spendEth);
+      const minOutput = applySlippage(amountOut, cfg.SLIPPAGE_BPS);
+
+      // SwapRouter02 wraps msg.value into WETH when tokenIn is WETH.
+      const { calldata, deadline } = buildUniswapV3SwapCalldata(
+        { tokenIn: weth, tokenOut: token, fee: pool.fee, amountIn: spendEth, amountOutMinimum: minOutput },
+        wallet,
+        600
+      );
+
+      return { to: routerAddress, calldata, value: spendEth, deadline };
+    } catch {
+      return null;
+    }
+  },
+
+  buildSellCalldata: async (
+    cfg: AppConfig,
+    clients: ChainClients,
+    token: Address,
+    weth: Address,
+    wallet: Address,
+    sellAmount: bigint
+  ) => {
+    const poolAddress = poolAddressFor(cfg);
+    const routerAddress = routerAddressFor(cfg);
+    if (!poolAddress || !routerAddress || !cfg.WETH_ADDRESS) return null;
+    try {
+      const pool = await readUniswapV3Pool(clients, poolAddress);
+      if (!pool || !poolFeeMatches(cfg, pool) || tokenIsToken0(pool, token, weth) === null) return null;
+
+      const { amountOut } = await expectedOutput(cfg, clients, pool, token, weth, sellAmount);
+      const minOutput = applySlippage(amountOut, cfg.SLIPPAGE_BPS);
+
+      // Output WETH stays in the router and is unwrapped to native ETH for the wallet.
+      const { calldata, deadline } = buildUniswapV3SwapCalldata(
+        { tokenIn: token, tokenOut: weth, fee: pool.fee, amountIn: sellAmount, amountOutMinimum: minOutput },
+        wallet,
+        600,
+        wallet
+      );
+
+      return { to: routerAddress, calldata, value: undefined, deadline };
+    } catch {
+      return null;
+    }
+  }
+};
+
+// Register on import so price lookups pick it up by default.
+registerDexProvider(UniswapV3Adapter);
+
+export default UniswapV3Adapter;
@@ -0,0 +1,211 @@
+import { formatEther, formatGwei, parseGwei, type Hex } from "viem";
+import type { AppConfig } from "../config.js";
+import { logger } from "../logger.js";
+import type { ChainClients } from "./client.js";
+import { safeParseEther } from "../utils.js";
+
+/**
+ * EIP-1559 fee strategy for agent transactions.
+ *
+ * Instead of viem's defaults, every send gets an explicit priority fee
+ * (fixed, or a percentile of recent eth_feeHistory rewards) and a maxFeePerGas
+ * capped at MAX_FEE_PER_GAS_GWEI. A ceiling below the base fee is never used
+ * as the cap (the tx could not be included); the quote carries a deferral and
+ * nothing is sent. Before trading, the current L2 base fee and Base's L1 data
+ * fee are checked against ceilings, and the total gas cost against the trade
+ * size, so the trade is deferred during fee spikes.
+ */
+
+export type { PriorityFeeStrategy } from "../config.js";
+
+export type FeeQuote = {
+  baseFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  l1FeeWei: bigint | null; // OP-stack L1 data fee for a typical swap tx, null => unknown
+  deferral: string | null; // set when MAX_FEE_PER_GAS_GWEI is below the base fee; nothing may be sent
+};
+
+// OP-stack GasPriceOracle predeploy (same address on Base and Base Sepolia).
+export const GAS_PRICE_ORACLE_ADDRESS = "0x420000000000000000000000000000000000000F" as const;
+
+const GAS_PRICE_ORACLE_ABI = [
+  {
+    type: "function",
+    name: "getL1Fee",
+    stateMutability: "view",
+    inputs: [{ name: "_data", type: "bytes" }],
+    outputs: [{ name: "", type: "uint256" }]
+  }
+] as const;
+
+// Stand-in for a signed router swap (~selector + 8 words + signature); only its
+// size matters to the L1 fee estimate.
+const TYPICAL_SWAP_TX_BYTES = 400;
+
+// feeHistory lookback for the percentile strategy.
+const FEE_HISTORY_BLOCKS = 20;
+
+// ============================================================================
+// Fee Resolution
+// ============================================================================
+
+/**
+ * Priority fee per the configured strategy. The percentile strategy takes the
+ * median across recent blocks of each block's reward at PRIORITY_FEE_PERCENTILE,
+ * falling back to the fixed fee when feeHistory is unavailable.
+ */
+export async function resolvePriorityFee(cfg: AppConfig, clients: ChainClients): Promise<bigint> {
+  const fixed = safeParseGwei(cfg.PRIORITY_FEE_GWEI);
+  if (cfg.PRIORITY_FEE_STRATEGY !== "percentile") return fixed;
+
+  try {
+    const history = await clients.publicClient.getFeeHistory({
+      blockCount: FEE_HISTORY_BLOCKS,
+      rewardPercentiles: [cfg.PRIORITY_FEE_PERCENTILE],
+      blockTag: "latest"
+    });
+    const rewards = (history.reward ?? []).map((r) => r[0]).filter((r): r is bigint => r !== undefined);
+    if (rewards.length === 0) return fixed;
+    return median(rewards);
+  } catch (err) {
+    logger.warn("fees.fee_history_unavailable", { error: err instanceof Error ? err.message : String(err) });
+    return fixed;
+  }
+}
+
+/**
+ * Current fee picture: base fee, chosen priority fee, maxFeePerGas (2x base fee
+ * headroom, capped at MAX_FEE_PER_GAS_GWEI) and the L1 data fee estimate.
+ * When the ceiling is below the base fee, maxFeePerGas is left uncapped and
+ * `deferral` says why the send must wait.
+ */
+export async function quoteFees(cfg: AppConfig, clients: ChainClients, txData?: Hex): Promise<FeeQuote | null> {
+  try {
+    const block = await clients.publicClient.getBlock();
+    const baseFeePerGas = block.baseFeePerGas ?? 0n;
+    const maxPriorityFeePerGas = await resolvePriorityFee(cfg, clients);
+
+    let maxFeePerGas = baseFeePerGas * 2n + maxPriorityFeePerGas;
+    let deferral: string | null = null;
+    const ceiling = safeParseGwei(cfg.MAX_FEE_PER_GAS_GWEI);
+    if (ceiling > 0n && ceiling < baseFeePerGas) {
+      const base = formatGwei(baseFeePerGas);
+      deferral = `L2 base fee ${base} gwei > MAX_FEE_PER_GAS_GWEI ${cfg.MAX_FEE_PER_GAS_GWEI} gwei`;
+      logger.warn("fees.ceiling_below_base_fee", {
+        baseFeePerGas: baseFeePerGas.toString(),
+        ceiling: cfg.MAX_FEE_PER_GAS_GWEI
+      });
+    } else if (ceiling > 0n && maxFeePerGas > ceiling) {
+      maxFeePerGas = ceiling;
+    }
+
+    return {
+      baseFeePerGas,
+      maxPriorityFeePerGas: maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+      maxFeePerGas,
+      l1FeeWei: await readL1Fee(clients, txData),
+      deferral
+    };
+  } catch (err) {
+    logger.warn("fees.quote_failed", { error: err instanceof Error ? err.message : String(err) });
+    return null;
+  }
+}
+
+async function readL1Fee(clients: ChainClients, txData?: Hex): Promise<bigint | null> {
+  try {
+    const data = txData ?? (`0x${"ff".repeat(TYPICAL_SWAP_TX_BYTES)}` as Hex);
+    return await clients.publicClient.readContract({
+      address: GAS_PRICE_ORACLE_ADDRESS,
+      abi: GAS_PRICE_ORACLE_ABI,
+      functionName: "getL1Fee",
+      args: [data]
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fee fields for sendTransaction / writeContract.
+ */
+export function feeOverrides(fees: FeeQuote): { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+  return { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas };
+}
+
+// ============================================================================
+// Ceilings
+// ============================================================================
+
+/**
+ * MAX_FEE_PER_GAS_GWEI in wei per gas; 0n when no ceiling is set.
+ */
+export function maxFeeCeilingWei(cfg: AppConfig): bigint {
+  return safeParseGwei(cfg.MAX_FEE_PER_GAS_GWEI);
+}
+
+/**
+ * True when any fee ceiling is configured (fee data is then required to trade).
+ */
+export function feeCeilingsEnabled(cfg: AppConfig): boolean {
+  return (
+    safeParseGwei(cfg.MAX_FEE_PER_GAS_GWEI) > 0n || safeParseEther(cfg.MAX_L1_FEE_ETH) > 0n || cfg.MAX_GAS_COST_BPS > 0
+  );
+}
+
+/**
+ * Expected total fee in wei: L2 execution at base + priority, plus L1 data fee.
+ */
+export function estimateTxCostWei(fees: FeeQuote, gasLimit: bigint): bigint {
+  return gasLimit * (fees.baseFeePerGas + fees.maxPriorityFeePerGas) + (fees.l1FeeWei ?? 0n);
+}
+
+/**
+ * Deferral reason when fees are spiking, or null when the trade may proceed.
+ * `tradeSizeWei` is the ETH notional (spend for BUY, expected proceeds for SELL).
+ */
+export function checkFeeCeilings(
+  cfg: AppConfig,
+  fees: FeeQuote,
+  gasLimit: bigint,
+  tradeSizeWei: bigint
+): string | null {
+  if (fees.deferral) return fees.deferral;
+
+  const maxFee = safeParseGwei(cfg.MAX_FEE_PER_GAS_GWEI);
+  const required = fees.baseFeePerGas + fees.maxPriorityFeePerGas;
+  if (maxFee > 0n && required > maxFee) {
+    return `L2 fee spike (${formatGwei(required)} gwei > ${cfg.MAX_FEE_PER_GAS_GWEI} gwei)`;
+  }
+
+  const maxL1 = safeParseEther(cfg.MAX_L1_FEE_ETH);
+  if (maxL1 > 0n) {
+    if (fees.l1FeeWei === null) return "L1 data fee unavailable";
+    if (fees.l1FeeWei > maxL1) {
+      return `L1 data fee spike (${formatEther(fees.l1FeeWei)} ETH > ${cfg.MAX_L1_FEE_ETH} ETH)`;
+    }
+  }
+
+  if (cfg.MAX_GAS_COST_BPS > 0 && tradeSizeWei > 0n) {
+    const costWei = estimateTxCostWei(fees, gasLimit);
+    const costBps = Number((costWei * 10_000n) / tradeSizeWei);
+    if (costBps > cfg.MAX_GAS_COST_BPS) {
+      return `gas cost too high vs trade size (${costBps}bps > ${cfg.MAX_GAS_COST_BPS}bps)`;
+    }
+  }
+  return null;
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function safeParseGwei(v: string | undefined): bigint {
+  try {
+    return v ? parseGwei(v) : 0n;
+  } catch {
+    return 0n;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Aerodrome gauge helpers
+ *
+ * A gauge takes a pool's LP tokens as stake and pays AERO emissions in place of
+ * the pool's swap fees. Calldata builders return TxRequests for the nonce
+ * manager; reads go through the public client.
+ */
+
+import { encodeFunctionData, type Address } from "viem";
+import type { ChainClients } from "./client.js";
+import type { TxRequest } from "./nonce.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const AERODROME_GAUGE_ABI = [
+  {
+    type: "function",
+    name: "deposit",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_amount", type: "uint256" }],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "withdraw",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_amount", type: "uint256" }],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "balanceOf",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }]
+  },
+  {
+    type: "function",
+    name: "earned",
+    stateMutability: "view",
+    inputs: [{ name: "_account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }]
+  },
+  {
+    type: "function",
+    name: "getReward",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_account", type: "address" }],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "stakingToken",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }]
+  },
+  {
+    type: "function",
+    name: "rewardToken",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }]
+  }
+] as const;
+
+// ============================================================================
+// Calldata Builders
+// ============================================================================
+
+/** Stake `amount` LP tokens (the gauge must be approved for them first). */
+export function buildGaugeDepositCalldata(gauge: Address, amount: bigint): TxRequest {
+  return {
+    to: gauge,
+    data: encodeFunctionData({ abi: AERODROME_GAUGE_ABI, functionName: "deposit", args: [amount] })
+  };
+}
+
+/** Unstake `amount` LP tokens back to the wallet. */
+export function buildGaugeWithdrawCalldata(gauge: Address, amount: bigint): TxRequest {
+  return {
+    to: gauge,
+    data: encodeFunctionData({ abi: AERODROME_GAUGE_ABI, functionName: "withdraw", args: [amount] })
+  };
+}
+
+/** Claim `account`'s accrued AERO to `account` (callable by the account itself). */
+export function buildGaugeClaimCalldata(gauge: Address, account: Address): TxRequest {
+  return {
+    to: gauge,
+    data: encodeFunctionData({ abi: AERODROME_GAUGE_ABI, functionName: "getReward", args: [account] })
+  };
+}
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+export async function readStakedBalance(clients: ChainClients, gauge: Address, owner: Address): Promise<bigint> {
+  return clients.publicClient.readContract({
+    address: gauge,
+    abi: AERODROME_GAUGE_ABI,
+    functionName: "balanceOf",
+    args: [owner]
+  });
+}
+
+/** AERO accrued to `owner` and not yet claimed. */
+export async function readEarnedRewards(clients: ChainClients, gauge: Address, owner: Address): Promise<bigint> {
+  return clients.publicClient.readContract({
+    address: gauge,
+    abi: AERODROME_GAUGE_ABI,
+    functionName: "earned",
+    args: [owner]
+  });
+}
+
+/** The LP token a gauge stakes; used to check GAUGE_ADDRESS_* points at the right pool. */
+export async function readGaugeStakingToken(clients: ChainClients, gauge: Address): Promise<Address> {
+  return clients.publicClient.readContract({
+    address: gauge,
+    abi: AERODROME_GAUGE_ABI,
+    functionName: "stakingToken"
+  });
+}
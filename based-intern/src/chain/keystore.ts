@@ -0,0 +1,126 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { bytesToHex, keccak256, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { fromLocalAccount, type Signer } from "./signer.js";
+
+/**
+ * Password-encrypted JSON keystore (Web3 Secret Storage, version 3).
+ *
+ * The same format geth, Foundry (`cast wallet import`) and MetaMask export:
+ * the private key is AES-128-CTR encrypted under a scrypt (or PBKDF2) derived
+ * key, with a keccak MAC to detect a wrong password. The deploy ships the
+ * keystore file and the password (ideally as a mounted secret file) instead
+ * of a plaintext PRIVATE_KEY.
+ */
+
+export type KeystoreV3 = {
+  version: 3;
+  id: string;
+  address?: string; // lowercase hex without 0x
+  crypto: {
+    cipher: "aes-128-ctr";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+};
+
+type ScryptParams = { dklen: number; n: number; r: number; p: number; salt: string };
+type Pbkdf2Params = { dklen: number; c: number; prf: "hmac-sha256"; salt: string };
+
+// geth's "standard" scrypt cost.
+const DEFAULT_SCRYPT_N = 262_144;
+
+// ============================================================================
+// Decrypt / Encrypt
+// ============================================================================
+
+/**
+ * Decrypt a V3 keystore. Throws on a wrong password (MAC mismatch) or an
+ * unsupported cipher/KDF.
+ */
+export function decryptKeystore(keystore: KeystoreV3 | string, password: string): Hex {
+  const json = typeof keystore === "string" ? (JSON.parse(keystore) as KeystoreV3) : keystore;
+  // Some tools write "Crypto" instead of "crypto".
+  const c = json.crypto ?? (json as unknown as { Crypto: KeystoreV3["crypto"] }).Crypto;
+  if (json.version !== 3 || !c) throw new Error("keystore: unsupported version (expected V3)");
+  if (c.cipher !== "aes-128-ctr") throw new Error(`keystore: unsupported cipher ${c.cipher}`);
+
+  const derivedKey = deriveKey(c.kdf, c.kdfparams, password);
+  const ciphertext = Buffer.from(c.ciphertext, "hex");
+  const mac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+  if (mac !== c.mac.toLowerCase()) throw new Error("keystore: wrong password (MAC mismatch)");
+
+  const decipher = createDecipheriv("aes-128-ctr", derivedKey.subarray(0, 16), Buffer.from(c.cipherparams.iv, "hex"));
+  return bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+/**
+ * Encrypt a private key into a V3 keystore (scrypt). `n` lowers the scrypt
+ * cost for tests.
+ */
+export function encryptKeystore(privateKey: Hex, password: string, opts: { n?: number } = {}): KeystoreV3 {
+  const kdfparams: ScryptParams = {
+    dklen: 32,
+    n: opts.n ?? DEFAULT_SCRYPT_N,
+    r: 8,
+    p: 1,
+    salt: randomBytes(32).toString("hex")
+  };
+  const derivedKey = deriveKey("scrypt", kdfparams, password);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), "hex")), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf: "scrypt",
+      kdfparams,
+      mac: keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2)
+    }
+  };
+}
+
+function deriveKey(kdf: string, params: ScryptParams | Pbkdf2Params, password: string): Buffer {
+  const salt = Buffer.from(params.salt, "hex");
+  if (kdf === "scrypt") {
+    const { n, r, p, dklen } = params as ScryptParams;
+    // scrypt needs 128 * N * r bytes; Node's default maxmem (32 MiB) is below geth's standard cost.
+    return scryptSync(password, salt, dklen, { N: n, r, p, maxmem: 256 * n * r });
+  }
+  if (kdf === "pbkdf2") {
+    const { c, dklen, prf } = params as Pbkdf2Params;
+    if (prf !== "hmac-sha256") throw new Error(`keystore: unsupported prf ${prf}`);
+    return pbkdf2Sync(password, salt, c, dklen, "sha256");
+  }
+  throw new Error(`keystore: unsupported kdf ${kdf}`);
+}
+
+// ============================================================================
+// Signer
+// ============================================================================
+
+/**
+ * Signer from a keystore file. The password comes from `passwordFile` when
+ * set (trailing newline trimmed), else from `password`.
+ */
+export function createKeystoreSigner(opts: { path: string; password?: string; passwordFile?: string }): Signer {
+  const password = opts.passwordFile
+    ? readFileSync(opts.passwordFile, "utf8").replace(/\r?\n$/, "")
+    : opts.password;
+  if (password === undefined) {
+    throw new Error("keystore: no password (set KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD)");
+  }
+
+  const privateKey = decryptKeystore(readFileSync(opts.path, "utf8"), password);
+  return fromLocalAccount("keystore", privateKeyToAccount(privateKey));
+}
@@ -0,0 +1,301 @@
+import { formatGwei, type Address, type Hex, type WalletClient } from "viem";
+import { sendTransaction, type SendTransactionParameters } from "viem/actions";
+import type { AppConfig, ReplacementMode } from "../config.js";
+import { logger } from "../logger.js";
+import type { ChainClients } from "./client.js";
+import { maxFeeCeilingWei, type FeeQuote } from "./fees.js";
+
+/**
+ * Nonce manager and stuck-transaction replacement.
+ *
+ * Every agent transaction is sent with an explicit nonce and tracked in state
+ * until it is mined. A tx still pending TX_STUCK_AFTER_BLOCKS after it was
+ * sent is replaced at the same nonce with bumped fees: re-sent as-is
+ * ("speed_up") or turned into a 0-value self-transfer ("cancel"). After
+ * TX_MAX_REPLACEMENTS speed-ups the next replacement is always a cancel.
+ */
+
+export type { ReplacementMode } from "../config.js";
+
+export type PendingTx = {
+  hash: Hex;
+  nonce: number;
+  label: string; // e.g. "swap", "approve", "lp_add"
+  to: Address;
+  data: Hex;
+  value: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  sentAtMs: number;
+  sentAtBlock: string;
+  replacedHashes: Hex[]; // earlier hashes at this nonce, oldest first
+};
+
+// AgentState fields used by the nonce manager (persisted with the rest of state).
+export type NonceManagerState = {
+  pendingTransactions?: PendingTx[];
+};
+
+export type ReplacementReport = {
+  label: string;
+  nonce: number;
+  mode: ReplacementMode;
+  oldHash: Hex;
+  newHash: Hex;
+  maxFeePerGas: bigint;
+};
+
+export type TxRequest = {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+};
+
+// Nodes reject replacements that do not raise both fee fields by at least 10%.
+const MIN_FEE_BUMP_BPS = 1_000;
+
+// ============================================================================
+// Nonce Assignment
+// ============================================================================
+
+/**
+ * Next nonce to use: the node's pending count, or one past our highest
+ * tracked pending tx if the node has not seen it yet (e.g. a load-balanced
+ * RPC behind by a block).
+ */
+export async function nextNonce(clients: ChainClients, state: NonceManagerState): Promise<number> {
+  const onChain = await clients.publicClient.getTransactionCount({
+    address: clients.walletAddress,
+    blockTag: "pending"
+  });
+  const tracked = (state.pendingTransactions ?? []).reduce((max, tx) => Math.max(max, tx.nonce + 1), 0);
+  return Math.max(onChain, tracked);
+}
+
+/**
+ * Send a transaction with an explicit nonce and fees and start tracking it.
+ * Sequential sends (approve then swap) get consecutive nonces even before the
+ * first is mined. A fee quote carrying a deferral is refused before sending.
+ */
+export async function sendManagedTransaction<S extends NonceManagerState>(
+  clients: ChainClients,
+  state: S,
+  req: TxRequest,
+  fees: FeeQuote,
+  label: string,
+  now: Date = new Date()
+): Promise<{ state: S; hash: Hex }> {
+  if (!clients.walletClient) throw new Error("wallet client unavailable (read-only mode)");
+  if (fees.deferral) throw new Error(`deferred: ${fees.deferral}`);
+
+  const nonce = await nextNonce(clients, state);
+  const hash = await sendAtNonce(clients.walletClient, req, nonce, fees);
+
+  const sentAtBlock = await clients.publicClient.getBlockNumber();
+  logger.info("tx.sent", { label, nonce, hash });
+
+  const pending: PendingTx = {
+    hash,
+    nonce,
+    label,
+    to: req.to,
+    data: req.data,
+    value: (req.value ?? 0n).toString(),
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+    sentAtMs: now.getTime(),
+    sentAtBlock: sentAtBlock.toString(),
+    replacedHashes: []
+  };
+  return { state: { ...state, pendingTransactions: [...(state.pendingTransactions ?? []), pending] }, hash };
+}
+
+// ============================================================================
+// Pending Tracking
+// ============================================================================
+
+/**
+ * Drop every tracked tx whose nonce is already used on-chain (mined either as
+ * the original, a replacement, or something sent outside the agent).
+ */
+export async function pruneMinedTransactions<S extends NonceManagerState>(clients: ChainClients, state: S): Promise<S> {
+  const pending = state.pendingTransactions ?? [];
+  if (pending.length === 0) return state;
+
+  const confirmedNonce = await clients.publicClient.getTransactionCount({
+    address: clients.walletAddress,
+    blockTag: "latest"
+  });
+  const stillPending = pending.filter((tx) => tx.nonce >= confirmedNonce);
+  for (const tx of pending) {
+    if (tx.nonce < confirmedNonce) logger.info("tx.mined", { label: tx.label, nonce: tx.nonce, hash: tx.hash });
+  }
+  return stillPending.length === pending.length ? state : { ...state, pendingTransactions: stillPending };
+}
+
+export function findStuckTransactions(
+  state: NonceManagerState,
+  currentBlock: bigint,
+  stuckAfterBlocks: number
+): PendingTx[] {
+  return (state.pendingTransactions ?? []).filter(
+    (tx) => currentBlock - BigInt(tx.sentAtBlock) >= BigInt(stuckAfterBlocks)
+  );
+}
+
+// ============================================================================
+// Replacement
+// ============================================================================
+
+/**
+ * New fees for a replacement: at least the configured bump over the stuck
+ * tx (never less than the 10% nodes require), and at least the current
+ * market fees.
+ */
+export function bumpedFees(
+  tx: PendingTx,
+  market: FeeQuote,
+  bumpBps: number
+): { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+  const bps = BigInt(Math.max(bumpBps, MIN_FEE_BUMP_BPS));
+  const bump = (v: bigint) => (v * (10_000n + bps) + 9_999n) / 10_000n; // round up
+  const maxPriorityFeePerGas = max(bump(BigInt(tx.maxPriorityFeePerGas)), market.maxPriorityFeePerGas);
+  const maxFeePerGas = max(max(bump(BigInt(tx.maxFeePerGas)), market.maxFeePerGas), maxPriorityFeePerGas);
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+export function replacementModeFor(cfg: AppConfig, tx: PendingTx): ReplacementMode {
+  if (tx.replacedHashes.length >= cfg.TX_MAX_REPLACEMENTS) return "cancel";
+  return cfg.TX_REPLACEMENT_MODE;
+}
+
+/**
+ * Replace one stuck transaction at the same nonce. Cancel sends 0 ETH to
+ * ourselves with empty calldata, which frees the nonce without side effects.
+ */
+export async function replaceTransaction<S extends NonceManagerState>(
+  clients: ChainClients,
+  state: S,
+  tx: PendingTx,
+  mode: ReplacementMode,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+  now: Date = new Date()
+): Promise<{ state: S; report: ReplacementReport }> {
+  if (!clients.walletClient) throw new Error("wallet client unavailable (read-only mode)");
+
+  const req: TxRequest =
+    mode === "cancel"
+      ? { to: clients.walletAddress, data: "0x", value: 0n }
+      : { to: tx.to, data: tx.data, value: BigInt(tx.value) };
+
+  const newHash = await sendAtNonce(clients.walletClient, req, tx.nonce, fees);
+  const sentAtBlock = await clients.publicClient.getBlockNumber();
+
+  const replaced: PendingTx = {
+    ...tx,
+    hash: newHash,
+    label: mode === "cancel" && !tx.label.endsWith(":cancel") ? `${tx.label}:cancel` : tx.label,
+    to: req.to,
+    data: req.data,
+    value: (req.value ?? 0n).toString(),
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+    sentAtMs: now.getTime(),
+    sentAtBlock: sentAtBlock.toString(),
+    replacedHashes: [...tx.replacedHashes, tx.hash]
+  };
+
+  const report: ReplacementReport = {
+    label: tx.label,
+    nonce: tx.nonce,
+    mode,
+    oldHash: tx.hash,
+    newHash,
+    maxFeePerGas: fees.maxFeePerGas
+  };
+  logger.warn("tx.replaced", { ...report, maxFeePerGas: report.maxFeePerGas.toString() });
+
+  return {
+    state: {
+      ...state,
+      pendingTransactions: (state.pendingTransactions ?? []).map((p) => (p.nonce === tx.nonce ? replaced : p))
+    },
+    report
+  };
+}
+
+/**
+ * Per-tick maintenance: forget mined txs, then replace any that have been
+ * pending for TX_STUCK_AFTER_BLOCKS. Returns the reports for the receipt stream.
+ * Replacements wait, like new sends, while the fee quote carries a deferral or
+ * the bumped maxFeePerGas would exceed MAX_FEE_PER_GAS_GWEI (a replacement
+ * capped below the required bump would be rejected as underpriced).
+ */
+export async function replaceStuckTransactions<S extends NonceManagerState>(
+  cfg: AppConfig,
+  clients: ChainClients,
+  state: S,
+  market: FeeQuote,
+  now: Date = new Date()
+): Promise<{ state: S; reports: ReplacementReport[] }> {
+  let next = await pruneMinedTransactions(clients, state);
+  const currentBlock = await clients.publicClient.getBlockNumber();
+  const reports: ReplacementReport[] = [];
+
+  for (const tx of findStuckTransactions(next, currentBlock, cfg.TX_STUCK_AFTER_BLOCKS)) {
+    const fees = bumpedFees(tx, market, cfg.TX_FEE_BUMP_BPS);
+    const deferral = replacementDeferral(cfg, market, fees.maxFeePerGas);
+    if (deferral) {
+      logger.warn("tx.replace_deferred", { label: tx.label, nonce: tx.nonce, reason: deferral });
+      continue;
+    }
+
+    try {
+      const out = await replaceTransaction(clients, next, tx, replacementModeFor(cfg, tx), fees, now);
+      next = out.state;
+      reports.push(out.report);
+    } catch (err) {
+      // Typically "nonce too low": the original was mined between prune and replace.
+      logger.warn("tx.replace_failed", {
+        label: tx.label,
+        nonce: tx.nonce,
+        error: err instanceof Error ? err.message : String(err)
+      });
+    }
+  }
+  return { state: next, reports };
+}
+
+function replacementDeferral(cfg: AppConfig, market: FeeQuote, maxFeePerGas: bigint): string | null {
+  if (market.deferral) return market.deferral;
+  const ceiling = maxFeeCeilingWei(cfg);
+  if (ceiling > 0n && maxFeePerGas > ceiling) {
+    const bumped = formatGwei(maxFeePerGas);
+    return `bumped maxFeePerGas ${bumped} gwei > MAX_FEE_PER_GAS_GWEI ${cfg.MAX_FEE_PER_GAS_GWEI} gwei`;
+  }
+  return null;
+}
+
+// EIP-1559 send with the wallet's own account and chain, at an explicit nonce.
+async function sendAtNonce(
+  wallet: WalletClient,
+  req: TxRequest,
+  nonce: number,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+): Promise<Hex> {
+  const request: SendTransactionParameters = {
+    account: wallet.account ?? null,
+    chain: wallet.chain,
+    to: req.to,
+    data: req.data,
+    value: req.value ?? 0n,
+    nonce,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+  };
+  return sendTransaction(wallet, request);
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
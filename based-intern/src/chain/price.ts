@@ -1,38 +1,260 @@
-import type { Address } from "viem";
+import { formatEther, type Address } from "viem";
 import type { AppConfig } from "../config.js";
 import type { ChainClients } from "./client.js";
-import { getDexProviders } from "./dex/index.js";
+import { getDexProviders, type PoolReserves, type PriceResult, type SwapSide } from "./dex/index.js";
 
-export type PriceResult = {
-  text: string | null; // null => unknown
-  source: string;
-};
+export type { PoolReserves, PriceResult } from "./dex/index.js";
 
 /**
  * Best-effort price lookup using registered DEX providers.
  *
  * Providers can register themselves (e.g., Aerodrome adapter). The first
- * provider that returns a non-null PriceResult will be used.
+ * provider that returns a non-null PriceResult will be used. The result is
+ * then anchored to the current block, flagged stale when that block is older
+ * than PRICE_MAX_AGE_SECONDS, and converted to USD via POOL_ADDRESS_USDC when
+ * configured.
  */
 export async function readBestEffortPrice(
   cfg: AppConfig,
   clients: ChainClients,
-  token: Address
+  token: Address,
+  nowMs: number = Date.now()
 ): Promise<PriceResult> {
+  const block = await readLatestBlock(clients);
+  const stale = !block || nowMs / 1000 - Number(block.timestamp) > cfg.PRICE_MAX_AGE_SECONDS;
+  const unknown: PriceResult = { text: null, source: "unknown", blockNumber: block?.number ?? null, stale: true };
+
   const providers = getDexProviders();
-  if (!providers || providers.length === 0) return { text: null, source: "unknown" };
+  if (!providers || providers.length === 0) return unknown;
 
   const wethAddress = (cfg.WETH_ADDRESS ?? "").toString();
   for (const p of providers) {
     try {
       const out = await p.getPrice(cfg, clients, token, wethAddress as Address);
-      if (out) return out;
+      if (!out) continue;
+
+      const result: PriceResult = {
+        ...out,
+        quoteAsset: "ETH",
+        blockNumber: block?.number ?? null,
+        stale: out.text === null || stale,
+        usdPrice: null
+      };
+      if (out.midPriceWei !== undefined) {
+        result.usdPrice = await readUsdPrice(cfg, clients, token, out.midPriceWei);
+      }
+      result.text = out.text === null ? null : renderPrice(result);
+      return result;
     } catch {
       // provider failure -> try next
       continue;
     }
   }
 
-  return { text: null, source: "unknown" };
+  return unknown;
+}
+
+async function readLatestBlock(clients: ChainClients): Promise<{ number: bigint; timestamp: bigint } | null> {
+  try {
+    const block = await clients.publicClient.getBlock();
+    return block.number === null ? null : { number: block.number, timestamp: block.timestamp };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Market Depth
+// ============================================================================
+
+/**
+ * Reserves of the pool the agent trades against, from the first provider that
+ * can read them (same order as readBestEffortPrice), or from `provider` only
+ * when the route is already chosen.
+ */
+export async function readPoolReserves(
+  cfg: AppConfig,
+  clients: ChainClients,
+  token: Address,
+  provider?: string
+): Promise<PoolReserves | null> {
+  const wethAddress = (cfg.WETH_ADDRESS ?? "") as Address;
+  for (const p of getDexProviders()) {
+    if (!p.getPoolReserves || (provider !== undefined && p.name !== provider)) continue;
+    try {
+      const reserves = await p.getPoolReserves(cfg, clients, token, wethAddress);
+      if (reserves) return reserves;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Expected execution-vs-mid price impact of a trade against x*y=k reserves, in
+ * bps (fee excluded). BUY spends `amountIn` wei, SELL sells `amountIn` tokens.
+ * Conservative for stable pools, whose curve is flatter near the peg.
+ */
+export function estimatePriceImpactBps(side: SwapSide, amountIn: bigint, reserves: PoolReserves): number {
+  if (amountIn <= 0n) return 0;
+  if (side === "BUY") {
+    // execution = (X + dx) / Y vs mid = X / Y  =>  impact = dx / X
+    if (reserves.wethReserve <= 0n) return 10_000;
+    return Number((amountIn * 10_000n) / reserves.wethReserve);
+  }
+  // execution = X / (Y + dy) vs mid = X / Y  =>  impact = dy / (Y + dy)
+  if (reserves.tokenReserve <= 0n) return 10_000;
+  return Number((amountIn * 10_000n) / (reserves.tokenReserve + amountIn));
+}
+
+/**
+ * Pool TVL in wei: both sides of a balanced pool are worth the same, so twice
+ * the WETH side.
+ */
+export function poolTvlWei(reserves: PoolReserves): bigint {
+  return reserves.wethReserve * 2n;
+}
+
+// ============================================================================
+// USD Conversion
+// ============================================================================
+
+const USDC_DECIMALS = 6;
+
+const USD_POOL_ABI = [
+  { type: "function", name: "token0", stateMutability: "view", inputs: [], outputs: [{ name: "", type: "address" }] },
+  { type: "function", name: "token1", stateMutability: "view", inputs: [], outputs: [{ name: "", type: "address" }] },
+  {
+    type: "function",
+    name: "getReserves",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "_reserve0", type: "uint256" },
+      { name: "_reserve1", type: "uint256" },
+      { name: "_blockTimestampLast", type: "uint256" }
+    ]
+  }
+] as const;
+
+/**
+ * USD per whole token from the pool at POOL_ADDRESS_USDC. Works with either a
+ * WETH/USDC pool (ETH price * ETH/USD) or an INTERN/USDC pool (direct ratio).
+ * Informational only (spot reserve ratio), so a plain number is fine here.
+ */
+export async function readUsdPrice(
+  cfg: AppConfig,
+  clients: ChainClients,
+  token: Address,
+  priceWei: bigint
+): Promise<number | null> {
+  if (!cfg.POOL_ADDRESS_USDC || !cfg.USDC_ADDRESS) return null;
+  try {
+    const pool = cfg.POOL_ADDRESS_USDC as Address;
+    const [token0, token1, reserves] = await Promise.all([
+      clients.publicClient.readContract({ address: pool, abi: USD_POOL_ABI, functionName: "token0" }),
+      clients.publicClient.readContract({ address: pool, abi: USD_POOL_ABI, functionName: "token1" }),
+      clients.publicClient.readContract({ address: pool, abi: USD_POOL_ABI, functionName: "getReserves" })
+    ]);
+
+    const usdc = cfg.USDC_ADDRESS.toLowerCase();
+    let usdcReserve: bigint;
+    let other: string;
+    let otherReserve: bigint;
+    if (token0.toLowerCase() === usdc) {
+      [usdcReserve, other, otherReserve] = [reserves[0], token1.toLowerCase(), reserves[1]];
+    } else if (token1.toLowerCase() === usdc) {
+      [usdcReserve, other, otherReserve] = [reserves[1], token0.toLowerCase(), reserves[0]];
+    } else {
+      return null;
+    }
+    if (usdcReserve <= 0n || otherReserve <= 0n) return null;
+
+    const usdc1 = Number(usdcReserve) / 10 ** USDC_DECIMALS;
+    if (other === (cfg.WETH_ADDRESS ?? "").toLowerCase()) {
+      const usdPerEth = usdc1 / (Number(otherReserve) / 1e18);
+      return (Number(priceWei) / 1e18) * usdPerEth;
+    }
+    if (other === token.toLowerCase()) {
+      return usdc1 / (Number(otherReserve) / 10 ** (cfg.TOKEN_DECIMALS ?? 18));
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Display string for a price, e.g. "0.00000123 ETH (~$0.0041)" or
+ * "0.00000123 ETH [stale]". Falls back to the provider text when the
+ * provider did not return a structured price.
+ */
+export function renderPrice(price: PriceResult | null): string {
+  if (!price || price.midPriceWei === undefined) return price?.text ?? "unknown";
+  const parts = [formatEthPrice(price.midPriceWei)];
+  if (price.usdPrice != null && Number.isFinite(price.usdPrice)) parts.push(`(~$${formatUsd(price.usdPrice)})`);
+  if (price.stale) parts.push("[stale]");
+  return parts.join(" ");
+}
+
+/**
+ * JSON-safe view of a price for tool output and logs (bigints as strings).
+ */
+export function priceToJson(price: PriceResult | null): Record<string, unknown> | string {
+  if (!price || price.text === null) return "unknown";
+  return {
+    text: renderPrice(price),
+    source: price.source,
+    quoteAsset: price.quoteAsset ?? "ETH",
+    priceWei: price.midPriceWei?.toString() ?? null,
+    executionPriceWei: price.executionPriceWei?.toString() ?? null,
+    priceImpactBps: price.priceImpactBps ?? null,
+    usdPrice: price.usdPrice ?? null,
+    blockNumber: price.blockNumber?.toString() ?? null,
+    stale: price.stale ?? false
+  };
+}
+
+function formatUsd(v: number): string {
+  if (v >= 1) return v.toFixed(2);
+  if (v <= 0) return "0";
+  // Keep 2 significant digits for sub-dollar meme prices (no exponent notation).
+  const decimals = Math.min(20, 1 - Math.floor(Math.log10(v)));
+  return v.toFixed(decimals).replace(/0+$/, "").replace(/\.$/, "");
+}
+
+/**
+ * Price of one whole token in wei, from an exact-input quote in either direction.
+ * `ethIn=true`: amountIn is wei and amountOut is token units (a BUY), else the reverse.
+ */
+export function priceWeiFromQuote(amountIn: bigint, amountOut: bigint, ethIn: boolean, tokenDecimals: number): bigint {
+  const unit = 10n ** BigInt(tokenDecimals);
+  if (ethIn) return amountOut > 0n ? (amountIn * unit) / amountOut : 0n;
+  return amountIn > 0n ? (amountOut * unit) / amountIn : 0n;
+}
+
+/**
+ * Price impact of executing at `executionPriceWei` versus the marginal mid price,
+ * in basis points (always >= 0; direction-agnostic).
+ */
+export function priceImpactBps(midPriceWei: bigint, executionPriceWei: bigint): number {
+  if (midPriceWei <= 0n) return 0;
+  const diff = executionPriceWei > midPriceWei ? executionPriceWei - midPriceWei : midPriceWei - executionPriceWei;
+  return Number((diff * 10_000n) / midPriceWei);
 }
 
+/**
+ * Render a wei price with up to 6 significant digits, so tiny meme-token
+ * prices do not collapse to "0.000000 ETH".
+ */
+export function formatEthPrice(priceWei: bigint): string {
+  const [whole, frac = ""] = formatEther(priceWei).split(".");
+  const keep = whole !== "0" ? 6 : (frac.match(/^0*/)?.[0].length ?? 0) + 6;
+  const trimmed = frac.slice(0, keep).replace(/0+$/, "");
+  return `${trimmed ? `${whole}.${trimmed}` : whole} ETH`;
+}
@@ -0,0 +1,120 @@
+import {
+  isAddressEqual,
+  isHex,
+  numberToHex,
+  recoverMessageAddress,
+  recoverTypedDataAddress,
+  size,
+  stringToHex,
+  toHex,
+  type Address,
+  type Hex,
+  type SignableMessage,
+  type TransactionSerializable,
+  type TypedDataDefinition
+} from "viem";
+import { assertSignedBy, type Signer } from "./signer.js";
+
+/**
+ * Remote signer over JSON-RPC (Web3Signer, Clef, or any service exposing
+ * eth_signTransaction / eth_sign / eth_signTypedData_v4). The agent prepares
+ * the transaction and broadcasts the signed bytes itself; the remote side
+ * only holds the key. Requests carry `Authorization: Bearer <token>` when a
+ * token is configured. Every result must recover to the configured address.
+ */
+
+export type RemoteSignerOptions = {
+  url: string;
+  address: Address;
+  token?: string;
+  fetchImpl?: typeof fetch;
+};
+
+export function createRemoteSigner(opts: RemoteSignerOptions): Signer {
+  const fetchImpl = opts.fetchImpl ?? fetch;
+  let id = 0;
+
+  async function rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (opts.token) headers.Authorization = `Bearer ${opts.token}`;
+
+    const res = await fetchImpl(opts.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: ++id, method, params }, (_k, v) =>
+        typeof v === "bigint" ? v.toString() : v
+      )
+    });
+    if (!res.ok) throw new Error(`remote signer ${method} failed: HTTP ${res.status}`);
+
+    const body = (await res.json()) as { result?: T; error?: { code: number; message: string } };
+    if (body.error) throw new Error(`remote signer ${method} failed: ${body.error.message} (${body.error.code})`);
+    if (body.result === undefined) throw new Error(`remote signer ${method} returned no result`);
+    return body.result;
+  }
+
+  return {
+    kind: "remote",
+    address: opts.address,
+    async signTransaction(tx: TransactionSerializable): Promise<Hex> {
+      const signed = await rpc<Hex>("eth_signTransaction", [toRpcTransaction(opts.address, tx)]);
+      return assertSignedBy(signed, opts.address, "remote signer");
+    },
+    async signMessage(message: SignableMessage): Promise<Hex> {
+      const signature = await rpc<Hex>("eth_sign", [opts.address, messageToHex(message)]);
+      return assertSignatureBy("eth_sign", signature, opts.address, (sig) =>
+        recoverMessageAddress({ message, signature: sig })
+      );
+    },
+    async signTypedData(typedData: TypedDataDefinition): Promise<Hex> {
+      const signature = await rpc<Hex>("eth_signTypedData_v4", [
+        opts.address,
+        JSON.stringify(typedData, (_k, v) => (typeof v === "bigint" ? v.toString() : v))
+      ]);
+      return assertSignatureBy("eth_signTypedData_v4", signature, opts.address, (sig) =>
+        recoverTypedDataAddress({ ...typedData, signature: sig })
+      );
+    }
+  };
+}
+
+async function assertSignatureBy(
+  method: string,
+  signature: unknown,
+  address: Address,
+  recover: (signature: Hex) => Promise<Address>
+): Promise<Hex> {
+  if (typeof signature !== "string" || !isHex(signature, { strict: true }) || size(signature) !== 65) {
+    throw new Error(`remote signer ${method} returned a malformed signature`);
+  }
+  const signer = await recover(signature);
+  if (!isAddressEqual(signer, address)) {
+    throw new Error(`remote signer ${method} signed with ${signer}, expected ${address}`);
+  }
+  return signature;
+}
+
+function toRpcTransaction(from: Address, tx: TransactionSerializable): Record<string, unknown> {
+  const quantity = (v: bigint | number | undefined) => (v === undefined ? undefined : numberToHex(v));
+  return {
+    from,
+    to: tx.to ?? undefined,
+    data: tx.data,
+    value: quantity(tx.value ?? 0n),
+    nonce: quantity(tx.nonce),
+    gas: quantity(tx.gas),
+    chainId: quantity(tx.chainId),
+    ...(tx.maxFeePerGas !== undefined
+      ? {
+          type: "0x2",
+          maxFeePerGas: quantity(tx.maxFeePerGas),
+          maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas)
+        }
+      : { gasPrice: quantity(tx.gasPrice) })
+  };
+}
+
+function messageToHex(message: SignableMessage): Hex {
+  if (typeof message === "string") return stringToHex(message);
+  return typeof message.raw === "string" ? message.raw : toHex(message.raw);
+}
@@ -0,0 +1,157 @@
+import { HttpRequestError, LimitExceededRpcError, TimeoutError, fallback, http, type Transport } from "viem";
+import { logger } from "../logger.js";
+
+/**
+ * Multi-endpoint RPC transport with per-endpoint health stats.
+ *
+ * RPC_URL (or BASE_RPC_URL / BASE_SEPOLIA_RPC_URL) may list several
+ * comma-separated endpoints. They are combined with viem's `fallback`
+ * transport: a request that fails at the transport level (HTTP error,
+ * timeout, rate limit) moves on to the next endpoint, and with ranking on,
+ * endpoints are periodically re-ordered by latency and stability. Every
+ * request is recorded per endpoint so operators can see which RPC is flaky.
+ */
+
+export type EndpointHealth = {
+  url: string; // redacted (origin only; paths often carry API keys)
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAtMs: number | null;
+};
+
+export type RpcHealthTracker = {
+  record(url: string, latencyMs: number, err: unknown, now?: number): void;
+  snapshot(): EndpointHealth[];
+};
+
+export type RpcTransportOptions = {
+  rank: boolean;
+  rankIntervalMs: number;
+  tracker?: RpcHealthTracker;
+};
+
+// Weight of the newest sample in the latency moving average.
+const LATENCY_EMA_ALPHA = 0.2;
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Origin only ("https://base-mainnet.g.alchemy.com/…"), so logs and the
+ * status endpoint never leak API keys embedded in the path or query.
+ */
+export function redactRpcUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    const hasSecretParts = (u.pathname !== "/" && u.pathname !== "") || u.search !== "" || u.username !== "";
+    return `${u.protocol}//${u.host}${hasSecretParts ? "/…" : ""}`;
+  } catch {
+    return "<invalid url>";
+  }
+}
+
+// ============================================================================
+// Health Tracking
+// ============================================================================
+
+/**
+ * Errors that say the endpoint itself is unhealthy. Reverts and other JSON-RPC
+ * errors are answers from a working node and count as successes.
+ */
+export function isEndpointFailure(err: unknown): boolean {
+  return err instanceof HttpRequestError || err instanceof TimeoutError || err instanceof LimitExceededRpcError;
+}
+
+export function createRpcHealthTracker(urls: string[]): RpcHealthTracker {
+  const stats = new Map<string, EndpointHealth>(
+    urls.map((url) => [
+      url,
+      {
+        url: redactRpcUrl(url),
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        avgLatencyMs: null,
+        lastLatencyMs: null,
+        lastError: null,
+        lastErrorAtMs: null
+      }
+    ])
+  );
+
+  return {
+    record(url, latencyMs, err, now = Date.now()) {
+      const s = stats.get(url);
+      if (!s) return;
+      s.requests += 1;
+
+      if (err !== null && err !== undefined && isEndpointFailure(err)) {
+        s.failures += 1;
+        s.consecutiveFailures += 1;
+        s.lastError = err instanceof Error ? (err as { shortMessage?: string }).shortMessage ?? err.message : String(err);
+        s.lastErrorAtMs = now;
+        if (s.consecutiveFailures === 1) {
+          logger.warn("rpc.endpoint_failed", { url: s.url, error: s.lastError });
+        }
+        return;
+      }
+
+      if (s.consecutiveFailures > 0) {
+        logger.info("rpc.endpoint_recovered", { url: s.url, afterFailures: s.consecutiveFailures });
+      }
+      s.consecutiveFailures = 0;
+      s.lastLatencyMs = latencyMs;
+      s.avgLatencyMs =
+        s.avgLatencyMs === null ? latencyMs : s.avgLatencyMs * (1 - LATENCY_EMA_ALPHA) + latencyMs * LATENCY_EMA_ALPHA;
+    },
+    snapshot() {
+      return [...stats.values()].map((s) => ({ ...s }));
+    }
+  };
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+/**
+ * http() for a single URL, fallback(http()...) for several. Each endpoint's
+ * requests are timed and recorded in `tracker`.
+ */
+export function createRpcTransport(urls: string[], opts: RpcTransportOptions): Transport {
+  if (urls.length === 0) throw new Error("no RPC URLs configured");
+
+  const transports = urls.map((url) => tracked(url, http(url), opts.tracker));
+  if (transports.length === 1) return transports[0];
+
+  return fallback(transports, {
+    rank: opts.rank ? { interval: opts.rankIntervalMs } : false
+  });
+}
+
+function tracked(url: string, transport: Transport, tracker: RpcHealthTracker | undefined): Transport {
+  if (!tracker) return transport;
+
+  return ((params) => {
+    const inner = transport(params);
+    return {
+      ...inner,
+      request: async (args: Parameters<typeof inner.request>[0], options?: Parameters<typeof inner.request>[1]) => {
+        const started = Date.now();
+        try {
+          const result = await inner.request(args, options);
+          tracker.record(url, Date.now() - started, null);
+          return result;
+        } catch (err) {
+          tracker.record(url, Date.now() - started, err);
+          throw err;
+        }
+      }
+    };
+  }) as Transport;
+}
@@ -0,0 +1,82 @@
+import {
+  isAddressEqual,
+  recoverTransactionAddress,
+  type Address,
+  type Hex,
+  type LocalAccount,
+  type SignableMessage,
+  type TransactionSerializable,
+  type TransactionSerialized,
+  type TypedDataDefinition
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount, toAccount } from "viem/accounts";
+
+/**
+ * Signer abstraction for the agent wallet.
+ *
+ * Every wallet mode (raw private key, encrypted keystore, remote signer,
+ * CDP-managed account, test stand-in) exposes the same three signing
+ * operations. `signerToAccount` adapts a Signer to a viem account, so the
+ * wallet client prepares, signs and broadcasts swaps, approvals, LP and USDC
+ * payments identically regardless of where the key lives.
+ */
+
+export type SignerKind = "private_key" | "keystore" | "remote" | "cdp" | "local";
+
+export type Signer = {
+  kind: SignerKind;
+  address: Address;
+  signTransaction(tx: TransactionSerializable): Promise<Hex>;
+  signMessage(message: SignableMessage): Promise<Hex>;
+  signTypedData(typedData: TypedDataDefinition): Promise<Hex>;
+};
+
+/**
+ * Signer backed by a raw hex private key (with or without 0x prefix).
+ */
+export function createPrivateKeySigner(privateKey: string): Signer {
+  const key = (privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex;
+  return fromLocalAccount("private_key", privateKeyToAccount(key));
+}
+
+/**
+ * In-memory stand-in signer for tests and local runs. Generates a throwaway
+ * key unless one is given.
+ */
+export function createLocalSigner(privateKey: Hex = generatePrivateKey()): Signer {
+  return fromLocalAccount("local", privateKeyToAccount(privateKey));
+}
+
+/**
+ * Adapt a Signer to a viem account for `createWalletClient({ account })`.
+ */
+export function signerToAccount(signer: Signer): LocalAccount {
+  return toAccount({
+    address: signer.address,
+    signMessage: ({ message }) => signer.signMessage(message),
+    signTransaction: (tx) => signer.signTransaction(tx),
+    signTypedData: (typedData) => signer.signTypedData(typedData as TypedDataDefinition)
+  });
+}
+
+/**
+ * Guard for signers whose key we do not hold: the signed tx must recover to
+ * the configured address before the wallet client broadcasts it.
+ */
+export async function assertSignedBy(signedTx: Hex, address: Address, source: string): Promise<Hex> {
+  const signer = await recoverTransactionAddress({ serializedTransaction: signedTx as TransactionSerialized });
+  if (!isAddressEqual(signer, address)) {
+    throw new Error(`${source} signed with ${signer}, expected ${address}`);
+  }
+  return signedTx;
+}
+
+export function fromLocalAccount(kind: SignerKind, account: LocalAccount): Signer {
+  return {
+    kind,
+    address: account.address,
+    signTransaction: (tx) => account.signTransaction(tx),
+    signMessage: (message) => account.signMessage({ message }),
+    signTypedData: (typedData) => account.signTypedData(typedData)
+  };
+}
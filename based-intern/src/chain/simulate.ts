@@ -0,0 +1,152 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  RawContractError,
+  decodeErrorResult,
+  zeroAddress,
+  type Address,
+  type Hex
+} from "viem";
+import { logger } from "../logger.js";
+import type { ChainClients } from "./client.js";
+import type { SwapCalldata } from "./dex/index.js";
+
+/**
+ * Preflight simulation for agent transactions (swaps, approvals, LP).
+ *
+ * Every transaction is dry-run with eth_call from the agent wallet before it
+ * is broadcast. A revert is decoded (Error(string), Panic(uint256) or a custom
+ * error selector) so the decision log and receipt say why, and the caller
+ * turns the trade into a HOLD instead of paying gas for a failed tx.
+ */
+
+export type SimulationResult =
+  | { ok: true; skipped?: string }
+  | { ok: false; reason: string };
+
+export type SimulatableTx = {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+};
+
+const ERC20_APPROVE_ABI = [
+  {
+    type: "function",
+    name: "approve",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" }
+    ],
+    outputs: [{ name: "", type: "bool" }]
+  }
+] as const;
+
+// ============================================================================
+// Revert Decoding
+// ============================================================================
+
+/**
+ * Decode raw revert data. Solidity's Error(string) yields its message,
+ * Panic(uint256) its code, and anything else the 4-byte selector (custom
+ * errors are not in our ABIs).
+ */
+export function decodeRevertData(data: Hex | undefined): string | null {
+  if (!data || data === "0x") return null;
+  try {
+    const decoded = decodeErrorResult({ abi: [], data });
+    if (decoded.errorName === "Error") return String(decoded.args?.[0] ?? "");
+    if (decoded.errorName === "Panic") return `panic 0x${BigInt(decoded.args?.[0] as bigint).toString(16)}`;
+    return decoded.errorName;
+  } catch {
+    return `custom error ${data.slice(0, 10)}`;
+  }
+}
+
+/**
+ * Best-effort human-readable revert reason from a viem call/simulate error.
+ */
+export function decodeRevertReason(err: unknown): string {
+  if (err instanceof BaseError) {
+    const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      if (reverted.reason) return reverted.reason;
+      if (reverted.signature) return `custom error ${reverted.signature}`;
+    }
+
+    const raw = err.walk((e) => e instanceof RawContractError);
+    if (raw instanceof RawContractError) {
+      const data = typeof raw.data === "string" ? raw.data : raw.data?.data;
+      const decoded = decodeRevertData(data);
+      if (decoded) return decoded;
+    }
+    return err.shortMessage || err.message;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Dry-run a raw transaction from the agent wallet via eth_call.
+ * `label` names the tx in logs (e.g. "swap", "approve", "lp_add").
+ */
+export async function simulateTransaction(
+  clients: ChainClients,
+  tx: SimulatableTx,
+  label: string
+): Promise<SimulationResult> {
+  // Read-only clients have no address to simulate from.
+  if (clients.walletAddress === zeroAddress) {
+    logger.info("tx.simulation_skipped", { label, reason: "no wallet address" });
+    return { ok: true, skipped: "no wallet address" };
+  }
+
+  try {
+    await clients.publicClient.call({
+      account: clients.walletAddress,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value
+    });
+    return { ok: true };
+  } catch (err) {
+    const reason = decodeRevertReason(err);
+    logger.warn("tx.simulation_reverted", { label, to: tx.to, reason });
+    return { ok: false, reason };
+  }
+}
+
+export async function simulateSwap(clients: ChainClients, swap: SwapCalldata): Promise<SimulationResult> {
+  return simulateTransaction(clients, { to: swap.to, data: swap.calldata, value: swap.value }, "swap");
+}
+
+export async function simulateApprove(
+  clients: ChainClients,
+  token: Address,
+  spender: Address,
+  amount: bigint
+): Promise<SimulationResult> {
+  if (clients.walletAddress === zeroAddress) {
+    logger.info("tx.simulation_skipped", { label: "approve", reason: "no wallet address" });
+    return { ok: true, skipped: "no wallet address" };
+  }
+
+  try {
+    await clients.publicClient.simulateContract({
+      account: clients.walletAddress,
+      address: token,
+      abi: ERC20_APPROVE_ABI,
+      functionName: "approve",
+      args: [spender, amount]
+    });
+    return { ok: true };
+  } catch (err) {
+    const reason = decodeRevertReason(err);
+    logger.warn("tx.simulation_reverted", { label: "approve", to: token, reason });
+    return { ok: false, reason };
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Rolling time-weighted average price built from the agent's own periodic
+ * pool observations. A single sandwich can move spot for one block; it cannot
+ * move an average over the last TWAP_WINDOW_MINUTES of samples, so guardrails
+ * compare the two before trading.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Address } from "viem";
+import type { AppConfig } from "../config.js";
+import { logger } from "../logger.js";
+import type { ChainClients } from "./client.js";
+import { getDexProviders, type PriceResult, type TwapResult } from "./dex/index.js";
+
+export type { TwapResult } from "./dex/index.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PriceObservation = {
+  atMs: number;
+  source: string; // provider that produced the price (e.g. "aerodrome")
+  priceWei: string; // wei per whole token, stringified for JSON
+  blockNumber: string | null;
+};
+
+// Keep a little history beyond the window so the sample in force at the
+// window start is never pruned.
+const RETENTION_WINDOWS = 2;
+
+// ============================================================================
+// Pure TWAP math
+// ============================================================================
+
+/**
+ * Append an observation, keeping the list ordered and pruned to `retainMs`.
+ * Out-of-order samples (clock skew, replays) are dropped.
+ */
+export function appendObservation(
+  observations: PriceObservation[],
+  obs: PriceObservation,
+  retainMs: number
+): PriceObservation[] {
+  const sameSource = observations.filter((o) => o.source === obs.source);
+  const last = sameSource[sameSource.length - 1];
+  if (last && obs.atMs <= last.atMs) return observations;
+
+  const cutoff = obs.atMs - retainMs;
+  return [...observations.filter((o) => o.atMs >= cutoff), obs];
+}
+
+/**
+ * Time-weighted average over [nowMs - windowMs, nowMs]. Each observation's
+ * price holds until the next one (step function); the sample taken just
+ * before the window start covers the head of the window.
+ *
+ * Returns null when fewer than `minObservations` samples fall inside the
+ * window, i.e. the average would be dominated by a single read.
+ */
+export function computeTwap(
+  observations: PriceObservation[],
+  nowMs: number,
+  windowMs: number,
+  minObservations: number
+): { twapPriceWei: bigint; coveredMs: number; observations: number } | null {
+  const start = nowMs - windowMs;
+  const sorted = observations.filter((o) => o.atMs <= nowMs).sort((a, b) => a.atMs - b.atMs);
+  const inWindow = sorted.filter((o) => o.atMs >= start).length;
+  if (inWindow === 0 || inWindow < minObservations) return null;
+
+  let weighted = 0n;
+  let covered = 0n;
+  for (let i = 0; i < sorted.length; i++) {
+    const from = Math.max(sorted[i].atMs, start);
+    const to = i + 1 < sorted.length ? sorted[i + 1].atMs : nowMs;
+    if (to <= from) continue;
+    const dt = BigInt(to - from);
+    weighted += BigInt(sorted[i].priceWei) * dt;
+    covered += dt;
+  }
+
+  // All samples taken at nowMs: nothing to weight, use the latest.
+  if (covered === 0n) {
+    const latest = sorted[sorted.length - 1];
+    return { twapPriceWei: BigInt(latest.priceWei), coveredMs: 0, observations: inWindow };
+  }
+  return { twapPriceWei: weighted / covered, coveredMs: Number(covered), observations: inWindow };
+}
+
+/**
+ * Absolute distance between spot and TWAP, in bps of TWAP.
+ */
+export function twapDeviationBps(spotPriceWei: bigint, twapPriceWei: bigint): number {
+  if (twapPriceWei <= 0n) return 0;
+  const diff = spotPriceWei > twapPriceWei ? spotPriceWei - twapPriceWei : twapPriceWei - spotPriceWei;
+  return Number((diff * 10_000n) / twapPriceWei);
+}
+
+// ============================================================================
+// Observation store (DATA_DIR/twap-observations.json)
+// ============================================================================
+
+export function twapObservationsPath(cfg: AppConfig): string {
+  return path.join(cfg.DATA_DIR ?? "data", "twap-observations.json");
+}
+
+export async function loadObservations(filePath: string): Promise<PriceObservation[]> {
+  try {
+    const raw = JSON.parse(await readFile(filePath, "utf8"));
+    if (!Array.isArray(raw)) return [];
+    return raw.filter(
+      (o): o is PriceObservation =>
+        typeof o?.atMs === "number" && typeof o?.source === "string" && /^\d+$/.test(String(o?.priceWei))
+    );
+  } catch {
+    return [];
+  }
+}
+
+async function saveObservations(filePath: string, observations: PriceObservation[]): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  await writeFile(tmp, JSON.stringify(observations, null, 2), "utf8");
+  await rename(tmp, filePath);
+}
+
+/**
+ * Persist a price sample for the TWAP. Called once per tick with the price the
+ * tick already read; stale or unstructured prices are skipped so the average
+ * is never fed a value we would not trade on.
+ */
+export async function recordPriceObservation(
+  cfg: AppConfig,
+  price: PriceResult,
+  nowMs: number = Date.now()
+): Promise<boolean> {
+  if (price.text === null || price.stale || price.midPriceWei === undefined || price.midPriceWei <= 0n) {
+    return false;
+  }
+
+  const filePath = twapObservationsPath(cfg);
+  try {
+    const existing = await loadObservations(filePath);
+    const next = appendObservation(
+      existing,
+      {
+        atMs: nowMs,
+        source: price.source,
+        priceWei: price.midPriceWei.toString(),
+        blockNumber: price.blockNumber?.toString() ?? null
+      },
+      cfg.TWAP_WINDOW_MINUTES * 60_000 * RETENTION_WINDOWS
+    );
+    if (next === existing) return false;
+    await saveObservations(filePath, next);
+    return true;
+  } catch (err) {
+    logger.warn("twap.observation_write_failed", { error: err instanceof Error ? err.message : String(err) });
+    return false;
+  }
+}
+
+/**
+ * TWAP for one provider's observations. Shared by DexProvider.getTwap
+ * implementations, which differ only in the source they read.
+ */
+export async function readObservedTwap(
+  cfg: AppConfig,
+  source: string,
+  nowMs: number = Date.now()
+): Promise<TwapResult | null> {
+  const windowMs = cfg.TWAP_WINDOW_MINUTES * 60_000;
+  if (windowMs <= 0) return null;
+
+  const observations = (await loadObservations(twapObservationsPath(cfg))).filter((o) => o.source === source);
+  const twap = computeTwap(observations, nowMs, windowMs, cfg.TWAP_MIN_OBSERVATIONS);
+  return twap ? { source, windowMs, ...twap } : null;
+}
+
+/**
+ * First available TWAP across registered providers (same order as
+ * readBestEffortPrice, so spot and TWAP come from the same venue).
+ */
+export async function readBestEffortTwap(
+  cfg: AppConfig,
+  clients: ChainClients,
+  token: Address,
+  nowMs: number = Date.now()
+): Promise<TwapResult | null> {
+  const wethAddress = (cfg.WETH_ADDRESS ?? "") as Address;
+  for (const p of getDexProviders()) {
+    if (!p.getTwap) continue;
+    try {
+      const twap = await p.getTwap(cfg, clients, token, wethAddress, nowMs);
+      if (twap) return twap;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,317 @@
+/**
+ * Uniswap V3 helpers
+ *
+ * Pool reads (slot0/liquidity), sqrtPriceX96 price math, QuoterV2 quotes and
+ * SwapRouter02 calldata builders. Mirrors the shape of the Aerodrome helpers so
+ * the DEX adapter layer can treat both venues the same way.
+ */
+
+import { encodeFunctionData, type Address } from "viem";
+import type { ChainClients } from "./client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UniswapV3PoolInfo = {
+  poolAddress: Address;
+  token0: Address;
+  token1: Address;
+  fee: number;
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  tick: number;
+};
+
+export type UniswapV3Quote = {
+  amountOut: bigint;
+  gasEstimate: bigint;
+};
+
+export type UniswapV3SwapParams = {
+  tokenIn: Address;
+  tokenOut: Address;
+  fee: number;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Fee tiers enabled on the Uniswap V3 factory (hundredths of a bip). */
+export const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+/** SwapRouter02 sentinel: keep swap output in the router (used before unwrapWETH9). */
+export const ROUTER_ADDRESS_THIS = "0x0000000000000000000000000000000000000002" as Address;
+
+const Q96 = 2n ** 96n;
+const Q192 = 2n ** 192n;
+
+export const UNISWAP_V3_POOL_ABI = [
+  {
+    type: "function",
+    name: "slot0",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "sqrtPriceX96", type: "uint160" },
+      { name: "tick", type: "int24" },
+      { name: "observationIndex", type: "uint16" },
+      { name: "observationCardinality", type: "uint16" },
+      { name: "observationCardinalityNext", type: "uint16" },
+      { name: "feeProtocol", type: "uint8" },
+      { name: "unlocked", type: "bool" }
+    ]
+  },
+  { type: "function", name: "liquidity", stateMutability: "view", inputs: [], outputs: [{ name: "", type: "uint128" }] },
+  { type: "function", name: "token0", stateMutability: "view", inputs: [], outputs: [{ name: "", type: "address" }] },
+  { type: "function", name: "token1", stateMutability: "view", inputs: [], outputs: [{ name: "", type: "address" }] },
+  { type: "function", name: "fee", stateMutability: "view", inputs: [], outputs: [{ name: "", type: "uint24" }] }
+] as const;
+
+export const UNISWAP_V3_QUOTER_V2_ABI = [
+  {
+    type: "function",
+    name: "quoteExactInputSingle",
+    stateMutability: "nonpayable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenIn", type: "address" },
+          { name: "tokenOut", type: "address" },
+          { name: "amountIn", type: "uint256" },
+          { name: "fee", type: "uint24" },
+          { name: "sqrtPriceLimitX96", type: "uint160" }
+        ]
+      }
+    ],
+    outputs: [
+      { name: "amountOut", type: "uint256" },
+      { name: "sqrtPriceX96After", type: "uint160" },
+      { name: "initializedTicksCrossed", type: "uint32" },
+      { name: "gasEstimate", type: "uint256" }
+    ]
+  }
+] as const;
+
+export const UNISWAP_V3_SWAP_ROUTER02_ABI = [
+  {
+    type: "function",
+    name: "exactInputSingle",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tokenIn", type: "address" },
+          { name: "tokenOut", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "recipient", type: "address" },
+          { name: "amountIn", type: "uint256" },
+          { name: "amountOutMinimum", type: "uint256" },
+          { name: "sqrtPriceLimitX96", type: "uint160" }
+        ]
+      }
+    ],
+    outputs: [{ name: "amountOut", type: "uint256" }]
+  },
+  {
+    type: "function",
+    name: "unwrapWETH9",
+    stateMutability: "payable",
+    inputs: [
+      { name: "amountMinimum", type: "uint256" },
+      { name: "recipient", type: "address" }
+    ],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "multicall",
+    stateMutability: "payable",
+    inputs: [
+      { name: "deadline", type: "uint256" },
+      { name: "data", type: "bytes[]" }
+    ],
+    outputs: [{ name: "", type: "bytes[]" }]
+  }
+] as const;
+
+// ============================================================================
+// Pool Reads
+// ============================================================================
+
+export function isUniswapV3FeeTier(fee: number): boolean {
+  return (UNISWAP_V3_FEE_TIERS as readonly number[]).includes(fee);
+}
+
+/**
+ * Read slot0, liquidity and token ordering from a Uniswap V3 pool.
+ * Returns null when the pool cannot be read (wrong address, RPC failure).
+ */
+export async function readUniswapV3Pool(
+  clients: ChainClients,
+  poolAddress: Address
+): Promise<UniswapV3PoolInfo | null> {
+  try {
+    const [slot0, liquidity, token0, token1, fee] = await Promise.all([
+      clients.publicClient.readContract({ address: poolAddress, abi: UNISWAP_V3_POOL_ABI, functionName: "slot0" }),
+      clients.publicClient.readContract({ address: poolAddress, abi: UNISWAP_V3_POOL_ABI, functionName: "liquidity" }),
+      clients.publicClient.readContract({ address: poolAddress, abi: UNISWAP_V3_POOL_ABI, functionName: "token0" }),
+      clients.publicClient.readContract({ address: poolAddress, abi: UNISWAP_V3_POOL_ABI, functionName: "token1" }),
+      clients.publicClient.readContract({ address: poolAddress, abi: UNISWAP_V3_POOL_ABI, functionName: "fee" })
+    ]);
+
+    return {
+      poolAddress,
+      token0,
+      token1,
+      fee: Number(fee),
+      sqrtPriceX96: slot0[0],
+      liquidity,
+      tick: Number(slot0[1])
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Price Math
+// ============================================================================
+
+/**
+ * Price of one whole token (10^tokenDecimals raw units) in WETH wei, derived
+ * from sqrtPriceX96. Uses pure bigint math so tiny meme-token prices keep
+ * their precision.
+ *
+ * sqrtPriceX96^2 / 2^192 is the raw token1-per-token0 ratio.
+ */
+export function priceWeiFromSqrtPriceX96(
+  sqrtPriceX96: bigint,
+  tokenIsToken0: boolean,
+  tokenDecimals: number
+): bigint {
+  if (sqrtPriceX96 <= 0n) return 0n;
+  const ratioX192 = sqrtPriceX96 * sqrtPriceX96;
+  const unit = 10n ** BigInt(tokenDecimals);
+  return tokenIsToken0 ? (ratioX192 * unit) / Q192 : (Q192 * unit) / ratioX192;
+}
+
+/**
+ * Spot-price output estimate for an exact-input swap, net of the pool fee.
+ * Ignores tick crossings, so it overestimates output for large trades; only
+ * used when no QuoterV2 is configured.
+ */
+export function estimateUniswapV3Output(
+  amountIn: bigint,
+  sqrtPriceX96: bigint,
+  zeroForOne: boolean,
+  fee: number
+): bigint {
+  if (amountIn <= 0n || sqrtPriceX96 <= 0n) return 0n;
+  const amountInAfterFee = (amountIn * BigInt(1_000_000 - fee)) / 1_000_000n;
+  const ratioX192 = sqrtPriceX96 * sqrtPriceX96;
+  return zeroForOne ? (amountInAfterFee * ratioX192) / Q192 : (amountInAfterFee * Q192) / ratioX192;
+}
+
+/**
+ * Virtual x*y=k reserves equivalent to the in-range liquidity at the current
+ * price: reserve0 = L / sqrtP, reserve1 = L * sqrtP. Only valid while a trade
+ * stays inside the current tick range, which is what depth guardrails assume.
+ */
+export function virtualReservesFromLiquidity(
+  liquidity: bigint,
+  sqrtPriceX96: bigint
+): { reserve0: bigint; reserve1: bigint } {
+  if (liquidity <= 0n || sqrtPriceX96 <= 0n) return { reserve0: 0n, reserve1: 0n };
+  return {
+    reserve0: (liquidity * Q96) / sqrtPriceX96,
+    reserve1: (liquidity * sqrtPriceX96) / Q96
+  };
+}
+
+/**
+ * Exact-input quote via QuoterV2. The quoter is non-view (it reverts
+ * internally), so it has to be called through simulateContract.
+ */
+export async function quoteUniswapV3ExactInputSingle(
+  clients: ChainClients,
+  quoterAddress: Address,
+  tokenIn: Address,
+  tokenOut: Address,
+  fee: number,
+  amountIn: bigint
+): Promise<UniswapV3Quote | null> {
+  try {
+    const { result } = await clients.publicClient.simulateContract({
+      address: quoterAddress,
+      abi: UNISWAP_V3_QUOTER_V2_ABI,
+      functionName: "quoteExactInputSingle",
+      args: [{ tokenIn, tokenOut, amountIn, fee, sqrtPriceLimitX96: 0n }]
+    });
+    return { amountOut: result[0], gasEstimate: result[3] };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Calldata Builders
+// ============================================================================
+
+/**
+ * Build SwapRouter02 calldata for an exact-input single-pool swap.
+ *
+ * SwapRouter02's exactInputSingle has no deadline, so the swap is wrapped in
+ * multicall(deadline, ...). When `unwrapTo` is set, output WETH is held by the
+ * router and unwrapped to native ETH for that recipient (the SELL path).
+ */
+export function buildUniswapV3SwapCalldata(
+  params: UniswapV3SwapParams,
+  recipient: Address,
+  deadlineSeconds: number,
+  unwrapTo?: Address
+): { calldata: `0x${string}`; deadline: bigint } {
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineSeconds);
+
+  const swap = encodeFunctionData({
+    abi: UNISWAP_V3_SWAP_ROUTER02_ABI,
+    functionName: "exactInputSingle",
+    args: [
+      {
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        fee: params.fee,
+        recipient: unwrapTo ? ROUTER_ADDRESS_THIS : recipient,
+        amountIn: params.amountIn,
+        amountOutMinimum: params.amountOutMinimum,
+        sqrtPriceLimitX96: 0n
+      }
+    ]
+  });
+
+  const calls: `0x${string}`[] = [swap];
+  if (unwrapTo) {
+    calls.push(
+      encodeFunctionData({
+        abi: UNISWAP_V3_SWAP_ROUTER02_ABI,
+        functionName: "unwrapWETH9",
+        args: [params.amountOutMinimum, unwrapTo]
+      })
+    );
+  }
+
+  const calldata = encodeFunctionData({
+    abi: UNISWAP_V3_SWAP_ROUTER02_ABI,
+    functionName: "multicall",
+    args: [deadline, calls]
+  });
+
+  return { calldata, deadline };
+}
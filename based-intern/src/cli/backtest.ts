@@ -0,0 +1,93 @@
+import { readFile } from "node:fs/promises";
+import { formatEther, parseEther, parseUnits } from "viem";
+import { loadConfig } from "../config.js";
+import { logger } from "../logger.js";
+import { backtestConfig, backtestResultToJson, parseBacktestData, runBacktest } from "../agent/backtest.js";
+import { getStrategy } from "../agent/strategy.js";
+
+// Replay recorded pool data through a strategy + the guardrails. Offline: no
+// RPC calls, no transactions, no LLM calls ("llm" runs the brain's
+// deterministic fallback).
+
+type Args = { file: string; strategy?: string; eth: string; intern: string; feeBps: number; verbose: boolean };
+
+function usage(): string {
+  return [
+    "Usage:",
+    "  tsx src/cli/backtest.ts <data.json|data.csv> [--strategy <name>] [--eth <amount>] [--intern <amount>]",
+    "                          [--fee-bps <bps>] [--verbose]",
+    "",
+    "Defaults: --strategy $STRATEGY_MODE, --eth 1, --intern 0, --fee-bps 30"
+  ].join("\n");
+}
+
+function parseArgs(argv: string[]): Args | null {
+  const [, , file, ...rest] = argv;
+  if (!file || file === "help" || file === "--help" || file === "-h") return null;
+
+  const out: Args = { file, eth: "1", intern: "0", feeBps: 30, verbose: false };
+  for (let i = 0; i < rest.length; i++) {
+    const a = rest[i];
+    const next = () => {
+      const v = rest[++i];
+      if (!v) throw new Error(`${a} needs a value`);
+      return v;
+    };
+    if (a === "--strategy") out.strategy = next();
+    else if (a === "--eth") out.eth = next();
+    else if (a === "--intern") out.intern = next();
+    else if (a === "--fee-bps") out.feeBps = parseInt(next(), 10);
+    else if (a === "--verbose") out.verbose = true;
+    else throw new Error(`unknown option: ${a}`);
+  }
+  return out;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv);
+  if (!args) {
+    console.log(usage());
+    return;
+  }
+
+  const cfg = backtestConfig(loadConfig());
+  const name = args.strategy ?? cfg.STRATEGY_MODE;
+  const strategy = getStrategy(name);
+  if (!strategy) throw new Error(`unknown strategy: ${name}`);
+
+  const decimals = cfg.TOKEN_DECIMALS ?? 18;
+  const samples = parseBacktestData(await readFile(args.file, "utf8"), decimals);
+  const result = await runBacktest(cfg, samples, {
+    strategy,
+    startEthWei: parseEther(args.eth),
+    startTokenAmount: parseUnits(args.intern, decimals),
+    swapFeeBps: args.feeBps
+  });
+
+  for (const t of result.trades) {
+    logger.info("backtest.trade", {
+      at: new Date(t.atMs).toISOString(),
+      side: t.side,
+      eth: formatEther(t.ethWei),
+      tokenAmount: t.tokenAmount.toString(),
+      priceWei: t.priceWei.toString(),
+      rationale: t.rationale
+    });
+  }
+  if (args.verbose) {
+    for (const h of result.holds) {
+      logger.info("backtest.hold", {
+        at: new Date(h.atMs).toISOString(),
+        proposed: h.proposed,
+        blockedReason: h.blockedReason,
+        rationale: h.rationale
+      });
+    }
+  }
+  logger.info("backtest.summary", { strategy: name, file: args.file, ...backtestResultToJson(result) });
+}
+
+main().catch((err) => {
+  logger.error("backtest.cli failed", { error: err instanceof Error ? err.message : String(err) });
+  process.exit(1);
+});
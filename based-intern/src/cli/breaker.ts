@@ -0,0 +1,46 @@
+import { logger } from "../logger.js";
+import { loadState, saveState } from "../agent/state.js";
+import { computePnl, isDrawdownBreakerTripped, pnlToJson, resetDrawdownBreaker } from "../agent/pnl.js";
+
+// Operator commands for the drawdown circuit breaker. Run while the agent is
+// stopped (or between ticks) so the reset is not overwritten by a tick's save.
+
+async function cmdStatus(): Promise<void> {
+  const state = await loadState();
+  logger.info("breaker.status", {
+    tripped: isDrawdownBreakerTripped(state),
+    trippedAtMs: state.drawdownBreakerTrippedAtMs ?? null,
+    reason: state.drawdownBreakerReason ?? null,
+    equityHighWaterMarkWei: state.equityHighWaterMarkWei ?? null,
+    pnl: pnlToJson(computePnl(state, null))
+  });
+}
+
+async function cmdReset(): Promise<void> {
+  const state = await loadState();
+  if (!isDrawdownBreakerTripped(state)) {
+    logger.info("breaker.reset skipped (not tripped)");
+    return;
+  }
+  await saveState(resetDrawdownBreaker(state));
+  logger.info("breaker.reset", { previousReason: state.drawdownBreakerReason ?? null });
+}
+
+async function main(): Promise<void> {
+  const [, , command] = process.argv;
+
+  if (!command || command === "help" || command === "--help" || command === "-h") {
+    console.log(["Usage:", "  tsx src/cli/breaker.ts status", "  tsx src/cli/breaker.ts reset"].join("\n"));
+    return;
+  }
+
+  if (command === "status") return await cmdStatus();
+  if (command === "reset") return await cmdReset();
+
+  throw new Error(`unknown command: ${command}`);
+}
+
+main().catch((err) => {
+  logger.error("breaker.cli failed", { error: err instanceof Error ? err.message : String(err) });
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+import { logger } from "../logger.js";
+import { loadConfig } from "../config.js";
+import { createCdpHttpApi } from "../chain/cdp.js";
+
+// Operator commands for WALLET_MODE=cdp. `account` looks up (or creates) the
+// CDP EVM account named CDP_ACCOUNT_NAME; set the printed address as
+// CDP_ACCOUNT_ADDRESS and fund it before enabling trading.
+
+async function cmdAccount(): Promise<void> {
+  const cfg = loadConfig();
+  if (cfg.WALLET_MODE !== "cdp") throw new Error("WALLET_MODE must be cdp");
+
+  const api = createCdpHttpApi({
+    apiKeyName: cfg.CDP_API_KEY_NAME ?? "",
+    apiKeyPrivateKey: cfg.CDP_API_KEY_PRIVATE_KEY ?? "",
+    walletSecret: cfg.CDP_WALLET_SECRET ?? ""
+  });
+  const address = await api.getOrCreateAccount(cfg.CDP_ACCOUNT_NAME);
+  logger.info("cdp.account", {
+    name: cfg.CDP_ACCOUNT_NAME,
+    address,
+    configured: cfg.CDP_ACCOUNT_ADDRESS?.toLowerCase() === address.toLowerCase()
+  });
+}
+
+async function main(): Promise<void> {
+  const [, , command] = process.argv;
+
+  if (!command || command === "help" || command === "--help" || command === "-h") {
+    console.log(["Usage:", "  tsx src/cli/cdp.ts account"].join("\n"));
+    return;
+  }
+
+  if (command === "account") return await cmdAccount();
+
+  throw new Error(`unknown command: ${command}`);
+}
+
+main().catch((err) => {
+  logger.error("cdp.cli failed", { error: err instanceof Error ? err.message : String(err) });
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import type { Hex } from "viem";
+import { generatePrivateKey } from "viem/accounts";
+import { logger } from "../logger.js";
+import { encryptKeystore } from "../chain/keystore.js";
+
+// Operator commands for WALLET_MODE=keystore. `create <file>` encrypts
+// PRIVATE_KEY (or a fresh key when unset) with KEYSTORE_PASSWORD_FILE /
+// KEYSTORE_PASSWORD. Reads env directly: loadConfig() would demand the
+// keystore this command is about to create.
+
+async function cmdCreate(outPath: string | undefined): Promise<void> {
+  if (!outPath) throw new Error("usage: keystore create <file>");
+  if (existsSync(outPath)) throw new Error(`refusing to overwrite ${outPath}`);
+
+  const passwordFile = process.env.KEYSTORE_PASSWORD_FILE;
+  const password = passwordFile
+    ? readFileSync(passwordFile, "utf8").replace(/\r?\n$/, "")
+    : process.env.KEYSTORE_PASSWORD;
+  if (!password) throw new Error("set KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD");
+
+  const raw = process.env.PRIVATE_KEY;
+  const privateKey = raw ? ((raw.startsWith("0x") ? raw : `0x${raw}`) as Hex) : generatePrivateKey();
+
+  const keystore = encryptKeystore(privateKey, password);
+  writeFileSync(outPath, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+  logger.info("keystore.created", { path: outPath, address: `0x${keystore.address}`, generated: !raw });
+}
+
+async function main(): Promise<void> {
+  const [, , command, arg] = process.argv;
+
+  if (!command || command === "help" || command === "--help" || command === "-h") {
+    console.log(["Usage:", "  tsx src/cli/keystore.ts create <file>"].join("\n"));
+    return;
+  }
+
+  if (command === "create") return await cmdCreate(arg);
+
+  throw new Error(`unknown command: ${command}`);
+}
+
+main().catch((err) => {
+  logger.error("keystore.cli failed", { error: err instanceof Error ? err.message : String(err) });
+  process.exit(1);
+});
@@ -5,30 +5,65 @@
  * All environment variables are parsed and validated here.
  */
 
-import { type Address } from "viem";
+import { parseUnits, type Address } from "viem";
+import { getStrategies, getStrategy } from "./agent/strategy.js";
+import { isUniswapV3FeeTier, UNISWAP_V3_FEE_TIERS } from "./chain/uniswapV3.js";
+import { nextCronTime, parseCron } from "./utils.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export type ChainKey = "base" | "base-sepolia";
-export type WalletMode = "private_key" | "cdp";
+export type WalletMode = "private_key" | "keystore" | "remote" | "cdp";
 export type SocialMode = "none" | "single" | "multi" | "auto";
 export type RouterType = "unknown" | "aerodrome" | "uniswap_v3";
+export type PriorityFeeStrategy = "fixed" | "percentile";
+export type ReplacementMode = "speed_up" | "cancel";
 export type AuthMode = "bearer" | "cookie";
 
+export type StrategyMode = string; // name of a registered strategy (src/agent/strategy.ts)
+export type DcaAsset = "ETH" | "USDC";
+
+export type RebalanceTargetConfig = {
+  asset: string; // "ETH" (native) or a token symbol
+  targetBps: number;
+  bandBps: number; // drift allowed either side before trading
+};
+
+export type PortfolioTokenConfig = {
+  symbol: string; // upper-case, unique
+  address: `0x${string}`;
+  decimals: number;
+  pool?: `0x${string}`; // Aerodrome pool against WETH (unset for WETH itself)
+  poolStable: boolean;
+  maxEthPerTrade: string; // "0" => MAX_SPEND_ETH_PER_TRADE only
+  maxWeightBps: number; // 0 => no cap on the token's share of portfolio value
+};
+
 export interface AppConfig {
-  // Chain settings
+  // Chain settings (RPC URLs may be comma-separated for failover)
   CHAIN: ChainKey;
   RPC_URL?: string;
   BASE_RPC_URL?: string;
   BASE_SEPOLIA_RPC_URL?: string;
+  RPC_FALLBACK_RANK: boolean; // re-order multiple RPCs by latency/stability
+  RPC_RANK_INTERVAL_MS: number;
 
   // Wallet settings
   WALLET_MODE: WalletMode;
   PRIVATE_KEY?: string;
   CDP_API_KEY_NAME?: string;
   CDP_API_KEY_PRIVATE_KEY?: string;
+  CDP_WALLET_SECRET?: string; // signs the X-Wallet-Auth header for CDP sign requests
+  CDP_ACCOUNT_NAME: string; // CDP EVM account name used by `npm run cdp:account`
+  CDP_ACCOUNT_ADDRESS?: string; // CDP EVM account the agent signs with
+  KEYSTORE_PATH?: string; // V3 JSON keystore file (WALLET_MODE=keystore)
+  KEYSTORE_PASSWORD?: string;
+  KEYSTORE_PASSWORD_FILE?: string; // preferred over KEYSTORE_PASSWORD (e.g. a mounted secret)
+  REMOTE_SIGNER_URL?: string; // JSON-RPC signer (WALLET_MODE=remote)
+  REMOTE_SIGNER_ADDRESS?: string;
+  REMOTE_SIGNER_TOKEN?: string; // optional Bearer token
 
   // Trading settings
   TRADING_ENABLED: boolean;
@@ -40,6 +75,30 @@ export interface AppConfig {
   MAX_SPEND_ETH_PER_TRADE: string;
   SELL_FRACTION_BPS: number;
   SLIPPAGE_BPS: number;
+  MAX_PRICE_IMPACT_BPS: number; // 0 disables the price-impact guardrail
+  MIN_POOL_TVL_ETH: string; // "0" disables the liquidity floor
+  // Rolling ETH notional budgets ("0" disables each)
+  MAX_BUY_ETH_24H: string;
+  MAX_SELL_ETH_24H: string;
+  MAX_NET_ETH_24H: string;
+  MAX_BUY_ETH_7D: string;
+  MAX_SELL_ETH_7D: string;
+  MAX_NET_ETH_7D: string;
+  MAX_DRAWDOWN_PCT: number; // 0 disables the drawdown circuit breaker
+
+  // Fee strategy (EIP-1559)
+  MAX_FEE_PER_GAS_GWEI: string; // "0" => no ceiling
+  PRIORITY_FEE_STRATEGY: PriorityFeeStrategy;
+  PRIORITY_FEE_GWEI: string;
+  PRIORITY_FEE_PERCENTILE: number;
+  MAX_L1_FEE_ETH: string; // "0" => no L1 data fee ceiling
+  MAX_GAS_COST_BPS: number; // 0 => no cap on gas cost relative to trade size
+
+  // Nonce manager / stuck transactions
+  TX_STUCK_AFTER_BLOCKS: number;
+  TX_REPLACEMENT_MODE: ReplacementMode;
+  TX_FEE_BUMP_BPS: number;
+  TX_MAX_REPLACEMENTS: number; // speed-ups before a stuck tx is cancelled
   APPROVE_MAX: boolean;
   APPROVE_CONFIRMATIONS: number;
 
@@ -49,6 +108,16 @@ export interface AppConfig {
   WETH_ADDRESS?: string;
   POOL_ADDRESS?: string;
   AERODROME_STABLE: boolean;
+  AERODROME_POOL_ADDRESS?: string;
+  AERODROME_ROUTER_ADDRESS?: string;
+  UNISWAP_V3_POOL_ADDRESS?: string;
+  UNISWAP_V3_ROUTER_ADDRESS?: string;
+  UNISWAP_V3_QUOTER_ADDRESS?: string;
+  UNISWAP_V3_FEE: number;
+  PRICE_MAX_AGE_SECONDS: number;
+  TWAP_WINDOW_MINUTES: number;
+  TWAP_MIN_OBSERVATIONS: number;
+  TWAP_MAX_DEVIATION_BPS: number; // 0 disables the spot-vs-TWAP guardrail
 
   // Token settings
   TOKEN_ADDRESS?: string;
@@ -60,12 +129,51 @@ export interface AppConfig {
   LP_MAX_ETH_PER_ADD?: string;
   LP_MAX_TOKEN_FRACTION_BPS?: number;
   LP_SLIPPAGE_BPS?: number;
+  LP_MIN_INTERVAL_MINUTES?: number; // min time between LP adds/removes per pool
+  LP_AUTO_STAKE?: boolean; // stake LP tokens into GAUGE_ADDRESS_* when configured
   USDC_ADDRESS?: string;
   POOL_ADDRESS_USDC?: string;
   POOL_ADDRESS_USDC_STABLE?: boolean;
   GAUGE_ADDRESS_WETH?: string;
   GAUGE_ADDRESS_USDC?: string;
 
+  // Gauge reward harvester
+  HARVEST_ENABLED?: boolean;
+  HARVEST_INTERVAL_MINUTES?: number; // min time between claims
+  HARVEST_MIN_GAS_MULTIPLE?: number; // claim once rewards are worth this many times the claim gas
+  HARVEST_COMPOUND?: boolean; // swap claimed AERO to ETH, buy INTERN with half and re-add LP
+  AERO_ADDRESS?: string;
+  AERO_POOL_ADDRESS?: string; // AERO/WETH volatile pool used to value and sell AERO
+
+  // Whale watcher (token-wide INTERN transfers and pool swaps)
+  WHALE_WATCH_ENABLED: boolean;
+  WHALE_MIN_TOKENS: string; // whole tokens; smaller moves are ignored unless watchlisted
+  WHALE_WATCHLIST: string; // comma-separated addresses flagged at any size
+  WHALE_POST_ENABLED: boolean; // post flagged moves as SocialPostKind "whale"
+
+  // Portfolio (empty => single-token INTERN mode)
+  PORTFOLIO_TOKENS: PortfolioTokenConfig[]; // INTERN first when TOKEN_ADDRESS is set
+  AERODROME_FACTORY_ADDRESS: string; // pool factory used in multi-hop router routes
+
+  // Strategy ("rebalance" replaces LLM proposals with target-weight trades)
+  STRATEGY_MODE: StrategyMode; // live strategy
+  STRATEGY_SHADOW: StrategyMode[]; // run and logged each tick, never executed
+  REBALANCE_TARGETS: RebalanceTargetConfig[]; // weights sum to 10000 bps
+  REBALANCE_BAND_BPS: number; // default drift band for targets without their own
+  REBALANCE_MIN_TRADE_ETH: string; // smaller corrections are skipped
+
+  // DCA (scheduled fixed-size INTERN buys)
+  DCA_ENABLED: boolean;
+  DCA_SCHEDULE: string; // 5-field cron, UTC (e.g. "0 14 * * *" = daily 14:00)
+  DCA_ASSET: DcaAsset; // USDC installments need USDC in PORTFOLIO_TOKENS
+  DCA_AMOUNT: string; // per installment, in DCA_ASSET units
+  DCA_MAX_TOTAL: string; // lifetime DCA spend cap in DCA_ASSET units; "0" => no cap
+  DCA_MAX_PRICE_IMPACT_BPS: number; // skip the installment above this impact; 0 disables
+
+  // Conditional orders (limit / take-profit / stop-loss / trailing stop)
+  ORDERS_ENABLED: boolean;
+  ORDERS_MAX_OPEN: number; // cap on open orders in the book
+
   // Social settings
   SOCIAL_MODE: SocialMode;
   SOCIAL_MULTI_TARGETS: string;
@@ -110,6 +218,9 @@ export interface AppConfig {
   DATA_DIR?: string;
 }
 
+// AERO on Base
+const DEFAULT_AERO_ADDRESS = "0x940181a94A35A4569E4529A3CDfB74e38FD98631";
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
@@ -142,6 +253,15 @@ function isAddress(value: string): value is `0x${string}` {
   return /^0x[a-fA-F0-9]{40}$/.test(value);
 }
 
+// Amounts are parsed with parseUnits at runtime, which rejects forms parseFloat accepts ("1e6", "1 ETH").
+function parseUnitsOrNull(value: string, decimals: number): bigint | null {
+  try {
+    return parseUnits(value, decimals);
+  } catch {
+    return null;
+  }
+}
+
 // ============================================================================
 // Config Loading
 // ============================================================================
@@ -168,6 +288,41 @@ export function loadConfig(): AppConfig {
     }
   }
 
+  if (walletMode === "cdp") {
+    for (const key of ["CDP_API_KEY_NAME", "CDP_API_KEY_PRIVATE_KEY", "CDP_WALLET_SECRET"]) {
+      if (!getEnv(key)) {
+        throw new Error(`${key} is required when WALLET_MODE=cdp`);
+      }
+    }
+    const cdpAddress = getEnv("CDP_ACCOUNT_ADDRESS");
+    if (cdpAddress && !isAddress(cdpAddress)) {
+      throw new Error("CDP_ACCOUNT_ADDRESS must be a valid Ethereum address");
+    }
+  }
+
+  if (walletMode === "keystore") {
+    if (!getEnv("KEYSTORE_PATH")) {
+      throw new Error("KEYSTORE_PATH is required when WALLET_MODE=keystore");
+    }
+    if (!getEnv("KEYSTORE_PASSWORD_FILE") && !getEnv("KEYSTORE_PASSWORD")) {
+      throw new Error("KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD is required when WALLET_MODE=keystore");
+    }
+  }
+
+  if (walletMode === "remote") {
+    if (!getEnv("REMOTE_SIGNER_URL")) {
+      throw new Error("REMOTE_SIGNER_URL is required when WALLET_MODE=remote");
+    }
+    const remoteAddress = getEnv("REMOTE_SIGNER_ADDRESS");
+    if (!remoteAddress || !isAddress(remoteAddress)) {
+      throw new Error("REMOTE_SIGNER_ADDRESS must be a valid Ethereum address when WALLET_MODE=remote");
+    }
+  }
+
+  if (!["private_key", "keystore", "remote", "cdp"].includes(walletMode)) {
+    throw new Error("WALLET_MODE must be one of private_key, keystore, remote, cdp");
+  }
+
   // Trading configuration
   const tradingEnabled = parseBool(getEnv("TRADING_ENABLED"), false);
   const dryRun = parseBool(getEnv("DRY_RUN"), false);
@@ -212,6 +367,16 @@ export function loadConfig(): AppConfig {
       }
     }
 
+    if (routerType === "uniswap_v3") {
+      const poolAddress = getEnv("UNISWAP_V3_POOL_ADDRESS") || getEnv("POOL_ADDRESS");
+      if (!poolAddress) {
+        throw new Error("UNISWAP_V3_POOL_ADDRESS (or POOL_ADDRESS) is required when ROUTER_TYPE=uniswap_v3");
+      }
+      if (!isAddress(poolAddress)) {
+        throw new Error("UNISWAP_V3_POOL_ADDRESS must be a valid Ethereum address");
+      }
+    }
+
     const dailyTradeCap = parseIntEnv(getEnv("DAILY_TRADE_CAP"), 2);
     if (dailyTradeCap <= 0) {
       throw new Error("DAILY_TRADE_CAP must be > 0");
@@ -222,6 +387,212 @@ export function loadConfig(): AppConfig {
     if (isNaN(maxSpendNum) || maxSpendNum <= 0) {
       throw new Error("MAX_SPEND_ETH_PER_TRADE must be a valid decimal > 0");
     }
+
+    const feeStrategy = getEnv("PRIORITY_FEE_STRATEGY", "fixed");
+    if (feeStrategy !== "fixed" && feeStrategy !== "percentile") {
+      throw new Error("PRIORITY_FEE_STRATEGY must be 'fixed' or 'percentile'");
+    }
+    const feePercentile = parseIntEnv(getEnv("PRIORITY_FEE_PERCENTILE"), 50);
+    if (feePercentile < 1 || feePercentile > 99) {
+      throw new Error("PRIORITY_FEE_PERCENTILE must be between 1 and 99");
+    }
+
+    const replacementMode = getEnv("TX_REPLACEMENT_MODE", "speed_up");
+    if (replacementMode !== "speed_up" && replacementMode !== "cancel") {
+      throw new Error("TX_REPLACEMENT_MODE must be 'speed_up' or 'cancel'");
+    }
+    if (parseIntEnv(getEnv("TX_STUCK_AFTER_BLOCKS"), 30) <= 0) {
+      throw new Error("TX_STUCK_AFTER_BLOCKS must be > 0");
+    }
+  }
+
+  // Dedicated venue settings (validated whenever set: the adapters quote them under any ROUTER_TYPE)
+  for (const key of [
+    "AERODROME_POOL_ADDRESS",
+    "AERODROME_ROUTER_ADDRESS",
+    "UNISWAP_V3_POOL_ADDRESS",
+    "UNISWAP_V3_ROUTER_ADDRESS",
+    "UNISWAP_V3_QUOTER_ADDRESS"
+  ]) {
+    const address = getEnv(key);
+    if (address && !isAddress(address)) {
+      throw new Error(`${key} must be a valid Ethereum address`);
+    }
+  }
+  if (!isUniswapV3FeeTier(parseIntEnv(getEnv("UNISWAP_V3_FEE"), 3000))) {
+    throw new Error(`UNISWAP_V3_FEE must be one of ${UNISWAP_V3_FEE_TIERS.join(", ")}`);
+  }
+
+  // Rolling ETH notional budgets (validated even with trading off: a value
+  // parseEther rejects would otherwise read as 0 and disable the budget)
+  for (const key of [
+    "MAX_BUY_ETH_24H",
+    "MAX_SELL_ETH_24H",
+    "MAX_NET_ETH_24H",
+    "MAX_BUY_ETH_7D",
+    "MAX_SELL_ETH_7D",
+    "MAX_NET_ETH_7D"
+  ]) {
+    const v = parseUnitsOrNull(getEnv(key) || "0", 18);
+    if (v === null || v < 0n) {
+      throw new Error(`${key} must be a plain decimal >= 0 (e.g. 0.5, not 5e-1)`);
+    }
+  }
+
+  // Liquidity floor (read with parseEther at runtime, where a bad value would disable it)
+  const minTvl = parseUnitsOrNull(getEnv("MIN_POOL_TVL_ETH") || "0", 18);
+  if (minTvl === null || minTvl < 0n) {
+    throw new Error("MIN_POOL_TVL_ETH must be a plain decimal >= 0 (e.g. 10, not 1e1)");
+  }
+
+  // Fee ceilings (fees.ts reads a value parseGwei/parseEther rejects as 0, i.e. no ceiling)
+  for (const [key, fallback, decimals] of [
+    ["MAX_FEE_PER_GAS_GWEI", "0", 9],
+    ["PRIORITY_FEE_GWEI", "0.001", 9],
+    ["MAX_L1_FEE_ETH", "0", 18]
+  ] as const) {
+    const v = parseUnitsOrNull(getEnv(key) || fallback, decimals);
+    if (v === null || v < 0n) {
+      throw new Error(`${key} must be a plain decimal >= 0 (e.g. 0.1, not 0.1gwei or 1e-1)`);
+    }
+  }
+
+  // Drawdown breaker (a limit above 100% could never trip)
+  const maxDrawdownPct = parseIntEnv(getEnv("MAX_DRAWDOWN_PCT"), 0);
+  if (maxDrawdownPct < 0 || maxDrawdownPct > 100) {
+    throw new Error("MAX_DRAWDOWN_PCT must be between 0 and 100");
+  }
+
+  // TWAP configuration (one observation per tick, so the window must span enough ticks)
+  const loopMinutes = parseIntEnv(getEnv("LOOP_MINUTES"), 30);
+  const twapMinObservations = parseIntEnv(getEnv("TWAP_MIN_OBSERVATIONS"), 3);
+  const twapWindowMinutes = parseIntEnv(getEnv("TWAP_WINDOW_MINUTES"), twapMinObservations * loopMinutes);
+  const twapMaxDeviationBps = parseIntEnv(getEnv("TWAP_MAX_DEVIATION_BPS"), 0);
+  if (twapMaxDeviationBps > 0 && twapWindowMinutes < twapMinObservations * loopMinutes) {
+    throw new Error(
+      `TWAP_WINDOW_MINUTES (${twapWindowMinutes}) must be >= TWAP_MIN_OBSERVATIONS x LOOP_MINUTES ` +
+        `(${twapMinObservations * loopMinutes}) when TWAP_MAX_DEVIATION_BPS > 0`
+    );
+  }
+
+  // Whale watcher configuration
+  if (parseBool(getEnv("WHALE_WATCH_ENABLED"), false)) {
+    if (!getEnv("TOKEN_ADDRESS")) {
+      throw new Error("TOKEN_ADDRESS is required when WHALE_WATCH_ENABLED=true");
+    }
+    const decimals = parseIntEnv(getEnv("TOKEN_DECIMALS"), 18);
+    const minTokens = parseUnitsOrNull(getEnv("WHALE_MIN_TOKENS") || "1000000", decimals);
+    if (minTokens === null || minTokens <= 0n) {
+      throw new Error("WHALE_MIN_TOKENS must be a plain decimal > 0 (e.g. 1000000, not 1e6)");
+    }
+    for (const addr of (getEnv("WHALE_WATCHLIST") || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+      if (!isAddress(addr)) {
+        throw new Error(`WHALE_WATCHLIST entry is not a valid Ethereum address: ${addr}`);
+      }
+    }
+  }
+
+  // Portfolio configuration (parsing validates entries)
+  const portfolioTokens = parsePortfolioTokens();
+
+  // Strategy configuration
+  const strategyMode = getEnv("STRATEGY_MODE", "llm")!.trim();
+  const strategyShadow = (getEnv("STRATEGY_SHADOW") || "")
+    .split(",")
+    .map((n) => n.trim())
+    .filter(Boolean);
+  for (const name of [strategyMode, ...strategyShadow]) {
+    if (!getStrategy(name)) {
+      const registered = getStrategies().map((s) => s.name).join(", ");
+      throw new Error(`unknown strategy "${name}" in STRATEGY_MODE/STRATEGY_SHADOW (registered: ${registered})`);
+    }
+  }
+  const rebalanceTargets = parseRebalanceTargets(parseIntEnv(getEnv("REBALANCE_BAND_BPS"), 500));
+  if ((strategyMode === "rebalance" || strategyShadow.includes("rebalance")) && rebalanceTargets.length < 2) {
+    throw new Error("STRATEGY_MODE=rebalance requires REBALANCE_TARGETS with at least two assets");
+  }
+  const minRebalanceEth = parseUnitsOrNull(getEnv("REBALANCE_MIN_TRADE_ETH") || "0.0001", 18);
+  if (minRebalanceEth === null || minRebalanceEth < 0n) {
+    throw new Error("REBALANCE_MIN_TRADE_ETH must be a plain decimal >= 0 (e.g. 0.0001, not 1e-4)");
+  }
+
+  // DCA configuration
+  if (parseBool(getEnv("DCA_ENABLED"), false)) {
+    const dcaSchedule = getEnv("DCA_SCHEDULE") || "0 14 * * *";
+    if (!nextCronTime(parseCron(dcaSchedule), new Date())) {
+      throw new Error(`DCA_SCHEDULE never fires: "${dcaSchedule}"`);
+    }
+    const dcaAsset = getEnv("DCA_ASSET", "ETH");
+    if (dcaAsset !== "ETH" && dcaAsset !== "USDC") {
+      throw new Error("DCA_ASSET must be 'ETH' or 'USDC'");
+    }
+    const dcaDecimals = dcaAsset === "ETH" ? 18 : portfolioTokens.find((t) => t.symbol === "USDC")?.decimals ?? 6;
+    const dcaAmount = parseUnitsOrNull(getEnv("DCA_AMOUNT") || "0.0005", dcaDecimals);
+    if (dcaAmount === null || dcaAmount <= 0n) {
+      throw new Error(`DCA_AMOUNT must be a plain decimal > 0 in ${dcaAsset} units (e.g. 0.0005, not 5e-4)`);
+    }
+    const dcaMaxTotal = parseUnitsOrNull(getEnv("DCA_MAX_TOTAL") || "0", dcaDecimals);
+    if (dcaMaxTotal === null || dcaMaxTotal < 0n) {
+      throw new Error("DCA_MAX_TOTAL must be a plain decimal >= 0 (e.g. 0.05, not 5e-2)");
+    }
+    if (dcaAsset === "USDC" && !portfolioTokens.some((t) => t.symbol === "USDC")) {
+      throw new Error("DCA_ASSET=USDC requires USDC in PORTFOLIO_TOKENS");
+    }
+  }
+
+  // LP manager configuration
+  if (parseBool(getEnv("LP_ENABLED"), false)) {
+    for (const key of ["TOKEN_ADDRESS", "POOL_ADDRESS", "ROUTER_ADDRESS", "WETH_ADDRESS"]) {
+      const value = getEnv(key);
+      if (!value || !isAddress(value)) {
+        throw new Error(`${key} must be a valid Ethereum address when LP_ENABLED=true`);
+      }
+    }
+    for (const key of ["POOL_ADDRESS_USDC", "GAUGE_ADDRESS_WETH", "GAUGE_ADDRESS_USDC"]) {
+      const value = getEnv(key);
+      if (value && !isAddress(value)) throw new Error(`${key} must be a valid Ethereum address`);
+    }
+    const lpMaxEth = parseUnitsOrNull(getEnv("LP_MAX_ETH_PER_ADD") || "0.001", 18);
+    if (lpMaxEth === null || lpMaxEth <= 0n) {
+      throw new Error("LP_MAX_ETH_PER_ADD must be a plain decimal > 0 (e.g. 0.001, not 1e-3)");
+    }
+    const lpFractionBps = parseIntEnv(getEnv("LP_MAX_TOKEN_FRACTION_BPS"), 2500);
+    if (lpFractionBps < 0 || lpFractionBps > 10_000) {
+      throw new Error("LP_MAX_TOKEN_FRACTION_BPS must be 0-10000");
+    }
+    const lpSlippageBps = parseIntEnv(getEnv("LP_SLIPPAGE_BPS"), 300);
+    if (lpSlippageBps < 0 || lpSlippageBps > 10_000) {
+      throw new Error("LP_SLIPPAGE_BPS must be 0-10000");
+    }
+  }
+
+  // Gauge reward harvester configuration
+  if (parseBool(getEnv("HARVEST_ENABLED"), false)) {
+    if (!getEnv("GAUGE_ADDRESS_WETH") && !getEnv("GAUGE_ADDRESS_USDC")) {
+      throw new Error("HARVEST_ENABLED=true requires GAUGE_ADDRESS_WETH or GAUGE_ADDRESS_USDC");
+    }
+    for (const key of ["AERO_POOL_ADDRESS", "ROUTER_ADDRESS", "WETH_ADDRESS"]) {
+      const value = getEnv(key);
+      if (!value || !isAddress(value)) {
+        throw new Error(`${key} must be a valid Ethereum address when HARVEST_ENABLED=true`);
+      }
+    }
+    const aero = getEnv("AERO_ADDRESS");
+    if (aero && !isAddress(aero)) throw new Error("AERO_ADDRESS must be a valid Ethereum address");
+    if (parseIntEnv(getEnv("HARVEST_MIN_GAS_MULTIPLE"), 5) < 1) {
+      throw new Error("HARVEST_MIN_GAS_MULTIPLE must be >= 1");
+    }
+    if (parseBool(getEnv("HARVEST_COMPOUND"), false)) {
+      if (!parseBool(getEnv("LP_ENABLED"), false)) throw new Error("HARVEST_COMPOUND=true requires LP_ENABLED=true");
+      // The AERO sale is a guarded AERO -> WETH rotation.
+      const aeroToken = portfolioTokens.find((t) => t.symbol === "AERO");
+      if (!aeroToken || !portfolioTokens.some((t) => t.symbol === "WETH")) {
+        throw new Error("HARVEST_COMPOUND=true requires AERO and WETH in PORTFOLIO_TOKENS");
+      }
+      if (aeroToken.address.toLowerCase() !== (aero || DEFAULT_AERO_ADDRESS).toLowerCase()) {
+        throw new Error("PORTFOLIO_TOKENS AERO address must match AERO_ADDRESS");
+      }
+    }
   }
 
   // Social configuration
@@ -260,23 +631,57 @@ export function loadConfig(): AppConfig {
     RPC_URL: rpcUrl,
     BASE_RPC_URL: getEnv("BASE_RPC_URL"),
     BASE_SEPOLIA_RPC_URL: getEnv("BASE_SEPOLIA_RPC_URL"),
+    RPC_FALLBACK_RANK: parseBool(getEnv("RPC_FALLBACK_RANK"), true),
+    RPC_RANK_INTERVAL_MS: parseIntEnv(getEnv("RPC_RANK_INTERVAL_MS"), 60_000),
 
     // Wallet
     WALLET_MODE: walletMode,
     PRIVATE_KEY: privateKey,
     CDP_API_KEY_NAME: getEnv("CDP_API_KEY_NAME"),
     CDP_API_KEY_PRIVATE_KEY: getEnv("CDP_API_KEY_PRIVATE_KEY"),
+    CDP_WALLET_SECRET: getEnv("CDP_WALLET_SECRET"),
+    CDP_ACCOUNT_NAME: getEnv("CDP_ACCOUNT_NAME") || "based-intern",
+    CDP_ACCOUNT_ADDRESS: getEnv("CDP_ACCOUNT_ADDRESS"),
+    KEYSTORE_PATH: getEnv("KEYSTORE_PATH"),
+    KEYSTORE_PASSWORD: getEnv("KEYSTORE_PASSWORD"),
+    KEYSTORE_PASSWORD_FILE: getEnv("KEYSTORE_PASSWORD_FILE"),
+    REMOTE_SIGNER_URL: getEnv("REMOTE_SIGNER_URL"),
+    REMOTE_SIGNER_ADDRESS: getEnv("REMOTE_SIGNER_ADDRESS"),
+    REMOTE_SIGNER_TOKEN: getEnv("REMOTE_SIGNER_TOKEN"),
 
     // Trading
     TRADING_ENABLED: tradingEnabled,
     DRY_RUN: dryRun,
     KILL_SWITCH: killSwitch,
-    LOOP_MINUTES: parseIntEnv(getEnv("LOOP_MINUTES"), 30),
+    LOOP_MINUTES: loopMinutes,
     DAILY_TRADE_CAP: parseIntEnv(getEnv("DAILY_TRADE_CAP"), 2),
     MIN_INTERVAL_MINUTES: parseIntEnv(getEnv("MIN_INTERVAL_MINUTES"), 60),
     MAX_SPEND_ETH_PER_TRADE: getEnv("MAX_SPEND_ETH_PER_TRADE", "0.001"),
     SELL_FRACTION_BPS: parseIntEnv(getEnv("SELL_FRACTION_BPS"), 500),
     SLIPPAGE_BPS: parseIntEnv(getEnv("SLIPPAGE_BPS"), 300),
+    MAX_PRICE_IMPACT_BPS: parseIntEnv(getEnv("MAX_PRICE_IMPACT_BPS"), 0),
+    MIN_POOL_TVL_ETH: getEnv("MIN_POOL_TVL_ETH") || "0",
+    MAX_BUY_ETH_24H: getEnv("MAX_BUY_ETH_24H") || "0",
+    MAX_SELL_ETH_24H: getEnv("MAX_SELL_ETH_24H") || "0",
+    MAX_NET_ETH_24H: getEnv("MAX_NET_ETH_24H") || "0",
+    MAX_BUY_ETH_7D: getEnv("MAX_BUY_ETH_7D") || "0",
+    MAX_SELL_ETH_7D: getEnv("MAX_SELL_ETH_7D") || "0",
+    MAX_NET_ETH_7D: getEnv("MAX_NET_ETH_7D") || "0",
+    MAX_DRAWDOWN_PCT: maxDrawdownPct,
+
+    // Fees
+    MAX_FEE_PER_GAS_GWEI: getEnv("MAX_FEE_PER_GAS_GWEI") || "0",
+    PRIORITY_FEE_STRATEGY: (getEnv("PRIORITY_FEE_STRATEGY", "fixed") as PriorityFeeStrategy),
+    PRIORITY_FEE_GWEI: getEnv("PRIORITY_FEE_GWEI") || "0.001",
+    PRIORITY_FEE_PERCENTILE: parseIntEnv(getEnv("PRIORITY_FEE_PERCENTILE"), 50),
+    MAX_L1_FEE_ETH: getEnv("MAX_L1_FEE_ETH") || "0",
+    MAX_GAS_COST_BPS: parseIntEnv(getEnv("MAX_GAS_COST_BPS"), 0),
+
+    // Nonce manager
+    TX_STUCK_AFTER_BLOCKS: parseIntEnv(getEnv("TX_STUCK_AFTER_BLOCKS"), 30),
+    TX_REPLACEMENT_MODE: (getEnv("TX_REPLACEMENT_MODE", "speed_up") as ReplacementMode),
+    TX_FEE_BUMP_BPS: parseIntEnv(getEnv("TX_FEE_BUMP_BPS"), 1250),
+    TX_MAX_REPLACEMENTS: parseIntEnv(getEnv("TX_MAX_REPLACEMENTS"), 3),
     APPROVE_MAX: parseBool(getEnv("APPROVE_MAX"), false),
     APPROVE_CONFIRMATIONS: parseIntEnv(getEnv("APPROVE_CONFIRMATIONS"), 1),
 
@@ -286,6 +691,16 @@ export function loadConfig(): AppConfig {
     WETH_ADDRESS: getEnv("WETH_ADDRESS"),
     POOL_ADDRESS: getEnv("POOL_ADDRESS"),
     AERODROME_STABLE: parseBool(getEnv("AERODROME_STABLE"), false),
+    AERODROME_POOL_ADDRESS: getEnv("AERODROME_POOL_ADDRESS"),
+    AERODROME_ROUTER_ADDRESS: getEnv("AERODROME_ROUTER_ADDRESS"),
+    UNISWAP_V3_POOL_ADDRESS: getEnv("UNISWAP_V3_POOL_ADDRESS"),
+    UNISWAP_V3_ROUTER_ADDRESS: getEnv("UNISWAP_V3_ROUTER_ADDRESS"),
+    UNISWAP_V3_QUOTER_ADDRESS: getEnv("UNISWAP_V3_QUOTER_ADDRESS"),
+    UNISWAP_V3_FEE: parseIntEnv(getEnv("UNISWAP_V3_FEE"), 3000),
+    PRICE_MAX_AGE_SECONDS: parseIntEnv(getEnv("PRICE_MAX_AGE_SECONDS"), 120),
+    TWAP_WINDOW_MINUTES: twapWindowMinutes,
+    TWAP_MIN_OBSERVATIONS: twapMinObservations,
+    TWAP_MAX_DEVIATION_BPS: twapMaxDeviationBps,
 
     // Token
     TOKEN_ADDRESS: getEnv("TOKEN_ADDRESS"),
@@ -294,15 +709,54 @@ export function loadConfig(): AppConfig {
 
     // LP
     LP_ENABLED: parseBool(getEnv("LP_ENABLED"), false),
-    LP_MAX_ETH_PER_ADD: getEnv("LP_MAX_ETH_PER_ADD"),
+    LP_MAX_ETH_PER_ADD: getEnv("LP_MAX_ETH_PER_ADD") || "0.001",
     LP_MAX_TOKEN_FRACTION_BPS: parseIntEnv(getEnv("LP_MAX_TOKEN_FRACTION_BPS"), 2500),
     LP_SLIPPAGE_BPS: parseIntEnv(getEnv("LP_SLIPPAGE_BPS"), 300),
+    LP_MIN_INTERVAL_MINUTES: parseIntEnv(getEnv("LP_MIN_INTERVAL_MINUTES"), 360),
+    LP_AUTO_STAKE: parseBool(getEnv("LP_AUTO_STAKE"), true),
     USDC_ADDRESS: getEnv("USDC_ADDRESS"),
     POOL_ADDRESS_USDC: getEnv("POOL_ADDRESS_USDC"),
     POOL_ADDRESS_USDC_STABLE: parseBool(getEnv("POOL_ADDRESS_USDC_STABLE"), false),
     GAUGE_ADDRESS_WETH: getEnv("GAUGE_ADDRESS_WETH"),
     GAUGE_ADDRESS_USDC: getEnv("GAUGE_ADDRESS_USDC"),
 
+    // Gauge reward harvester
+    HARVEST_ENABLED: parseBool(getEnv("HARVEST_ENABLED"), false),
+    HARVEST_INTERVAL_MINUTES: parseIntEnv(getEnv("HARVEST_INTERVAL_MINUTES"), 360),
+    HARVEST_MIN_GAS_MULTIPLE: parseIntEnv(getEnv("HARVEST_MIN_GAS_MULTIPLE"), 5),
+    HARVEST_COMPOUND: parseBool(getEnv("HARVEST_COMPOUND"), false),
+    AERO_ADDRESS: getEnv("AERO_ADDRESS") || DEFAULT_AERO_ADDRESS,
+    AERO_POOL_ADDRESS: getEnv("AERO_POOL_ADDRESS"),
+
+    // Whale watcher
+    WHALE_WATCH_ENABLED: parseBool(getEnv("WHALE_WATCH_ENABLED"), false),
+    WHALE_MIN_TOKENS: getEnv("WHALE_MIN_TOKENS") || "1000000",
+    WHALE_WATCHLIST: getEnv("WHALE_WATCHLIST") || "",
+    WHALE_POST_ENABLED: parseBool(getEnv("WHALE_POST_ENABLED"), false),
+
+    // Portfolio
+    PORTFOLIO_TOKENS: portfolioTokens,
+    AERODROME_FACTORY_ADDRESS: getEnv("AERODROME_FACTORY_ADDRESS") || "0x420DD381b31aEf6683db6B902084cB0FFECe40Da",
+
+    // Strategy
+    STRATEGY_MODE: strategyMode,
+    STRATEGY_SHADOW: strategyShadow,
+    REBALANCE_TARGETS: rebalanceTargets,
+    REBALANCE_BAND_BPS: parseIntEnv(getEnv("REBALANCE_BAND_BPS"), 500),
+    REBALANCE_MIN_TRADE_ETH: getEnv("REBALANCE_MIN_TRADE_ETH") || "0.0001",
+
+    // DCA
+    DCA_ENABLED: parseBool(getEnv("DCA_ENABLED"), false),
+    DCA_SCHEDULE: getEnv("DCA_SCHEDULE") || "0 14 * * *",
+    DCA_ASSET: (getEnv("DCA_ASSET", "ETH") as DcaAsset),
+    DCA_AMOUNT: getEnv("DCA_AMOUNT") || "0.0005",
+    DCA_MAX_TOTAL: getEnv("DCA_MAX_TOTAL") || "0",
+    DCA_MAX_PRICE_IMPACT_BPS: parseIntEnv(getEnv("DCA_MAX_PRICE_IMPACT_BPS"), 100),
+
+    // Conditional orders
+    ORDERS_ENABLED: parseBool(getEnv("ORDERS_ENABLED"), false),
+    ORDERS_MAX_OPEN: parseIntEnv(getEnv("ORDERS_MAX_OPEN"), 20),
+
     // Social
     SOCIAL_MODE: socialMode,
     SOCIAL_MULTI_TARGETS: getEnv("SOCIAL_MULTI_TARGETS", "x_api,moltbook"),
@@ -343,11 +797,119 @@ export function loadConfig(): AppConfig {
   };
 }
 
+// ============================================================================
+// Portfolio Tokens
+// ============================================================================
+
+/**
+ * PORTFOLIO_TOKENS="SYMBOL:address[:decimals],..." plus optional per-token
+ * PORTFOLIO_<SYMBOL>_POOL, _POOL_STABLE, _MAX_ETH_PER_TRADE, _MAX_WEIGHT_BPS.
+ * INTERN (TOKEN_ADDRESS / POOL_ADDRESS) is prepended unless listed; AERO's
+ * pool defaults to AERO_POOL_ADDRESS.
+ */
+function parsePortfolioTokens(): PortfolioTokenConfig[] {
+  const raw = getEnv("PORTFOLIO_TOKENS") || "";
+  const entries = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  if (entries.length === 0) return [];
+
+  const specs = entries.map((entry) => {
+    const [symbol, address, decimals] = entry.split(":").map((s) => s.trim());
+    if (!symbol || !address || !isAddress(address)) {
+      throw new Error(`PORTFOLIO_TOKENS entry must be SYMBOL:address[:decimals], got: ${entry}`);
+    }
+    const dec = decimals === undefined ? 18 : parseInt(decimals, 10);
+    if (isNaN(dec) || dec < 0 || dec > 36) {
+      throw new Error(`PORTFOLIO_TOKENS decimals must be 0-36 for ${symbol}`);
+    }
+    return { symbol: symbol.toUpperCase(), address, decimals: dec };
+  });
+
+  const internSymbol = (getEnv("TOKEN_SYMBOL") || "INTERN").toUpperCase();
+  const tokenAddress = getEnv("TOKEN_ADDRESS");
+  if (tokenAddress && isAddress(tokenAddress) && !specs.some((t) => t.symbol === internSymbol)) {
+    specs.unshift({ symbol: internSymbol, address: tokenAddress, decimals: parseIntEnv(getEnv("TOKEN_DECIMALS"), 18) });
+  }
+
+  const seen = new Set<string>();
+  return specs.map((spec) => {
+    if (seen.has(spec.symbol)) throw new Error(`PORTFOLIO_TOKENS lists ${spec.symbol} twice`);
+    seen.add(spec.symbol);
+
+    const isIntern = spec.symbol === internSymbol;
+    const key = (suffix: string) => `PORTFOLIO_${spec.symbol}_${suffix}`;
+    const pool =
+      getEnv(key("POOL")) ||
+      (isIntern ? getEnv("POOL_ADDRESS") : spec.symbol === "AERO" ? getEnv("AERO_POOL_ADDRESS") : undefined);
+    if (pool && !isAddress(pool)) throw new Error(`${key("POOL")} must be a valid Ethereum address`);
+
+    const maxEthPerTrade = getEnv(key("MAX_ETH_PER_TRADE")) || "0";
+    const maxEth = parseUnitsOrNull(maxEthPerTrade, 18);
+    if (maxEth === null || maxEth < 0n) {
+      throw new Error(`${key("MAX_ETH_PER_TRADE")} must be a plain decimal >= 0 (e.g. 0.001, not 1e-3)`);
+    }
+
+    const maxWeightBps = parseIntEnv(getEnv(key("MAX_WEIGHT_BPS")), 0);
+    if (maxWeightBps < 0 || maxWeightBps > 10_000) throw new Error(`${key("MAX_WEIGHT_BPS")} must be 0-10000`);
+
+    return {
+      ...spec,
+      pool: pool as `0x${string}` | undefined,
+      poolStable: parseBool(getEnv(key("POOL_STABLE")), isIntern ? parseBool(getEnv("AERODROME_STABLE"), false) : false),
+      maxEthPerTrade,
+      maxWeightBps
+    };
+  });
+}
+
+// ============================================================================
+// Rebalance Targets
+// ============================================================================
+
+/**
+ * REBALANCE_TARGETS="ETH:6000,INTERN:4000[:bandBps]" (weights in bps).
+ */
+function parseRebalanceTargets(defaultBandBps: number): RebalanceTargetConfig[] {
+  const raw = getEnv("REBALANCE_TARGETS") || "";
+  const entries = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  if (entries.length === 0) return [];
+
+  const targets = entries.map((entry) => {
+    const [asset, target, band] = entry.split(":").map((s) => s.trim());
+    const targetBps = parseInt(target ?? "", 10);
+    const bandBps = band === undefined ? defaultBandBps : parseInt(band, 10);
+    if (!asset || isNaN(targetBps) || targetBps < 0 || targetBps > 10_000) {
+      throw new Error(`REBALANCE_TARGETS entry must be ASSET:bps[:bandBps], got: ${entry}`);
+    }
+    if (isNaN(bandBps) || bandBps < 0 || bandBps > 10_000) {
+      throw new Error(`REBALANCE_TARGETS band must be 0-10000 bps, got: ${entry}`);
+    }
+    return { asset: asset.toUpperCase(), targetBps, bandBps };
+  });
+
+  const total = targets.reduce((sum, t) => sum + t.targetBps, 0);
+  if (total !== 10_000) throw new Error(`REBALANCE_TARGETS must sum to 10000 bps (got ${total})`);
+  if (new Set(targets.map((t) => t.asset)).size !== targets.length) {
+    throw new Error("REBALANCE_TARGETS lists an asset twice");
+  }
+  return targets;
+}
+
 // ============================================================================
 // RPC URL Helper
 // ============================================================================
 
 export function rpcUrlForChain(cfg: AppConfig): string | undefined {
-  return cfg.RPC_URL || 
+  return rpcUrlsForChain(cfg)[0];
+}
+
+/**
+ * All configured RPC URLs for the chain, in priority order (comma-separated env).
+ */
+export function rpcUrlsForChain(cfg: AppConfig): string[] {
+  const raw = cfg.RPC_URL || 
     (cfg.CHAIN === "base" ? cfg.BASE_RPC_URL : cfg.BASE_SEPOLIA_RPC_URL);
+  return (raw ?? "")
+    .split(",")
+    .map((u) => u.trim())
+    .filter((u) => u.length > 0);
 }
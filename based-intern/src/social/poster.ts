@@ -8,7 +8,7 @@ import { postTweetXApi } from "./x_api.js";
 import { postMoltbookReceipt, postMoltbookText } from "./moltbook/index.js";
 import { fingerprintContent } from "./dedupe.js";
 
-export type SocialPostKind = "receipt" | "news" | "opinion" | "meta";
+export type SocialPostKind = "receipt" | "news" | "opinion" | "meta" | "whale";
 
 export type SocialPoster = {
   post(text: string, kind?: SocialPostKind): Promise<void>;
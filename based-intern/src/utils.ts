@@ -3,6 +3,8 @@
  * Extracted to avoid duplication across modules.
  */
 
+import { parseEther } from "viem";
+
 /**
  * Sleep for a specified number of milliseconds.
  * Returns a promise that resolves after the timeout.
@@ -85,3 +87,139 @@ export class TTLCache<K, V> {
     return this.cache.delete(key);
   }
 }
+
+/**
+ * parseEther for config amounts; a missing or malformed value is 0n, which
+ * callers treat as "disabled" (loadConfig rejects malformed values up front).
+ */
+export function safeParseEther(v: string | undefined): bigint {
+  try {
+    return v ? parseEther(v) : 0n;
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Shorten a formatEther/formatUnits string for receipts and posts: at most 6
+ * decimals, trailing zeros dropped ("0.001200" -> "0.0012").
+ */
+export function trimDecimals(v: string): string {
+  if (!v.includes(".")) return v;
+  const [a, b] = v.split(".");
+  const t = b.slice(0, 6).replace(/0+$/, "");
+  return t.length ? `${a}.${t}` : a;
+}
+
+/**
+ * Parsed 5-field cron expression ("minute hour day-of-month month day-of-week"),
+ * evaluated in UTC.
+ */
+export type CronSchedule = {
+  expr: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday (7 is accepted as Sunday too)
+  domRestricted: boolean;
+  dowRestricted: boolean;
+};
+
+const CRON_FIELDS: Array<[name: string, min: number, max: number]> = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day-of-month", 1, 31],
+  ["month", 1, 12],
+  ["day-of-week", 0, 7]
+];
+
+/**
+ * Parse a cron expression. Supports `*`, lists (`1,15`), ranges (`1-5`) and
+ * steps (`*\/15`, `0-30/10`). Throws on anything else.
+ */
+export function parseCron(expr: string): CronSchedule {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error(`cron expression must have 5 fields: "${expr}"`);
+
+  const sets = parts.map((part, i) => {
+    const [name, min, max] = CRON_FIELDS[i];
+    const out = new Set<number>();
+    for (const item of part.split(",")) {
+      const m = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+      if (!m) throw new Error(`invalid cron ${name} field: "${part}"`);
+      const step = m[4] ? parseInt(m[4], 10) : 1;
+      const lo = m[1] === "*" ? min : parseInt(m[2], 10);
+      const hi = m[1] === "*" ? max : m[3] ? parseInt(m[3], 10) : m[4] ? max : lo;
+      if (lo < min || hi > max || lo > hi || step < 1) throw new Error(`invalid cron ${name} field: "${part}"`);
+      for (let v = lo; v <= hi; v += step) out.add(v);
+    }
+    return out;
+  });
+
+  const daysOfWeek = sets[4];
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    expr,
+    minutes: sets[0],
+    hours: sets[1],
+    daysOfMonth: sets[2],
+    months: sets[3],
+    daysOfWeek,
+    domRestricted: parts[2] !== "*",
+    dowRestricted: parts[4] !== "*"
+  };
+}
+
+// Feb 29 can be 8 years apart (2096 -> 2104), so scan that far before giving up.
+const CRON_SCAN_DAYS = 8 * 366;
+
+function cronDayMatches(s: CronSchedule, day: Date): boolean {
+  if (!s.months.has(day.getUTCMonth() + 1)) return false;
+  const dom = s.daysOfMonth.has(day.getUTCDate());
+  const dow = s.daysOfWeek.has(day.getUTCDay());
+  // Standard cron: when both day fields are restricted, either may match.
+  if (s.domRestricted && s.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Most recent scheduled time at or before `now` (minute precision, UTC), or
+ * null when nothing matched in the past eight years.
+ */
+export function previousCronTime(s: CronSchedule, now: Date): Date | null {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  for (let offset = 0; offset <= CRON_SCAN_DAYS; offset++) {
+    const day = new Date(today - offset * dayMs);
+    if (!cronDayMatches(s, day)) continue;
+    for (let h = offset === 0 ? now.getUTCHours() : 23; h >= 0; h--) {
+      if (!s.hours.has(h)) continue;
+      for (let m = offset === 0 && h === now.getUTCHours() ? now.getUTCMinutes() : 59; m >= 0; m--) {
+        if (s.minutes.has(m)) return new Date(day.getTime() + (h * 60 + m) * 60_000);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Next scheduled time strictly after `now` (minute precision, UTC), or null
+ * when nothing matches in the next eight years, i.e. the schedule never fires
+ * ("0 0 30 2 *").
+ */
+export function nextCronTime(s: CronSchedule, now: Date): Date | null {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  for (let offset = 0; offset <= CRON_SCAN_DAYS; offset++) {
+    const day = new Date(today + offset * dayMs);
+    if (!cronDayMatches(s, day)) continue;
+    for (let h = offset === 0 ? now.getUTCHours() : 0; h <= 23; h++) {
+      if (!s.hours.has(h)) continue;
+      for (let m = offset === 0 && h === now.getUTCHours() ? now.getUTCMinutes() + 1 : 0; m <= 59; m++) {
+        if (s.minutes.has(m)) return new Date(day.getTime() + (h * 60 + m) * 60_000);
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  backtestConfig,
+  backtestResultToJson,
+  parseBacktestData,
+  runBacktest,
+  type BacktestSample
+} from "../src/agent/backtest.js";
+import type { ProposedAction } from "../src/agent/decision.js";
+import { llmStrategy, type Strategy } from "../src/agent/strategy.js";
+import type { AppConfig } from "../src/config.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const E18 = 10n ** 18n;
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2026, 0, 1);
+
+const cfg = backtestConfig({
+  TRADING_ENABLED: false,
+  KILL_SWITCH: true,
+  DRY_RUN: true,
+  ROUTER_TYPE: "unknown",
+  DAILY_TRADE_CAP: 10,
+  MIN_INTERVAL_MINUTES: 0,
+  MAX_SPEND_ETH_PER_TRADE: "0.5",
+  SELL_FRACTION_BPS: 10_000,
+  TWAP_WINDOW_MINUTES: 60,
+  TWAP_MIN_OBSERVATIONS: 1,
+  TWAP_MAX_DEVIATION_BPS: 0,
+  MAX_PRICE_IMPACT_BPS: 0,
+  MIN_POOL_TVL_ETH: "0",
+  MAX_DRAWDOWN_PCT: 0,
+  TOKEN_DECIMALS: 18
+} as AppConfig);
+
+// price in "ETH per 1M INTERN"
+function samples(prices: number[]): BacktestSample[] {
+  return prices.map((p, i) => ({ atMs: T0 + i * HOUR, priceWei: BigInt(p) * 10n ** 12n, pool: null }));
+}
+
+function scripted(actions: ProposedAction["action"][]): Strategy {
+  let i = 0;
+  return {
+    name: "scripted",
+    description: "test",
+    propose: async () => ({ action: actions[i++] ?? "HOLD", rationale: "script" })
+  };
+}
+
+describe("parseBacktestData", () => {
+  it("reads CSV with reserves and derives the price", () => {
+    const csv = [
+      "# exported from the pool",
+      "timestamp,wethReserve,tokenReserve",
+      `2026-01-01T01:00:00Z,${10n * E18},${10_000_000n * E18}`,
+      `2026-01-01T00:00:00Z,${20n * E18},${10_000_000n * E18}`
+    ].join("\n");
+
+    const out = parseBacktestData(csv);
+
+    expect(out.map((s) => [s.atMs, s.priceWei])).toEqual([
+      [T0, 2n * 10n ** 12n],
+      [T0 + HOUR, 10n ** 12n]
+    ]);
+    expect(out[0].pool).toMatchObject({ wethReserve: 20n * E18 });
+  });
+
+  it("reads JSON with decimal prices and reports bad rows", () => {
+    const out = parseBacktestData(JSON.stringify([{ atMs: T0, price: "0.000001" }]));
+    expect(out[0]).toEqual({ atMs: T0, priceWei: 10n ** 12n, pool: null });
+
+    expect(() => parseBacktestData(JSON.stringify([{ atMs: T0 }]))).toThrow(/row 1: needs priceWei/);
+  });
+
+  it("rejects empty input", () => {
+    expect(() => parseBacktestData("\n# no rows\n")).toThrow(/backtest data is empty/);
+  });
+});
+
+describe("runBacktest", () => {
+  it("forces trading on for the replay", () => {
+    expect(cfg).toMatchObject({ TRADING_ENABLED: true, KILL_SWITCH: false, DRY_RUN: false, ROUTER_TYPE: "aerodrome" });
+  });
+
+  it("runs the llm strategy offline on each sample's price", async () => {
+    const proposeAction = vi.fn(async (): Promise<ProposedAction> => ({ action: "HOLD", rationale: "fallback" }));
+    const llm = llmStrategy(proposeAction);
+
+    await runBacktest({ ...cfg, OPENAI_API_KEY: "sk-test" }, samples([2, 4]), {
+      strategy: llm,
+      startEthWei: E18,
+      startTokenAmount: 0n
+    });
+
+    expect(proposeAction).toHaveBeenCalledTimes(2);
+    const [runCfg, brain] = proposeAction.mock.calls[1] as unknown as [AppConfig, Record<string, unknown>];
+    expect(runCfg.OPENAI_API_KEY).toBeUndefined();
+    expect(brain).toMatchObject({ ethWei: E18, internAmount: 0n, priceText: "0.000004 ETH" });
+  });
+
+  it("fills trades at the sample price and reports P&L and drawdown", async () => {
+    // buy 0.5 ETH at 2, price halves, sell everything at 4
+    const result = await runBacktest(cfg, samples([2, 1, 4]), {
+      strategy: scripted(["BUY", "HOLD", "SELL"]),
+      startEthWei: E18,
+      startTokenAmount: 0n,
+      swapFeeBps: 0
+    });
+
+    expect(result.trades.map((t) => [t.side, t.ethWei, t.tokenAmount])).toEqual([
+      ["BUY", E18 / 2n, 250_000n * E18],
+      ["SELL", E18, 250_000n * E18]
+    ]);
+    expect(result.finalEthWei).toBe((3n * E18) / 2n);
+    expect(result.pnlWei).toBe(E18 / 2n);
+    expect(result.pnlBps).toBe(5_000);
+    expect(result.realizedPnlWei).toBe(E18 / 2n);
+    expect(result.holds).toEqual([{ atMs: T0 + HOUR, proposed: "HOLD", rationale: "script", blockedReason: null }]);
+  });
+
+  it("tracks max drawdown and records guardrail holds with their reason", async () => {
+    const capped = { ...cfg, DAILY_TRADE_CAP: 1 };
+    const result = await runBacktest(capped, samples([4, 2, 3]), {
+      strategy: scripted(["BUY", "BUY", "HOLD"]),
+      startEthWei: E18 / 2n,
+      startTokenAmount: 0n,
+      swapFeeBps: 0
+    });
+
+    // all-in at 4, marked at 2 => 50% drawdown
+    expect(result.maxDrawdownBps).toBe(5_000);
+    expect(result.holds[0]).toMatchObject({ proposed: "BUY", blockedReason: "daily cap reached (1/1)" });
+    // the cap is checked before the proposal, so the strategy's own HOLD is reported under it too
+    expect(backtestResultToJson(result).holdReasons).toEqual({ "daily cap reached (1/1)": 2 });
+    expect(result.holdOnlyEquityWei).toBe(E18 / 2n);
+  });
+
+  it("applies the pool fee and x*y=k when reserves are recorded", async () => {
+    const pool = { source: "backtest", wethReserve: 10n * E18, tokenReserve: 10_000_000n * E18 };
+    const result = await runBacktest(cfg, [{ atMs: T0, priceWei: 10n ** 12n, pool }], {
+      strategy: scripted(["BUY"]),
+      startEthWei: E18,
+      startTokenAmount: 0n
+    });
+
+    // 0.5 ETH, 0.3% fee => 0.4985 in; out = 10M * 0.4985 / 10.4985
+    const inAfterFee = ((E18 / 2n) * 9_970n) / 10_000n;
+    expect(result.trades[0].tokenAmount).toBe((10_000_000n * E18 * inAfterFee) / (10n * E18 + inAfterFee));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkNotionalBudget,
+  notionalTotals,
+  recordTradeNotional,
+  DAY_MS,
+  WEEK_MS,
+  type NotionalBudgetState
+} from "../src/agent/budget.js";
+import type { AppConfig } from "../src/config.js";
+
+const ETH = 10n ** 18n;
+const NOW = new Date("2026-02-10T12:00:00Z");
+
+function cfg(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    MAX_BUY_ETH_24H: "0",
+    MAX_SELL_ETH_24H: "0",
+    MAX_NET_ETH_24H: "0",
+    MAX_BUY_ETH_7D: "0",
+    MAX_SELL_ETH_7D: "0",
+    MAX_NET_ETH_7D: "0",
+    ...overrides
+  } as AppConfig;
+}
+
+function ago(ms: number): Date {
+  return new Date(NOW.getTime() - ms);
+}
+
+describe("recordTradeNotional", () => {
+  it("appends without mutating and drops entries older than 7d", () => {
+    const state: NotionalBudgetState = { tradeNotionals: [{ atMs: ago(WEEK_MS + 1).getTime(), side: "BUY", ethWei: "1" }] };
+    const next = recordTradeNotional(state, "SELL", 5n, NOW);
+
+    expect(state.tradeNotionals).toHaveLength(1);
+    expect(next.tradeNotionals).toEqual([{ atMs: NOW.getTime(), side: "SELL", ethWei: "5" }]);
+  });
+});
+
+describe("notionalTotals", () => {
+  it("sums buys, sells and net inside the window only", () => {
+    let state: NotionalBudgetState = {};
+    state = recordTradeNotional(state, "BUY", 3n * ETH, ago(2 * DAY_MS));
+    state = recordTradeNotional(state, "BUY", 1n * ETH, ago(60_000));
+    state = recordTradeNotional(state, "SELL", 2n * ETH, ago(30_000));
+
+    expect(notionalTotals(state, NOW.getTime(), DAY_MS)).toEqual({ boughtWei: ETH, soldWei: 2n * ETH, netWei: -ETH });
+    expect(notionalTotals(state, NOW.getTime(), WEEK_MS).boughtWei).toBe(4n * ETH);
+  });
+});
+
+describe("checkNotionalBudget", () => {
+  const state = recordTradeNotional({}, "BUY", ETH / 2n, ago(60_000));
+
+  it("allows everything when no budget is configured", () => {
+    expect(checkNotionalBudget(cfg(), state, "BUY", 100n * ETH, NOW)).toBeNull();
+  });
+
+  it("holds a BUY that would exceed the 24h buy budget", () => {
+    expect(checkNotionalBudget(cfg({ MAX_BUY_ETH_24H: "1" }), state, "BUY", ETH, NOW)).toBe(
+      "24h buy budget exceeded (1.5 ETH > 1 ETH)"
+    );
+    expect(checkNotionalBudget(cfg({ MAX_BUY_ETH_24H: "1" }), state, "BUY", ETH / 2n, NOW)).toBeNull();
+  });
+
+  it("enforces the 7d window independently of the 24h one", () => {
+    const older = recordTradeNotional(state, "BUY", 2n * ETH, ago(3 * DAY_MS));
+    const c = cfg({ MAX_BUY_ETH_24H: "1", MAX_BUY_ETH_7D: "2.5" });
+    expect(checkNotionalBudget(c, older, "BUY", ETH / 10n, NOW)).toBe("7d buy budget exceeded (2.6 ETH > 2.5 ETH)");
+  });
+
+  it("only blocks trades that grow net exposure", () => {
+    const c = cfg({ MAX_NET_ETH_24H: "0.4" });
+    expect(checkNotionalBudget(c, state, "BUY", ETH / 10n, NOW)).toBe(
+      "24h net budget exceeded (0.6 ETH, max ±0.4 ETH)"
+    );
+    // Selling reduces net exposure, so it is allowed
+    expect(checkNotionalBudget(c, state, "SELL", ETH / 10n, NOW)).toBeNull();
+  });
+});
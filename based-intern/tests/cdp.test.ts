@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+import { generateKeyPairSync, verify, type KeyObject } from "node:crypto";
+import { parseGwei, recoverTransactionAddress, verifyMessage, zeroAddress, type TransactionSerialized } from "viem";
+import { createCdpHttpApi, createCdpSigner, createLocalCdpApi, type CdpApi } from "../src/chain/cdp.js";
+import { createChainClients, signerFromConfig } from "../src/chain/client.js";
+import { createLocalSigner, signerToAccount } from "../src/chain/signer.js";
+import type { AppConfig } from "../src/config.js";
+
+const TX = {
+  chainId: 84532,
+  type: "eip1559",
+  to: "0x9999999999999999999999999999999999999999",
+  data: "0x1234",
+  value: 0n,
+  nonce: 3,
+  gas: 200_000n,
+  maxFeePerGas: parseGwei("0.02"),
+  maxPriorityFeePerGas: parseGwei("0.001")
+} as const;
+
+function ecKeys() {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  return {
+    pem: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+    der: privateKey.export({ format: "der", type: "pkcs8" }).toString("base64"),
+    publicKey
+  };
+}
+
+function decodeJwt(jwt: string) {
+  const [header, claims, signature] = jwt.split(".");
+  return {
+    input: `${header}.${claims}`,
+    header: JSON.parse(Buffer.from(header, "base64url").toString()),
+    claims: JSON.parse(Buffer.from(claims, "base64url").toString()),
+    signature: Buffer.from(signature, "base64url")
+  };
+}
+
+function verifyJwt(jwt: ReturnType<typeof decodeJwt>, key: KeyObject): boolean {
+  return verify("sha256", Buffer.from(jwt.input), { key, dsaEncoding: "ieee-p1363" }, jwt.signature);
+}
+
+describe("createCdpSigner", () => {
+  it("signs transactions and messages as the CDP account (local stand-in)", async () => {
+    const api = createLocalCdpApi();
+    const address = await api.getOrCreateAccount("based-intern");
+    const signer = createCdpSigner(api, address);
+
+    const signed = await signer.signTransaction(TX);
+    expect(await recoverTransactionAddress({ serializedTransaction: signed as TransactionSerialized })).toBe(address);
+
+    const signature = await signer.signMessage("gm");
+    expect(await verifyMessage({ address, message: "gm", signature })).toBe(true);
+  });
+
+  it("reuses the account for a known name", async () => {
+    const api = createLocalCdpApi();
+    expect(await api.getOrCreateAccount("a")).toBe(await api.getOrCreateAccount("a"));
+    expect(await api.getOrCreateAccount("b")).not.toBe(await api.getOrCreateAccount("a"));
+  });
+
+  it("rejects a signature from a different account", async () => {
+    const api = createLocalCdpApi();
+    const expected = await api.getOrCreateAccount("agent");
+    const other = await api.getOrCreateAccount("other");
+    const wrong: CdpApi = { ...api, signTransaction: (_address, tx) => api.signTransaction(other, tx) };
+
+    await expect(createCdpSigner(wrong, expected).signTransaction(TX)).rejects.toThrow(/expected/);
+  });
+});
+
+describe("createCdpHttpApi", () => {
+  it("posts the unsigned tx with API-key and wallet-auth JWTs", async () => {
+    const apiKey = ecKeys();
+    const wallet = ecKeys();
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ signedTransaction: "0xsigned" })));
+    const api = createCdpHttpApi(
+      { apiKeyName: "organizations/o/apiKeys/k", apiKeyPrivateKey: apiKey.pem, walletSecret: wallet.der },
+      fetchImpl as unknown as typeof fetch
+    );
+
+    const address = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+    expect(await api.signTransaction(address, "0x02abcd")).toBe("0xsigned");
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    const path = `/platform/v2/evm/accounts/${address}/sign/transaction`;
+    expect(url).toBe(`https://api.cdp.coinbase.com${path}`);
+    expect(JSON.parse(String(init.body))).toEqual({ transaction: "0x02abcd" });
+
+    const headers = init.headers as Record<string, string>;
+    const bearer = decodeJwt(headers.Authorization.replace("Bearer ", ""));
+    expect(bearer.header).toMatchObject({ alg: "ES256", kid: "organizations/o/apiKeys/k" });
+    expect(bearer.claims).toMatchObject({
+      sub: "organizations/o/apiKeys/k",
+      iss: "cdp",
+      uris: [`POST api.cdp.coinbase.com${path}`]
+    });
+    expect(verifyJwt(bearer, apiKey.publicKey)).toBe(true);
+
+    const walletAuth = decodeJwt(headers["X-Wallet-Auth"]);
+    expect(walletAuth.claims.reqHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyJwt(walletAuth, wallet.publicKey)).toBe(true);
+  });
+
+  it("surfaces API errors", async () => {
+    const fetchImpl = vi.fn(async () => new Response("forbidden", { status: 403 }));
+    const api = createCdpHttpApi(
+      { apiKeyName: "k", apiKeyPrivateKey: ecKeys().pem, walletSecret: ecKeys().der },
+      fetchImpl as unknown as typeof fetch
+    );
+
+    await expect(api.signMessage("0xabcdefabcdefabcdefabcdefabcdefabcdefabcd", "gm")).rejects.toThrow(/403 forbidden/);
+  });
+});
+
+describe("createChainClients", () => {
+  it("builds a wallet client around the given signer", () => {
+    const signer = createLocalSigner();
+    const clients = createChainClients(
+      { CHAIN: "base-sepolia", RPC_URL: "http://127.0.0.1:8545", WALLET_MODE: "cdp" } as AppConfig,
+      signer
+    );
+
+    expect(clients.walletAddress).toBe(signer.address);
+    expect(clients.walletClient?.account?.address).toBe(signer.address);
+  });
+
+  it("runs read-only in cdp mode until CDP_ACCOUNT_ADDRESS is set", () => {
+    const cfg = { CHAIN: "base-sepolia", RPC_URL: "http://127.0.0.1:8545", WALLET_MODE: "cdp" } as AppConfig;
+    const clients = createChainClients(cfg);
+
+    expect(clients.walletClient).toBeNull();
+    expect(clients.walletAddress).toBe(zeroAddress);
+    expect(() => signerFromConfig(cfg)).toThrow(/CDP_ACCOUNT_ADDRESS/);
+  });
+
+  it("adapts signers to viem accounts", async () => {
+    const signer = createLocalSigner();
+    const signature = await signerToAccount(signer).signMessage({ message: "gm" });
+    expect(await verifyMessage({ address: signer.address, message: "gm", signature })).toBe(true);
+  });
+});
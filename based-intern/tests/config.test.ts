@@ -144,6 +144,19 @@ describe("Config validation", () => {
     expect(() => loadConfig()).toThrow(/MAX_SPEND_ETH_PER_TRADE must be > 0/);
   });
 
+  it("rejects WHALE_MIN_TOKENS that parseUnits cannot read", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.WHALE_WATCH_ENABLED = "true";
+    process.env.TOKEN_ADDRESS = "0x1234567890123456789012345678901234567890";
+    process.env.WHALE_MIN_TOKENS = "1e6";
+
+    expect(() => loadConfig()).toThrow(/WHALE_MIN_TOKENS must be a plain decimal > 0/);
+
+    process.env.WHALE_MIN_TOKENS = "1000000.5";
+    expect(loadConfig().WHALE_MIN_TOKENS).toBe("1000000.5");
+  });
+
   it("accepts SOCIAL_MODE=none without cookies", () => {
     process.env.RPC_URL = "http://localhost:8545";
     process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
@@ -190,6 +203,80 @@ describe("Config validation", () => {
     expect(() => loadConfig()).toThrow(/ERC8004_IDENTITY_REGISTRY is required/);
   });
 
+  it("rejects notional budgets parseEther cannot read, even with trading off", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.MAX_BUY_ETH_24H = "1e18";
+
+    expect(() => loadConfig()).toThrow(/MAX_BUY_ETH_24H must be a plain decimal >= 0/);
+  });
+
+  it("rejects a MIN_POOL_TVL_ETH parseEther cannot read", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.MIN_POOL_TVL_ETH = "1e1";
+
+    expect(() => loadConfig()).toThrow(/MIN_POOL_TVL_ETH must be a plain decimal >= 0/);
+  });
+
+  it("rejects fee ceilings parseGwei or parseEther cannot read", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+
+    process.env.MAX_FEE_PER_GAS_GWEI = "0.1gwei";
+    expect(() => loadConfig()).toThrow(/MAX_FEE_PER_GAS_GWEI must be a plain decimal >= 0/);
+    process.env.MAX_FEE_PER_GAS_GWEI = "0.1";
+    process.env.PRIORITY_FEE_GWEI = "1e-3";
+    expect(() => loadConfig()).toThrow(/PRIORITY_FEE_GWEI must be a plain decimal >= 0/);
+    delete process.env.PRIORITY_FEE_GWEI;
+    process.env.MAX_L1_FEE_ETH = "-0.001";
+    expect(() => loadConfig()).toThrow(/MAX_L1_FEE_ETH must be a plain decimal >= 0/);
+  });
+
+  it("rejects Uniswap v3 settings the adapter cannot use, even without ROUTER_TYPE=uniswap_v3", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.UNISWAP_V3_QUOTER_ADDRESS = "0xnotanaddress";
+    expect(() => loadConfig()).toThrow(/UNISWAP_V3_QUOTER_ADDRESS must be a valid Ethereum address/);
+
+    delete process.env.UNISWAP_V3_QUOTER_ADDRESS;
+    process.env.UNISWAP_V3_FEE = "2500";
+    expect(() => loadConfig()).toThrow(/UNISWAP_V3_FEE must be one of/);
+  });
+
+  it("rejects an AERODROME_POOL_ADDRESS that is not an address, even without ROUTER_TYPE=aerodrome", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.AERODROME_POOL_ADDRESS = "0x1234";
+
+    expect(() => loadConfig()).toThrow(/AERODROME_POOL_ADDRESS must be a valid Ethereum address/);
+  });
+
+  it("rejects a MAX_DRAWDOWN_PCT outside 0-100", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.MAX_DRAWDOWN_PCT = "150";
+
+    expect(() => loadConfig()).toThrow(/MAX_DRAWDOWN_PCT must be between 0 and 100/);
+  });
+
+  it("sizes the default TWAP window to hold TWAP_MIN_OBSERVATIONS ticks", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.TWAP_MAX_DEVIATION_BPS = "300";
+
+    expect(loadConfig()).toMatchObject({ LOOP_MINUTES: 30, TWAP_MIN_OBSERVATIONS: 3, TWAP_WINDOW_MINUTES: 90 });
+  });
+
+  it("rejects a TWAP window too short for TWAP_MIN_OBSERVATIONS ticks", () => {
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.TWAP_MAX_DEVIATION_BPS = "300";
+    process.env.TWAP_WINDOW_MINUTES = "60";
+
+    expect(() => loadConfig()).toThrow(/TWAP_WINDOW_MINUTES \(60\) must be >= .* LOOP_MINUTES \(90\)/);
+  });
+
   it("rejects ERC8004_ENABLED without ERC8004_AGENT_ID", () => {
     process.env.RPC_URL = "http://localhost:8545";
     process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
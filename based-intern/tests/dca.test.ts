@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Address } from "viem";
+import {
+  describeDcaInstallment,
+  dueDcaSlot,
+  planDcaInstallment,
+  recordDcaInstallment,
+  type DcaState
+} from "../src/agent/dca.js";
+import { enforceGuardrails, type DecisionContext } from "../src/agent/decision.js";
+import type { Portfolio } from "../src/agent/portfolio.js";
+import type { ChainClients } from "../src/chain/client.js";
+import { registerDexProvider } from "../src/chain/dex/index.js";
+import { loadConfig, type AppConfig } from "../src/config.js";
+import { nextCronTime, parseCron, previousCronTime } from "../src/utils.js";
+
+const E18 = 10n ** 18n;
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+const USDC = ("0x" + "2".repeat(40)) as Address;
+const TOKEN = ("0x" + "1".repeat(40)) as Address;
+
+// Thursday 2026-10-15 15:30 UTC
+const NOW = new Date(Date.UTC(2026, 9, 15, 15, 30));
+const SLOT_MS = Date.UTC(2026, 9, 15, 14, 0);
+
+function cfg(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    TRADING_ENABLED: true,
+    KILL_SWITCH: false,
+    DRY_RUN: false,
+    ROUTER_TYPE: "aerodrome",
+    ROUTER_ADDRESS: "0x9999999999999999999999999999999999999999",
+    DAILY_TRADE_CAP: 5,
+    MIN_INTERVAL_MINUTES: 0,
+    MAX_SPEND_ETH_PER_TRADE: "1",
+    TWAP_MAX_DEVIATION_BPS: 0,
+    MAX_PRICE_IMPACT_BPS: 0,
+    MIN_POOL_TVL_ETH: "0",
+    TOKEN_DECIMALS: 18,
+    PORTFOLIO_TOKENS: [],
+    DCA_ENABLED: true,
+    DCA_SCHEDULE: "0 14 * * *",
+    DCA_ASSET: "ETH",
+    DCA_AMOUNT: "0.01",
+    DCA_MAX_TOTAL: "0",
+    DCA_MAX_PRICE_IMPACT_BPS: 100,
+    TOKEN_ADDRESS: TOKEN,
+    WETH_ADDRESS: "0x4200000000000000000000000000000000000006",
+    ...overrides
+  } as AppConfig;
+}
+
+function ctx(c: AppConfig, extra: Partial<DecisionContext> = {}): DecisionContext {
+  return {
+    cfg: c,
+    state: { tradesExecutedToday: 0, lastExecutedTradeAtMs: null },
+    now: NOW,
+    wallet: WALLET,
+    ethWei: E18,
+    internAmount: 0n,
+    pool: { source: "aerodrome", tokenReserve: 10_000_000n * E18, wethReserve: 10n * E18 },
+    ...extra
+  };
+}
+
+// A constant-product venue charging a 1% fee, 1M INTERN per ETH; null => no quote.
+let venue: { wethReserve: bigint; tokenReserve: bigint } | null = null;
+registerDexProvider({
+  name: "mock_venue",
+  getPrice: async () => null,
+  quoteExactInput: async (_cfg, _clients, _token, _weth, _side, amountIn) => {
+    if (!venue) return null;
+    const inAfterFee = (amountIn * 99n) / 100n;
+    return { amountOut: (venue.tokenReserve * inAfterFee) / (venue.wethReserve + inAfterFee) };
+  },
+  buildBuyCalldata: async () => null
+});
+const CLIENTS = { publicClient: { getGasPrice: async () => 0n } } as unknown as ChainClients;
+
+function pool(wethEth: bigint) {
+  return { wethReserve: wethEth * E18, tokenReserve: wethEth * 1_000_000n * E18 };
+}
+
+beforeEach(() => {
+  venue = pool(10n);
+});
+
+describe("cron schedule", () => {
+  it("finds the previous and next daily slot", () => {
+    const s = parseCron("0 14 * * *");
+    expect(previousCronTime(s, NOW)?.getTime()).toBe(SLOT_MS);
+    expect(nextCronTime(s, NOW)?.toISOString()).toBe("2026-10-16T14:00:00.000Z");
+    // exactly on the slot counts as due
+    expect(previousCronTime(s, new Date(SLOT_MS))?.getTime()).toBe(SLOT_MS);
+  });
+
+  it("supports steps, ranges and day-of-week", () => {
+    const s = parseCron("*/15 9-17 * * 1-5");
+    expect(previousCronTime(s, NOW)?.toISOString()).toBe("2026-10-15T15:30:00.000Z");
+    // Friday 17:45 -> Monday 09:00
+    expect(nextCronTime(s, new Date(Date.UTC(2026, 9, 16, 17, 45)))?.toISOString()).toBe(
+      "2026-10-19T09:00:00.000Z"
+    );
+    expect(parseCron("0 0 * * 7").daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it("finds Feb 29 slots up to eight years apart", () => {
+    const leap = parseCron("0 12 29 2 *");
+    expect(previousCronTime(leap, NOW)?.toISOString()).toBe("2024-02-29T12:00:00.000Z");
+    expect(nextCronTime(leap, NOW)?.toISOString()).toBe("2028-02-29T12:00:00.000Z");
+    // 2100 is not a leap year
+    expect(nextCronTime(leap, new Date(Date.UTC(2096, 2, 1)))?.toISOString()).toBe("2104-02-29T12:00:00.000Z");
+    expect(nextCronTime(parseCron("0 0 30 2 *"), NOW)).toBeNull();
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("0 14 * *")).toThrow(/5 fields/);
+    expect(() => parseCron("0 24 * * *")).toThrow(/invalid cron hour/);
+    expect(() => parseCron("0 14 * * mon")).toThrow(/day-of-week/);
+  });
+});
+
+describe("DCA scheduler", () => {
+  it("runs each slot once, collapsing missed slots into the latest", () => {
+    expect(dueDcaSlot(cfg(), {}, NOW)?.getTime()).toBe(SLOT_MS);
+    expect(dueDcaSlot(cfg(), { dcaLastSlotMs: SLOT_MS }, NOW)).toBeNull();
+    expect(dueDcaSlot(cfg(), { dcaLastSlotMs: SLOT_MS - 3 * 86_400_000 }, NOW)?.getTime()).toBe(SLOT_MS);
+    expect(dueDcaSlot(cfg({ DCA_ENABLED: false }), {}, NOW)).toBeNull();
+  });
+
+  it("plans an ETH installment that passes the guardrails", async () => {
+    const c = cfg();
+    const plan = (await planDcaInstallment(c, {}, ctx(c), CLIENTS))!;
+
+    expect(plan.proposal).toMatchObject({ action: "BUY", buySpendWei: E18 / 100n });
+    expect(plan.proposal?.rationale).toBe("dca: 0.01 ETH installment for 2026-10-15T14:00Z");
+
+    const d = enforceGuardrails(plan.proposal!, ctx(c));
+    expect(d).toMatchObject({ action: "BUY", buySpendWei: E18 / 100n, shouldExecute: true });
+  });
+
+  it("quotes the installment itself, leaving the pool fee out", async () => {
+    // 0.01 ETH into 10 ETH of depth: ~10bps, well under the limit even though the venue takes 1%
+    const c = cfg();
+    expect((await planDcaInstallment(c, {}, ctx(c), CLIENTS))!.proposal).not.toBeNull();
+
+    const half = cfg({ DCA_AMOUNT: "0.5" });
+    const plan = (await planDcaInstallment(half, {}, ctx(half), CLIENTS))!;
+    expect(plan.proposal).toBeNull();
+    expect(plan.skipReason).toBe("price impact 494bps > 100bps");
+
+    // larger than MAX_SPEND_ETH_PER_TRADE: the guardrails clamp it, so it is quoted at the cap
+    venue = pool(150n);
+    const big = cfg({ DCA_AMOUNT: "5" });
+    expect((await planDcaInstallment(big, {}, ctx(big), CLIENTS))!.proposal).not.toBeNull();
+    venue = null;
+    expect((await planDcaInstallment(c, {}, ctx(c), CLIENTS))!.skipReason).toBe("price impact unknown (no quote)");
+  });
+
+  it("clamps to the lifetime cap and stops once it is spent", async () => {
+    const c = cfg({ DCA_MAX_TOTAL: "0.025" });
+
+    const last = (await planDcaInstallment(c, { dcaSpentRaw: (2n * 10n ** 16n).toString() }, ctx(c), CLIENTS))!;
+    expect(last.amountRaw).toBe(5n * 10n ** 15n);
+
+    const done = (await planDcaInstallment(c, { dcaSpentRaw: (25n * 10n ** 15n).toString() }, ctx(c), CLIENTS))!;
+    expect(done.skipReason).toBe("DCA_MAX_TOTAL reached (0.025 ETH)");
+  });
+
+  it("buys with USDC through a portfolio rotation", async () => {
+    const c = cfg({
+      DCA_ASSET: "USDC",
+      DCA_AMOUNT: "25",
+      PORTFOLIO_TOKENS: [
+        { symbol: "USDC", address: USDC, decimals: 6, poolStable: false, maxEthPerTrade: "0", maxWeightBps: 0 }
+      ]
+    });
+    const portfolio: Portfolio = {
+      ethWei: 0n,
+      holdings: [
+        {
+          symbol: "USDC",
+          address: USDC,
+          decimals: 6,
+          balanceRaw: 100_000_000n,
+          priceWei: 4n * 10n ** 14n,
+          valueWei: 4n * 10n ** 16n,
+          weightBps: null
+        }
+      ],
+      totalValueWei: 4n * 10n ** 16n,
+      unknown: []
+    };
+
+    const plan = (await planDcaInstallment(c, {}, ctx(c, { portfolio }), CLIENTS))!;
+    expect(plan.proposal).toMatchObject({
+      action: "ROTATE",
+      rotate: { from: "USDC", to: "INTERN", fractionBps: 10_000, amountRaw: 25_000_000n }
+    });
+    expect((await planDcaInstallment(c, {}, ctx(c), CLIENTS))!.skipReason).toBe("USDC price unknown");
+  });
+
+  it("records executed and skipped installments", async () => {
+    const c = cfg();
+    const plan = (await planDcaInstallment(c, {}, ctx(c), CLIENTS))!;
+    const decision = enforceGuardrails(plan.proposal!, ctx(c));
+
+    const first = recordDcaInstallment({} as DcaState, c, plan, decision, "0xabc", NOW);
+    expect(first.state).toMatchObject({
+      dcaLastSlotMs: SLOT_MS,
+      dcaExecutedCount: 1,
+      dcaSpentRaw: "10000000000000000"
+    });
+    expect(describeDcaInstallment(first.installment)).toBe("#1 0.01 ETH (slot 2026-10-15T14:00Z)");
+
+    const blocked = { ...decision, shouldExecute: false, blockedReason: "DRY_RUN=true" };
+    const skipped = recordDcaInstallment(first.state, c, plan, blocked, null, NOW);
+    expect(skipped.state).toMatchObject({ dcaExecutedCount: 1, dcaSpentRaw: "10000000000000000" });
+    expect(skipped.state.dcaInstallments).toHaveLength(2);
+    expect(describeDcaInstallment(skipped.installment)).toBe(
+      "skipped 0.01 ETH (slot 2026-10-15T14:00Z): DRY_RUN=true"
+    );
+  });
+});
+
+describe("DCA config", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of Object.keys(process.env)) if (key.startsWith("DCA_")) delete process.env[key];
+    delete process.env.TRADING_ENABLED;
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("defaults to a daily 14:00 UTC ETH buy, disabled", () => {
+    expect(loadConfig()).toMatchObject({
+      DCA_ENABLED: false,
+      DCA_SCHEDULE: "0 14 * * *",
+      DCA_ASSET: "ETH",
+      DCA_MAX_PRICE_IMPACT_BPS: 100
+    });
+  });
+
+  it("validates the schedule and asset when enabled", () => {
+    process.env.DCA_ENABLED = "true";
+    process.env.DCA_SCHEDULE = "every day";
+    expect(() => loadConfig()).toThrow(/5 fields/);
+
+    process.env.DCA_SCHEDULE = "0 0 31 4 *";
+    expect(() => loadConfig()).toThrow(/DCA_SCHEDULE never fires/);
+
+    process.env.DCA_SCHEDULE = "0 14 * * *";
+    process.env.DCA_ASSET = "USDC";
+    expect(() => loadConfig()).toThrow(/requires USDC in PORTFOLIO_TOKENS/);
+  });
+
+  it("validates amounts the way the scheduler parses them", () => {
+    process.env.DCA_ENABLED = "true";
+    process.env.DCA_AMOUNT = "5e-4";
+    expect(() => loadConfig()).toThrow(/DCA_AMOUNT must be a plain decimal > 0 in ETH units/);
+
+    process.env.DCA_AMOUNT = "0.0005";
+    process.env.DCA_MAX_TOTAL = "1e-1";
+    expect(() => loadConfig()).toThrow(/DCA_MAX_TOTAL must be a plain decimal >= 0/);
+
+    process.env.DCA_MAX_TOTAL = "0.1";
+    expect(loadConfig()).toMatchObject({ DCA_AMOUNT: "0.0005", DCA_MAX_TOTAL: "0.1" });
+  });
+});
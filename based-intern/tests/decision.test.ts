@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  enforceGuardrails,
+  holdOnRouteDepth,
+  holdOnSimulationRevert,
+  type DecisionContext
+} from "../src/agent/decision.js";
+import type { AppConfig } from "../src/config.js";
+
+const WALLET = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd" as `0x${string}`;
+
+function ctx(overrides: Partial<AppConfig> = {}, extra: Partial<DecisionContext> = {}): DecisionContext {
+  const cfg = {
+    TRADING_ENABLED: true,
+    KILL_SWITCH: false,
+    DRY_RUN: false,
+    ROUTER_TYPE: "aerodrome",
+    ROUTER_ADDRESS: "0x9999999999999999999999999999999999999999",
+    DAILY_TRADE_CAP: 5,
+    MIN_INTERVAL_MINUTES: 0,
+    MAX_SPEND_ETH_PER_TRADE: "0.001",
+    SELL_FRACTION_BPS: 500,
+    TWAP_MAX_DEVIATION_BPS: 0,
+    MAX_PRICE_IMPACT_BPS: 0,
+    MIN_POOL_TVL_ETH: "0",
+    ...overrides
+  } as AppConfig;
+
+  return {
+    cfg,
+    state: { tradesExecutedToday: 0, lastExecutedTradeAtMs: null },
+    now: new Date(1_700_000_000_000),
+    wallet: WALLET,
+    ethWei: 10n ** 18n,
+    internAmount: 1_000n * 10n ** 18n,
+    ...extra
+  };
+}
+
+const BUY = { action: "BUY" as const, rationale: "test" };
+
+describe("enforceGuardrails: TWAP deviation", () => {
+  it("ignores TWAP when the guardrail is disabled", () => {
+    expect(enforceGuardrails(BUY, ctx()).shouldExecute).toBe(true);
+  });
+
+  it("holds when spot is pushed away from the TWAP", () => {
+    const d = enforceGuardrails(
+      BUY,
+      ctx({ TWAP_MAX_DEVIATION_BPS: 300 }, { spotPriceWei: 1_050_000n, twapPriceWei: 1_000_000n })
+    );
+    expect(d.action).toBe("HOLD");
+    expect(d.blockedReason).toBe("spot deviates from TWAP by 500bps (max 300bps)");
+  });
+
+  it("allows trades within the band", () => {
+    const d = enforceGuardrails(
+      { action: "SELL", rationale: "test" },
+      ctx({ TWAP_MAX_DEVIATION_BPS: 300 }, { spotPriceWei: 990_000n, twapPriceWei: 1_000_000n })
+    );
+    expect(d.action).toBe("SELL");
+    expect(d.shouldExecute).toBe(true);
+  });
+
+  it("holds when no TWAP is available yet", () => {
+    const d = enforceGuardrails(BUY, ctx({ TWAP_MAX_DEVIATION_BPS: 300 }, { spotPriceWei: 1n, twapPriceWei: null }));
+    expect(d.blockedReason).toBe("TWAP unavailable (not enough price observations)");
+  });
+
+  it("does not gate HOLD proposals", () => {
+    const d = enforceGuardrails({ action: "HOLD", rationale: "test" }, ctx({ TWAP_MAX_DEVIATION_BPS: 300 }));
+    expect(d.blockedReason).toBeNull();
+  });
+});
+
+describe("enforceGuardrails: market depth", () => {
+  const ETH = 10n ** 18n;
+  // 2 ETH / 1M INTERN pool => 4 ETH TVL
+  const thinPool = { source: "aerodrome", tokenReserve: 1_000_000n * ETH, wethReserve: 2n * ETH };
+
+  it("holds a SELL that would move a thin pool too far", () => {
+    // 5% of a 1M bag into a 1M-token pool => ~476bps impact
+    const d = enforceGuardrails(
+      { action: "SELL", rationale: "test" },
+      ctx({ MAX_PRICE_IMPACT_BPS: 200 }, { internAmount: 1_000_000n * ETH, pool: thinPool })
+    );
+    expect(d.action).toBe("HOLD");
+    expect(d.blockedReason).toBe("price impact too high (476bps > 200bps)");
+  });
+
+  it("allows a BUY within the impact cap", () => {
+    // 0.001 ETH into 2 ETH of WETH reserve => 5bps
+    const d = enforceGuardrails(BUY, ctx({ MAX_PRICE_IMPACT_BPS: 200 }, { pool: thinPool }));
+    expect(d.shouldExecute).toBe(true);
+    expect(d.buySpendWei).toBe(10n ** 15n);
+  });
+
+  it("holds when pool TVL is below the floor", () => {
+    const d = enforceGuardrails(BUY, ctx({ MIN_POOL_TVL_ETH: "10" }, { pool: thinPool }));
+    expect(d.blockedReason).toBe("pool TVL too low (4 ETH < 10 ETH)");
+  });
+
+  it("holds when pool state is unknown and a depth check is enabled", () => {
+    const d = enforceGuardrails(BUY, ctx({ MAX_PRICE_IMPACT_BPS: 200 }, { pool: null }));
+    expect(d.blockedReason).toBe("pool state unavailable (cannot check liquidity/price impact)");
+  });
+});
+
+describe("enforceGuardrails: notional budget", () => {
+  const ETH = 10n ** 18n;
+  const spent = { tradesExecutedToday: 1, lastExecutedTradeAtMs: null };
+
+  it("holds a BUY once the rolling budget is used up", () => {
+    const state = { ...spent, tradeNotionals: [{ atMs: 1_700_000_000_000 - 60_000, side: "BUY", ethWei: "1000000000000000" }] };
+    const d = enforceGuardrails(BUY, ctx({ MAX_BUY_ETH_24H: "0.0015" }, { state }));
+    expect(d.blockedReason).toBe("24h buy budget exceeded (0.002 ETH > 0.0015 ETH)");
+  });
+
+  it("values a SELL before checking the sell budget", () => {
+    const pool = { source: "aerodrome", tokenReserve: 1_000_000n * ETH, wethReserve: 100n * ETH };
+    // 5% of 1,000 INTERN => 50 INTERN => ~0.005 ETH
+    const d = enforceGuardrails(
+      { action: "SELL", rationale: "test" },
+      ctx({ MAX_SELL_ETH_24H: "0.001" }, { state: spent, pool })
+    );
+    expect(d.blockedReason).toMatch(/^24h sell budget exceeded \(0\.00499/);
+  });
+
+  it("holds a SELL it cannot value", () => {
+    const d = enforceGuardrails({ action: "SELL", rationale: "test" }, ctx({ MAX_SELL_ETH_24H: "1" }));
+    expect(d.blockedReason).toBe("sell notional unknown (no pool or spot price)");
+  });
+});
+
+describe("enforceGuardrails: drawdown breaker", () => {
+  it("forces HOLD while the breaker is tripped", () => {
+    const state = {
+      tradesExecutedToday: 0,
+      lastExecutedTradeAtMs: null,
+      drawdownBreakerTrippedAtMs: 1_699_999_000_000,
+      drawdownBreakerReason: "drawdown 25.00% > 20%"
+    };
+    const d = enforceGuardrails(BUY, ctx({}, { state }));
+    expect(d.action).toBe("HOLD");
+    expect(d.blockedReason).toBe("drawdown breaker tripped (drawdown 25.00% > 20%); operator reset required");
+  });
+});
+
+describe("holdOnRouteDepth", () => {
+  const ETH = 10n ** 18n;
+  const deepPool = { source: "aerodrome", tokenReserve: 1_000_000n * ETH, wethReserve: 100n * ETH };
+  const thinPool = { source: "uniswap_v3", tokenReserve: 10_000n * ETH, wethReserve: ETH / 100n };
+
+  it("holds when the chosen route's pool is too thin, though ctx.pool passed", () => {
+    const c = ctx({ MAX_PRICE_IMPACT_BPS: 200 }, { pool: deepPool });
+    const d = holdOnRouteDepth(c.cfg, enforceGuardrails(BUY, c), thinPool);
+    expect(d.action).toBe("HOLD");
+    expect(d.blockedReason).toBe("chosen route: price impact too high (1000bps > 200bps)");
+  });
+
+  it("keeps the trade when the chosen route's pool passes", () => {
+    const c = ctx({ MAX_PRICE_IMPACT_BPS: 200 }, { pool: deepPool });
+    expect(holdOnRouteDepth(c.cfg, enforceGuardrails(BUY, c), deepPool).action).toBe("BUY");
+  });
+});
+
+describe("holdOnSimulationRevert", () => {
+  it("turns a reverting trade into a HOLD with the decoded reason", () => {
+    const d = holdOnSimulationRevert(enforceGuardrails(BUY, ctx()), { ok: false, reason: "Router: EXPIRED" });
+    expect(d.action).toBe("HOLD");
+    expect(d.shouldExecute).toBe(false);
+    expect(d.blockedReason).toBe("simulation reverted: Router: EXPIRED");
+  });
+
+  it("keeps the trade when simulation passes", () => {
+    const d = holdOnSimulationRevert(enforceGuardrails(BUY, ctx()), { ok: true });
+    expect(d.action).toBe("BUY");
+  });
+});
+
+describe("enforceGuardrails: fees", () => {
+  const spike = {
+    baseFeePerGas: 5_000_000_000n,
+    maxPriorityFeePerGas: 1_000_000n,
+    maxFeePerGas: 10_001_000_000n,
+    l1FeeWei: null,
+    deferral: null
+  };
+
+  it("defers a trade during a base fee spike", () => {
+    const d = enforceGuardrails(BUY, ctx({ MAX_FEE_PER_GAS_GWEI: "1" }, { fees: spike }));
+    expect(d.blockedReason).toBe("deferred: L2 fee spike (5.001 gwei > 1 gwei)");
+  });
+
+  it("holds when fee ceilings are set but fees are unknown", () => {
+    const d = enforceGuardrails(BUY, ctx({ MAX_GAS_COST_BPS: 100 }));
+    expect(d.blockedReason).toBe("fee data unavailable");
+  });
+});
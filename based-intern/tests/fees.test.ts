@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseGwei } from "viem";
+import { checkFeeCeilings, estimateTxCostWei, quoteFees, resolvePriorityFee, type FeeQuote } from "../src/chain/fees.js";
+import type { AppConfig } from "../src/config.js";
+import type { ChainClients } from "../src/chain/client.js";
+
+function cfg(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    MAX_FEE_PER_GAS_GWEI: "0",
+    PRIORITY_FEE_STRATEGY: "fixed",
+    PRIORITY_FEE_GWEI: "0.001",
+    PRIORITY_FEE_PERCENTILE: 50,
+    MAX_L1_FEE_ETH: "0",
+    MAX_GAS_COST_BPS: 0,
+    ...overrides
+  } as AppConfig;
+}
+
+function mockClients(opts: { baseFee?: bigint; rewards?: bigint[]; l1Fee?: bigint | null }): ChainClients {
+  return {
+    publicClient: {
+      getBlock: vi.fn(async () => ({ baseFeePerGas: opts.baseFee ?? parseGwei("0.01") })),
+      getFeeHistory: vi.fn(async () => ({ reward: (opts.rewards ?? []).map((r) => [r]) })),
+      readContract: vi.fn(async () => {
+        if (opts.l1Fee == null) throw new Error("not an OP-stack chain");
+        return opts.l1Fee;
+      })
+    },
+    walletClient: null,
+    walletAddress: "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd"
+  } as unknown as ChainClients;
+}
+
+function fees(overrides: Partial<FeeQuote> = {}): FeeQuote {
+  return {
+    baseFeePerGas: parseGwei("0.01"),
+    maxPriorityFeePerGas: parseGwei("0.001"),
+    maxFeePerGas: parseGwei("0.021"),
+    l1FeeWei: 10n ** 12n,
+    deferral: null,
+    ...overrides
+  };
+}
+
+describe("resolvePriorityFee", () => {
+  it("uses the fixed fee by default", async () => {
+    expect(await resolvePriorityFee(cfg(), mockClients({}))).toBe(parseGwei("0.001"));
+  });
+
+  it("takes the median of feeHistory rewards for the percentile strategy", async () => {
+    const clients = mockClients({ rewards: [5n, 1n, 100n, 3n, 4n] });
+    expect(await resolvePriorityFee(cfg({ PRIORITY_FEE_STRATEGY: "percentile" }), clients)).toBe(4n);
+  });
+
+  it("falls back to the fixed fee without history", async () => {
+    const clients = mockClients({ rewards: [] });
+    expect(await resolvePriorityFee(cfg({ PRIORITY_FEE_STRATEGY: "percentile" }), clients)).toBe(parseGwei("0.001"));
+  });
+});
+
+describe("quoteFees", () => {
+  it("gives 2x base fee headroom plus the priority fee", async () => {
+    const q = await quoteFees(cfg(), mockClients({ l1Fee: 42n }));
+    expect(q).toEqual({
+      baseFeePerGas: parseGwei("0.01"),
+      maxPriorityFeePerGas: parseGwei("0.001"),
+      maxFeePerGas: parseGwei("0.021"),
+      l1FeeWei: 42n,
+      deferral: null
+    });
+  });
+
+  it("caps maxFeePerGas at the configured ceiling", async () => {
+    const q = await quoteFees(cfg({ MAX_FEE_PER_GAS_GWEI: "0.015" }), mockClients({}));
+    expect(q?.maxFeePerGas).toBe(parseGwei("0.015"));
+    expect(q?.l1FeeWei).toBeNull();
+  });
+
+  it("defers instead of capping below the base fee", async () => {
+    const q = await quoteFees(cfg({ MAX_FEE_PER_GAS_GWEI: "0.005" }), mockClients({}));
+    expect(q?.maxFeePerGas).toBe(parseGwei("0.021"));
+    expect(q?.deferral).toBe("L2 base fee 0.01 gwei > MAX_FEE_PER_GAS_GWEI 0.005 gwei");
+    expect(checkFeeCeilings(cfg(), q as FeeQuote, 200_000n, 10n ** 16n)).toBe(q?.deferral);
+  });
+});
+
+describe("checkFeeCeilings", () => {
+  it("passes under every ceiling", () => {
+    const c = cfg({ MAX_FEE_PER_GAS_GWEI: "1", MAX_L1_FEE_ETH: "0.0001", MAX_GAS_COST_BPS: 100 });
+    expect(checkFeeCeilings(c, fees(), 200_000n, 10n ** 16n)).toBeNull();
+  });
+
+  it("defers on an L2 base fee spike", () => {
+    const spike = fees({ baseFeePerGas: parseGwei("2") });
+    expect(checkFeeCeilings(cfg({ MAX_FEE_PER_GAS_GWEI: "1" }), spike, 200_000n, 10n ** 16n)).toBe(
+      "L2 fee spike (2.001 gwei > 1 gwei)"
+    );
+  });
+
+  it("defers on an L1 data fee spike", () => {
+    const spike = fees({ l1FeeWei: 10n ** 15n });
+    expect(checkFeeCeilings(cfg({ MAX_L1_FEE_ETH: "0.0001" }), spike, 200_000n, 10n ** 16n)).toBe(
+      "L1 data fee spike (0.001 ETH > 0.0001 ETH)"
+    );
+  });
+
+  it("caps total gas cost relative to trade size", () => {
+    // 200k * 0.011 gwei + 1e12 = 3.2e12 wei vs a 1e14 trade => 320 bps
+    expect(estimateTxCostWei(fees(), 200_000n)).toBe(3_200_000_000_000n);
+    expect(checkFeeCeilings(cfg({ MAX_GAS_COST_BPS: 100 }), fees(), 200_000n, 10n ** 14n)).toBe(
+      "gas cost too high vs trade size (320bps > 100bps)"
+    );
+  });
+});
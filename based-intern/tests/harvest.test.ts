@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Address } from "viem";
+import {
+  compoundBuyProposal,
+  compoundSaleProposal,
+  compoundSkipReason,
+  describeHarvest,
+  harvestDue,
+  harvestTotals,
+  planHarvestClaims,
+  readGaugeRewards,
+  recordHarvest,
+  type GaugeRewards,
+  type HarvestRecord,
+  type HarvestState
+} from "../src/agent/harvest.js";
+import { buildGaugeClaimCalldata } from "../src/chain/gauge.js";
+import type { ChainClients } from "../src/chain/client.js";
+import { enforceGuardrails } from "../src/agent/decision.js";
+import type { Portfolio } from "../src/agent/portfolio.js";
+import type { FeeQuote } from "../src/chain/fees.js";
+import { loadConfig, type AppConfig } from "../src/config.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const E18 = 10n ** 18n;
+const GWEI = 10n ** 9n;
+const NOW = new Date(Date.UTC(2026, 9, 15, 12, 0));
+const GAUGE = "0x3333333333333333333333333333333333333333" as Address;
+const AERO_POOL = "0x5555555555555555555555555555555555555555" as Address;
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+
+const cfg = {
+  HARVEST_ENABLED: true,
+  HARVEST_INTERVAL_MINUTES: 360,
+  HARVEST_MIN_GAS_MULTIPLE: 5,
+  HARVEST_COMPOUND: true,
+  KILL_SWITCH: false,
+  MAX_FEE_PER_GAS_GWEI: "0",
+  MAX_L1_FEE_ETH: "0",
+  MAX_GAS_COST_BPS: 0,
+  AERO_ADDRESS: "0x940181a94A35A4569E4529A3CDfB74e38FD98631",
+  AERO_POOL_ADDRESS: AERO_POOL
+} as AppConfig;
+
+// 1 gwei all-in: a claim costs 150k gwei = 0.00015 ETH, so the 5x threshold is 0.00075 ETH
+const fees: FeeQuote = { baseFeePerGas: GWEI / 2n, maxPriorityFeePerGas: GWEI / 2n, l1FeeWei: 0n } as FeeQuote;
+
+function rewards(overrides: Partial<GaugeRewards> = {}): GaugeRewards {
+  return { pool: "WETH", label: "INTERN/WETH", gauge: GAUGE, earned: 10n * E18, valueWei: E18 / 1_000n, ...overrides };
+}
+
+describe("harvestDue", () => {
+  it("waits out HARVEST_INTERVAL_MINUTES and stops on the kill switch or a tripped breaker", () => {
+    expect(harvestDue(cfg, {}, NOW)).toBe(true);
+    expect(harvestDue(cfg, { harvestLastMs: NOW.getTime() - 60 * 60_000 }, NOW)).toBe(false);
+    expect(harvestDue(cfg, { harvestLastMs: NOW.getTime() - 360 * 60_000 }, NOW)).toBe(true);
+    expect(harvestDue({ ...cfg, KILL_SWITCH: true }, {}, NOW)).toBe(false);
+    expect(harvestDue(cfg, { drawdownBreakerTrippedAtMs: NOW.getTime() }, NOW)).toBe(false);
+    expect(harvestDue({ ...cfg, HARVEST_ENABLED: false }, {}, NOW)).toBe(false);
+  });
+});
+
+describe("planHarvestClaims", () => {
+  it("claims gauges whose rewards cover the gas multiple", () => {
+    const plan = planHarvestClaims(cfg, [rewards()], fees);
+    expect(plan.claims).toHaveLength(1);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  it("skips dust, unknown values and missing fee quotes with a reason", () => {
+    const plan = planHarvestClaims(
+      cfg,
+      [
+        rewards({ valueWei: E18 / 10_000n }),
+        rewards({ pool: "USDC", label: "INTERN/USDC", valueWei: null }),
+        rewards({ earned: 0n })
+      ],
+      fees
+    );
+
+    expect(plan.claims).toEqual([]);
+    expect(plan.skipped).toEqual([
+      "INTERN/WETH: rewards 0.0001 ETH < 5x claim gas (0.00075 ETH)",
+      "INTERN/USDC: AERO value unknown",
+      "INTERN/WETH: nothing earned"
+    ]);
+    expect(planHarvestClaims(cfg, [rewards()], null).skipped).toEqual(["INTERN/WETH: fee quote unavailable"]);
+  });
+
+  it("applies the fee ceilings with the rewards' value as the notional", () => {
+    const plan = planHarvestClaims({ ...cfg, MAX_FEE_PER_GAS_GWEI: "0.5" }, [rewards()], fees);
+    expect(plan.claims).toEqual([]);
+    expect(plan.skipped[0]).toMatch(/^INTERN\/WETH: L2 fee spike/);
+  });
+});
+
+describe("compounding", () => {
+  it("needs HARVEST_COMPOUND and proceeds covering the compound gas multiple", () => {
+    expect(compoundSkipReason({ ...cfg, HARVEST_COMPOUND: false }, E18, fees)).toBe("HARVEST_COMPOUND=false");
+    expect(compoundSkipReason(cfg, E18 / 1_000n, fees)).toBe("AERO worth 0.001 ETH < 5x compound gas (0.004 ETH)");
+    expect(compoundSkipReason(cfg, E18 / 100n, fees)).toBeNull();
+  });
+
+  it("proposes a BUY with half the proceeds for the guardrails", () => {
+    expect(compoundBuyProposal(E18 / 100n)).toMatchObject({ action: "BUY", buySpendWei: E18 / 200n });
+  });
+
+  it("sells AERO as a guarded rotation into WETH", () => {
+    const AERO = cfg.AERO_ADDRESS as Address;
+    const WETH = "0x4200000000000000000000000000000000000006" as Address;
+    const uncapped = { decimals: 18, poolStable: false, maxEthPerTrade: "0", maxWeightBps: 0 };
+    const trading = {
+      ...cfg,
+      TRADING_ENABLED: true,
+      DRY_RUN: false,
+      ROUTER_TYPE: "aerodrome",
+      ROUTER_ADDRESS: "0x9999999999999999999999999999999999999999",
+      WETH_ADDRESS: WETH,
+      DAILY_TRADE_CAP: 5,
+      MIN_INTERVAL_MINUTES: 0,
+      MAX_SPEND_ETH_PER_TRADE: "0.005",
+      TWAP_MAX_DEVIATION_BPS: 0,
+      MAX_PRICE_IMPACT_BPS: 0,
+      MIN_POOL_TVL_ETH: "0",
+      PORTFOLIO_TOKENS: [
+        { symbol: "AERO", address: AERO, pool: AERO_POOL, ...uncapped },
+        { symbol: "WETH", address: WETH, ...uncapped }
+      ]
+    } as AppConfig;
+    // 10 AERO at 0.001 ETH each
+    const portfolio: Portfolio = {
+      ethWei: E18,
+      holdings: [
+        { symbol: "AERO", address: AERO, balanceRaw: 10n * E18, priceWei: E18 / 1_000n, valueWei: E18 / 100n },
+        { symbol: "WETH", address: WETH, balanceRaw: 0n, priceWei: E18, valueWei: 0n }
+      ].map((h) => ({ ...h, decimals: 18, weightBps: null })),
+      totalValueWei: E18 + E18 / 100n,
+      unknown: []
+    };
+    const ctx = {
+      cfg: trading,
+      state: { tradesExecutedToday: 0, lastExecutedTradeAtMs: null },
+      now: NOW,
+      wallet: WALLET,
+      ethWei: E18,
+      internAmount: 0n,
+      portfolio
+    };
+
+    const sale = enforceGuardrails(compoundSaleProposal(10n * E18), ctx);
+    // MAX_SPEND_ETH_PER_TRADE caps the sale at 5 AERO
+    expect(sale).toMatchObject({ action: "ROTATE", shouldExecute: true });
+    expect(sale.rotation).toMatchObject({ amountIn: 5n * E18, notionalWei: E18 / 200n });
+
+    const off = { ...ctx, cfg: { ...trading, TRADING_ENABLED: false } };
+    expect(enforceGuardrails(compoundSaleProposal(10n * E18), off).blockedReason).toBe("TRADING_ENABLED=false");
+  });
+});
+
+describe("recordHarvest", () => {
+  const executed: HarvestRecord = {
+    status: "executed",
+    claims: [{ pool: "WETH", aero: (10n * E18).toString(), valueWei: (E18 / 100n).toString(), txHash: "0x01" }],
+    compound: {
+      aeroIn: (10n * E18).toString(),
+      ethOutWei: (E18 / 100n).toString(),
+      buySpendWei: (E18 / 200n).toString(),
+      tokenBought: (5_000n * E18).toString(),
+      lp: null,
+      blockedReason: "DAILY_TRADE_CAP reached"
+    },
+    txHashes: ["0x01", "0x02", "0x03", "0x04"],
+    error: null,
+    atMs: NOW.getTime()
+  };
+
+  it("restarts the interval and keeps lifetime totals for campaign posts", () => {
+    const empty: HarvestState = {};
+    const state = recordHarvest(recordHarvest(empty, executed), executed);
+
+    expect(state.harvestLastMs).toBe(NOW.getTime());
+    expect(harvestTotals(state)).toEqual({
+      harvests: 2,
+      claimedAero: "20",
+      compoundedEth: "0.02",
+      lastHarvestAt: "2026-10-15T12:00:00.000Z"
+    });
+    expect(describeHarvest(executed, 18)).toBe(
+      "claim 10 AERO (~0.01 ETH) from INTERN/WETH gauge; compound: sell for 0.01 ETH, " +
+        "buy 5000 INTERN for 0.005 ETH, stopped: DAILY_TRADE_CAP reached (executed)"
+    );
+  });
+
+  it("does not restart the interval when every claim failed", () => {
+    const failed: HarvestRecord = { ...executed, status: "failed", claims: [], compound: null, error: "boom" };
+    const last: HarvestState = { harvestLastMs: 1 };
+    const state = recordHarvest(last, failed);
+
+    expect(state.harvestLastMs).toBe(1);
+    expect(state.harvestClaimedAeroRaw).toBe("0");
+    expect(describeHarvest(failed, 18)).toMatch(/\(failed: boom\)$/);
+  });
+});
+
+describe("gauge reward reads", () => {
+  it("reads earned() per gauge and values it through the AERO pool", async () => {
+    const readContract = vi.fn(async ({ functionName }: { functionName: string }) =>
+      functionName === "earned" ? 10n * E18 : E18 / 100n
+    );
+    const clients = { publicClient: { readContract } } as unknown as ChainClients;
+    const pools = [{ key: "WETH" as const, label: "INTERN/WETH", pool: GAUGE, stable: false, gauge: GAUGE }];
+
+    const [r] = await readGaugeRewards(cfg, clients, pools, WALLET);
+
+    expect(r).toMatchObject({ earned: 10n * E18, valueWei: E18 / 100n });
+    expect(readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: AERO_POOL, functionName: "getAmountOut" })
+    );
+    expect(buildGaugeClaimCalldata(GAUGE, WALLET).data.slice(0, 10)).toBe("0xc00007b0"); // getReward(address)
+  });
+});
+
+describe("harvest config", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of ["LP_ENABLED", "GAUGE_ADDRESS_WETH", "GAUGE_ADDRESS_USDC", "AERO_POOL_ADDRESS"]) {
+      delete process.env[key];
+    }
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.HARVEST_ENABLED = "true";
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("requires a gauge to harvest from", () => {
+    expect(() => loadConfig()).toThrow(/HARVEST_ENABLED=true requires GAUGE_ADDRESS_WETH or GAUGE_ADDRESS_USDC/);
+  });
+
+  it("requires AERO and WETH in PORTFOLIO_TOKENS to compound", () => {
+    process.env.GAUGE_ADDRESS_WETH = GAUGE;
+    process.env.ROUTER_ADDRESS = "0x9999999999999999999999999999999999999999";
+    process.env.WETH_ADDRESS = "0x4200000000000000000000000000000000000006";
+    process.env.AERO_POOL_ADDRESS = AERO_POOL;
+    process.env.HARVEST_COMPOUND = "true";
+    process.env.LP_ENABLED = "true";
+    process.env.TOKEN_ADDRESS = "0x1111111111111111111111111111111111111111";
+    process.env.POOL_ADDRESS = "0x2222222222222222222222222222222222222222";
+    expect(() => loadConfig()).toThrow(/HARVEST_COMPOUND=true requires AERO and WETH in PORTFOLIO_TOKENS/);
+
+    process.env.PORTFOLIO_TOKENS =
+      "AERO:0x940181a94A35A4569E4529A3CDfB74e38FD98631,WETH:0x4200000000000000000000000000000000000006";
+    const aero = loadConfig().PORTFOLIO_TOKENS.find((t) => t.symbol === "AERO");
+    expect(aero?.pool).toBe(AERO_POOL);
+  });
+
+  it("requires the AERO pool and defaults to claim-only every 6h", () => {
+    process.env.GAUGE_ADDRESS_WETH = GAUGE;
+    process.env.ROUTER_ADDRESS = "0x9999999999999999999999999999999999999999";
+    process.env.WETH_ADDRESS = "0x4200000000000000000000000000000000000006";
+    expect(() => loadConfig()).toThrow(/AERO_POOL_ADDRESS must be a valid Ethereum address/);
+
+    process.env.AERO_POOL_ADDRESS = AERO_POOL;
+    expect(loadConfig()).toMatchObject({
+      HARVEST_COMPOUND: false,
+      HARVEST_INTERVAL_MINUTES: 360,
+      HARVEST_MIN_GAS_MULTIPLE: 5,
+      AERO_ADDRESS: "0x940181a94A35A4569E4529A3CDfB74e38FD98631"
+    });
+  });
+});
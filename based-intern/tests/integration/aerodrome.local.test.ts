@@ -0,0 +1,229 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, inject, it, vi } from "vitest";
+import {
+  encodeFunctionData,
+  erc20Abi,
+  parseEther,
+  type Abi,
+  type Address,
+  type Hex,
+  type TransactionReceipt
+} from "viem";
+import { deployContract, sendTransaction } from "viem/actions";
+import type { AppConfig } from "../../src/config.js";
+import { createChainClients, type ChainClients } from "../../src/chain/client.js";
+import { createLocalSigner } from "../../src/chain/signer.js";
+import { AerodromeAdapter } from "../../src/chain/dex/aerodromeAdapter.js";
+import { buildAddLiquidityETHCalldata, buildRemoveLiquidityETHCalldata } from "../../src/chain/aerodrome.js";
+
+vi.mock("../../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+// Hardhat's first default account (funded with 10k ETH on every local node).
+const HARDHAT_KEY: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const E18 = 10n ** 18n;
+const SEED_ETH = 10n * E18;
+const SEED_INTERN = 10_000_000n * E18;
+
+type Artifact = { abi: Abi; bytecode: Hex };
+
+function artifact(source: string, name: string): Artifact {
+  const file = path.resolve("artifacts/contracts", source, `${name}.json`);
+  const json = JSON.parse(readFileSync(file, "utf8")) as Artifact;
+  return { abi: json.abi, bytecode: json.bytecode };
+}
+
+const WETH = artifact("mocks/MockAerodrome.sol", "MockWETH");
+const ROUTER = artifact("mocks/MockAerodrome.sol", "MockAerodromeRouter");
+const TOKEN = artifact("BasedInternToken.sol", "BasedInternToken");
+
+let clients: ChainClients;
+let wallet: Address;
+let cfg: AppConfig;
+let token: Address;
+let weth: Address;
+let router: Address;
+let pool: Address;
+
+async function send(to: Address, data: Hex, value = 0n): Promise<TransactionReceipt> {
+  const hash = await sendTransaction(clients.walletClient!, { to, data, value } as Parameters<
+    typeof sendTransaction
+  >[1]);
+  const receipt = await clients.publicClient.waitForTransactionReceipt({ hash });
+  expect(receipt.status).toBe("success");
+  return receipt;
+}
+
+async function deploy(a: Artifact, args: unknown[] = []): Promise<Address> {
+  const walletClient = clients.walletClient!;
+  const hash = await deployContract(walletClient, {
+    abi: a.abi,
+    bytecode: a.bytecode,
+    args,
+    account: walletClient.account!,
+    chain: walletClient.chain
+  });
+  const receipt = await clients.publicClient.waitForTransactionReceipt({ hash });
+  return receipt.contractAddress!;
+}
+
+async function approve(erc20: Address, spender: Address, amount: bigint): Promise<TransactionReceipt> {
+  return send(erc20, encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [spender, amount] }));
+}
+
+async function balanceOf(erc20: Address, owner: Address = wallet): Promise<bigint> {
+  return clients.publicClient.readContract({ address: erc20, abi: erc20Abi, functionName: "balanceOf", args: [owner] });
+}
+
+function gasCost(r: TransactionReceipt): bigint {
+  return r.gasUsed * r.effectiveGasPrice;
+}
+
+beforeAll(async () => {
+  const base = {
+    CHAIN: "base-sepolia",
+    RPC_URL: inject("hardhatRpcUrl"),
+    RPC_FALLBACK_RANK: false,
+    RPC_RANK_INTERVAL_MS: 60_000
+  } as AppConfig;
+  clients = createChainClients(base, createLocalSigner(HARDHAT_KEY));
+  wallet = clients.walletAddress;
+
+  weth = await deploy(WETH);
+  token = await deploy(TOKEN);
+  router = await deploy(ROUTER, [weth]);
+
+  await send(router, encodeFunctionData({ abi: ROUTER.abi, functionName: "createPool", args: [token, weth, false] }));
+  pool = (await clients.publicClient.readContract({
+    address: router,
+    abi: ROUTER.abi,
+    functionName: "poolFor",
+    args: [token, weth, false, router]
+  })) as Address;
+
+  // Seed 10 ETH / 10M INTERN => 1e-6 ETH per INTERN.
+  await approve(token, router, SEED_INTERN);
+  await send(
+    router,
+    encodeFunctionData({
+      abi: ROUTER.abi,
+      functionName: "addLiquidityETH",
+      args: [token, false, SEED_INTERN, 0n, 0n, wallet, BigInt(Math.floor(Date.now() / 1000) + 600)]
+    }),
+    SEED_ETH
+  );
+
+  cfg = {
+    ...base,
+    ROUTER_TYPE: "aerodrome",
+    ROUTER_ADDRESS: router,
+    WETH_ADDRESS: weth,
+    POOL_ADDRESS: pool,
+    TOKEN_ADDRESS: token,
+    AERODROME_STABLE: false,
+    SLIPPAGE_BPS: 100,
+    MAX_SPEND_ETH_PER_TRADE: "0.1",
+    TOKEN_DECIMALS: 18
+  } as AppConfig;
+});
+
+describe("AerodromeAdapter against a local mock pool", () => {
+  it("reads reserves and prices the pool", async () => {
+    expect(await AerodromeAdapter.getPoolReserves(cfg, clients, token, weth)).toEqual({
+      source: "aerodrome",
+      tokenReserve: SEED_INTERN,
+      wethReserve: SEED_ETH
+    });
+
+    const price = await AerodromeAdapter.getPrice(cfg, clients, token, weth);
+    expect(price?.source).toBe("aerodrome");
+    // 1e12 wei per INTERN plus the 0.30% fee, and a 0.1 ETH buy moves a 10 ETH pool ~1%
+    expect(price!.midPriceWei! / 10n ** 9n).toBe(1_003n);
+    expect(price!.priceImpactBps).toBeGreaterThan(90);
+    expect(price!.priceImpactBps).toBeLessThan(110);
+  });
+
+  it("BUY: executes the adapter's calldata and receives the quoted INTERN", async () => {
+    const spend = parseEther("0.1");
+    const quote = await AerodromeAdapter.quoteExactInput(cfg, clients, token, weth, "BUY", spend);
+    const tx = await AerodromeAdapter.buildBuyCalldata(cfg, clients, token, weth, wallet, spend);
+    expect(tx).toMatchObject({ to: router, value: spend });
+
+    const before = await balanceOf(token);
+    await send(tx!.to, tx!.calldata, tx!.value);
+
+    expect((await balanceOf(token)) - before).toBe(quote!.amountOut);
+  });
+
+  it("approve + SELL: sells INTERN for the quoted ETH", async () => {
+    const amount = 50_000n * E18;
+    const tx = await AerodromeAdapter.buildSellCalldata(cfg, clients, token, weth, wallet, amount);
+    expect(tx).toMatchObject({ to: router, value: undefined });
+
+    // without an allowance the router's transferFrom reverts
+    await expect(send(tx!.to, tx!.calldata)).rejects.toThrow();
+
+    await approve(token, router, amount);
+    expect(
+      await clients.publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [wallet, router]
+      })
+    ).toBe(amount);
+
+    const quote = await AerodromeAdapter.quoteExactInput(cfg, clients, token, weth, "SELL", amount);
+    const ethBefore = await clients.publicClient.getBalance({ address: wallet });
+    const tokenBefore = await balanceOf(token);
+    const sell = await send(tx!.to, tx!.calldata);
+
+    expect(tokenBefore - (await balanceOf(token))).toBe(amount);
+    const ethAfter = await clients.publicClient.getBalance({ address: wallet });
+    expect(ethAfter - ethBefore + gasCost(sell)).toBe(quote!.amountOut);
+  });
+
+  it("adds and removes INTERN/WETH liquidity through the router", async () => {
+    const reservesBefore = await AerodromeAdapter.getPoolReserves(cfg, clients, token, weth);
+    const lpBefore = await balanceOf(pool);
+    const ethIn = parseEther("0.5");
+
+    await approve(token, router, 1_000_000n * E18);
+    const add = buildAddLiquidityETHCalldata({
+      token,
+      stable: false,
+      amountTokenDesired: 1_000_000n * E18,
+      amountTokenMin: 0n,
+      amountETHMin: ethIn,
+      to: wallet
+    });
+    await send(router, add.calldata, add.value);
+
+    const reservesAfterAdd = await AerodromeAdapter.getPoolReserves(cfg, clients, token, weth);
+    expect(reservesAfterAdd!.wethReserve - reservesBefore!.wethReserve).toBe(ethIn);
+    const minted = (await balanceOf(pool)) - lpBefore;
+    expect(minted).toBeGreaterThan(0n);
+
+    await approve(pool, router, minted);
+    const tokenBefore = await balanceOf(token);
+    const remove = buildRemoveLiquidityETHCalldata({
+      token,
+      stable: false,
+      liquidity: minted,
+      amountTokenMin: 0n,
+      amountETHMin: 0n,
+      to: wallet
+    });
+    await send(router, remove.calldata);
+
+    expect(await balanceOf(pool)).toBe(lpBefore);
+    expect(await balanceOf(token)).toBeGreaterThan(tokenBefore);
+    const reservesAfterRemove = await AerodromeAdapter.getPoolReserves(cfg, clients, token, weth);
+    // rounding in the pool's favour only
+    expect(reservesAfterRemove!.wethReserve).toBeGreaterThanOrEqual(reservesBefore!.wethReserve);
+    expect(reservesAfterRemove!.wethReserve - reservesBefore!.wethReserve).toBeLessThan(10n);
+  });
+});
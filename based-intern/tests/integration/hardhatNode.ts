@@ -0,0 +1,70 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import path from "node:path";
+import type { GlobalSetupContext } from "vitest/node";
+
+/**
+ * Vitest global setup for the integration suite: starts `hardhat node` as a
+ * child process answering as Base Sepolia (chainId 84532), waits until it
+ * serves JSON-RPC, and stops it when the run ends.
+ */
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    hardhatRpcUrl: string;
+  }
+}
+
+const BASE_SEPOLIA_CHAIN_ID = 84532;
+const STARTUP_TIMEOUT_MS = 30_000;
+
+async function chainId(url: string): Promise<number | null> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] })
+    });
+    const json = (await res.json()) as { result?: string };
+    return json.result ? parseInt(json.result, 16) : null;
+  } catch {
+    return null;
+  }
+}
+
+export default async function setup({ provide }: GlobalSetupContext): Promise<() => void> {
+  const port = process.env.HARDHAT_NODE_PORT || "8546";
+  const url = `http://127.0.0.1:${port}`;
+
+  if ((await chainId(url)) !== null) {
+    throw new Error(`port ${port} is already serving JSON-RPC; stop that node or set HARDHAT_NODE_PORT`);
+  }
+
+  const cli = path.resolve("node_modules/hardhat/internal/cli/bootstrap.js");
+  const child: ChildProcess = spawn(process.execPath, [cli, "node", "--hostname", "127.0.0.1", "--port", port], {
+    env: { ...process.env, HARDHAT_CHAIN_ID: String(BASE_SEPOLIA_CHAIN_ID) },
+    stdio: "ignore"
+  });
+
+  const stop = () => {
+    if (child.exitCode === null) child.kill();
+  };
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  for (;;) {
+    const id = await chainId(url);
+    if (id === BASE_SEPOLIA_CHAIN_ID) break;
+    if (id !== null) {
+      stop();
+      throw new Error(`hardhat node answered with chainId ${id}, expected ${BASE_SEPOLIA_CHAIN_ID}`);
+    }
+    if (child.exitCode !== null) throw new Error(`hardhat node exited with code ${child.exitCode}`);
+    if (Date.now() > deadline) {
+      stop();
+      throw new Error(`hardhat node did not start within ${STARTUP_TIMEOUT_MS}ms`);
+    }
+    await new Promise((r) => setTimeout(r, 250));
+  }
+
+  provide("hardhatRpcUrl", url);
+  return stop;
+}
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Address } from "viem";
+import {
+  describeLpAction,
+  lpPoolsFromConfig,
+  lpPositionsValueWei,
+  planLpActions,
+  readLpPosition,
+  recordLpAction,
+  type LpPosition,
+  type LpState
+} from "../src/agent/lpManager.js";
+import { buildGaugeDepositCalldata } from "../src/chain/gauge.js";
+import type { ChainClients } from "../src/chain/client.js";
+import { loadConfig, type AppConfig } from "../src/config.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const E18 = 10n ** 18n;
+const NOW = new Date(Date.UTC(2026, 9, 15, 12, 0));
+const TOKEN = "0x1111111111111111111111111111111111111111" as Address;
+const WETH_POOL = "0x2222222222222222222222222222222222222222" as Address;
+const GAUGE = "0x3333333333333333333333333333333333333333" as Address;
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+
+const cfg = {
+  LP_ENABLED: true,
+  TRADING_ENABLED: true,
+  KILL_SWITCH: false,
+  DRY_RUN: false,
+  LP_MAX_ETH_PER_ADD: "0.1",
+  LP_MAX_TOKEN_FRACTION_BPS: 2_500,
+  LP_MIN_INTERVAL_MINUTES: 60,
+  LP_AUTO_STAKE: true
+} as AppConfig;
+
+// 10 ETH / 10M INTERN pool, 1M LP supply
+function position(overrides: Partial<LpPosition> = {}): LpPosition {
+  return {
+    key: "WETH",
+    label: "INTERN/WETH",
+    pool: WETH_POOL,
+    stable: false,
+    gauge: GAUGE,
+    tokenReserve: 10_000_000n * E18,
+    pairedReserve: 10n * E18,
+    lpTotalSupply: 1_000_000n * E18,
+    lpBalance: 0n,
+    stakedBalance: 0n,
+    ...overrides
+  };
+}
+
+describe("planLpActions", () => {
+  it("does nothing when LP or trading is disabled, the kill switch is on or the breaker tripped", () => {
+    const balances = { ethWei: E18, internAmount: 1_000_000n * E18 };
+    const tripped = { drawdownBreakerTrippedAtMs: NOW.getTime() };
+    expect(planLpActions(cfg, tripped, [position()], balances, NOW)).toEqual([]);
+    expect(planLpActions({ ...cfg, LP_ENABLED: false }, {}, [position()], balances, NOW)).toEqual([]);
+    expect(planLpActions({ ...cfg, TRADING_ENABLED: false }, {}, [position()], balances, NOW)).toEqual([]);
+    expect(planLpActions({ ...cfg, KILL_SWITCH: true }, {}, [position()], balances, NOW)).toEqual([]);
+  });
+
+  it("pairs idle INTERN with up to LP_MAX_ETH_PER_ADD at the pool price", () => {
+    const actions = planLpActions(cfg, {}, [position()], { ethWei: E18, internAmount: 1_000_000n * E18 }, NOW);
+
+    expect(actions).toEqual([
+      { kind: "add", pool: "WETH", tokenAmount: 100_000n * E18, ethWei: E18 / 10n, reason: expect.any(String) }
+    ]);
+  });
+
+  it("keeps the add within the cap room and the gas reserve", () => {
+    // 25% of 400k = 100k cap, 90k already in LP => 10k room
+    const p = position({ stakedBalance: 9_000n * E18 });
+    const capped = planLpActions(cfg, {}, [p], { ethWei: E18, internAmount: 310_000n * E18 }, NOW);
+    expect(capped).toMatchObject([{ kind: "add", tokenAmount: 10_000n * E18, ethWei: E18 / 100n }]);
+
+    // 0.0015 ETH leaves 0.0005 after the reserve: below a tenth of LP_MAX_ETH_PER_ADD
+    const poor = planLpActions(cfg, {}, [position()], { ethWei: 1_500_000_000_000_000n, internAmount: E18 ** 2n }, NOW);
+    expect(poor).toEqual([]);
+  });
+
+  it("removes the excess over the cap, unstaking what the wallet does not hold", () => {
+    // 300k INTERN in LP (10k wallet + 20k staked LP), 300k in the wallet => cap 150k, excess 150k
+    const p = position({ lpBalance: 10_000n * E18, stakedBalance: 20_000n * E18 });
+    const actions = planLpActions(cfg, {}, [p], { ethWei: E18, internAmount: 300_000n * E18 }, NOW);
+
+    expect(actions).toEqual([
+      {
+        kind: "remove",
+        pool: "WETH",
+        liquidity: 15_000n * E18,
+        unstake: 5_000n * E18,
+        tokenAmount: 150_000n * E18,
+        ethWei: (15n * E18) / 100n,
+        reason: "LP holds more than 2500bps of INTERN"
+      }
+    ]);
+  });
+
+  it("caps the WETH position on its own, whatever the USDC position holds", () => {
+    // 300k INTERN in the USDC LP (over the cap on its own), 100k in the WETH LP, 300k in the wallet => cap 175k
+    const usdc = position({ key: "USDC", label: "INTERN/USDC", stakedBalance: 30_000n * E18 });
+    const weth = position({ stakedBalance: 10_000n * E18 });
+    const actions = planLpActions(cfg, {}, [weth, usdc], { ethWei: E18, internAmount: 300_000n * E18 }, NOW);
+
+    expect(actions).toEqual([
+      { kind: "add", pool: "WETH", tokenAmount: 75_000n * E18, ethWei: (75n * E18) / 1_000n, reason: expect.any(String) }
+    ]);
+  });
+
+  it("stakes idle LP into the gauge and waits out the interval before adding again", () => {
+    const p = position({ lpBalance: 1_000n * E18 });
+    const state = { lpLastActionMs: { WETH: NOW.getTime() - 30 * 60_000 } };
+    const actions = planLpActions(cfg, state, [p], { ethWei: E18, internAmount: 1_000_000n * E18 }, NOW);
+
+    expect(actions).toEqual([
+      { kind: "stake", pool: "WETH", liquidity: 1_000n * E18, reason: "stake idle LP in gauge" }
+    ]);
+
+    const noGauge = position({ lpBalance: 1_000n * E18, gauge: null });
+    expect(planLpActions(cfg, state, [noGauge], { ethWei: E18, internAmount: 0n }, NOW)).toEqual([]);
+  });
+});
+
+describe("recordLpAction", () => {
+  const add = {
+    kind: "add" as const,
+    pool: "WETH" as const,
+    tokenAmount: 1_000n * E18,
+    ethWei: E18 / 1_000n,
+    reason: "r"
+  };
+
+  it("starts the interval on success but not on failure, and describes the action", () => {
+    const empty: LpState = {};
+    const error = "lp_add reverted on-chain";
+    const failed = recordLpAction(empty, add, { status: "failed", txHashes: [], error }, NOW);
+    expect(failed.state.lpLastActionMs).toBeUndefined();
+    expect(describeLpAction(failed.record, 18)).toBe(
+      "add 1000 INTERN + 0.001 ETH to INTERN/WETH (failed: lp_add reverted on-chain)"
+    );
+
+    const ok = recordLpAction(failed.state, add, { status: "executed", txHashes: ["0x01", "0x02"] }, NOW);
+    expect(ok.state.lpLastActionMs).toEqual({ WETH: NOW.getTime() });
+    expect(ok.state.lpActions).toHaveLength(2);
+  });
+
+  it("counts an executed add in the position's value until the next read", () => {
+    const before: LpState = {
+      lpPositions: { WETH: { lpBalance: "1", stakedBalance: "1", tokenAmount: (500n * E18).toString(), atMs: 0 } }
+    };
+    const price = 10n ** 12n; // 1M INTERN = 1 ETH
+    expect(lpPositionsValueWei(before, price)).toBe(E18 / 1_000n);
+
+    const { state } = recordLpAction(before, add, { status: "executed", txHashes: ["0x01"] }, NOW);
+    expect(state.lpPositions?.WETH?.tokenAmount).toBe((1_500n * E18).toString());
+    expect(lpPositionsValueWei(state, price)).toBe((3n * E18) / 1_000n);
+
+    const failed = recordLpAction(before, add, { status: "failed", txHashes: [], error: "x" }, NOW);
+    expect(failed.state.lpPositions).toBe(before.lpPositions);
+  });
+});
+
+describe("LP position reads", () => {
+  it("orients reserves by token0 and reads the staked balance from the gauge", async () => {
+    const readContract = vi.fn(async ({ functionName }: { functionName: string }) => {
+      switch (functionName) {
+        case "token0":
+          return "0x4200000000000000000000000000000000000006";
+        case "getReserves":
+          return [10n * E18, 10_000_000n * E18, 0n];
+        case "totalSupply":
+          return 1_000_000n * E18;
+        default:
+          return 7n * E18; // wallet LP and staked LP
+      }
+    });
+    const clients = { publicClient: { readContract } } as unknown as ChainClients;
+    const [pool] = lpPoolsFromConfig({ POOL_ADDRESS: WETH_POOL, GAUGE_ADDRESS_WETH: GAUGE } as AppConfig);
+
+    const p = await readLpPosition(clients, pool, TOKEN, WALLET);
+
+    expect(p).toMatchObject({ tokenReserve: 10_000_000n * E18, pairedReserve: 10n * E18, stakedBalance: 7n * E18 });
+    expect(readContract).toHaveBeenCalledWith(expect.objectContaining({ address: GAUGE, functionName: "balanceOf" }));
+    expect(buildGaugeDepositCalldata(GAUGE, 1n).data.slice(0, 10)).toBe("0xb6b55f25"); // deposit(uint256)
+  });
+});
+
+describe("LP config", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of ["TRADING_ENABLED", "TOKEN_ADDRESS", "POOL_ADDRESS", "ROUTER_ADDRESS", "WETH_ADDRESS"]) {
+      delete process.env[key];
+    }
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+    process.env.LP_ENABLED = "true";
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("requires the token, pool, router and WETH addresses", () => {
+    expect(() => loadConfig()).toThrow(/TOKEN_ADDRESS must be a valid Ethereum address when LP_ENABLED=true/);
+  });
+
+  it("defaults to auto-staking with a 6h interval", () => {
+    process.env.TOKEN_ADDRESS = TOKEN;
+    process.env.POOL_ADDRESS = WETH_POOL;
+    process.env.ROUTER_ADDRESS = "0x9999999999999999999999999999999999999999";
+    process.env.WETH_ADDRESS = "0x4200000000000000000000000000000000000006";
+
+    expect(loadConfig()).toMatchObject({
+      LP_AUTO_STAKE: true,
+      LP_MIN_INTERVAL_MINUTES: 360,
+      LP_MAX_ETH_PER_ADD: "0.001"
+    });
+  });
+
+  it("rejects an LP_MAX_ETH_PER_ADD parseEther cannot read", () => {
+    process.env.TOKEN_ADDRESS = TOKEN;
+    process.env.POOL_ADDRESS = WETH_POOL;
+    process.env.ROUTER_ADDRESS = "0x9999999999999999999999999999999999999999";
+    process.env.WETH_ADDRESS = "0x4200000000000000000000000000000000000006";
+    process.env.LP_MAX_ETH_PER_ADD = "1e-3";
+
+    expect(() => loadConfig()).toThrow(/LP_MAX_ETH_PER_ADD must be a plain decimal > 0/);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseGwei, type Hex } from "viem";
+import type { AppConfig } from "../src/config.js";
+import type { ChainClients } from "../src/chain/client.js";
+import type { FeeQuote } from "../src/chain/fees.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const mockSendTransaction = vi.fn();
+vi.mock("viem/actions", () => ({
+  sendTransaction: (...args: unknown[]) => mockSendTransaction(...args)
+}));
+
+import {
+  bumpedFees,
+  findStuckTransactions,
+  nextNonce,
+  replaceStuckTransactions,
+  replacementModeFor,
+  sendManagedTransaction,
+  type NonceManagerState,
+  type PendingTx
+} from "../src/chain/nonce.js";
+
+const WALLET = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd" as `0x${string}`;
+const ROUTER = "0x9999999999999999999999999999999999999999" as `0x${string}`;
+
+function cfg(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    TX_STUCK_AFTER_BLOCKS: 30,
+    TX_REPLACEMENT_MODE: "speed_up",
+    TX_FEE_BUMP_BPS: 1250,
+    TX_MAX_REPLACEMENTS: 3,
+    ...overrides
+  } as AppConfig;
+}
+
+function market(overrides: Partial<FeeQuote> = {}): FeeQuote {
+  return {
+    baseFeePerGas: parseGwei("0.01"),
+    maxPriorityFeePerGas: parseGwei("0.001"),
+    maxFeePerGas: parseGwei("0.021"),
+    l1FeeWei: null,
+    deferral: null,
+    ...overrides
+  };
+}
+
+function pending(overrides: Partial<PendingTx> = {}): PendingTx {
+  return {
+    hash: "0x01" as Hex,
+    nonce: 7,
+    label: "swap",
+    to: ROUTER,
+    data: "0x1234",
+    value: "0",
+    maxFeePerGas: parseGwei("0.021").toString(),
+    maxPriorityFeePerGas: parseGwei("0.001").toString(),
+    sentAtMs: 0,
+    sentAtBlock: "100",
+    replacedHashes: [],
+    ...overrides
+  };
+}
+
+function mockClients(opts: { pendingCount?: number; latestCount?: number; block?: bigint }): ChainClients {
+  return {
+    publicClient: {
+      getTransactionCount: vi.fn(async ({ blockTag }: { blockTag: string }) =>
+        blockTag === "pending" ? opts.pendingCount ?? 0 : opts.latestCount ?? 0
+      ),
+      getBlockNumber: vi.fn(async () => opts.block ?? 100n)
+    },
+    walletClient: {},
+    walletAddress: WALLET
+  } as unknown as ChainClients;
+}
+
+beforeEach(() => {
+  mockSendTransaction.mockReset();
+});
+
+describe("nextNonce", () => {
+  it("uses the node's pending count", async () => {
+    expect(await nextNonce(mockClients({ pendingCount: 5 }), {})).toBe(5);
+  });
+
+  it("runs ahead of a lagging node using tracked txs", async () => {
+    const state = { pendingTransactions: [pending({ nonce: 5 }), pending({ nonce: 6 })] };
+    expect(await nextNonce(mockClients({ pendingCount: 5 }), state)).toBe(7);
+  });
+});
+
+describe("sendManagedTransaction", () => {
+  it("sends with an explicit nonce and fees and tracks the tx", async () => {
+    mockSendTransaction.mockResolvedValue("0xaa");
+    const out = await sendManagedTransaction(
+      mockClients({ pendingCount: 3, block: 42n }),
+      {} as NonceManagerState,
+      { to: ROUTER, data: "0x1234" },
+      market(),
+      "swap"
+    );
+
+    expect(mockSendTransaction.mock.calls[0][1]).toMatchObject({
+      nonce: 3,
+      maxFeePerGas: parseGwei("0.021"),
+      maxPriorityFeePerGas: parseGwei("0.001")
+    });
+    expect(out.hash).toBe("0xaa");
+    expect(out.state.pendingTransactions).toHaveLength(1);
+    expect(out.state.pendingTransactions?.[0]).toMatchObject({ nonce: 3, label: "swap", sentAtBlock: "42" });
+  });
+
+  it("refuses to send on a deferred fee quote", async () => {
+    await expect(
+      sendManagedTransaction(
+        mockClients({ pendingCount: 3, block: 42n }),
+        {} as NonceManagerState,
+        { to: ROUTER, data: "0x1234" },
+        market({ deferral: "L2 base fee 2 gwei > MAX_FEE_PER_GAS_GWEI 1 gwei" }),
+        "rotate"
+      )
+    ).rejects.toThrow(/^deferred: L2 base fee/);
+    expect(mockSendTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("findStuckTransactions", () => {
+  it("flags txs pending for at least the configured number of blocks", () => {
+    const state = { pendingTransactions: [pending({ sentAtBlock: "100" }), pending({ nonce: 8, sentAtBlock: "120" })] };
+    expect(findStuckTransactions(state, 130n, 30).map((tx) => tx.nonce)).toEqual([7]);
+  });
+});
+
+describe("bumpedFees", () => {
+  it("bumps both fee fields by the configured bps", () => {
+    const out = bumpedFees(pending(), market(), 1250);
+    expect(out.maxFeePerGas).toBe(parseGwei("0.023625"));
+    expect(out.maxPriorityFeePerGas).toBe(parseGwei("0.001125"));
+  });
+
+  it("never bumps by less than the 10% nodes require", () => {
+    expect(bumpedFees(pending(), market(), 100).maxFeePerGas).toBe(parseGwei("0.0231"));
+  });
+
+  it("follows the market when it has moved past the bump", () => {
+    const spike = market({ maxFeePerGas: parseGwei("1"), maxPriorityFeePerGas: parseGwei("0.01") });
+    expect(bumpedFees(pending(), spike, 1250)).toEqual({
+      maxFeePerGas: parseGwei("1"),
+      maxPriorityFeePerGas: parseGwei("0.01")
+    });
+  });
+});
+
+describe("replacementModeFor", () => {
+  it("uses the configured mode until the speed-up limit", () => {
+    expect(replacementModeFor(cfg(), pending({ replacedHashes: ["0x01", "0x02"] }))).toBe("speed_up");
+    expect(replacementModeFor(cfg(), pending({ replacedHashes: ["0x01", "0x02", "0x03"] }))).toBe("cancel");
+  });
+});
+
+describe("replaceStuckTransactions", () => {
+  it("prunes mined txs and speeds up stuck ones at the same nonce", async () => {
+    mockSendTransaction.mockResolvedValue("0xbb");
+    const state = { pendingTransactions: [pending({ nonce: 6, hash: "0x06" }), pending({ nonce: 7 })] };
+    const clients = mockClients({ latestCount: 7, block: 140n });
+
+    const out = await replaceStuckTransactions(cfg(), clients, state, market());
+
+    expect(out.reports).toEqual([
+      {
+        label: "swap",
+        nonce: 7,
+        mode: "speed_up",
+        oldHash: "0x01",
+        newHash: "0xbb",
+        maxFeePerGas: parseGwei("0.023625")
+      }
+    ]);
+    expect(mockSendTransaction.mock.calls[0][1]).toMatchObject({ to: ROUTER, data: "0x1234", nonce: 7 });
+    expect(out.state.pendingTransactions).toEqual([
+      expect.objectContaining({ nonce: 7, hash: "0xbb", sentAtBlock: "140", replacedHashes: ["0x01"] })
+    ]);
+  });
+
+  it("cancels with a 0-value self-transfer", async () => {
+    mockSendTransaction.mockResolvedValue("0xcc");
+    const state = { pendingTransactions: [pending()] };
+
+    const out = await replaceStuckTransactions(
+      cfg({ TX_REPLACEMENT_MODE: "cancel" }),
+      mockClients({ latestCount: 7, block: 140n }),
+      state,
+      market()
+    );
+
+    expect(mockSendTransaction.mock.calls[0][1]).toMatchObject({ to: WALLET, data: "0x", value: 0n, nonce: 7 });
+    expect(out.reports[0].mode).toBe("cancel");
+    expect(out.state.pendingTransactions?.[0].label).toBe("swap:cancel");
+  });
+
+  it("keeps the cancel label when a cancel is replaced again", async () => {
+    mockSendTransaction.mockResolvedValue("0xdd");
+    const state = { pendingTransactions: [pending({ label: "swap:cancel", replacedHashes: ["0x01"] })] };
+
+    const out = await replaceStuckTransactions(
+      cfg({ TX_REPLACEMENT_MODE: "cancel" }),
+      mockClients({ latestCount: 7, block: 140n }),
+      state,
+      market()
+    );
+
+    expect(out.state.pendingTransactions?.[0].label).toBe("swap:cancel");
+  });
+
+  it("waits while fees are deferred or the bump would pass MAX_FEE_PER_GAS_GWEI", async () => {
+    const state = { pendingTransactions: [pending()] };
+    const clients = mockClients({ latestCount: 7, block: 140n });
+
+    const deferred = market({ deferral: "L2 base fee 1 gwei > MAX_FEE_PER_GAS_GWEI 0.5 gwei" });
+    expect((await replaceStuckTransactions(cfg(), clients, state, deferred)).reports).toEqual([]);
+    const capped = await replaceStuckTransactions(cfg({ MAX_FEE_PER_GAS_GWEI: "0.022" }), clients, state, market());
+    expect(capped.reports).toEqual([]);
+    expect(capped.state.pendingTransactions?.[0].hash).toBe("0x01");
+    expect(mockSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("keeps the tx tracked when the replacement fails", async () => {
+    mockSendTransaction.mockRejectedValue(new Error("nonce too low"));
+    const state = { pendingTransactions: [pending()] };
+
+    const out = await replaceStuckTransactions(cfg(), mockClients({ latestCount: 7, block: 140n }), state, market());
+
+    expect(out.reports).toEqual([]);
+    expect(out.state.pendingTransactions?.[0].hash).toBe("0x01");
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect } from "vitest";
+import type { Address } from "viem";
+import {
+  addOrder,
+  evaluateOrders,
+  handleOrderRequest,
+  orderProposal,
+  parseOrderInput,
+  recordOrderResult,
+  type OrderBookState
+} from "../src/agent/orders.js";
+import { enforceGuardrails, type DecisionContext } from "../src/agent/decision.js";
+import type { PriceResult } from "../src/chain/price.js";
+import type { AppConfig } from "../src/config.js";
+
+const E18 = 10n ** 18n;
+const P = 10n ** 12n; // 1M INTERN = 1 ETH
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+const NOW = new Date(1_700_000_000_000);
+
+const cfg = {
+  TRADING_ENABLED: true,
+  KILL_SWITCH: false,
+  DRY_RUN: false,
+  ROUTER_TYPE: "aerodrome",
+  ROUTER_ADDRESS: "0x9999999999999999999999999999999999999999",
+  DAILY_TRADE_CAP: 5,
+  MIN_INTERVAL_MINUTES: 0,
+  MAX_SPEND_ETH_PER_TRADE: "1",
+  SELL_FRACTION_BPS: 10_000,
+  TWAP_MAX_DEVIATION_BPS: 0,
+  MAX_PRICE_IMPACT_BPS: 0,
+  MIN_POOL_TVL_ETH: "0",
+  ORDERS_ENABLED: true,
+  ORDERS_MAX_OPEN: 3
+} as AppConfig;
+
+function price(midPriceWei: bigint, stale = false): PriceResult {
+  return { text: "x", source: "aerodrome", midPriceWei, stale };
+}
+
+function place(state: OrderBookState, body: unknown, at = P): OrderBookState {
+  return addOrder(cfg, state, parseOrderInput(body), at, NOW).state;
+}
+
+function ctx(): DecisionContext {
+  return {
+    cfg,
+    state: { tradesExecutedToday: 0, lastExecutedTradeAtMs: null },
+    now: NOW,
+    wallet: WALLET,
+    ethWei: E18,
+    internAmount: 1_000_000n * E18
+  };
+}
+
+describe("conditional orders", () => {
+  it("anchors relative triggers to the current price", () => {
+    let state = place({}, { kind: "take_profit", triggerChangeBps: 10_000, sellFractionBps: 1_000 });
+    state = place(state, { kind: "limit_buy", triggerChangeBps: -5_000, spendEth: "0.001" });
+
+    expect(state.orders?.map((o) => [o.id, o.triggerPriceWei])).toEqual([
+      [1, (2n * P).toString()],
+      [2, (P / 2n).toString()]
+    ]);
+    expect(state.nextOrderId).toBe(3);
+  });
+
+  it("triggers take-profit and limit-buy on the right side of the price", () => {
+    let state = place({}, { kind: "take_profit", triggerChangeBps: 10_000, sellFractionBps: 1_000 });
+    state = place(state, { kind: "limit_buy", triggerChangeBps: -5_000, spendEth: "0.001" });
+
+    expect(evaluateOrders(state, price(P), NOW).triggered).toBeNull();
+    expect(evaluateOrders(state, price(2n * P), NOW).triggered?.id).toBe(1);
+    expect(evaluateOrders(state, price(P / 3n), NOW).triggered?.id).toBe(2);
+    expect(evaluateOrders(state, price(3n * P, true), NOW).triggered).toBeNull();
+  });
+
+  it("puts triggered stops ahead of older buys and passes over orders blocked this tick", () => {
+    let state = place({}, { kind: "limit_buy", triggerChangeBps: -5_000, spendEth: "0.001" });
+    state = place(state, { kind: "limit_buy", triggerChangeBps: -4_000, spendEth: "0.001" });
+    state = place(state, { kind: "stop_loss", triggerChangeBps: -3_000, sellFractionBps: 1_000 });
+
+    expect(evaluateOrders(state, price(P / 3n), NOW).triggered?.kind).toBe("stop_loss");
+    expect(evaluateOrders(state, price(P / 3n), NOW, new Set([3])).triggered?.id).toBe(1);
+    expect(evaluateOrders(state, price(P / 3n), NOW, new Set([3, 1])).triggered?.id).toBe(2);
+    expect(evaluateOrders(state, price(P / 3n), NOW, new Set([1, 2, 3])).triggered).toBeNull();
+  });
+
+  it("ratchets a trailing stop up with the price", () => {
+    let state = place({}, { kind: "trailing_stop", trailBps: 2_000, sellFractionBps: 5_000 });
+
+    // new high at 2P -> stop at 1.6P
+    const high = evaluateOrders(state, price(2n * P), NOW);
+    expect(high.triggered).toBeNull();
+    state = high.state;
+    expect(state.orders?.[0]).toMatchObject({
+      peakPriceWei: (2n * P).toString(),
+      triggerPriceWei: "1600000000000"
+    });
+
+    expect(evaluateOrders(state, price((17n * P) / 10n), NOW).triggered).toBeNull();
+    expect(evaluateOrders(state, price((15n * P) / 10n), NOW).triggered?.kind).toBe("trailing_stop");
+  });
+
+  it("turns a triggered order into a guarded proposal and closes it once sent", () => {
+    let state = place({}, { kind: "stop_loss", triggerPriceEth: "0.0000005", sellFractionBps: 2_500 });
+    const { triggered } = evaluateOrders(state, price(P / 4n), NOW);
+
+    const proposal = orderProposal(triggered!, ctx());
+    expect(proposal).toMatchObject({ action: "SELL", sellAmount: 250_000n * E18 });
+
+    const blocked = enforceGuardrails(proposal, { ...ctx(), cfg: { ...cfg, KILL_SWITCH: true } });
+    state = recordOrderResult(state, triggered!, proposal, blocked, null, NOW);
+    expect(state.orders?.[0]).toMatchObject({ status: "open", lastBlockedReason: "KILL_SWITCH=true" });
+
+    const decision = enforceGuardrails(proposal, ctx());
+    state = recordOrderResult(state, triggered!, proposal, decision, "0xabc", NOW);
+    expect(state.orders?.[0]).toMatchObject({ status: "filled", txHash: "0xabc" });
+  });
+
+  it("keeps the remainder open when the guardrails clamp the fill", () => {
+    const defaults = { ...cfg, SELL_FRACTION_BPS: 500, MAX_SPEND_ETH_PER_TRADE: "0.0005" } as AppConfig;
+    let state = place({}, { kind: "stop_loss", triggerPriceEth: "0.0000005", sellFractionBps: 1_000 });
+    state = place(state, { kind: "limit_buy", triggerPriceEth: "0.0000005", spendEth: "0.001" });
+    const [stop, limit] = state.orders!;
+
+    // 10% requested, 5% allowed: the other 50k INTERN stays open
+    const sell = orderProposal(stop, ctx());
+    const sold = enforceGuardrails(sell, { ...ctx(), cfg: defaults });
+    expect(sold.sellAmount).toBe(50_000n * E18);
+    state = recordOrderResult(state, stop, sell, sold, "0x01", NOW);
+    expect(state.orders?.[0]).toMatchObject({
+      status: "open",
+      txHash: "0x01",
+      remainingRaw: (50_000n * E18).toString(),
+      partialFills: 1
+    });
+
+    const rest = orderProposal(state.orders![0], { ...ctx(), internAmount: 950_000n * E18 });
+    expect(rest.sellAmount).toBe(50_000n * E18);
+    const done = enforceGuardrails(rest, { ...ctx(), cfg: defaults, internAmount: 950_000n * E18 });
+    state = recordOrderResult(state, state.orders![0], rest, done, "0x02", NOW);
+    // 5% of the smaller bag is 47.5k, so 2.5k is left for the next tick
+    expect(state.orders?.[0]).toMatchObject({
+      status: "open",
+      remainingRaw: (2_500n * E18).toString(),
+      partialFills: 2
+    });
+
+    const last = orderProposal(state.orders![0], { ...ctx(), internAmount: 902_500n * E18 });
+    const filled = enforceGuardrails(last, { ...ctx(), cfg: defaults, internAmount: 902_500n * E18 });
+    state = recordOrderResult(state, state.orders![0], last, filled, "0x03", NOW);
+    expect(state.orders?.[0]).toMatchObject({ status: "filled", txHash: "0x03", remainingRaw: null });
+
+    // 0.001 ETH requested, 0.0005 allowed
+    const buy = orderProposal(limit, ctx());
+    const bought = enforceGuardrails(buy, { ...ctx(), cfg: defaults });
+    state = recordOrderResult(state, limit, buy, bought, "0x04", NOW);
+    expect(state.orders?.[1]).toMatchObject({ status: "open", remainingRaw: (E18 / 2_000n).toString() });
+    expect(orderProposal(state.orders![1], ctx()).buySpendWei).toBe(E18 / 2_000n);
+  });
+
+  it("lets stop sells through the TWAP check but not take-profits", () => {
+    const twap = { ...cfg, TWAP_MAX_DEVIATION_BPS: 500 } as AppConfig;
+    // price crashed to a quarter of its average
+    const market = { ...ctx(), cfg: twap, spotPriceWei: P / 4n, twapPriceWei: P };
+    let state = place({}, { kind: "stop_loss", triggerPriceEth: "0.0000005", sellFractionBps: 2_500 });
+    state = place(state, { kind: "take_profit", triggerPriceEth: "0.0000001", sellFractionBps: 2_500 });
+    const [stop, takeProfit] = state.orders!;
+
+    const stopProposal = orderProposal(stop, ctx());
+    expect(stopProposal.protective).toBe(true);
+    expect(enforceGuardrails(stopProposal, market).shouldExecute).toBe(true);
+    expect(enforceGuardrails(stopProposal, { ...market, twapPriceWei: null }).shouldExecute).toBe(true);
+
+    const tp = enforceGuardrails(orderProposal(takeProfit, ctx()), market);
+    expect(tp).toMatchObject({ shouldExecute: false, blockedReason: "spot deviates from TWAP by 7500bps (max 500bps)" });
+  });
+
+  it("expires orders past their deadline", () => {
+    const state = place({}, { kind: "limit_sell", triggerPriceEth: "1", sellFractionBps: 100, expiresInMinutes: 5 });
+    const later = new Date(NOW.getTime() + 5 * 60_000);
+
+    expect(evaluateOrders(state, null, later).state.orders?.[0].status).toBe("expired");
+  });
+
+  it("validates input", () => {
+    expect(() => parseOrderInput({ kind: "moon" })).toThrow(/kind must be one of/);
+    expect(() => parseOrderInput({ kind: "stop_loss", sellFractionBps: 100 })).toThrow(/exactly one of/);
+    expect(() => parseOrderInput({ kind: "limit_buy", triggerChangeBps: -5_000 })).toThrow(/spendEth/);
+    expect(() => place({}, { kind: "trailing_stop", trailBps: 500, sellFractionBps: 100 }, 0n)).toThrow(
+      /current price unknown/
+    );
+  });
+});
+
+describe("control server routes", () => {
+  const req = (method: string, path: string, body?: unknown) => ({ method, path, body });
+
+  it("adds, lists and cancels orders", () => {
+    const added = handleOrderRequest(
+      cfg,
+      {} as OrderBookState,
+      req("POST", "/orders", { kind: "take_profit", triggerChangeBps: 10_000, sellFractionBps: 1_000 }),
+      P,
+      NOW
+    )!;
+    expect(added.status).toBe(201);
+
+    const listed = handleOrderRequest(cfg, added.state!, req("GET", "/orders"), P, NOW)!;
+    expect(listed.body).toMatchObject({ open: [{ id: 1, kind: "take_profit" }], closed: [] });
+    expect(listed.state).toBeNull();
+
+    const cancelled = handleOrderRequest(cfg, added.state!, req("DELETE", "/orders/1"), P, NOW)!;
+    expect(cancelled.state?.orders?.[0].status).toBe("cancelled");
+    expect(handleOrderRequest(cfg, cancelled.state!, req("DELETE", "/orders/1"), P, NOW)?.status).toBe(404);
+  });
+
+  it("rejects bad bodies, full books and falls through for other paths", () => {
+    expect(handleOrderRequest(cfg, {}, req("POST", "/orders", { kind: "x" }), P, NOW)?.status).toBe(400);
+
+    let state: OrderBookState = {};
+    const body = { kind: "limit_sell", triggerPriceEth: "1", sellFractionBps: 1 };
+    for (let i = 0; i < 3; i++) state = place(state, body);
+    const full = handleOrderRequest(cfg, state, req("POST", "/orders", body), P, NOW);
+    expect(full?.body).toEqual({ error: "order book full (ORDERS_MAX_OPEN=3)" });
+
+    expect(handleOrderRequest(cfg, state, req("GET", "/status"), P, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  computePnl,
+  drawdownBps,
+  isDrawdownBreakerTripped,
+  portfolioEquityWei,
+  recordFill,
+  resetDrawdownBreaker,
+  updateDrawdownBreaker,
+  type PnlState
+} from "../src/agent/pnl.js";
+import type { AppConfig } from "../src/config.js";
+
+const ETH = 10n ** 18n;
+const TOKEN = 10n ** 18n;
+const AT = new Date("2026-02-10T12:00:00Z");
+
+describe("cost basis", () => {
+  it("averages cost across buys", () => {
+    let state: PnlState = {};
+    state = recordFill(state, { side: "BUY", tokenAmount: 1_000n * TOKEN, ethWei: ETH }, AT);
+    state = recordFill(state, { side: "BUY", tokenAmount: 1_000n * TOKEN, ethWei: 3n * ETH }, AT);
+
+    const pnl = computePnl(state, null);
+    expect(pnl.tokenAmount).toBe(2_000n * TOKEN);
+    expect(pnl.costBasisWei).toBe(4n * ETH);
+    expect(pnl.avgCostWei).toBe(2n * 10n ** 15n); // 0.002 ETH per token
+    expect(pnl.unrealizedPnlWei).toBeNull();
+  });
+
+  it("realizes P&L on sells against average cost", () => {
+    let state: PnlState = {};
+    state = recordFill(state, { side: "BUY", tokenAmount: 1_000n * TOKEN, ethWei: 2n * ETH }, AT);
+    // Sell half for 1.5 ETH: cost removed 1 ETH => +0.5 realized
+    state = recordFill(state, { side: "SELL", tokenAmount: 500n * TOKEN, ethWei: (3n * ETH) / 2n }, AT);
+
+    const pnl = computePnl(state, 10n ** 15n); // mark at 0.001 ETH
+    expect(pnl.realizedPnlWei).toBe(ETH / 2n);
+    expect(pnl.costBasisWei).toBe(ETH);
+    expect(pnl.unrealizedPnlWei).toBe(ETH / 2n - ETH); // 500 * 0.001 - 1
+    expect(pnl.totalPnlWei).toBe(0n);
+  });
+
+  it("only realizes against the tracked position", () => {
+    let state: PnlState = {};
+    state = recordFill(state, { side: "BUY", tokenAmount: 100n * TOKEN, ethWei: ETH }, AT);
+    // 200 sold for 4 ETH; only the tracked 100 (2 ETH of proceeds) realizes
+    state = recordFill(state, { side: "SELL", tokenAmount: 200n * TOKEN, ethWei: 4n * ETH }, AT);
+
+    const pnl = computePnl(state, null);
+    expect(pnl.realizedPnlWei).toBe(ETH);
+    expect(pnl.tokenAmount).toBe(0n);
+  });
+
+  it("keeps an audit trail of fills with their price", () => {
+    const state = recordFill({} as PnlState, { side: "BUY", tokenAmount: 1_000n * TOKEN, ethWei: ETH, txHash: "0xabc" }, AT);
+    expect(state.tradeFills).toEqual([
+      {
+        atMs: AT.getTime(),
+        side: "BUY",
+        tokenAmount: (1_000n * TOKEN).toString(),
+        ethWei: ETH.toString(),
+        priceWei: "1000000000000000",
+        txHash: "0xabc"
+      }
+    ]);
+  });
+});
+
+describe("drawdown breaker", () => {
+  const cfg = { MAX_DRAWDOWN_PCT: 20 } as AppConfig;
+
+  it("values equity as ETH plus marked tokens", () => {
+    expect(portfolioEquityWei(ETH, 1_000n * TOKEN, 10n ** 15n)).toBe(2n * ETH);
+    expect(portfolioEquityWei(ETH, 1_000n * TOKEN, 10n ** 15n, 18, ETH / 2n)).toBe((5n * ETH) / 2n);
+  });
+
+  it("measures drawdown below the high-water mark", () => {
+    expect(drawdownBps(10n * ETH, 8n * ETH)).toBe(2000);
+    expect(drawdownBps(10n * ETH, 11n * ETH)).toBe(0);
+  });
+
+  it("raises the high-water mark and trips past the limit", () => {
+    let state: PnlState = {};
+    state = updateDrawdownBreaker(cfg, state, 10n * ETH, AT);
+    state = updateDrawdownBreaker(cfg, state, 12n * ETH, AT);
+    expect(state.equityHighWaterMarkWei).toBe((12n * ETH).toString());
+
+    state = updateDrawdownBreaker(cfg, state, 10n * ETH, AT); // -16.7%
+    expect(isDrawdownBreakerTripped(state)).toBe(false);
+
+    state = updateDrawdownBreaker(cfg, state, 9n * ETH, AT); // -25%
+    expect(isDrawdownBreakerTripped(state)).toBe(true);
+    expect(state.drawdownBreakerReason).toBe("drawdown 25.00% > 20%");
+  });
+
+  it("stays latched until an operator reset", () => {
+    let state: PnlState = { equityHighWaterMarkWei: (10n * ETH).toString() };
+    state = updateDrawdownBreaker(cfg, state, 5n * ETH, AT);
+    state = updateDrawdownBreaker(cfg, state, 20n * ETH, AT);
+    expect(isDrawdownBreakerTripped(state)).toBe(true);
+
+    state = resetDrawdownBreaker(state);
+    expect(isDrawdownBreakerTripped(state)).toBe(false);
+    // High-water mark re-seeds from current equity
+    state = updateDrawdownBreaker(cfg, state, 5n * ETH, AT);
+    expect(isDrawdownBreakerTripped(state)).toBe(false);
+    expect(state.equityHighWaterMarkWei).toBe((5n * ETH).toString());
+  });
+
+  it("never trips when disabled", () => {
+    const state = updateDrawdownBreaker({ MAX_DRAWDOWN_PCT: 0 } as AppConfig, { equityHighWaterMarkWei: "100" }, 1n, AT);
+    expect(isDrawdownBreakerTripped(state)).toBe(false);
+  });
+});
@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { decodeFunctionData, parseAbi, type Address } from "viem";
+import {
+  buildRotationCalldata,
+  executeRotation,
+  planRotation,
+  readPortfolio,
+  type Portfolio,
+  type RotationPlan
+} from "../src/agent/portfolio.js";
+import { enforceGuardrails, rotationSide } from "../src/agent/decision.js";
+import { loadConfig, type AppConfig, type PortfolioTokenConfig } from "../src/config.js";
+import type { ChainClients } from "../src/chain/client.js";
+import type { FeeQuote } from "../src/chain/fees.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const E18 = 10n ** 18n;
+const WETH = "0x4200000000000000000000000000000000000006" as Address;
+const INTERN = ("0x" + "1".repeat(40)) as Address;
+const USDC = ("0x" + "2".repeat(40)) as Address;
+const INTERN_POOL = ("0x" + "3".repeat(40)) as Address;
+const USDC_POOL = ("0x" + "4".repeat(40)) as Address;
+const ROUTER = ("0x" + "9".repeat(40)) as Address;
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+
+function token(overrides: Partial<PortfolioTokenConfig> & Pick<PortfolioTokenConfig, "symbol" | "address">) {
+  return { decimals: 18, poolStable: false, maxEthPerTrade: "0", maxWeightBps: 0, ...overrides };
+}
+
+const TOKENS: PortfolioTokenConfig[] = [
+  token({ symbol: "INTERN", address: INTERN, pool: INTERN_POOL }),
+  token({ symbol: "WETH", address: WETH }),
+  token({ symbol: "USDC", address: USDC, decimals: 6, pool: USDC_POOL })
+];
+
+function cfg(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    TRADING_ENABLED: true,
+    KILL_SWITCH: false,
+    DRY_RUN: false,
+    ROUTER_TYPE: "aerodrome",
+    ROUTER_ADDRESS: ROUTER,
+    WETH_ADDRESS: WETH,
+    AERODROME_FACTORY_ADDRESS: "0x420DD381b31aEf6683db6B902084cB0FFECe40Da",
+    DAILY_TRADE_CAP: 5,
+    MIN_INTERVAL_MINUTES: 0,
+    SLIPPAGE_BPS: 100,
+    MAX_SPEND_ETH_PER_TRADE: "1",
+    TWAP_MAX_DEVIATION_BPS: 0,
+    MAX_PRICE_IMPACT_BPS: 0,
+    MIN_POOL_TVL_ETH: "0",
+    PORTFOLIO_TOKENS: TOKENS,
+    ...overrides
+  } as AppConfig;
+}
+
+// 1 ETH, 1M INTERN @ 0.000001 ETH, 2 WETH, 3000 USDC @ 0.0005 ETH => 6.5 ETH total
+function portfolio(): Portfolio {
+  const h = (symbol: string, address: Address, decimals: number, balanceRaw: bigint, priceWei: bigint) => ({
+    symbol,
+    address,
+    decimals,
+    balanceRaw,
+    priceWei,
+    valueWei: (balanceRaw * priceWei) / 10n ** BigInt(decimals),
+    weightBps: null
+  });
+  return {
+    ethWei: E18,
+    holdings: [
+      h("INTERN", INTERN, 18, 1_000_000n * E18, 10n ** 12n),
+      h("WETH", WETH, 18, 2n * E18, E18),
+      h("USDC", USDC, 6, 3_000_000_000n, 5n * 10n ** 14n)
+    ],
+    totalValueWei: 6_500_000_000_000_000_000n,
+    unknown: []
+  };
+}
+
+describe("PORTFOLIO_TOKENS config", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("PORTFOLIO_") || key.startsWith("TOKEN_") || key === "POOL_ADDRESS") delete process.env[key];
+    }
+    delete process.env.TRADING_ENABLED;
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("prepends INTERN and reads per-token pools and caps", () => {
+    process.env.TOKEN_ADDRESS = INTERN;
+    process.env.POOL_ADDRESS = INTERN_POOL;
+    process.env.PORTFOLIO_TOKENS = `usdc:${USDC}:6, WETH:${WETH}`;
+    process.env.PORTFOLIO_USDC_POOL = USDC_POOL;
+    process.env.PORTFOLIO_USDC_MAX_ETH_PER_TRADE = "0.5";
+    process.env.PORTFOLIO_INTERN_MAX_WEIGHT_BPS = "4000";
+
+    const tokens = loadConfig().PORTFOLIO_TOKENS;
+
+    expect(tokens.map((t) => t.symbol)).toEqual(["INTERN", "USDC", "WETH"]);
+    expect(tokens[0]).toMatchObject({ pool: INTERN_POOL, maxWeightBps: 4000 });
+    expect(tokens[1]).toMatchObject({ decimals: 6, pool: USDC_POOL, maxEthPerTrade: "0.5" });
+    expect(tokens[2].pool).toBeUndefined();
+  });
+
+  it("rejects malformed entries", () => {
+    process.env.PORTFOLIO_TOKENS = "USDC:not-an-address";
+    expect(() => loadConfig()).toThrow(/SYMBOL:address/);
+
+    process.env.PORTFOLIO_TOKENS = `USDC:${USDC}:6`;
+    process.env.PORTFOLIO_USDC_MAX_ETH_PER_TRADE = "1e-3";
+    expect(() => loadConfig()).toThrow(/PORTFOLIO_USDC_MAX_ETH_PER_TRADE must be a plain decimal >= 0/);
+  });
+
+  it("is empty (single-token mode) by default", () => {
+    expect(loadConfig().PORTFOLIO_TOKENS).toEqual([]);
+  });
+});
+
+describe("readPortfolio", () => {
+  it("values tokens through their pools and reports unreadable ones", async () => {
+    const readContract = vi.fn(async (args: { address: Address; functionName: string; args: unknown[] }) => {
+      if (args.functionName === "balanceOf") {
+        if (args.address === USDC) throw new Error("rpc down");
+        return args.address === INTERN ? 1_000_000n * E18 : 2n * E18;
+      }
+      // getAmountOut for a 0.001 INTERN probe
+      return 10n ** 9n;
+    });
+    const clients = { publicClient: { readContract }, walletAddress: WALLET } as unknown as ChainClients;
+
+    const p = await readPortfolio(cfg(), clients, E18);
+
+    expect(p.holdings.map((h) => [h.symbol, h.priceWei, h.valueWei])).toEqual([
+      ["INTERN", 10n ** 12n, E18],
+      ["WETH", E18, 2n * E18],
+      ["USDC", 10n ** 9n * 10n ** 6n / 1_000n, null]
+    ]);
+    expect(p.totalValueWei).toBe(4n * E18);
+    expect(p.holdings[0].weightBps).toBe(2_500);
+    expect(p.unknown).toEqual(["USDC"]);
+  });
+});
+
+describe("planRotation", () => {
+  it("routes token -> WETH -> token and sizes by fraction", () => {
+    const plan = planRotation(cfg(), portfolio(), { from: "usdc", to: "INTERN", fractionBps: 1_000 }) as RotationPlan;
+
+    expect(plan.amountIn).toBe(300_000_000n); // 300 USDC
+    expect(plan.notionalWei).toBe(15n * 10n ** 16n); // 0.15 ETH
+    expect(plan.routes.map((r) => [r.from, r.to])).toEqual([
+      [USDC, WETH],
+      [WETH, INTERN]
+    ]);
+  });
+
+  it("uses a single hop when one side is WETH", () => {
+    const plan = planRotation(cfg(), portfolio(), { from: "WETH", to: "USDC", fractionBps: 500 }) as RotationPlan;
+    expect(plan.routes).toHaveLength(1);
+    expect(plan.amountIn).toBe(E18 / 10n);
+  });
+
+  it("clamps to the tighter per-token ETH cap", () => {
+    const tokens = TOKENS.map((t) => (t.symbol === "INTERN" ? { ...t, maxEthPerTrade: "0.05" } : t));
+    const plan = planRotation(cfg({ PORTFOLIO_TOKENS: tokens }), portfolio(), {
+      from: "USDC",
+      to: "INTERN",
+      fractionBps: 1_000
+    }) as RotationPlan;
+
+    expect(plan.notionalWei).toBe(5n * 10n ** 16n);
+    expect(plan.amountIn).toBe(100_000_000n); // 100 USDC
+  });
+
+  it("falls back to MAX_SPEND_ETH_PER_TRADE when no per-token cap is set", () => {
+    const plan = planRotation(cfg({ MAX_SPEND_ETH_PER_TRADE: "0.1" }), portfolio(), {
+      from: "USDC",
+      to: "INTERN",
+      fractionBps: 10_000
+    }) as RotationPlan;
+
+    expect(plan.notionalWei).toBe(E18 / 10n);
+    expect(plan.amountIn).toBe(200_000_000n); // 200 of 3000 USDC
+  });
+
+  it("blocks when the target would exceed its max weight", () => {
+    const tokens = TOKENS.map((t) => (t.symbol === "INTERN" ? { ...t, maxWeightBps: 1_600 } : t));
+    const reason = planRotation(cfg({ PORTFOLIO_TOKENS: tokens }), portfolio(), {
+      from: "USDC",
+      to: "INTERN",
+      fractionBps: 1_000
+    });
+
+    // (1 + 0.15) / 6.5 ETH
+    expect(reason).toBe("INTERN weight would be 1769bps (max 1600bps)");
+  });
+
+  it("blocks unless the router is Aerodrome", () => {
+    const rotate = { from: "USDC", to: "INTERN", fractionBps: 100 };
+    expect(planRotation(cfg({ ROUTER_TYPE: "uniswap_v3" }), portfolio(), rotate)).toBe(
+      "rotations need ROUTER_TYPE=aerodrome (got uniswap_v3)"
+    );
+  });
+
+  it("rejects unknown symbols", () => {
+    expect(planRotation(cfg(), portfolio(), { from: "DOGE", to: "INTERN", fractionBps: 100 })).toBe(
+      "unknown portfolio token DOGE"
+    );
+  });
+
+  it("encodes swapExactTokensForTokens with slippage applied", () => {
+    const plan = planRotation(cfg(), portfolio(), { from: "USDC", to: "INTERN", fractionBps: 1_000 }) as RotationPlan;
+    const swap = buildRotationCalldata(cfg(), plan, WALLET, 1_000_000n, 1_700_000_000_000);
+
+    const decoded = decodeFunctionData({
+      abi: parseAbi([
+        "function swapExactTokensForTokens(uint256,uint256,(address,address,bool,address)[],address,uint256)"
+      ]),
+      data: swap.calldata
+    });
+    expect(swap.to).toBe(ROUTER);
+    expect(decoded.args[0]).toBe(300_000_000n);
+    expect(decoded.args[1]).toBe(990_000n);
+    expect(decoded.args[4]).toBe(1_700_000_600n);
+  });
+});
+
+describe("executeRotation", () => {
+  const FEES: FeeQuote = {
+    baseFeePerGas: 10n ** 7n,
+    maxPriorityFeePerGas: 10n ** 6n,
+    maxFeePerGas: 2n * 10n ** 7n,
+    l1FeeWei: null,
+    deferral: null
+  };
+  const state = { pendingTransactions: [] };
+
+  // getAmountsOut quotes 1M raw units out; every eth_call reverts with "STF".
+  function revertingClients(allowance: bigint): ChainClients {
+    return {
+      publicClient: {
+        readContract: vi.fn(async ({ functionName }: { functionName: string }) =>
+          functionName === "allowance" ? allowance : [0n, 1_000_000n]
+        ),
+        call: vi.fn(async () => {
+          throw new Error("STF");
+        })
+      },
+      walletClient: null,
+      walletAddress: WALLET
+    } as unknown as ChainClients;
+  }
+
+  it("sends nothing when the approval simulation reverts", async () => {
+    const plan = planRotation(cfg(), portfolio(), { from: "USDC", to: "INTERN", fractionBps: 1_000 }) as RotationPlan;
+    const clients = revertingClients(0n);
+
+    const out = await executeRotation(cfg(), clients, state, plan, FEES);
+
+    expect(out).toEqual({ state, txHash: null, simulation: { ok: false, reason: "STF" } });
+    expect(clients.publicClient.call).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(clients.publicClient.call).mock.calls[0][0]).toMatchObject({ to: USDC });
+  });
+
+  it("sends nothing when the swap simulation reverts", async () => {
+    const plan = planRotation(cfg(), portfolio(), { from: "USDC", to: "INTERN", fractionBps: 1_000 }) as RotationPlan;
+    const clients = revertingClients(plan.amountIn);
+
+    const out = await executeRotation(cfg(), clients, state, plan, FEES);
+
+    expect(out.txHash).toBeNull();
+    expect(out.simulation).toEqual({ ok: false, reason: "STF" });
+    expect(vi.mocked(clients.publicClient.call).mock.calls[0][0]).toMatchObject({ to: ROUTER });
+  });
+});
+
+describe("enforceGuardrails: ROTATE", () => {
+  const base = {
+    state: { tradesExecutedToday: 0, lastExecutedTradeAtMs: null },
+    now: new Date(1_700_000_000_000),
+    wallet: WALLET,
+    ethWei: E18,
+    internAmount: 0n
+  } as const;
+  const rotate = {
+    action: "ROTATE" as const,
+    rationale: "diversify",
+    rotate: { from: "USDC", to: "INTERN", fractionBps: 1_000 }
+  };
+
+  it("returns an executable rotation plan", () => {
+    const d = enforceGuardrails(rotate, { ...base, cfg: cfg(), portfolio: portfolio() });
+    expect(d.action).toBe("ROTATE");
+    expect(d.shouldExecute).toBe(true);
+    expect(d.rotation?.amountIn).toBe(300_000_000n);
+  });
+
+  it("applies the notional budgets and market-depth checks", () => {
+    const budgetCfg = cfg({ TOKEN_ADDRESS: INTERN, MAX_BUY_ETH_24H: "0.1" });
+    const budget = enforceGuardrails(rotate, { ...base, cfg: budgetCfg, portfolio: portfolio() });
+    expect(budget.blockedReason).toBe("24h buy budget exceeded (0.15 ETH > 0.1 ETH)");
+
+    const depthCfg = cfg({ TOKEN_ADDRESS: INTERN, MAX_PRICE_IMPACT_BPS: 100 });
+    const depth = enforceGuardrails(rotate, { ...base, cfg: depthCfg, portfolio: portfolio() });
+    expect(depth.blockedReason).toBe("pool state unavailable (cannot check liquidity/price impact)");
+  });
+
+  it("leaves rotations that do not touch INTERN out of the INTERN budgets", () => {
+    const budgetCfg = cfg({ TOKEN_ADDRESS: INTERN, MAX_BUY_ETH_24H: "0.1", MAX_SELL_ETH_24H: "0.1" });
+    const toWeth = { ...rotate, rotate: { from: "USDC", to: "WETH", fractionBps: 1_000 } };
+    const d = enforceGuardrails(toWeth, { ...base, cfg: budgetCfg, portfolio: portfolio() });
+    expect(d.shouldExecute).toBe(true);
+    expect(rotationSide(budgetCfg, d.rotation!)).toBeNull();
+  });
+
+  it("holds without a portfolio and still respects the kill switch", () => {
+    expect(enforceGuardrails(rotate, { ...base, cfg: cfg() }).blockedReason).toBe(
+      "portfolio unavailable (set PORTFOLIO_TOKENS)"
+    );
+    expect(enforceGuardrails(rotate, { ...base, cfg: cfg({ KILL_SWITCH: true }), portfolio: portfolio() }).action).toBe(
+      "HOLD"
+    );
+  });
+});
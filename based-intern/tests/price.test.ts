@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  estimatePriceImpactBps,
+  formatEthPrice,
+  poolTvlWei,
+  priceImpactBps,
+  priceWeiFromQuote,
+  priceToJson,
+  readBestEffortPrice
+} from "../src/chain/price.js";
+import { registerDexProvider } from "../src/chain/dex/index.js";
+import type { AppConfig } from "../src/config.js";
+import type { ChainClients } from "../src/chain/client.js";
+
+describe("priceWeiFromQuote", () => {
+  it("prices a BUY quote (ETH in, tokens out)", () => {
+    // 0.001 ETH buys 1,000 tokens => 1e-6 ETH per token
+    expect(priceWeiFromQuote(10n ** 15n, 1000n * 10n ** 18n, true, 18)).toBe(10n ** 12n);
+  });
+
+  it("prices a SELL quote (tokens in, ETH out)", () => {
+    expect(priceWeiFromQuote(1000n * 10n ** 18n, 10n ** 15n, false, 18)).toBe(10n ** 12n);
+  });
+
+  it("keeps sub-gwei precision for low-priced tokens", () => {
+    // 1 ETH buys 1e12 tokens => 1e6 wei per token
+    expect(priceWeiFromQuote(10n ** 18n, 10n ** 30n, true, 18)).toBe(1_000_000n);
+  });
+
+  it("returns 0 for an empty quote", () => {
+    expect(priceWeiFromQuote(10n ** 18n, 0n, true, 18)).toBe(0n);
+  });
+});
+
+describe("priceImpactBps", () => {
+  it("measures execution vs mid in bps", () => {
+    expect(priceImpactBps(1_000_000n, 1_025_000n)).toBe(250);
+    expect(priceImpactBps(1_000_000n, 990_000n)).toBe(100);
+  });
+
+  it("is 0 without a mid price", () => {
+    expect(priceImpactBps(0n, 1_000n)).toBe(0);
+  });
+});
+
+describe("estimatePriceImpactBps", () => {
+  const pool = { source: "aerodrome", tokenReserve: 1_000_000n, wethReserve: 1_000n };
+
+  it("charges BUY impact against the WETH reserve", () => {
+    expect(estimatePriceImpactBps("BUY", 10n, pool)).toBe(100);
+  });
+
+  it("charges SELL impact against the post-trade token reserve", () => {
+    // 50k into 1M => 50k / 1.05M
+    expect(estimatePriceImpactBps("SELL", 50_000n, pool)).toBe(476);
+  });
+
+  it("treats an empty pool as maximal impact", () => {
+    expect(estimatePriceImpactBps("BUY", 1n, { ...pool, wethReserve: 0n })).toBe(10_000);
+  });
+
+  it("values the pool at twice its WETH side", () => {
+    expect(poolTvlWei(pool)).toBe(2_000n);
+  });
+});
+
+describe("formatEthPrice", () => {
+  it("shows 6 significant digits for sub-unit prices", () => {
+    expect(formatEthPrice(1_234_567_891n)).toBe("0.00000000123456 ETH");
+  });
+
+  it("trims trailing zeros", () => {
+    expect(formatEthPrice(10n ** 15n)).toBe("0.001 ETH");
+    expect(formatEthPrice(2n * 10n ** 18n)).toBe("2 ETH");
+  });
+
+  it("caps decimals for prices above 1 ETH", () => {
+    expect(formatEthPrice(1_500_000_000_123_456_789n)).toBe("1.5 ETH");
+  });
+});
+
+describe("readBestEffortPrice", () => {
+  const TOKEN = "0x1234567890123456789012345678901234567890" as `0x${string}`;
+  const cfg = { WETH_ADDRESS: "0x4200000000000000000000000000000000000006", PRICE_MAX_AGE_SECONDS: 120 } as AppConfig;
+
+  function clientsAt(blockTimestamp: bigint | null): ChainClients {
+    return {
+      publicClient: {
+        getBlock: vi.fn(async () => {
+          if (blockTimestamp === null) throw new Error("rpc down");
+          return { number: 777n, timestamp: blockTimestamp };
+        })
+      },
+      walletClient: null,
+      walletAddress: TOKEN
+    } as unknown as ChainClients;
+  }
+
+  registerDexProvider({
+    name: "mock",
+    getPrice: async () => ({ text: "raw", source: "mock", midPriceWei: 10n ** 12n })
+  });
+
+  it("anchors the price to the latest block and renders from structured fields", async () => {
+    const now = 1_700_000_000_000;
+    const price = await readBestEffortPrice(cfg, clientsAt(BigInt(now / 1000 - 10)), TOKEN, now);
+
+    expect(price.source).toBe("mock");
+    expect(price.quoteAsset).toBe("ETH");
+    expect(price.blockNumber).toBe(777n);
+    expect(price.stale).toBe(false);
+    expect(price.usdPrice).toBeNull();
+    expect(price.text).toBe("0.000001 ETH");
+  });
+
+  it("flags prices read from an old block as stale", async () => {
+    const now = 1_700_000_000_000;
+    const price = await readBestEffortPrice(cfg, clientsAt(BigInt(now / 1000 - 600)), TOKEN, now);
+
+    expect(price.stale).toBe(true);
+    expect(price.text).toBe("0.000001 ETH [stale]");
+  });
+
+  it("flags prices as stale when the block cannot be read", async () => {
+    const price = await readBestEffortPrice(cfg, clientsAt(null), TOKEN);
+
+    expect(price.blockNumber).toBeNull();
+    expect(price.stale).toBe(true);
+  });
+});
+
+describe("priceToJson", () => {
+  it("serializes bigints as strings", () => {
+    const json = priceToJson({ text: "x", source: "aerodrome", midPriceWei: 5n, blockNumber: 9n, stale: false });
+    expect(json).toMatchObject({ priceWei: "5", blockNumber: "9", quoteAsset: "ETH", stale: false });
+  });
+
+  it("returns unknown for missing prices", () => {
+    expect(priceToJson(null)).toBe("unknown");
+    expect(priceToJson({ text: null, source: "unknown" })).toBe("unknown");
+  });
+});
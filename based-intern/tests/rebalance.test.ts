@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Address } from "viem";
+import { proposeRebalance } from "../src/agent/rebalance.js";
+import { enforceGuardrails, type DecisionContext } from "../src/agent/decision.js";
+import type { Portfolio } from "../src/agent/portfolio.js";
+import { loadConfig, type AppConfig, type RebalanceTargetConfig } from "../src/config.js";
+
+const E18 = 10n ** 18n;
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+
+const ETH_INTERN: RebalanceTargetConfig[] = [
+  { asset: "ETH", targetBps: 6_000, bandBps: 500 },
+  { asset: "INTERN", targetBps: 4_000, bandBps: 500 }
+];
+
+function ctx(overrides: Partial<AppConfig> = {}, extra: Partial<DecisionContext> = {}): DecisionContext {
+  const cfg = {
+    TRADING_ENABLED: true,
+    KILL_SWITCH: false,
+    DRY_RUN: false,
+    ROUTER_TYPE: "aerodrome",
+    ROUTER_ADDRESS: "0x9999999999999999999999999999999999999999",
+    DAILY_TRADE_CAP: 5,
+    MIN_INTERVAL_MINUTES: 0,
+    MAX_SPEND_ETH_PER_TRADE: "1",
+    SELL_FRACTION_BPS: 10_000,
+    TWAP_MAX_DEVIATION_BPS: 0,
+    MAX_PRICE_IMPACT_BPS: 0,
+    MIN_POOL_TVL_ETH: "0",
+    TOKEN_DECIMALS: 18,
+    STRATEGY_MODE: "rebalance",
+    REBALANCE_TARGETS: ETH_INTERN,
+    REBALANCE_BAND_BPS: 500,
+    REBALANCE_MIN_TRADE_ETH: "0.0001",
+    ...overrides
+  } as AppConfig;
+
+  return {
+    cfg,
+    state: { tradesExecutedToday: 0, lastExecutedTradeAtMs: null },
+    now: new Date(1_700_000_000_000),
+    wallet: WALLET,
+    ethWei: 6n * E18,
+    internAmount: 4_000_000n * E18,
+    spotPriceWei: 10n ** 12n, // 1M INTERN = 1 ETH
+    ...extra
+  };
+}
+
+describe("proposeRebalance", () => {
+  it("holds inside the drift band", () => {
+    // 6 ETH / 4 ETH of INTERN => exactly on target
+    const p = proposeRebalance(ctx().cfg, ctx());
+    expect(p.action).toBe("HOLD");
+    expect(p.rationale).toBe("rebalance: within bands (ETH 60.0%, INTERN 40.0%)");
+  });
+
+  it("buys INTERN back to target when ETH is overweight", () => {
+    // 8 ETH / 2 ETH of INTERN => 80/20, needs 2 ETH into INTERN
+    const c = ctx({}, { ethWei: 8n * E18, internAmount: 2_000_000n * E18 });
+    const p = proposeRebalance(c.cfg, c);
+
+    expect(p).toMatchObject({ action: "BUY", buySpendWei: 2n * E18 });
+    expect(p.rationale).toContain("ETH 80.0% vs 60.0%");
+  });
+
+  it("sells the INTERN excess when INTERN is overweight", () => {
+    // 4 ETH / 6 ETH of INTERN => sell 2 ETH worth = 2M INTERN
+    const c = ctx({}, { ethWei: 4n * E18, internAmount: 6_000_000n * E18 });
+    expect(proposeRebalance(c.cfg, c)).toMatchObject({ action: "SELL", sellAmount: 2_000_000n * E18 });
+  });
+
+  it("holds when the INTERN value is unknown", () => {
+    const c = ctx({}, { spotPriceWei: null });
+    expect(proposeRebalance(c.cfg, c).rationale).toBe("rebalance: value unknown for INTERN");
+  });
+
+  it("rotates between portfolio tokens", () => {
+    const holding = (symbol: string, valueWei: bigint) => ({
+      symbol,
+      address: WALLET,
+      decimals: 18,
+      balanceRaw: valueWei,
+      priceWei: E18,
+      valueWei,
+      weightBps: null
+    });
+    const portfolio: Portfolio = {
+      ethWei: 5n * E18,
+      holdings: [holding("INTERN", 1n * E18), holding("USDC", 4n * E18)],
+      totalValueWei: 10n * E18,
+      unknown: []
+    };
+    const targets = [
+      { asset: "ETH", targetBps: 5_000, bandBps: 500 },
+      { asset: "INTERN", targetBps: 2_500, bandBps: 500 },
+      { asset: "USDC", targetBps: 2_500, bandBps: 500 }
+    ];
+    const c = ctx({ REBALANCE_TARGETS: targets }, { ethWei: 5n * E18, portfolio });
+
+    // USDC 40% -> 25%, INTERN 10% -> 25%: move 1.5 ETH of USDC's 4 ETH
+    expect(proposeRebalance(c.cfg, c)).toMatchObject({
+      action: "ROTATE",
+      rotate: { from: "USDC", to: "INTERN", fractionBps: 3_750 }
+    });
+  });
+
+  it("still passes through the guardrail caps", () => {
+    const c = ctx({ MAX_SPEND_ETH_PER_TRADE: "0.5" }, { ethWei: 8n * E18, internAmount: 2_000_000n * E18 });
+    const d = enforceGuardrails(proposeRebalance(c.cfg, c), c);
+
+    expect(d.action).toBe("BUY");
+    expect(d.buySpendWei).toBe(E18 / 2n);
+  });
+
+  it("skips corrections below the minimum trade size", () => {
+    const c = ctx({ REBALANCE_MIN_TRADE_ETH: "5" }, { ethWei: 8n * E18, internAmount: 2_000_000n * E18 });
+    expect(proposeRebalance(c.cfg, c).rationale).toBe(
+      "rebalance: correction 2 ETH below REBALANCE_MIN_TRADE_ETH"
+    );
+  });
+});
+
+describe("REBALANCE_TARGETS config", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.TRADING_ENABLED;
+    delete process.env.REBALANCE_BAND_BPS;
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("parses weights with a default and per-asset band", () => {
+    process.env.STRATEGY_MODE = "rebalance";
+    process.env.REBALANCE_TARGETS = "eth:6000, INTERN:4000:300";
+
+    expect(loadConfig().REBALANCE_TARGETS).toEqual([
+      { asset: "ETH", targetBps: 6000, bandBps: 500 },
+      { asset: "INTERN", targetBps: 4000, bandBps: 300 }
+    ]);
+  });
+
+  it("rejects weights that do not sum to 100%", () => {
+    process.env.REBALANCE_TARGETS = "ETH:6000,INTERN:3000";
+    expect(() => loadConfig()).toThrow(/must sum to 10000 bps \(got 9000\)/);
+  });
+
+  it("requires targets in rebalance mode", () => {
+    process.env.STRATEGY_MODE = "rebalance";
+    delete process.env.REBALANCE_TARGETS;
+    expect(() => loadConfig()).toThrow(/requires REBALANCE_TARGETS/);
+  });
+
+  it("rejects a REBALANCE_MIN_TRADE_ETH parseEther cannot read", () => {
+    process.env.REBALANCE_MIN_TRADE_ETH = "1e-4";
+    expect(() => loadConfig()).toThrow(/REBALANCE_MIN_TRADE_ETH must be a plain decimal >= 0/);
+  });
+});
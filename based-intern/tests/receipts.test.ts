@@ -133,6 +133,184 @@ describe("buildReceiptMessage", () => {
 
       expect(message).toContain("price: $1.234 ETH");
     });
+
+    it("renders the structured price with USD value", () => {
+      const receipt = mockReceipt({
+        priceText: "ignored",
+        price: {
+          text: "0.000001 ETH",
+          source: "aerodrome",
+          midPriceWei: 1_234_000_000_000n,
+          quoteAsset: "ETH",
+          usdPrice: 0.0041,
+          blockNumber: 123n,
+          stale: false
+        }
+      });
+      const message = buildReceiptMessage(receipt);
+
+      expect(message).toContain("price: 0.000001234 ETH (~$0.0041)");
+    });
+
+    it("flags stale structured prices", () => {
+      const receipt = mockReceipt({
+        price: { text: "x", source: "aerodrome", midPriceWei: 10n ** 15n, usdPrice: null, stale: true }
+      });
+      const message = buildReceiptMessage(receipt);
+
+      expect(message).toContain("price: 0.001 ETH [stale]");
+    });
+
+    it("shows why a trade was blocked", () => {
+      const message = buildReceiptMessage(mockReceipt({ blockedReason: "simulation reverted: INSUFFICIENT_OUTPUT_AMOUNT" }));
+
+      expect(message).toContain("blocked: simulation reverted: INSUFFICIENT_OUTPUT_AMOUNT");
+    });
+
+    it("omits the blocked line when nothing was blocked", () => {
+      expect(buildReceiptMessage(mockReceipt())).not.toContain("blocked:");
+    });
+
+    it("shows the swap route and the quotes it beat", () => {
+      const quote = (provider: string, netAmountOut: bigint) => ({
+        provider,
+        amountOut: netAmountOut,
+        gasEstimate: 0n,
+        gasCostWei: 0n,
+        netAmountOut
+      });
+      const message = buildReceiptMessage(
+        mockReceipt({
+          route: {
+            side: "SELL",
+            amountIn: 10n ** 18n,
+            best: quote("aerodrome", 10n ** 16n),
+            rejected: [quote("uniswap_v3", 9n * 10n ** 15n)],
+            failed: []
+          }
+        })
+      );
+
+      expect(message).toContain("route: aerodrome 0.01 ETH (vs uniswap_v3 0.009)");
+    });
+
+    it("lists stuck transactions replaced this tick with shortened hashes", () => {
+      const oldHash = `0x${"ab".repeat(31)}0001` as const;
+      const newHash = `0x${"cd".repeat(31)}0002` as const;
+      const message = buildReceiptMessage(
+        mockReceipt({
+          replacements: [{ label: "swap", nonce: 12, mode: "speed_up", oldHash, newHash, maxFeePerGas: 1n }]
+        })
+      );
+
+      expect(message).toContain("replaced: swap nonce 12 0xababab…0001 -> 0xcdcdcd…0002 (speed_up)");
+    });
+
+    it("lists INTERN transfers seen by the watcher", () => {
+      const message = buildReceiptMessage(
+        mockReceipt({
+          transfers: [
+            {
+              direction: "in",
+              counterparty: ("0xabc" + "0".repeat(33) + "1234") as Address,
+              amountRaw: (1_000_000n * 10n ** 18n).toString(),
+              txHash: "0x01",
+              blockNumber: 1,
+              logIndex: 0
+            }
+          ]
+        })
+      );
+
+      expect(message).toContain("transfer: received 1M INTERN from 0xabc0…1234");
+    });
+
+    it("shows an executed portfolio rotation", () => {
+      const usdc = {
+        symbol: "USDC",
+        address: ("0x" + "2".repeat(40)) as Address,
+        decimals: 6,
+        poolStable: false,
+        maxEthPerTrade: "0",
+        maxWeightBps: 0
+      };
+      const message = buildReceiptMessage(
+        mockReceipt({
+          action: "ROTATE",
+          rotation: {
+            from: usdc,
+            to: { ...usdc, symbol: "INTERN", decimals: 18 },
+            amountIn: 300_000_000n,
+            notionalWei: 15n * 10n ** 16n,
+            routes: []
+          }
+        })
+      );
+
+      expect(message).toContain("rotate: 300 USDC -> INTERN (~0.15 ETH)");
+    });
+
+    it("shows a skipped DCA installment", () => {
+      const message = buildReceiptMessage(
+        mockReceipt({
+          dca: {
+            slotMs: Date.UTC(2026, 9, 15, 14, 0),
+            number: null,
+            status: "skipped",
+            asset: "ETH",
+            amount: "0.5",
+            amountRaw: "500000000000000000",
+            txHash: null,
+            reason: "price impact 500bps > 100bps",
+            atMs: Date.UTC(2026, 9, 15, 14, 1)
+          }
+        })
+      );
+
+      expect(message).toContain("dca: skipped 0.5 ETH (slot 2026-10-15T14:00Z): price impact 500bps > 100bps");
+    });
+
+    it("shows an LP manager action", () => {
+      const message = buildReceiptMessage(
+        mockReceipt({
+          action: "LP",
+          lp: {
+            kind: "add",
+            pool: "WETH",
+            status: "executed",
+            liquidity: null,
+            tokenAmount: "1000000000000000000000",
+            ethWei: "1000000000000000",
+            txHashes: ["0xabc", "0xdef"],
+            reason: "LP below LP_MAX_TOKEN_FRACTION_BPS",
+            error: null,
+            atMs: Date.UTC(2026, 9, 15, 14, 1)
+          }
+        })
+      );
+
+      expect(message).toContain("action: LP");
+      expect(message).toContain("lp: add 1000 INTERN + 0.001 ETH to INTERN/WETH (executed)");
+    });
+
+    it("shows a gauge reward harvest", () => {
+      const message = buildReceiptMessage(
+        mockReceipt({
+          action: "HARVEST",
+          harvest: {
+            status: "executed",
+            claims: [{ pool: "WETH", aero: "12500000000000000000", valueWei: "4000000000000000", txHash: "0xabc" }],
+            compound: null,
+            txHashes: ["0xabc"],
+            error: null,
+            atMs: Date.UTC(2026, 9, 15, 14, 1)
+          }
+        })
+      );
+
+      expect(message).toContain("action: HARVEST");
+      expect(message).toContain("harvest: claim 12.5 AERO (~0.004 ETH) from INTERN/WETH gauge (executed)");
+    });
   });
 
   describe("balance formatting", () => {
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+import { registerDexProvider, type DexProvider } from "../src/chain/dex/index.js";
+import {
+  netOfGas,
+  selectBestRoute,
+  buildBestSwapCalldata,
+  describeRoute,
+  type RouteQuote
+} from "../src/chain/dex/aggregator.js";
+import type { AppConfig } from "../src/config.js";
+import type { ChainClients } from "../src/chain/client.js";
+
+const TOKEN = "0x1234567890123456789012345678901234567890" as `0x${string}`;
+const WALLET = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd" as `0x${string}`;
+const ROUTER = "0x9999999999999999999999999999999999999999" as `0x${string}`;
+
+function quote(provider: string, amountOut: bigint, netAmountOut: bigint): RouteQuote {
+  return { provider, amountOut, gasEstimate: 0n, gasCostWei: 0n, netAmountOut };
+}
+
+function mockProvider(name: string, amountOut: bigint | null, gasEstimate: bigint): DexProvider {
+  return {
+    name,
+    getPrice: async () => null,
+    quoteExactInput: async () => (amountOut === null ? null : { amountOut, gasEstimate }),
+    buildBuyCalldata: async () => ({ to: ROUTER, calldata: `0x${name}` as `0x${string}`, value: 1000n }),
+    buildSellCalldata: async () => ({ to: ROUTER, calldata: `0x${name}` as `0x${string}` })
+  };
+}
+
+describe("netOfGas", () => {
+  it("subtracts gas from ETH output on SELL", () => {
+    expect(netOfGas("SELL", 500n, 1000n, 100n)).toBe(900n);
+  });
+
+  it("charges gas against the ETH spend on BUY", () => {
+    // 10% of the spend goes to gas => 10% fewer tokens
+    expect(netOfGas("BUY", 1000n, 50_000n, 100n)).toBe(45_000n);
+  });
+
+  it("floors at zero when gas exceeds the trade", () => {
+    expect(netOfGas("SELL", 500n, 100n, 200n)).toBe(0n);
+    expect(netOfGas("BUY", 100n, 50_000n, 200n)).toBe(0n);
+  });
+});
+
+describe("selectBestRoute", () => {
+  it("picks the highest net output and rejects the rest", () => {
+    const a = quote("aerodrome", 1000n, 950n);
+    const b = quote("uniswap_v3", 1010n, 960n);
+    const sel = selectBestRoute("BUY", 100n, [a, b]);
+    expect(sel.best?.provider).toBe("uniswap_v3");
+    expect(sel.rejected.map((q) => q.provider)).toEqual(["aerodrome"]);
+  });
+
+  it("keeps the earlier provider on ties", () => {
+    const sel = selectBestRoute("SELL", 100n, [quote("aerodrome", 10n, 10n), quote("uniswap_v3", 10n, 10n)]);
+    expect(sel.best?.provider).toBe("aerodrome");
+  });
+
+  it("returns no route when every quote is eaten by gas", () => {
+    const sel = selectBestRoute("SELL", 100n, [quote("aerodrome", 10n, 0n)]);
+    expect(sel.best).toBeNull();
+    expect(sel.rejected).toHaveLength(1);
+  });
+});
+
+describe("describeRoute", () => {
+  it("lists the chosen venue with the quotes it beat, net of gas", () => {
+    const E18 = 10n ** 18n;
+    const quotes = [quote("aerodrome", 0n, 1_250n * E18), quote("uniswap_v3", 0n, 1_200n * E18)];
+    const buy = selectBestRoute("BUY", E18, quotes, ["venue_c"]);
+    expect(describeRoute(buy, 18)).toBe("aerodrome 1250 INTERN (vs uniswap_v3 1200, venue_c no quote)");
+
+    const sell = selectBestRoute("SELL", E18, [quote("uniswap_v3", 0n, E18 / 2n)]);
+    expect(describeRoute(sell, 18)).toBe("uniswap_v3 0.5 ETH");
+    expect(describeRoute(selectBestRoute("SELL", E18, [], ["aerodrome"]), 18)).toBe("no route (vs aerodrome no quote)");
+  });
+});
+
+describe("buildBestSwapCalldata", () => {
+  it("routes through the venue with the best net-of-gas quote", async () => {
+    // venue_a quotes more tokens but costs far more gas
+    registerDexProvider(mockProvider("venue_a", 1_050n, 400_000n));
+    registerDexProvider(mockProvider("venue_b", 1_000n, 100_000n));
+    registerDexProvider(mockProvider("venue_c", null, 100_000n));
+
+    const clients = {
+      publicClient: { getGasPrice: vi.fn(async () => 1n) },
+      walletClient: null,
+      walletAddress: WALLET
+    } as unknown as ChainClients;
+    const cfg = { WETH_ADDRESS: "0x4200000000000000000000000000000000000006" } as AppConfig;
+
+    const { selection, swap } = await buildBestSwapCalldata(cfg, clients, TOKEN, WALLET, "BUY", 1_000_000n);
+
+    expect(selection.best?.provider).toBe("venue_b");
+    expect(selection.rejected.map((q) => q.provider)).toEqual(["venue_a"]);
+    expect(selection.failed).toEqual(["venue_c"]);
+    expect(swap?.calldata).toBe("0xvenue_b");
+  });
+
+  it("returns the reserves of the winning venue's pool", async () => {
+    const reserves = (name: string) => async () => ({ source: name, tokenReserve: 1n, wethReserve: 1n });
+    registerDexProvider({ ...mockProvider("venue_d", 900n, 100_000n), getPoolReserves: reserves("venue_d") });
+    registerDexProvider({ ...mockProvider("venue_e", 2_000n, 100_000n), getPoolReserves: reserves("venue_e") });
+
+    const clients = {
+      publicClient: { getGasPrice: vi.fn(async () => 1n) },
+      walletClient: null,
+      walletAddress: WALLET
+    } as unknown as ChainClients;
+    const cfg = { WETH_ADDRESS: "0x4200000000000000000000000000000000000006" } as AppConfig;
+
+    const { selection, pool } = await buildBestSwapCalldata(cfg, clients, TOKEN, WALLET, "BUY", 1_000_000n);
+
+    expect(selection.best?.provider).toBe("venue_e");
+    expect(pool?.source).toBe("venue_e");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+import { HttpRequestError, RpcRequestError, createPublicClient } from "viem";
+import { baseSepolia } from "viem/chains";
+import { createRpcHealthTracker, createRpcTransport, isEndpointFailure, redactRpcUrl } from "../src/chain/rpc.js";
+import { rpcUrlsForChain, type AppConfig } from "../src/config.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const A = "https://base-mainnet.g.alchemy.com/v2/SECRET";
+const B = "https://mainnet.base.org";
+
+describe("rpcUrlsForChain", () => {
+  it("splits comma-separated URLs in order", () => {
+    const cfg = { CHAIN: "base", BASE_RPC_URL: ` ${A} ,${B},` } as AppConfig;
+    expect(rpcUrlsForChain(cfg)).toEqual([A, B]);
+  });
+
+  it("prefers RPC_URL over the chain-specific variable", () => {
+    const cfg = { CHAIN: "base-sepolia", RPC_URL: B, BASE_SEPOLIA_RPC_URL: A } as AppConfig;
+    expect(rpcUrlsForChain(cfg)).toEqual([B]);
+  });
+});
+
+describe("redactRpcUrl", () => {
+  it("drops paths and queries that may carry API keys", () => {
+    expect(redactRpcUrl(A)).toBe("https://base-mainnet.g.alchemy.com/…");
+    expect(redactRpcUrl("https://rpc.example?key=abc")).toBe("https://rpc.example/…");
+    expect(redactRpcUrl(B)).toBe("https://mainnet.base.org");
+  });
+});
+
+describe("createRpcHealthTracker", () => {
+  it("counts transport failures but not JSON-RPC errors", () => {
+    const httpError = new HttpRequestError({ url: A, status: 503 });
+    const revert = new RpcRequestError({ body: {}, url: A, error: { code: 3, message: "execution reverted" } });
+    expect(isEndpointFailure(httpError)).toBe(true);
+    expect(isEndpointFailure(revert)).toBe(false);
+
+    const tracker = createRpcHealthTracker([A, B]);
+    tracker.record(A, 100, null);
+    tracker.record(A, 0, httpError, 1_000);
+    tracker.record(A, 0, httpError, 2_000);
+    tracker.record(B, 50, revert);
+
+    const [a, b] = tracker.snapshot();
+    expect(a).toMatchObject({
+      url: "https://base-mainnet.g.alchemy.com/…",
+      requests: 3,
+      failures: 2,
+      consecutiveFailures: 2,
+      avgLatencyMs: 100,
+      lastErrorAtMs: 2_000
+    });
+    expect(b).toMatchObject({ requests: 1, failures: 0, avgLatencyMs: 50 });
+  });
+
+  it("resets consecutive failures and averages latency on recovery", () => {
+    const tracker = createRpcHealthTracker([B]);
+    tracker.record(B, 0, new HttpRequestError({ url: B }));
+    tracker.record(B, 100, null);
+    tracker.record(B, 200, null);
+
+    expect(tracker.snapshot()[0]).toMatchObject({ consecutiveFailures: 0, lastLatencyMs: 200, avgLatencyMs: 120 });
+  });
+});
+
+describe("createRpcTransport", () => {
+  it("fails over to the next endpoint and records both", async () => {
+    const tracker = createRpcHealthTracker([A, B]);
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = String(input instanceof Request ? input.url : input);
+      if (url === A) return new Response("unavailable", { status: 503 });
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: 0, result: "0x10" }));
+    });
+
+    try {
+      const transport = createRpcTransport([A, B], { rank: false, rankIntervalMs: 60_000, tracker });
+      const client = createPublicClient({ chain: baseSepolia, transport });
+
+      expect(await client.getBlockNumber({ cacheTime: 0 })).toBe(16n);
+      const [a, b] = tracker.snapshot();
+      expect(a.failures).toBe(1);
+      expect(b).toMatchObject({ requests: 1, failures: 0 });
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it("uses a plain transport for a single URL", () => {
+    const transport = createRpcTransport([B], { rank: true, rankIntervalMs: 60_000 });
+    expect(transport({ chain: baseSepolia }).config.type).toBe("http");
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { parseGwei, verifyMessage } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { createKeystoreSigner, decryptKeystore, encryptKeystore, type KeystoreV3 } from "../src/chain/keystore.js";
+import { createRemoteSigner } from "../src/chain/remoteSigner.js";
+import { signerFromConfig } from "../src/chain/client.js";
+import type { AppConfig } from "../src/config.js";
+
+const KEY = "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d" as const;
+const ACCOUNT = privateKeyToAccount(KEY);
+
+const TX = {
+  chainId: 84532,
+  type: "eip1559",
+  to: "0x9999999999999999999999999999999999999999",
+  data: "0x1234",
+  value: 0n,
+  nonce: 3,
+  gas: 200_000n,
+  maxFeePerGas: parseGwei("0.02"),
+  maxPriorityFeePerGas: parseGwei("0.001")
+} as const;
+
+// Web3 Secret Storage spec test vector (PBKDF2, password "testpassword").
+const PBKDF2_VECTOR: KeystoreV3 = {
+  version: 3,
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd"
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2"
+  }
+};
+
+function tmpFile(name: string, contents: string): string {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), "signer-")), name);
+  writeFileSync(file, contents);
+  return file;
+}
+
+function rpcResponse(result: unknown): Response {
+  return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result }));
+}
+
+describe("keystore", () => {
+  it("decrypts the PBKDF2 spec vector", () => {
+    expect(decryptKeystore(PBKDF2_VECTOR, "testpassword")).toBe(KEY);
+  });
+
+  it("round-trips a scrypt keystore", () => {
+    const keystore = encryptKeystore(KEY, "hunter2", { n: 1024 });
+    expect(keystore.address).toBe(ACCOUNT.address.slice(2).toLowerCase());
+    expect(decryptKeystore(JSON.stringify(keystore), "hunter2")).toBe(KEY);
+  });
+
+  it("rejects a wrong password", () => {
+    const keystore = encryptKeystore(KEY, "hunter2", { n: 1024 });
+    expect(() => decryptKeystore(keystore, "hunter3")).toThrow(/wrong password/);
+  });
+
+  it("signs with a keystore file and a password file", async () => {
+    const signer = createKeystoreSigner({
+      path: tmpFile("wallet.json", JSON.stringify(encryptKeystore(KEY, "hunter2", { n: 1024 }))),
+      passwordFile: tmpFile("password", "hunter2\n")
+    });
+
+    expect(signer.kind).toBe("keystore");
+    expect(signer.address).toBe(ACCOUNT.address);
+    const signature = await signer.signMessage("gm");
+    expect(await verifyMessage({ address: ACCOUNT.address, message: "gm", signature })).toBe(true);
+  });
+});
+
+describe("createRemoteSigner", () => {
+  it("sends eth_signTransaction with hex quantities and the bearer token", async () => {
+    const signed = await ACCOUNT.signTransaction(TX);
+    const fetchImpl = vi.fn(async () => rpcResponse(signed));
+    const signer = createRemoteSigner({
+      url: "http://signer.internal:9000",
+      address: ACCOUNT.address,
+      token: "s3cret",
+      fetchImpl: fetchImpl as unknown as typeof fetch
+    });
+
+    expect(await signer.signTransaction(TX)).toBe(signed);
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://signer.internal:9000");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer s3cret");
+    const body = JSON.parse(String(init.body));
+    expect(body.method).toBe("eth_signTransaction");
+    expect(body.params[0]).toMatchObject({
+      from: ACCOUNT.address,
+      nonce: "0x3",
+      gas: "0x30d40",
+      chainId: "0x14a34",
+      type: "0x2",
+      maxFeePerGas: "0x1312d00"
+    });
+  });
+
+  it("rejects a tx signed by a different key", async () => {
+    const other = privateKeyToAccount(`0x${"11".repeat(32)}`);
+    const fetchImpl = vi.fn(async () => rpcResponse(await other.signTransaction(TX)));
+    const signer = createRemoteSigner({
+      url: "http://signer",
+      address: ACCOUNT.address,
+      fetchImpl: fetchImpl as unknown as typeof fetch
+    });
+
+    await expect(signer.signTransaction(TX)).rejects.toThrow(/expected/);
+  });
+
+  it("returns message and typed-data signatures that recover to the address", async () => {
+    const typedData = {
+      domain: { name: "based-intern", chainId: 84532 },
+      types: { Ping: [{ name: "n", type: "uint256" }] },
+      primaryType: "Ping",
+      message: { n: 1n }
+    } as const;
+    const sigs = [await ACCOUNT.signMessage({ message: "gm" }), await ACCOUNT.signTypedData(typedData)];
+    const fetchImpl = vi.fn(async () => rpcResponse(sigs.shift()));
+    const signer = createRemoteSigner({
+      url: "http://signer",
+      address: ACCOUNT.address,
+      fetchImpl: fetchImpl as unknown as typeof fetch
+    });
+
+    const message = await signer.signMessage("gm");
+    expect(await verifyMessage({ address: ACCOUNT.address, message: "gm", signature: message })).toBe(true);
+    await expect(signer.signTypedData(typedData)).resolves.toMatch(/^0x[0-9a-f]{130}$/);
+  });
+
+  it("rejects malformed or foreign message signatures", async () => {
+    const other = privateKeyToAccount(`0x${"11".repeat(32)}`);
+    const results: unknown[] = ["0x1234", { v: 27 }, await other.signMessage({ message: "gm" })];
+    const fetchImpl = vi.fn(async () => rpcResponse(results.shift()));
+    const signer = createRemoteSigner({
+      url: "http://signer",
+      address: ACCOUNT.address,
+      fetchImpl: fetchImpl as unknown as typeof fetch
+    });
+
+    await expect(signer.signMessage("gm")).rejects.toThrow("remote signer eth_sign returned a malformed signature");
+    await expect(signer.signMessage("gm")).rejects.toThrow("remote signer eth_sign returned a malformed signature");
+    await expect(signer.signMessage("gm")).rejects.toThrow(`signed with ${other.address}, expected ${ACCOUNT.address}`);
+  });
+
+  it("surfaces JSON-RPC errors", async () => {
+    const fetchImpl = vi.fn(
+      async () => new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, error: { code: -32000, message: "locked" } }))
+    );
+    const signer = createRemoteSigner({
+      url: "http://signer",
+      address: ACCOUNT.address,
+      fetchImpl: fetchImpl as unknown as typeof fetch
+    });
+
+    await expect(signer.signMessage("gm")).rejects.toThrow("remote signer eth_sign failed: locked (-32000)");
+  });
+});
+
+describe("signerFromConfig", () => {
+  it("selects the signer by WALLET_MODE", () => {
+    expect(signerFromConfig({ WALLET_MODE: "private_key", PRIVATE_KEY: KEY.slice(2) } as AppConfig).address).toBe(
+      ACCOUNT.address
+    );
+    const remote = signerFromConfig({
+      WALLET_MODE: "remote",
+      REMOTE_SIGNER_URL: "http://signer",
+      REMOTE_SIGNER_ADDRESS: ACCOUNT.address
+    } as AppConfig);
+    expect(remote.kind).toBe("remote");
+    expect(remote.address).toBe(ACCOUNT.address);
+  });
+});
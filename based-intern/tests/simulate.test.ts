@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { BaseError, RawContractError, encodeErrorResult, zeroAddress, type Hex } from "viem";
+import {
+  decodeRevertData,
+  decodeRevertReason,
+  simulateApprove,
+  simulateSwap,
+  simulateTransaction
+} from "../src/chain/simulate.js";
+import type { ChainClients } from "../src/chain/client.js";
+
+const WALLET = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd" as `0x${string}`;
+const ROUTER = "0x9999999999999999999999999999999999999999" as `0x${string}`;
+
+const ERROR_ABI = [{ type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] }] as const;
+const PANIC_ABI = [{ type: "error", name: "Panic", inputs: [{ name: "code", type: "uint256" }] }] as const;
+
+function revertData(message: string): Hex {
+  return encodeErrorResult({ abi: ERROR_ABI, errorName: "Error", args: [message] });
+}
+
+function mockClients(publicClient: Record<string, unknown>, walletAddress: `0x${string}` = WALLET): ChainClients {
+  return { publicClient, walletClient: null, walletAddress } as unknown as ChainClients;
+}
+
+describe("decodeRevertData", () => {
+  it("decodes Error(string)", () => {
+    expect(decodeRevertData(revertData("Router: INSUFFICIENT_OUTPUT_AMOUNT"))).toBe("Router: INSUFFICIENT_OUTPUT_AMOUNT");
+  });
+
+  it("decodes Panic(uint256) to its code", () => {
+    const data = encodeErrorResult({ abi: PANIC_ABI, errorName: "Panic", args: [0x11n] });
+    expect(decodeRevertData(data)).toBe("panic 0x11");
+  });
+
+  it("falls back to the selector for unknown custom errors", () => {
+    expect(decodeRevertData("0xdeadbeef0000")).toBe("custom error 0xdeadbeef");
+  });
+
+  it("returns null for empty revert data", () => {
+    expect(decodeRevertData("0x")).toBeNull();
+    expect(decodeRevertData(undefined)).toBeNull();
+  });
+});
+
+describe("decodeRevertReason", () => {
+  it("finds raw revert data anywhere in the cause chain", () => {
+    const err = new BaseError("call failed", { cause: new RawContractError({ data: revertData("expired") }) });
+    expect(decodeRevertReason(err)).toBe("expired");
+  });
+
+  it("uses the message for non-revert errors", () => {
+    expect(decodeRevertReason(new Error("timeout"))).toBe("timeout");
+  });
+});
+
+describe("simulateTransaction", () => {
+  it("passes when the call succeeds", async () => {
+    const call = vi.fn(async () => ({ data: "0x" }));
+    const res = await simulateSwap(mockClients({ call }), { to: ROUTER, calldata: "0x1234", value: 5n });
+
+    expect(res).toEqual({ ok: true });
+    expect(call).toHaveBeenCalledWith({ account: WALLET, to: ROUTER, data: "0x1234", value: 5n });
+  });
+
+  it("reports the decoded revert reason", async () => {
+    const call = vi.fn(async () => {
+      throw new RawContractError({ data: revertData("Router: EXPIRED") });
+    });
+    const res = await simulateTransaction(mockClients({ call }), { to: ROUTER, data: "0x1234" }, "lp_add");
+
+    expect(res).toEqual({ ok: false, reason: "Router: EXPIRED" });
+  });
+
+  it("skips simulation without a wallet address (read-only)", async () => {
+    const call = vi.fn();
+    const res = await simulateTransaction(mockClients({ call }, zeroAddress), { to: ROUTER, data: "0x" }, "swap");
+
+    expect(res.ok).toBe(true);
+    expect(call).not.toHaveBeenCalled();
+  });
+});
+
+describe("simulateApprove", () => {
+  it("surfaces approve reverts", async () => {
+    const simulateContract = vi.fn(async () => {
+      throw new RawContractError({ data: revertData("paused") });
+    });
+    const res = await simulateApprove(mockClients({ simulateContract }), ROUTER, WALLET, 1n);
+
+    expect(res).toEqual({ ok: false, reason: "paused" });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Address } from "viem";
+import {
+  getStrategies,
+  llmStrategy,
+  registerStrategy,
+  runStrategies,
+  type StrategyContext
+} from "../src/agent/strategy.js";
+import { loadConfig, type AppConfig } from "../src/config.js";
+import { logger } from "../src/logger.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const E18 = 10n ** 18n;
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+
+const proposeAction = vi.fn(async () => ({ action: "BUY" as const, rationale: "llm says buy" }));
+registerStrategy(llmStrategy(proposeAction));
+
+function ctx(overrides: Partial<AppConfig> = {}): StrategyContext {
+  const cfg = {
+    TRADING_ENABLED: true,
+    KILL_SWITCH: false,
+    DRY_RUN: false,
+    ROUTER_TYPE: "aerodrome",
+    ROUTER_ADDRESS: "0x9999999999999999999999999999999999999999",
+    DAILY_TRADE_CAP: 5,
+    MIN_INTERVAL_MINUTES: 0,
+    MAX_SPEND_ETH_PER_TRADE: "0.01",
+    SELL_FRACTION_BPS: 500,
+    TWAP_MAX_DEVIATION_BPS: 0,
+    MAX_PRICE_IMPACT_BPS: 0,
+    MIN_POOL_TVL_ETH: "0",
+    TOKEN_DECIMALS: 18,
+    STRATEGY_MODE: "llm",
+    STRATEGY_SHADOW: [],
+    ...overrides
+  } as AppConfig;
+
+  return {
+    cfg,
+    state: { tradesExecutedToday: 0, lastExecutedTradeAtMs: null },
+    now: new Date(1_700_000_000_000),
+    wallet: WALLET,
+    ethWei: E18,
+    internAmount: 1_000n * E18
+  };
+}
+
+describe("strategy registry", () => {
+  it("ships the built-in strategies", () => {
+    expect(getStrategies().map((s) => s.name)).toEqual(expect.arrayContaining(["llm", "rebalance", "hold"]));
+  });
+
+  it("runs the live strategy selected by STRATEGY_MODE", async () => {
+    const c = ctx();
+    const run = await runStrategies(c.cfg, c);
+
+    expect(run).toMatchObject({ strategy: "llm", proposal: { action: "BUY", rationale: "llm says buy" }, shadows: [] });
+    expect(proposeAction).toHaveBeenCalledWith(
+      c.cfg,
+      expect.objectContaining({ wallet: WALLET, internDecimals: 18 })
+    );
+  });
+
+  it("runs shadows through the guardrails without touching the live proposal", async () => {
+    registerStrategy({
+      name: "test_seller",
+      description: "always sells",
+      propose: async () => ({ action: "SELL", rationale: "dump it" })
+    });
+    const c = ctx({ STRATEGY_MODE: "hold", STRATEGY_SHADOW: ["llm", "test_seller"] });
+
+    const run = await runStrategies(c.cfg, c);
+
+    expect(run.proposal.action).toBe("HOLD");
+    expect(run.shadows.map((s) => [s.strategy, s.decision?.action, s.decision?.shouldExecute])).toEqual([
+      ["llm", "BUY", true],
+      ["test_seller", "SELL", true]
+    ]);
+    expect(run.shadows[1].decision?.sellAmount).toBe(50n * E18);
+    expect(logger.info).toHaveBeenCalledWith("strategy.shadow", expect.objectContaining({ strategy: "test_seller" }));
+  });
+
+  it("holds when the live strategy throws and isolates failing shadows", async () => {
+    registerStrategy({
+      name: "test_broken",
+      description: "throws",
+      propose: async () => {
+        throw new Error("boom");
+      }
+    });
+
+    const live = ctx({ STRATEGY_MODE: "test_broken" });
+    expect((await runStrategies(live.cfg, live)).proposal).toEqual({
+      action: "HOLD",
+      rationale: "strategy test_broken failed: boom"
+    });
+
+    const shadow = ctx({ STRATEGY_MODE: "llm", STRATEGY_SHADOW: ["test_broken"] });
+    const run = await runStrategies(shadow.cfg, shadow);
+    expect(run.proposal.action).toBe("BUY");
+    expect(run.shadows[0]).toMatchObject({ strategy: "test_broken", proposal: null, error: "boom" });
+  });
+
+  it("rejects unknown strategy names", async () => {
+    const c = ctx({ STRATEGY_SHADOW: ["nope"] });
+    await expect(runStrategies(c.cfg, c)).rejects.toThrow(/unknown strategy "nope"/);
+  });
+});
+
+describe("STRATEGY_SHADOW config", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.TRADING_ENABLED;
+    delete process.env.STRATEGY_MODE;
+    delete process.env.REBALANCE_TARGETS;
+    process.env.RPC_URL = "http://localhost:8545";
+    process.env.PRIVATE_KEY = "0x" + "a".repeat(64);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("parses a comma-separated list of shadow strategies", () => {
+    registerStrategy({
+      name: "my_plugin",
+      description: "test plugin",
+      propose: async () => ({ action: "HOLD", rationale: "my_plugin" })
+    });
+    process.env.STRATEGY_SHADOW = "hold, my_plugin";
+    expect(loadConfig()).toMatchObject({ STRATEGY_MODE: "llm", STRATEGY_SHADOW: ["hold", "my_plugin"] });
+  });
+
+  it("rejects strategy names that are not registered", () => {
+    process.env.STRATEGY_MODE = "not_registered";
+    expect(() => loadConfig()).toThrow(/unknown strategy "not_registered".*registered: .*llm/);
+  });
+
+  it("requires rebalance targets for a rebalance shadow", () => {
+    process.env.STRATEGY_SHADOW = "rebalance";
+    expect(() => loadConfig()).toThrow(/requires REBALANCE_TARGETS/);
+  });
+});
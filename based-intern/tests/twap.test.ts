@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  appendObservation,
+  computeTwap,
+  readObservedTwap,
+  recordPriceObservation,
+  twapDeviationBps,
+  type PriceObservation
+} from "../src/chain/twap.js";
+import type { AppConfig } from "../src/config.js";
+
+const MIN = 60_000;
+
+function obs(atMs: number, priceWei: bigint, source = "aerodrome"): PriceObservation {
+  return { atMs, source, priceWei: priceWei.toString(), blockNumber: null };
+}
+
+describe("computeTwap", () => {
+  it("weights each sample by how long it was in force", () => {
+    // 100 for 45 minutes, then 200 for 15 minutes => 125
+    const twap = computeTwap([obs(0, 100n), obs(45 * MIN, 200n)], 60 * MIN, 60 * MIN, 2);
+    expect(twap?.twapPriceWei).toBe(125n);
+    expect(twap?.coveredMs).toBe(60 * MIN);
+  });
+
+  it("lets the sample before the window cover the window head", () => {
+    // Window is [30m, 90m]: 100 in force 30m-60m, 300 from 60m-90m => 200
+    const twap = computeTwap([obs(0, 100n), obs(60 * MIN, 300n), obs(75 * MIN, 300n)], 90 * MIN, 60 * MIN, 2);
+    expect(twap?.twapPriceWei).toBe(200n);
+    expect(twap?.observations).toBe(2);
+  });
+
+  it("is not moved much by a single manipulated sample", () => {
+    const samples = [obs(0, 100n), obs(20 * MIN, 100n), obs(40 * MIN, 100n), obs(59 * MIN, 10_000n)];
+    const twap = computeTwap(samples, 60 * MIN, 60 * MIN, 3);
+    expect(twap!.twapPriceWei).toBeLessThan(300n);
+  });
+
+  it("returns null without enough samples in the window", () => {
+    expect(computeTwap([obs(0, 100n), obs(10 * MIN, 100n)], 60 * MIN, 60 * MIN, 3)).toBeNull();
+    expect(computeTwap([], 60 * MIN, 60 * MIN, 1)).toBeNull();
+  });
+});
+
+describe("appendObservation", () => {
+  it("prunes samples older than the retention period", () => {
+    const next = appendObservation([obs(0, 1n), obs(50 * MIN, 2n)], obs(120 * MIN, 3n), 90 * MIN);
+    expect(next.map((o) => o.atMs)).toEqual([50 * MIN, 120 * MIN]);
+  });
+
+  it("drops out-of-order samples for the same source", () => {
+    const existing = [obs(10 * MIN, 1n)];
+    expect(appendObservation(existing, obs(5 * MIN, 2n), 90 * MIN)).toBe(existing);
+    expect(appendObservation(existing, obs(5 * MIN, 2n, "uniswap_v3"), 90 * MIN)).toHaveLength(2);
+  });
+});
+
+describe("twapDeviationBps", () => {
+  it("measures spot distance from TWAP in bps", () => {
+    expect(twapDeviationBps(110n, 100n)).toBe(1000);
+    expect(twapDeviationBps(95n, 100n)).toBe(500);
+    expect(twapDeviationBps(95n, 0n)).toBe(0);
+  });
+});
+
+describe("observation store", () => {
+  let dir: string;
+  let cfg: AppConfig;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "twap-"));
+    cfg = { DATA_DIR: dir, TWAP_WINDOW_MINUTES: 60, TWAP_MIN_OBSERVATIONS: 2 } as AppConfig;
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists fresh prices and reads them back as a TWAP", async () => {
+    const price = (wei: bigint) => ({ text: "x", source: "aerodrome", midPriceWei: wei, stale: false });
+
+    expect(await recordPriceObservation(cfg, price(100n), 0)).toBe(true);
+    expect(await recordPriceObservation(cfg, price(300n), 30 * MIN)).toBe(true);
+
+    const twap = await readObservedTwap(cfg, "aerodrome", 60 * MIN);
+    expect(twap?.twapPriceWei).toBe(200n);
+    expect(twap?.source).toBe("aerodrome");
+    expect(await readObservedTwap(cfg, "uniswap_v3", 60 * MIN)).toBeNull();
+  });
+
+  it("never records stale or unknown prices", async () => {
+    expect(await recordPriceObservation(cfg, { text: "x", source: "aerodrome", midPriceWei: 1n, stale: true }, 0)).toBe(
+      false
+    );
+    expect(await recordPriceObservation(cfg, { text: null, source: "unknown" }, 0)).toBe(false);
+  });
+});
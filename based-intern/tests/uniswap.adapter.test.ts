@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { decodeFunctionData, getAddress, type Hex } from "viem";
+import { applySlippage } from "../src/chain/aerodrome.js";
+import { UniswapV3Adapter } from "../src/chain/dex/uniswapV3Adapter.js";
+import { ROUTER_ADDRESS_THIS, UNISWAP_V3_SWAP_ROUTER02_ABI } from "../src/chain/uniswapV3.js";
+import type { AppConfig } from "../src/config.js";
+import type { ChainClients } from "../src/chain/client.js";
+import { logger } from "../src/logger.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const Q96 = 2n ** 96n;
+const E18 = 10n ** 18n;
+const TOKEN = getAddress("0xd530521Ca9cb47FFd4E851F1Fe2E448527010B11");
+const WETH = "0x4200000000000000000000000000000000000006" as `0x${string}`;
+const WALLET = getAddress("0xabcdefabcdefabcdefabcdefabcdefabcdefabcd");
+const POOL = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const ROUTER = "0x2222222222222222222222222222222222222222" as `0x${string}`;
+const QUOTER = "0x3333333333333333333333333333333333333333" as `0x${string}`;
+
+function cfg(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    ROUTER_TYPE: "uniswap_v3",
+    WETH_ADDRESS: WETH,
+    UNISWAP_V3_POOL_ADDRESS: POOL,
+    UNISWAP_V3_ROUTER_ADDRESS: ROUTER,
+    UNISWAP_V3_FEE: 3000,
+    TOKEN_DECIMALS: 18,
+    SLIPPAGE_BPS: 100,
+    ...overrides
+  } as AppConfig;
+}
+
+// INTERN/WETH pool at a 1:1 raw price (sqrtPriceX96 = 2^96), INTERN as token0.
+function mockClients(opts: { fee?: number; quote?: { amountOut: bigint; gasEstimate: bigint } } = {}): ChainClients {
+  const reads: Record<string, unknown> = {
+    slot0: [Q96, 0, 0, 1, 1, 0, true],
+    liquidity: 10n ** 24n,
+    token0: TOKEN,
+    token1: WETH,
+    fee: opts.fee ?? 3000
+  };
+  return {
+    publicClient: {
+      readContract: vi.fn(async ({ functionName }: { functionName: string }) => reads[functionName]),
+      simulateContract: vi.fn(async () => {
+        if (!opts.quote) throw new Error("no quoter");
+        return { result: [opts.quote.amountOut, 0n, 0, opts.quote.gasEstimate] };
+      })
+    },
+    walletClient: null,
+    walletAddress: WALLET
+  } as unknown as ChainClients;
+}
+
+function decodeMulticall(data: Hex): Hex[] {
+  const outer = decodeFunctionData({ abi: UNISWAP_V3_SWAP_ROUTER02_ABI, data });
+  if (outer.functionName !== "multicall") throw new Error(`expected multicall, got ${outer.functionName}`);
+  return [...outer.args[1]];
+}
+
+function decodeSwapParams(data: Hex) {
+  const swap = decodeFunctionData({ abi: UNISWAP_V3_SWAP_ROUTER02_ABI, data });
+  if (swap.functionName !== "exactInputSingle") throw new Error(`expected exactInputSingle, got ${swap.functionName}`);
+  return swap.args[0];
+}
+
+beforeEach(() => {
+  vi.mocked(logger.warn).mockClear();
+});
+
+describe("UniswapV3Adapter.getPrice", () => {
+  it("prices INTERN from sqrtPriceX96", async () => {
+    const price = await UniswapV3Adapter.getPrice(cfg(), mockClients(), TOKEN, WETH);
+    expect(price).toMatchObject({ source: "uniswap_v3", midPriceWei: E18 });
+  });
+
+  it("reports and logs a pool whose fee tier differs from UNISWAP_V3_FEE", async () => {
+    const price = await UniswapV3Adapter.getPrice(cfg(), mockClients({ fee: 500 }), TOKEN, WETH);
+
+    expect(price).toEqual({ text: null, source: "uniswap_v3_fee_mismatch" });
+    expect(logger.warn).toHaveBeenCalledWith("uniswap_v3.fee_mismatch", {
+      pool: POOL,
+      poolFee: 500,
+      configuredFee: 3000
+    });
+  });
+});
+
+describe("UniswapV3Adapter.quoteExactInput", () => {
+  it("adds the router overhead to the QuoterV2 gas estimate", async () => {
+    const quote = await UniswapV3Adapter.quoteExactInput(
+      cfg({ UNISWAP_V3_QUOTER_ADDRESS: QUOTER }),
+      mockClients({ quote: { amountOut: 900n, gasEstimate: 100_000n } }),
+      TOKEN,
+      WETH,
+      "BUY",
+      1_000n
+    );
+    expect(quote).toEqual({ amountOut: 900n, gasEstimate: 140_000n });
+  });
+
+  it("does not quote a pool with the wrong fee tier", async () => {
+    const clients = mockClients({ fee: 10_000 });
+    expect(await UniswapV3Adapter.quoteExactInput(cfg(), clients, TOKEN, WETH, "SELL", E18)).toBeNull();
+  });
+});
+
+describe("UniswapV3Adapter.buildBuyCalldata", () => {
+  it("swaps the spend from WETH into INTERN for the wallet with the slippage floor", async () => {
+    const swap = await UniswapV3Adapter.buildBuyCalldata(cfg(), mockClients(), TOKEN, WETH, WALLET, E18);
+
+    expect(swap).toMatchObject({ to: ROUTER, value: E18 });
+    const calls = decodeMulticall(swap!.calldata);
+    expect(calls).toHaveLength(1);
+    // 0.3% pool fee at a 1:1 price, without a quoter
+    expect(decodeSwapParams(calls[0])).toMatchObject({
+      tokenIn: WETH,
+      tokenOut: TOKEN,
+      fee: 3000,
+      recipient: WALLET,
+      amountIn: E18,
+      amountOutMinimum: applySlippage((E18 * 997n) / 1000n, 100)
+    });
+  });
+
+  it("returns null when the pool's fee tier differs from UNISWAP_V3_FEE", async () => {
+    const clients = mockClients({ fee: 500 });
+    expect(await UniswapV3Adapter.buildBuyCalldata(cfg(), clients, TOKEN, WETH, WALLET, E18)).toBeNull();
+  });
+});
+
+describe("UniswapV3Adapter.buildSellCalldata", () => {
+  it("sells INTERN into the router and unwraps the WETH to the wallet", async () => {
+    const swap = await UniswapV3Adapter.buildSellCalldata(
+      cfg({ UNISWAP_V3_QUOTER_ADDRESS: QUOTER }),
+      mockClients({ quote: { amountOut: E18 / 2n, gasEstimate: 100_000n } }),
+      TOKEN,
+      WETH,
+      WALLET,
+      E18
+    );
+
+    expect(swap).toMatchObject({ to: ROUTER, value: undefined });
+    const calls = decodeMulticall(swap!.calldata);
+    expect(calls).toHaveLength(2);
+    expect(decodeSwapParams(calls[0])).toMatchObject({
+      tokenIn: TOKEN,
+      tokenOut: WETH,
+      recipient: ROUTER_ADDRESS_THIS,
+      amountIn: E18,
+      amountOutMinimum: applySlippage(E18 / 2n, 100)
+    });
+    const unwrap = decodeFunctionData({ abi: UNISWAP_V3_SWAP_ROUTER02_ABI, data: calls[1] });
+    expect(unwrap.functionName).toBe("unwrapWETH9");
+    expect(unwrap.args).toEqual([applySlippage(E18 / 2n, 100), WALLET]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { decodeFunctionData, type Hex } from "viem";
+import {
+  priceWeiFromSqrtPriceX96,
+  estimateUniswapV3Output,
+  buildUniswapV3SwapCalldata,
+  isUniswapV3FeeTier,
+  virtualReservesFromLiquidity,
+  ROUTER_ADDRESS_THIS,
+  UNISWAP_V3_SWAP_ROUTER02_ABI
+} from "../src/chain/uniswapV3.js";
+
+const Q96 = 2n ** 96n;
+const TOKEN = "0xd530521Ca9cb47FFd4E851F1Fe2E448527010B11" as `0x${string}`;
+const WETH = "0x4200000000000000000000000000000000000006" as `0x${string}`;
+const WALLET = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd" as `0x${string}`;
+
+function decodeSwapParams(data: Hex) {
+  const swap = decodeFunctionData({ abi: UNISWAP_V3_SWAP_ROUTER02_ABI, data });
+  if (swap.functionName !== "exactInputSingle") throw new Error(`expected exactInputSingle, got ${swap.functionName}`);
+  return swap.args[0];
+}
+
+// ============================================================
+// Price Math
+// ============================================================
+
+describe("priceWeiFromSqrtPriceX96", () => {
+  it("returns 1 ETH per token at a 1:1 ratio", () => {
+    expect(priceWeiFromSqrtPriceX96(Q96, true, 18)).toBe(10n ** 18n);
+    expect(priceWeiFromSqrtPriceX96(Q96, false, 18)).toBe(10n ** 18n);
+  });
+
+  it("prices token0 from the token1/token0 ratio", () => {
+    // ratio = 1/2^20 WETH per INTERN => sqrt = Q96 / 2^10
+    const sqrt = Q96 / 1024n;
+    expect(priceWeiFromSqrtPriceX96(sqrt, true, 18)).toBe(10n ** 18n / 1024n ** 2n);
+  });
+
+  it("inverts the ratio when the token is token1", () => {
+    // ratio = 1,000,000 INTERN per WETH => sqrt = Q96 * 1000
+    const sqrt = Q96 * 1000n;
+    expect(priceWeiFromSqrtPriceX96(sqrt, false, 18)).toBe(10n ** 12n);
+  });
+
+  it("returns 0 for an uninitialized pool", () => {
+    expect(priceWeiFromSqrtPriceX96(0n, true, 18)).toBe(0n);
+  });
+});
+
+describe("estimateUniswapV3Output", () => {
+  it("deducts the pool fee at spot price", () => {
+    // 1:1 pool, 0.3% fee
+    expect(estimateUniswapV3Output(1_000_000n, Q96, true, 3000)).toBe(997_000n);
+  });
+
+  it("converts through the price in both directions", () => {
+    const sqrt = Q96 * 1000n; // 1,000,000 token1 per token0
+    expect(estimateUniswapV3Output(10n, sqrt, true, 0)).toBe(10_000_000n);
+    expect(estimateUniswapV3Output(10_000_000n, sqrt, false, 0)).toBe(10n);
+  });
+
+  it("returns 0 for non-positive input", () => {
+    expect(estimateUniswapV3Output(0n, Q96, true, 3000)).toBe(0n);
+  });
+});
+
+describe("virtualReservesFromLiquidity", () => {
+  it("splits liquidity into x*y=k reserves at the current price", () => {
+    // price = 1,000,000 token1 per token0 => sqrtP = 1000
+    const { reserve0, reserve1 } = virtualReservesFromLiquidity(10n ** 9n, Q96 * 1000n);
+    expect(reserve0).toBe(10n ** 6n);
+    expect(reserve1).toBe(10n ** 12n);
+  });
+
+  it("returns empty reserves without liquidity", () => {
+    expect(virtualReservesFromLiquidity(0n, Q96)).toEqual({ reserve0: 0n, reserve1: 0n });
+  });
+});
+
+describe("isUniswapV3FeeTier", () => {
+  it("accepts factory fee tiers only", () => {
+    expect(isUniswapV3FeeTier(3000)).toBe(true);
+    expect(isUniswapV3FeeTier(10000)).toBe(true);
+    expect(isUniswapV3FeeTier(2500)).toBe(false);
+  });
+});
+
+// ============================================================
+// SwapRouter02 Calldata
+// ============================================================
+
+describe("buildUniswapV3SwapCalldata", () => {
+  it("wraps a single exactInputSingle in multicall(deadline) for buys", () => {
+    const { calldata, deadline } = buildUniswapV3SwapCalldata(
+      { tokenIn: WETH, tokenOut: TOKEN, fee: 3000, amountIn: 1000n, amountOutMinimum: 900n },
+      WALLET,
+      600
+    );
+
+    const outer = decodeFunctionData({ abi: UNISWAP_V3_SWAP_ROUTER02_ABI, data: calldata });
+    expect(outer.functionName).toBe("multicall");
+    const [decodedDeadline, calls] = outer.args as [bigint, `0x${string}`[]];
+    expect(decodedDeadline).toBe(deadline);
+    expect(calls).toHaveLength(1);
+
+    const params = decodeSwapParams(calls[0]);
+    expect(params.recipient.toLowerCase()).toBe(WALLET.toLowerCase());
+    expect(params.fee).toBe(3000);
+    expect(params.amountOutMinimum).toBe(900n);
+  });
+
+  it("routes output through the router and unwraps WETH for sells", () => {
+    const { calldata } = buildUniswapV3SwapCalldata(
+      { tokenIn: TOKEN, tokenOut: WETH, fee: 10000, amountIn: 5000n, amountOutMinimum: 40n },
+      WALLET,
+      600,
+      WALLET
+    );
+
+    const outer = decodeFunctionData({ abi: UNISWAP_V3_SWAP_ROUTER02_ABI, data: calldata });
+    const [, calls] = outer.args as [bigint, `0x${string}`[]];
+    expect(calls).toHaveLength(2);
+
+    expect(decodeSwapParams(calls[0]).recipient).toBe(ROUTER_ADDRESS_THIS);
+
+    const unwrap = decodeFunctionData({ abi: UNISWAP_V3_SWAP_ROUTER02_ABI, data: calls[1] });
+    expect(unwrap.functionName).toBe("unwrapWETH9");
+    const [amountMinimum, recipient] = unwrap.args as [bigint, string];
+    expect(amountMinimum).toBe(40n);
+    expect(recipient.toLowerCase()).toBe(WALLET.toLowerCase());
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { watchForActivity, parseMinEthDelta, parseMinTokenDelta, type ActivityWatchContext, type ActivityDetectionResult } from "../src/agent/watch.js";
+import {
+  watchForActivity,
+  parseMinEthDelta,
+  parseMinTokenDelta,
+  describeTransfer,
+  type ActivityWatchContext,
+  type ActivityDetectionResult
+} from "../src/agent/watch.js";
 import { parseEther, type Address } from "viem";
 import type { PublicClient } from "viem";
 
@@ -15,6 +22,7 @@ function createMockPublicClient(overrides?: {
   ethBalanceError?: Error;
   tokenBalanceError?: Error;
   blockNumberError?: Error;
+  getLogs?: (args: { fromBlock: bigint; toBlock: bigint; args: { from?: Address; to?: Address } }) => Promise<unknown[]>;
 }): PublicClient {
   return {
     getTransactionCount: vi.fn(async () => {
@@ -32,7 +40,8 @@ function createMockPublicClient(overrides?: {
     getBlockNumber: vi.fn(async () => {
       if (overrides?.blockNumberError) throw overrides.blockNumberError;
       return overrides?.blockNumber ?? 12345n;
-    })
+    }),
+    getLogs: vi.fn(overrides?.getLogs ?? (async () => []))
   } as unknown as PublicClient;
 }
 
@@ -164,10 +173,23 @@ describe("watchForActivity", () => {
       const publicClient = createMockPublicClient({ ethBalanceError: new Error("RPC failed") });
       const ctx = mockContext(publicClient);
 
+      const result = await watchForActivity(ctx, null, (5n * 10n ** 18n).toString(), null, null);
+
+      // Unknown, not 0: nothing stored and no phantom withdrawal
+      expect(result.newStatePatch.lastSeenEthWei).toBeNull();
+      expect(result.balances.ethWei).toBeNull();
+      expect(result.unknown).toEqual(["eth_balance"]);
+      expect(result.deltas.ethChanged).toBe(false);
+    });
+
+    it("reports a real zero balance as known", async () => {
+      const publicClient = createMockPublicClient({ ethBalance: 0n });
+      const ctx = mockContext(publicClient);
+
       const result = await watchForActivity(ctx, null, null, null, null);
 
-      // Should report 0 balance and store in patch
-      expect(result.newStatePatch.lastSeenEthWei).toBe("0");
+      expect(result.balances.ethWei).toBe("0");
+      expect(result.unknown).toEqual([]);
     });
   });
 
@@ -238,9 +260,12 @@ describe("watchForActivity", () => {
       const publicClient = createMockPublicClient({ tokenBalanceError: new Error("RPC failed") });
       const ctx = mockContext(publicClient);
 
-      const result = await watchForActivity(ctx, null, null, null, null);
+      const result = await watchForActivity(ctx, null, null, (100_000n * 10n ** 18n).toString(), null);
 
-      expect(result.newStatePatch.lastSeenTokenRaw).toBe("0");
+      expect(result.newStatePatch.lastSeenTokenRaw).toBeNull();
+      expect(result.balances.tokenRaw).toBeNull();
+      expect(result.unknown).toEqual(["token_balance"]);
+      expect(result.deltas.tokenChanged).toBe(false);
     });
   });
 
@@ -400,6 +425,111 @@ describe("parseMinEthDelta", () => {
   });
 });
 
+describe("transfer log scanning", () => {
+  const WALLET = ("0x" + "a".repeat(40)) as Address;
+  const WHALE = ("0x" + "c".repeat(40)) as Address;
+  const DEX = ("0x" + "d".repeat(40)) as Address;
+
+  function transferLog(from: Address, to: Address, value: bigint, blockNumber: bigint, logIndex = 0) {
+    return {
+      args: { from, to, value },
+      transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+      blockNumber,
+      logIndex
+    };
+  }
+
+  it("returns incoming and outgoing transfers since the last block, oldest first", async () => {
+    const getLogs = async ({ args }: { args: { from?: Address; to?: Address } }) =>
+      args.to === WALLET
+        ? [transferLog(WHALE, WALLET, 1_000_000n * 10n ** 18n, 12340n)]
+        : [transferLog(WALLET, DEX, 250_000n * 10n ** 18n, 12339n)];
+    const ctx = mockContext(createMockPublicClient({ blockNumber: 12345n, getLogs }));
+
+    const result = await watchForActivity(ctx, null, null, null, 12300);
+
+    expect(result.transfers).toEqual([
+      {
+        direction: "out",
+        counterparty: DEX,
+        amountRaw: (250_000n * 10n ** 18n).toString(),
+        txHash: `0x${(12339).toString(16).padStart(64, "0")}`,
+        blockNumber: 12339,
+        logIndex: 0
+      },
+      expect.objectContaining({ direction: "in", counterparty: WHALE, blockNumber: 12340 })
+    ]);
+    expect(result.changed).toBe(true);
+    expect(result.reasons).toEqual(["sent 250K INTERN to 0xdddd…dddd", "received 1M INTERN from 0xcccc…cccc"]);
+  });
+
+  it("scans in block-range chunks", async () => {
+    const publicClient = createMockPublicClient({ blockNumber: 12345n });
+    const ctx = mockContext(publicClient, { logChunkBlocks: 20 });
+
+    await watchForActivity(ctx, null, null, null, 12300);
+
+    const ranges = vi
+      .mocked(publicClient.getLogs)
+      .mock.calls.map(([a]) => [Number(a?.fromBlock), Number(a?.toBlock)]);
+    expect(ranges).toEqual([
+      [12301, 12320],
+      [12301, 12320],
+      [12321, 12340],
+      [12321, 12340],
+      [12341, 12345],
+      [12341, 12345]
+    ]);
+  });
+
+  it("only advances lastSeenBlockNumber through the chunks that succeeded", async () => {
+    const getLogs = async ({ fromBlock }: { fromBlock: bigint }) => {
+      if (fromBlock > 12320n) throw new Error("query returned more than 10000 results");
+      return [];
+    };
+    const ctx = mockContext(createMockPublicClient({ blockNumber: 12345n, getLogs }), { logChunkBlocks: 20 });
+
+    const result = await watchForActivity(ctx, null, null, null, 12300);
+
+    expect(result.unknown).toContain("transfer_logs");
+    expect(result.newStatePatch.lastSeenBlockNumber).toBe(12320);
+  });
+
+  it("reports a self-transfer once and skips scanning without a previous block", async () => {
+    const self = transferLog(WALLET, WALLET, 5n * 10n ** 18n, 12344n);
+    const publicClient = createMockPublicClient({ blockNumber: 12345n, getLogs: async () => [{ ...self }] });
+
+    expect((await watchForActivity(mockContext(publicClient), null, null, null, 12340)).transfers).toHaveLength(1);
+
+    vi.mocked(publicClient.getLogs).mockClear();
+    await watchForActivity(mockContext(publicClient), null, null, null, null);
+    expect(publicClient.getLogs).not.toHaveBeenCalled();
+  });
+
+  it("ignores dust transfers below MIN_TOKEN_DELTA for change detection", async () => {
+    const getLogs = async ({ args }: { args: { to?: Address } }) =>
+      args.to === WALLET ? [transferLog(WHALE, WALLET, 1n, 12344n)] : [];
+    const ctx = mockContext(createMockPublicClient({ blockNumber: 12345n, getLogs }));
+
+    const result = await watchForActivity(ctx, null, null, null, 12340);
+
+    expect(result.transfers).toHaveLength(1);
+    expect(result.changed).toBe(false);
+  });
+
+  it("describes transfers compactly", () => {
+    const t = {
+      direction: "in" as const,
+      counterparty: "0xAbC1230000000000000000000000000000004567" as Address,
+      amountRaw: (1_500_000n * 10n ** 18n).toString(),
+      txHash: "0x01" as `0x${string}`,
+      blockNumber: 1,
+      logIndex: 0
+    };
+    expect(describeTransfer(t, 18)).toBe("received 1.5M INTERN from 0xAbC1…4567");
+  });
+});
+
 describe("parseMinTokenDelta", () => {
   it("parses token amount with decimals", () => {
     const tokenStr = "1000";
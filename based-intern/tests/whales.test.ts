@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Address, PublicClient } from "viem";
+import {
+  buildWhalePost,
+  recordWhaleScan,
+  watchWhales,
+  type WhaleEvent,
+  type WhaleWatchContext,
+  type WhaleWatchState
+} from "../src/agent/whales.js";
+import type { AppConfig } from "../src/config.js";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+const TOKEN = ("0x" + "1".repeat(40)) as Address;
+const POOL = ("0x" + "2".repeat(40)) as Address;
+const WETH = ("0x" + "3".repeat(40)) as Address;
+const WALLET = ("0x" + "a".repeat(40)) as Address;
+const WHALE = ("0x" + "b".repeat(40)) as Address;
+const FRIEND = ("0x" + "c".repeat(40)) as Address;
+const ROUTER = ("0x" + "d".repeat(40)) as Address;
+const E18 = 10n ** 18n;
+
+type LogQuery = { address: Address; event: { name: string }; fromBlock: bigint; toBlock: bigint };
+
+let logIndex = 0;
+function log(blockNumber: number, args: Record<string, unknown>) {
+  return { args, blockNumber: BigInt(blockNumber), logIndex: logIndex++, transactionHash: `0x${blockNumber}` };
+}
+
+function mockClient(opts: {
+  head: number;
+  token0?: Address;
+  transfers?: ReturnType<typeof log>[];
+  swaps?: ReturnType<typeof log>[];
+  failFrom?: number;
+}) {
+  const getLogs = vi.fn(async (q: LogQuery) => {
+    if (opts.failFrom !== undefined && Number(q.fromBlock) >= opts.failFrom) throw new Error("range too large");
+    const all = q.event.name === "Transfer" ? opts.transfers ?? [] : opts.swaps ?? [];
+    return all.filter((l) => l.blockNumber >= q.fromBlock && l.blockNumber <= q.toBlock);
+  });
+  const client = {
+    getBlockNumber: vi.fn(async () => BigInt(opts.head)),
+    readContract: vi.fn(async () => opts.token0 ?? TOKEN),
+    getLogs
+  };
+  return { client: client as unknown as PublicClient, getLogs };
+}
+
+function ctx(publicClient: PublicClient, overrides: Partial<WhaleWatchContext> = {}): WhaleWatchContext {
+  return {
+    publicClient,
+    tokenAddress: TOKEN,
+    pool: null,
+    minAmountRaw: 1_000_000n * E18,
+    watchlist: [FRIEND],
+    ignore: [WALLET],
+    ...overrides
+  };
+}
+
+describe("watchWhales", () => {
+  it("flags large and watchlisted transfers, skipping small ones and our own wallet", async () => {
+    const { client } = mockClient({
+      head: 110,
+      transfers: [
+        log(101, { from: WHALE, to: ROUTER, value: 2_000_000n * E18 }),
+        log(102, { from: WHALE, to: ROUTER, value: 10n * E18 }),
+        log(103, { from: FRIEND, to: WHALE, value: 5n * E18 }),
+        log(104, { from: WHALE, to: WALLET, value: 9_000_000n * E18 })
+      ]
+    });
+
+    const result = await watchWhales(ctx(client), 100);
+
+    expect(result).toMatchObject({ scannedThrough: 110, complete: true });
+    expect(result.events.map((e) => [e.kind, e.blockNumber, e.flags])).toEqual([
+      ["transfer", 101, ["size"]],
+      ["transfer", 103, ["watchlist"]]
+    ]);
+  });
+
+  it("reports Aerodrome swaps as buys and sells instead of pool transfer legs", async () => {
+    const { client } = mockClient({
+      head: 200,
+      token0: WETH, // INTERN is token1
+      transfers: [log(150, { from: POOL, to: WHALE, value: 3_000_000n * E18 })],
+      swaps: [
+        log(150, {
+          sender: ROUTER,
+          to: WHALE,
+          amount0In: E18,
+          amount1In: 0n,
+          amount0Out: 0n,
+          amount1Out: 3_000_000n * E18
+        }),
+        log(160, {
+          sender: ROUTER,
+          to: ROUTER,
+          amount0In: 0n,
+          amount1In: 4_000_000n * E18,
+          amount0Out: E18,
+          amount1Out: 0n
+        })
+      ]
+    });
+
+    const result = await watchWhales(ctx(client, { pool: { address: POOL, type: "aerodrome" } }), 140);
+
+    expect(result.events.map((e) => [e.kind, e.to, e.amountRaw])).toEqual([
+      ["buy", WHALE, (3_000_000n * E18).toString()],
+      ["sell", ROUTER, (4_000_000n * E18).toString()]
+    ]);
+  });
+
+  it("reads Uniswap V3 pool deltas (negative = paid out = buy)", async () => {
+    const { client } = mockClient({
+      head: 50,
+      swaps: [log(45, { sender: ROUTER, recipient: WHALE, amount0: -2_000_000n * E18, amount1: E18 })]
+    });
+
+    const result = await watchWhales(ctx(client, { pool: { address: POOL, type: "uniswap_v3" } }), 40);
+
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0]).toMatchObject({ kind: "buy", to: WHALE, amountRaw: (2_000_000n * E18).toString() });
+  });
+
+  it("stops at a failed chunk so the next tick resumes there", async () => {
+    const { client, getLogs } = mockClient({
+      head: 1_000,
+      failFrom: 601,
+      transfers: [log(550, { from: WHALE, to: ROUTER, value: 2_000_000n * E18 })]
+    });
+
+    const result = await watchWhales(ctx(client, { logChunkBlocks: 300 }), 300);
+
+    expect(getLogs).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ scannedThrough: 600, complete: false });
+    expect(result.events).toHaveLength(1);
+  });
+
+  it("starts at the head on the first run instead of replaying history", async () => {
+    const { client, getLogs } = mockClient({ head: 5_000 });
+
+    const result = await watchWhales(ctx(client), null);
+
+    expect(result).toEqual({ events: [], scannedThrough: 5_000, complete: true });
+    expect(getLogs).not.toHaveBeenCalled();
+  });
+});
+
+describe("whale state and posts", () => {
+  const event = (amount: bigint, flags: WhaleEvent["flags"] = ["size"]): WhaleEvent => ({
+    kind: "buy",
+    from: ROUTER,
+    to: WHALE,
+    amountRaw: (amount * E18).toString(),
+    txHash: "0xabc",
+    blockNumber: 1,
+    logIndex: 0,
+    flags
+  });
+
+  it("advances the cursor and caps recent events", () => {
+    const many = Array.from({ length: 25 }, (_, i) => event(BigInt(i + 1)));
+    const state = recordWhaleScan({} as WhaleWatchState, { events: many, scannedThrough: 99, complete: true });
+
+    expect(state.whaleLastScannedBlock).toBe(99);
+    expect(state.whaleRecentEvents).toHaveLength(20);
+    expect(state.whaleRecentEvents?.[19].amountRaw).toBe((25n * E18).toString());
+  });
+
+  it("builds a whale post listing the largest moves with explorer links", () => {
+    const cfg = { CHAIN: "base", TOKEN_SYMBOL: "INTERN", TOKEN_DECIMALS: 18 } as AppConfig;
+    const post = buildWhalePost(cfg, [event(1_500_000n), event(5_000_000n, ["size", "watchlist"])]);
+
+    expect(post).toContain("whale watch: 2 big INTERN moves spotted.");
+    expect(post!.split("\n")[1]).toBe(
+      "- bought 5M INTERN (to 0xbbbb…bbbb) [watchlist] https://basescan.org/tx/0xabc"
+    );
+    expect(buildWhalePost(cfg, [])).toBeNull();
+  });
+});
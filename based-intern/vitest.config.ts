@@ -1,10 +1,12 @@
-import { defineConfig } from "vitest/config";
+import { configDefaults, defineConfig } from "vitest/config";
 
 export default defineConfig({
   test: {
     globals: true,
     environment: "node",
     include: ["tests/**/*.test.ts"],
+    // Needs compiled contracts + a local Hardhat node; run with `npm run test:integration`.
+    exclude: [...configDefaults.exclude, "tests/integration/**"],
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+
+// End-to-end swap/LP flows against a local Hardhat node running the mock
+// Aerodrome contracts (contracts/mocks). Run with `npm run test:integration`.
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: "node",
+    include: ["tests/integration/**/*.test.ts"],
+    globalSetup: ["tests/integration/hardhatNode.ts"],
+    testTimeout: 60_000,
+    hookTimeout: 60_000,
+    // One node, one funded account: keep the flows sequential.
+    fileParallelism: false
+  }
+});